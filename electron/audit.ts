@@ -0,0 +1,170 @@
+// Append-only audit trail of sensitive changes, written by the IPC layer.
+//
+// Every row carries the SHA-256 of its own contents plus the previous row's
+// hash, so editing or removing a row in the middle of the log breaks the
+// chain from that point on. Triggers (see migrations.ts) make the table
+// append-only for the app itself; the chain catches edits made around it.
+
+import { createHash } from "node:crypto";
+import { and, asc, desc, eq, gte, like, lte, or } from "drizzle-orm";
+import { db, sqlite } from "./db";
+import { auditLog } from "./schema";
+
+const GENESIS_HASH = "0".repeat(64);
+
+export type AuditActor = { id: number; name: string } | null;
+
+export type AuditEntry = {
+  actor: AuditActor;
+  action: "create" | "update" | "delete";
+  entity: string; // "product", "receipt", "user", "settings", ...
+  entityId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+type AuditRow = typeof auditLog.$inferSelect;
+
+function toJson(value: unknown) {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function rowHash(r: Omit<AuditRow, "hash">) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        r.id,
+        r.prevHash,
+        r.actorId,
+        r.actorName,
+        r.action,
+        r.entity,
+        r.entityId,
+        r.before,
+        r.after,
+        new Date(r.createdAt).getTime(),
+      ]),
+    )
+    .digest("hex");
+}
+
+/**
+ * Appends one entry to the chain. Call it inside the same transaction as the
+ * change it records so neither lands without the other.
+ */
+export function writeAudit(entry: AuditEntry) {
+  return sqlite.transaction(() => {
+    const last = db
+      .select({ id: auditLog.id, hash: auditLog.hash })
+      .from(auditLog)
+      .orderBy(desc(auditLog.id))
+      .limit(1)
+      .get();
+
+    const row = {
+      id: (last?.id ?? 0) + 1,
+      prevHash: last?.hash ?? GENESIS_HASH,
+      actorId: entry.actor?.id ?? null,
+      actorName: entry.actor?.name ?? null,
+      action: entry.action,
+      entity: entry.entity,
+      entityId: entry.entityId == null ? null : String(entry.entityId),
+      before: toJson(entry.before),
+      after: toJson(entry.after),
+      // Stored with second precision, so hash what will be read back
+      createdAt: new Date(Math.floor(Date.now() / 1000) * 1000),
+    };
+    db.insert(auditLog)
+      .values({ ...row, hash: rowHash(row) })
+      .run();
+    return row.id;
+  })();
+}
+
+/**
+ * Only the keys whose values differ, as a { before, after } pair; null when
+ * nothing changed. Secrets should be removed by the caller first.
+ */
+export function auditDiff<T extends Record<string, unknown>>(
+  before: T,
+  after: Partial<T>,
+) {
+  const b: Record<string, unknown> = {};
+  const a: Record<string, unknown> = {};
+  for (const key of Object.keys(after)) {
+    const next = after[key];
+    if (next === undefined) continue;
+    const prev = before[key];
+    const time = (v: unknown) =>
+      v instanceof Date ? v.getTime() : new Date(v as string | number).getTime();
+    const same =
+      prev instanceof Date || next instanceof Date
+        ? time(prev) === time(next)
+        : JSON.stringify(prev ?? null) === JSON.stringify(next ?? null);
+    if (same) continue;
+    b[key] = prev ?? null;
+    a[key] = next ?? null;
+  }
+  return Object.keys(a).length > 0 ? { before: b, after: a } : null;
+}
+
+export function getAuditLog(filters: {
+  from: Date;
+  to: Date;
+  action?: string | null;
+  entity?: string | null;
+  query?: string | null; // actor name, entity id or text in before/after
+}) {
+  const q = filters.query?.trim();
+  return db
+    .select()
+    .from(auditLog)
+    .where(
+      and(
+        gte(auditLog.createdAt, filters.from),
+        lte(auditLog.createdAt, filters.to),
+        filters.action ? eq(auditLog.action, filters.action) : undefined,
+        filters.entity ? eq(auditLog.entity, filters.entity) : undefined,
+        q
+          ? or(
+              like(auditLog.actorName, `%${q}%`),
+              eq(auditLog.entityId, q),
+              like(auditLog.before, `%${q}%`),
+              like(auditLog.after, `%${q}%`),
+            )
+          : undefined,
+      ),
+    )
+    .orderBy(desc(auditLog.id))
+    .limit(1000)
+    .all();
+}
+
+/**
+ * Walks the whole chain. Returns the first row that doesn't match its hash or
+ * doesn't follow on from the row before it. Rows cut off the end of the log
+ * can't be told apart from a log that simply stopped there.
+ */
+export function verifyAuditChain() {
+  const rows = db.select().from(auditLog).orderBy(asc(auditLog.id)).all();
+
+  let prev = GENESIS_HASH;
+  let prevId = 0;
+  for (const r of rows) {
+    const { hash, ...rest } = r;
+    const broken = (reason: string) => ({
+      ok: false,
+      checked: rows.length,
+      brokenAt: r.id,
+      reason,
+    });
+    if (r.id !== prevId + 1) return broken(`Entries missing before #${r.id}`);
+    if (r.prevHash !== prev) {
+      return broken(`#${r.id} does not follow on from #${prevId}`);
+    }
+    if (rowHash(rest) !== hash) return broken(`#${r.id} was modified`);
+    prev = hash;
+    prevId = r.id;
+  }
+  return { ok: true, checked: rows.length, brokenAt: null, reason: null };
+}
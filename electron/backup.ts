@@ -0,0 +1,284 @@
+// Database backups: scheduled and on-demand copies of shop.db taken with
+// SQLite's online backup API (safe while the till is in use), rotated in a
+// folder the admin picks (USB drive, network share), plus a checked restore.
+//
+// A restore never overwrites the open database. The chosen file is staged as
+// `shop.db.restore` and the app restarts; db.ts swaps it in before opening.
+
+import Database from "better-sqlite3";
+import { app } from "electron";
+import { eq } from "drizzle-orm";
+import * as fs from "fs";
+import * as path from "path";
+import { db, dbPath, sqlite } from "./db";
+import { settings } from "./schema";
+
+const BACKUP_FILE_RE = /^shop-\d{8}-\d{6}\.db$/;
+const CHECK_EVERY_MS = 15 * 60 * 1000;
+
+// Tables a file must have to be taken for one of our databases
+const REQUIRED_TABLES = ["products", "receipts", "users", "settings"];
+
+export type BackupConfig = {
+  folder: string;
+  intervalHours: number; // 0 = scheduled backups off
+  keep: number;
+};
+
+export type BackupSummary = {
+  file: string;
+  size: number;
+  modifiedAt: Date;
+  counts: {
+    products: number;
+    receipts: number;
+    customers: number;
+    users: number;
+  };
+  lastSaleAt: Date | null;
+};
+
+// The settings table may not exist yet when backing up before the first
+// migration; fall back to the defaults then
+function readSetting(key: string) {
+  try {
+    return db
+      .select({ value: settings.value })
+      .from(settings)
+      .where(eq(settings.key, key))
+      .get()?.value;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeSetting(key: string, value: string) {
+  const now = new Date();
+  db.insert(settings)
+    .values({ key, value, updatedAt: now })
+    .onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: now } })
+    .run();
+}
+
+export function defaultBackupFolder() {
+  return path.join(path.dirname(dbPath), "backups");
+}
+
+export function getBackupConfig(): BackupConfig {
+  const interval = Number(readSetting("backupIntervalHours") ?? 24);
+  const keep = Number(readSetting("backupKeep") ?? 14);
+  return {
+    folder: readSetting("backupFolder")?.trim() || defaultBackupFolder(),
+    intervalHours: Number.isFinite(interval) && interval >= 0 ? interval : 24,
+    keep: Number.isInteger(keep) && keep >= 1 ? keep : 14,
+  };
+}
+
+function stamp(d: Date) {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}-` +
+    `${p(d.getHours())}${p(d.getMinutes())}${p(d.getSeconds())}`
+  );
+}
+
+/** Backups in the configured folder, newest first. */
+export function listBackups() {
+  const { folder } = getBackupConfig();
+  if (!fs.existsSync(folder)) return [];
+  return fs
+    .readdirSync(folder)
+    .filter((f) => BACKUP_FILE_RE.test(f) || f.startsWith("shop-pre-"))
+    .map((f) => {
+      const stat = fs.statSync(path.join(folder, f));
+      return {
+        file: path.join(folder, f),
+        name: f,
+        size: stat.size,
+        modifiedAt: stat.mtime,
+      };
+    })
+    .sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
+}
+
+// Drops the oldest rotated backups beyond `keep`. Pre-restore and
+// pre-migration safety copies are left alone.
+function rotate(folder: string, keep: number) {
+  const rotated = fs
+    .readdirSync(folder)
+    .filter((f) => BACKUP_FILE_RE.test(f))
+    .sort()
+    .reverse();
+  for (const f of rotated.slice(keep)) {
+    fs.rmSync(path.join(folder, f), { force: true });
+  }
+}
+
+type BackupKind = "rotated" | "pre-restore" | "pre-migration";
+
+const running = new Map<BackupKind, Promise<string>>();
+
+/**
+ * Copies the live database into the backup folder and rotates old copies.
+ * Concurrent calls of the same kind share the backup already in progress, so
+ * a pre-restore copy is never a scheduled one that rotation may delete later.
+ * Pre-migration copies always go to the local folder so an unplugged USB
+ * drive can't block startup.
+ */
+export function runBackup(kind: BackupKind = "rotated") {
+  const inFlight = running.get(kind);
+  if (inFlight) return inFlight;
+
+  const job = (async () => {
+    const config = getBackupConfig();
+    const folder =
+      kind === "pre-migration" ? defaultBackupFolder() : config.folder;
+    try {
+      fs.mkdirSync(folder, { recursive: true });
+      const name =
+        kind === "rotated"
+          ? `shop-${stamp(new Date())}.db`
+          : `shop-${kind}-${stamp(new Date())}.db`;
+      const dest = path.join(folder, name);
+      await sqlite.backup(dest);
+      if (kind === "rotated") rotate(folder, config.keep);
+
+      if (kind !== "pre-migration") {
+        writeSetting("lastBackupAt", new Date().toISOString());
+        writeSetting("lastBackupError", "");
+      }
+      return dest;
+    } catch (e) {
+      if (kind !== "pre-migration") writeSetting("lastBackupError", String(e));
+      throw e;
+    }
+  })().finally(() => {
+    running.delete(kind);
+  });
+  running.set(kind, job);
+  return job;
+}
+
+export function getBackupStatus() {
+  const last = readSetting("lastBackupAt");
+  return {
+    ...getBackupConfig(),
+    lastBackupAt: last ? new Date(last) : null,
+    lastError: readSetting("lastBackupError") || null,
+  };
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/** Checks every few minutes whether a scheduled backup is due. */
+export function startBackupSchedule() {
+  if (timer) return;
+  const tick = () => {
+    const { intervalHours, lastBackupAt } = getBackupStatus();
+    if (intervalHours <= 0) return;
+    const due =
+      !lastBackupAt ||
+      Date.now() - lastBackupAt.getTime() >= intervalHours * 3600 * 1000;
+    if (!due) return;
+    runBackup().catch((e) => console.error("❌ Scheduled backup failed:", e));
+  };
+  timer = setInterval(tick, CHECK_EVERY_MS);
+  setTimeout(tick, 60 * 1000);
+}
+
+/**
+ * Opens a backup read-only and checks it's an intact copy of our database.
+ * Throws with a readable reason otherwise.
+ */
+export function inspectBackup(file: string): BackupSummary {
+  if (!fs.existsSync(file)) throw new Error("Backup file not found");
+  if (path.resolve(file) === path.resolve(dbPath)) {
+    throw new Error("That is the live database, not a backup");
+  }
+
+  let src: Database.Database;
+  try {
+    src = new Database(file, { readonly: true, fileMustExist: true });
+  } catch {
+    throw new Error("Not a database file");
+  }
+
+  try {
+    let check: unknown;
+    try {
+      check = src.pragma("quick_check", { simple: true });
+    } catch {
+      throw new Error("Not a database file");
+    }
+    if (check !== "ok") throw new Error(`Backup is damaged: ${String(check)}`);
+
+    const tables = new Set(
+      (
+        src
+          .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+          .all() as { name: string }[]
+      ).map((t) => t.name),
+    );
+    const missing = REQUIRED_TABLES.filter((t) => !tables.has(t));
+    if (missing.length > 0) {
+      throw new Error(`Not a shop backup (missing ${missing.join(", ")})`);
+    }
+
+    const countOf = (table: string) =>
+      tables.has(table)
+        ? Number(
+            (src.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as {
+              n: number;
+            }).n,
+          )
+        : 0;
+    const lastSale = src
+      .prepare("SELECT MAX(receipt_date) AS at FROM receipts")
+      .get() as { at: number | null };
+
+    const stat = fs.statSync(file);
+    return {
+      file,
+      size: stat.size,
+      modifiedAt: stat.mtime,
+      counts: {
+        products: countOf("products"),
+        receipts: countOf("receipts"),
+        customers: countOf("customers"),
+        users: countOf("users"),
+      },
+      // receipt_date is stored in seconds
+      lastSaleAt: lastSale.at ? new Date(lastSale.at * 1000) : null,
+    };
+  } finally {
+    src.close();
+  }
+}
+
+/**
+ * Validates the file, keeps a safety copy of the current data, stages the
+ * backup and restarts the app so it opens on the restored database.
+ * `record` runs once the file checks out, before the safety copy is taken, so
+ * the copy of the data being replaced keeps the audit entry.
+ */
+export async function restoreBackup(
+  file: string,
+  record?: (summary: BackupSummary) => void,
+) {
+  const summary = inspectBackup(file);
+  record?.(summary);
+  const safetyCopy = await runBackup("pre-restore");
+
+  const staged = `${dbPath}.restore`;
+  fs.copyFileSync(file, `${staged}.tmp`);
+  fs.renameSync(`${staged}.tmp`, staged);
+
+  // Give the renderer a moment to show the result before restarting
+  setTimeout(() => {
+    sqlite.close();
+    app.relaunch();
+    app.exit(0);
+  }, 1500);
+
+  return { summary, safetyCopy };
+}
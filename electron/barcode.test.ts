@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { ean13CheckDigit, nextStoreBarcode } from "./barcode";
+
+const storeCode = (body: string) => body + ean13CheckDigit(body);
+
+describe("ean13CheckDigit", () => {
+  it("matches published EAN-13s", () => {
+    expect(ean13CheckDigit("400638133393")).toBe("1");
+    expect(ean13CheckDigit("590123412345")).toBe("7");
+  });
+
+  it("gives 0, not 10, when the weighted sum is a multiple of ten", () => {
+    expect(ean13CheckDigit("000000000000")).toBe("0");
+    expect(ean13CheckDigit("200000000080")).toBe("0");
+  });
+});
+
+describe("nextStoreBarcode", () => {
+  it("starts at serial 1 under an unused prefix", () => {
+    expect(nextStoreBarcode("200", [])).toBe(storeCode("200000000001"));
+  });
+
+  it("continues past the highest serial in use", () => {
+    const taken = [storeCode("200000000007"), storeCode("200000000003"), "8901030865271"];
+    expect(nextStoreBarcode("200", taken)).toBe(storeCode("200000000008"));
+  });
+
+  it("wraps round to fill a gap once the top serial is used", () => {
+    const taken = [storeCode("299999999999"), storeCode("290000000001")];
+    expect(nextStoreBarcode("29", taken)).toBe(storeCode("290000000002"));
+  });
+
+  it("refuses a prefix outside the in-store range", () => {
+    expect(() => nextStoreBarcode("890", [])).toThrow(/not an in-store/);
+  });
+
+  it("fails once every serial under the prefix is taken", () => {
+    const prefix = "2123456";
+    const taken = Array.from({ length: 99999 }, (_, i) =>
+      storeCode(prefix + String(i + 1).padStart(5, "0")),
+    );
+    expect(() => nextStoreBarcode(prefix, taken)).toThrow(/Every barcode under prefix 2123456/);
+  });
+});
@@ -0,0 +1,182 @@
+// 1D barcode encoders for shelf and product labels: EAN-13 for retail codes
+// with a valid check digit, Code 128 for everything else (store SKUs). Also
+// check digits and in-store EAN-13 numbering for new products.
+// Pure: no node/electron imports, so the renderer can draw previews too.
+
+export type Symbology = "ean13" | "code128";
+
+/** Check digit for the first 12 digits of an EAN-13. */
+export function ean13CheckDigit(first12: string) {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += Number(first12[i]) * (i % 2 ? 3 : 1);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidEan13(code: string) {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code) === code[12];
+}
+
+/**
+ * Why a typed or scanned code can't be a product's barcode, or null. Only
+ * 13-digit codes are checked: they're EAN-13s, and a wrong check digit means
+ * a misread or mistyped one. Store SKUs of other shapes pass.
+ */
+export function retailBarcodeError(code: string) {
+  if (!/^\d{13}$/.test(code) || isValidEan13(code)) return null;
+  return `Not a valid EAN-13: the last digit should be ${ean13CheckDigit(code)}`;
+}
+
+// GS1 keeps EAN-13s starting with 2 for use inside a store, so codes made
+// here can't clash with a manufacturer's
+export const STORE_BARCODE_PREFIX_RE = /^2\d{1,6}$/;
+export const DEFAULT_STORE_BARCODE_PREFIX = "200";
+
+/**
+ * The next in-store EAN-13 under `prefix`: one past the highest already used,
+ * wrapping round to fill gaps once the range is used up. `taken` holds the
+ * barcodes already in the catalogue.
+ */
+export function nextStoreBarcode(prefix: string, taken: Iterable<string>) {
+  if (!STORE_BARCODE_PREFIX_RE.test(prefix)) {
+    throw new Error(`${prefix} is not an in-store barcode prefix`);
+  }
+  const used = new Set(taken);
+  const digits = 12 - prefix.length;
+  const limit = 10 ** digits - 1; // serials run 1..limit
+  const make = (serial: number) => {
+    const body = prefix + String(serial).padStart(digits, "0");
+    return body + ean13CheckDigit(body);
+  };
+
+  let last = 0;
+  for (const code of used) {
+    if (code.startsWith(prefix) && isValidEan13(code)) {
+      last = Math.max(last, Number(code.slice(prefix.length, 12)));
+    }
+  }
+  for (let i = 1; i <= limit; i++) {
+    const code = make(((last + i - 1) % limit) + 1);
+    if (!used.has(code)) return code;
+  }
+  throw new Error(
+    `Every barcode under prefix ${prefix} is in use; choose another prefix in Settings`,
+  );
+}
+
+/** EAN-13 when the code is one, else Code 128; null if neither can encode it. */
+export function symbologyFor(code: string): Symbology | null {
+  if (isValidEan13(code)) return "ean13";
+  return /^[\x20-\x7e]+$/.test(code) ? "code128" : null;
+}
+
+// EAN-13 digit patterns (1 = bar) for the left (L, G) and right (R) halves
+const EAN_L = [
+  "0001101", "0011001", "0010011", "0111101", "0100011",
+  "0110001", "0101111", "0111011", "0110111", "0001011",
+];
+const EAN_G = [
+  "0100111", "0110011", "0011011", "0100001", "0011101",
+  "0111001", "0000101", "0010001", "0001001", "0010111",
+];
+const EAN_R = EAN_L.map((p) => p.replace(/./g, (b) => (b === "1" ? "0" : "1")));
+// The first digit is carried by the L/G parity of the next six
+const EAN_PARITY = [
+  "LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG",
+  "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL",
+];
+
+/** The 95 modules of an EAN-13 (1 = bar). */
+export function ean13Modules(code: string) {
+  if (!isValidEan13(code)) throw new Error(`${code} is not a valid EAN-13`);
+  const parity = EAN_PARITY[Number(code[0])];
+  let out = "101";
+  for (let i = 1; i <= 6; i++) {
+    const d = Number(code[i]);
+    out += parity[i - 1] === "L" ? EAN_L[d] : EAN_G[d];
+  }
+  out += "01010";
+  for (let i = 7; i <= 12; i++) out += EAN_R[Number(code[i])];
+  return out + "101";
+}
+
+// Code 128 symbol widths (bar, space, bar, ...) for values 0-106
+const CODE128 = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312",
+  "132212", "221213", "221312", "231212", "112232", "122132", "122231", "113222",
+  "123122", "123221", "223211", "221132", "221231", "213212", "223112", "312131",
+  "311222", "321122", "321221", "312212", "322112", "322211", "212123", "212321",
+  "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121",
+  "313121", "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111", "111224",
+  "111422", "121124", "121421", "141122", "141221", "112214", "112412", "122114",
+  "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112",
+  "421211", "212141", "214121", "412121", "111143", "111341", "131141", "114113",
+  "114311", "411113", "411311", "113141", "114131", "311141", "411131", "211412",
+  "211214", "211232", "2331112",
+];
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+/** The modules of a Code 128 symbol (1 = bar), without quiet zones. */
+export function code128Modules(text: string) {
+  if (!/^[\x20-\x7e]+$/.test(text)) {
+    throw new Error(`${text} has characters Code 128 can't print`);
+  }
+  // Even runs of digits pack two to a symbol in code set C
+  const values =
+    /^\d+$/.test(text) && text.length % 2 === 0 && text.length >= 4
+      ? [START_C, ...(text.match(/\d\d/g) ?? []).map(Number)]
+      : [START_B, ...Array.from(text, (c) => c.charCodeAt(0) - 32)];
+  const checksum =
+    values.reduce((sum, v, i) => sum + v * Math.max(i, 1), 0) % 103;
+
+  let out = "";
+  for (const v of [...values, checksum, STOP]) {
+    Array.from(CODE128[v]).forEach((w, i) => {
+      out += (i % 2 ? "0" : "1").repeat(Number(w));
+    });
+  }
+  return out;
+}
+
+export function barcodeModules(code: string, symbology: Symbology) {
+  return symbology === "ean13" ? ean13Modules(code) : code128Modules(code);
+}
+
+/**
+ * The barcode as an inline SVG, sized in mm so it prints true to scale. The
+ * human-readable text sits under the bars; EAN-13 guard bars run into it.
+ */
+export function barcodeSvg(
+  code: string,
+  symbology: Symbology,
+  opts: { widthMm: number; heightMm: number },
+) {
+  const modules = barcodeModules(code, symbology);
+  const quiet = symbology === "ean13" ? 9 : 10;
+  const total = modules.length + quiet * 2;
+  const textH = 9; // in modules
+  const barH = Math.max(10, (opts.heightMm / opts.widthMm) * total - textH);
+  const guards = new Set(
+    symbology === "ean13" ? [0, 1, 2, 45, 46, 47, 48, 49, 92, 93, 94] : [],
+  );
+
+  let bars = "";
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== "1") continue;
+    const h = guards.has(i) ? barH + textH / 2 : barH;
+    bars += `M${quiet + i} 0h1v${h}h-1z`;
+  }
+  const label =
+    symbology === "ean13"
+      ? `<text x="${quiet - 2}" y="${barH + textH - 1}" text-anchor="end">${code[0]}</text>` +
+        `<text x="${quiet + 24}" y="${barH + textH - 1}" text-anchor="middle">${code.slice(1, 7)}</text>` +
+        `<text x="${quiet + 70}" y="${barH + textH - 1}" text-anchor="middle">${code.slice(7)}</text>`
+      : `<text x="${total / 2}" y="${barH + textH - 1}" text-anchor="middle">${code
+          .replaceAll("&", "&amp;")
+          .replaceAll("<", "&lt;")}</text>`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${opts.widthMm}mm" height="${opts.heightMm}mm" viewBox="0 0 ${total} ${barH + textH}" preserveAspectRatio="none" shape-rendering="crispEdges"><path d="${bars}" fill="#000"/><g font-family="monospace" font-size="8" fill="#000">${label}</g></svg>`;
+}
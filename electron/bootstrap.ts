@@ -9,325 +9,3455 @@ if (!(global as any).__dirname) {
   (global as any).__dirname = import.meta.url;
 }
 
-import type { Database } from "better-sqlite3";
-import { count, eq } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  max,
+  or,
+  sql,
+} from "drizzle-orm";
+import { auditDiff, writeAudit, type AuditActor } from "./audit";
+import {
+  DEFAULT_STORE_BARCODE_PREFIX,
+  nextStoreBarcode,
+  retailBarcodeError,
+  STORE_BARCODE_PREFIX_RE,
+} from "./barcode";
+import type { CatalogueRow } from "./catalogue";
 import { db, sqlite } from "./db";
+import {
+  breakupByRate,
+  gstForLine,
+  gstinStateCode,
+  isInterStateSupply,
+} from "./gst";
+import {
+  DEFAULT_PERMISSIONS,
+  discountPct,
+  EDITABLE_ROLES,
+  isPermission,
+  OVERRIDE_ACTIONS,
+  PERMISSIONS,
+  roleCan,
+  type OverrideAction,
+  type Permission,
+  type PermissionMatrix,
+  type Role,
+} from "./permissions";
+import { applyPromotions, type Promotion } from "./promotions";
 import {
   categories,
+  creditNoteItems,
+  creditNotes,
+  customerLedger,
+  customers,
+  goodsReceivedNotes,
+  loyaltyLedger,
+  grnItems,
+  heldBillItems,
+  heldBills,
+  invoiceSeries,
+  productBatches,
   productLogs,
   products,
+  promotionItems,
+  promotions,
+  purchaseOrderItems,
+  purchaseOrders,
+  receiptItems,
+  receiptTaxBreakup,
   receipts,
+  rolePermissions,
   settings,
+  supervisorOverrides,
+  shiftCashMovements,
+  shifts,
+  stockTakeItems,
+  stockTakes,
+  storeSettings,
   suppliers,
-  transactionItems,
-  transactions,
   users,
 } from "./schema";
+import type { Sheet } from "./spreadsheet";
+
+// Use createRequire for CommonJS modules (bcrypt)
+import { createRequire } from "node:module";
+const require = createRequire(import.meta.url);
+const bcrypt = require("bcrypt");
+
+// creditAmt is the part of a bill put on the customer's khata (credit account),
+// pointsAmt the rupee value of loyalty points redeemed as a tender
+type PaymentSplit = {
+  cashAmt: number;
+  upiAmt: number;
+  cardAmt: number;
+  creditAmt?: number;
+  pointsAmt?: number;
+};
+
+function parseSplit(json: string | null | undefined): Required<PaymentSplit> {
+  try {
+    return JSON.parse(splitToJson(JSON.parse(json ?? "{}")));
+  } catch {
+    return JSON.parse(splitToJson({ cashAmt: 0, upiAmt: 0, cardAmt: 0 }));
+  }
+}
+
+function splitToJson(split: PaymentSplit) {
+  return JSON.stringify({
+    cashAmt: Number(split.cashAmt || 0),
+    upiAmt: Number(split.upiAmt || 0),
+    cardAmt: Number(split.cardAmt || 0),
+    creditAmt: Number(split.creditAmt || 0),
+    pointsAmt: Number(split.pointsAmt || 0),
+  });
+}
+
+/** The role permission matrix: stored rows over the built-in defaults. */
+export function getPermissionMatrix(): PermissionMatrix {
+  const rows = db.select().from(rolePermissions).all();
+  const matrix = {} as PermissionMatrix;
+  for (const role of EDITABLE_ROLES) {
+    const granted = new Set<Permission>(DEFAULT_PERMISSIONS[role]);
+    for (const r of rows) {
+      if (r.role !== role || !isPermission(r.permission)) continue;
+      if (r.allowed) granted.add(r.permission);
+      else granted.delete(r.permission);
+    }
+    matrix[role] = PERMISSIONS.map((p) => p.key).filter((k) => granted.has(k));
+  }
+  return matrix;
+}
+
+/** Stores a role's full permission row (every known permission, allowed or not). */
+export function setRolePermissions(role: string, allowed: string[]) {
+  if (!(EDITABLE_ROLES as readonly string[]).includes(role)) {
+    throw new Error(`Permissions can't be edited for role: ${role}`);
+  }
+  const unknown = allowed.filter((k) => !isPermission(k));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown permission: ${unknown.join(", ")}`);
+  }
+
+  const now = new Date();
+  sqlite.transaction(() => {
+    for (const p of PERMISSIONS) {
+      const values = { allowed: allowed.includes(p.key), updatedAt: now };
+      db.insert(rolePermissions)
+        .values({ role, permission: p.key, ...values })
+        .onConflictDoUpdate({
+          target: [rolePermissions.role, rolePermissions.permission],
+          set: values,
+        })
+        .run();
+    }
+  })();
+}
+
+export function can(role: Role, permission: Permission) {
+  return roleCan(getPermissionMatrix(), role, permission);
+}
+
+/**
+ * Largest bill discount (% of the bill after promotions) allowed without the
+ * `discount.aboveLimit` permission (settings key `discountLimitPct`).
+ */
+export function getDiscountLimitPct() {
+  const row = db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(eq(settings.key, "discountLimitPct"))
+    .get();
+  const pct = Number(row?.value);
+  return Number.isFinite(pct) && pct >= 0 ? pct : 10;
+}
+
+export const SUPERVISOR_PIN_RE = /^\d{4,6}$/;
+
+/** Approvals must be used by a checkout within this window. */
+const OVERRIDE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Thrown when a sale needs a supervisor's approval; the till prompts for a
+ * PIN and retries with the resulting override id.
+ */
+export class OverrideRequiredError extends Error {
+  constructor(
+    readonly action: OverrideAction,
+    message: string,
+    readonly amount: number | null = null,
+  ) {
+    super(message);
+    this.name = "OverrideRequiredError";
+  }
+}
+
+/** Hashes a supervisor PIN, refusing one another user already has. */
+export async function hashSupervisorPin(pin: string, userId: number | null) {
+  if (!SUPERVISOR_PIN_RE.test(pin)) {
+    throw new Error("Supervisor PIN must be 4-6 digits");
+  }
+  const others = db
+    .select({ id: users.id, pinHash: users.pinHash })
+    .from(users)
+    .where(isNotNull(users.pinHash))
+    .all()
+    .filter((u) => u.id !== userId);
+  for (const u of others) {
+    if (await bcrypt.compare(pin, u.pinHash)) {
+      throw new Error("That PIN is already in use, choose another");
+    }
+  }
+  return bcrypt.hash(pin, 10);
+}
+
+/**
+ * Checks a supervisor PIN for a restricted action and records the approval.
+ * The PIN owner must be active and their role must hold the action's
+ * permission; approving your own request is fine when you hold it.
+ */
+export async function approveOverride(args: {
+  action: OverrideAction;
+  pin: string;
+  requestedBy: number;
+  amount?: number | null;
+  detail?: string | null;
+  actor: AuditActor;
+}) {
+  const candidates = db
+    .select()
+    .from(users)
+    .where(and(eq(users.active, true), isNotNull(users.pinHash)))
+    .all();
+
+  let approver: (typeof candidates)[number] | null = null;
+  for (const u of candidates) {
+    if (await bcrypt.compare(args.pin, u.pinHash)) {
+      approver = u;
+      break;
+    }
+  }
+  if (!approver) throw new Error("Incorrect supervisor PIN");
+
+  const { permission, label } = OVERRIDE_ACTIONS[args.action];
+  if (!can(approver.role as Role, permission)) {
+    throw new Error(`${approver.name} can't approve: ${label}`);
+  }
+
+  const approvedBy = approver;
+  const overrideId = sqlite.transaction(() => {
+    const row = {
+      action: args.action,
+      requestedBy: args.requestedBy,
+      approvedBy: approvedBy.id,
+      amount: args.amount ?? null,
+      detail: args.detail?.trim() || null,
+    };
+    const inserted = db
+      .insert(supervisorOverrides)
+      .values({ ...row, createdAt: new Date() })
+      .run();
+    const id = Number(inserted.lastInsertRowid);
+    writeAudit({
+      actor: args.actor,
+      action: "create",
+      entity: "supervisor_override",
+      entityId: id,
+      after: { ...row, approverName: approvedBy.name },
+    });
+    return id;
+  })();
+
+  return {
+    overrideId,
+    approverId: approver.id,
+    approverName: approver.name,
+  };
+}
+
+/**
+ * Finds an unused, recent approval of `action` for this cashier among the ids
+ * the till sent. Must run inside the checkout transaction.
+ */
+function findOverride(
+  ids: number[],
+  action: OverrideAction,
+  requestedBy: number,
+  at: Date,
+) {
+  if (ids.length === 0) return null;
+  return (
+    db
+      .select()
+      .from(supervisorOverrides)
+      .where(
+        and(
+          inArray(supervisorOverrides.id, ids),
+          eq(supervisorOverrides.action, action),
+          eq(supervisorOverrides.requestedBy, requestedBy),
+          isNull(supervisorOverrides.receiptId),
+          gte(
+            supervisorOverrides.createdAt,
+            new Date(at.getTime() - OVERRIDE_TTL_MS),
+          ),
+        ),
+      )
+      .get() ?? null
+  );
+}
+
+export type LoyaltyRules = {
+  enabled: boolean;
+  pointsPerRupee: number;
+  redeemValue: number; // rupees per point
+  excludedCategoryIds: number[];
+};
+
+/** Loyalty rules live in the settings key/value table (loyalty* keys). */
+export function getLoyaltyRules(): LoyaltyRules {
+  const rows = db.select().from(settings).all();
+  const map = new Map(rows.map((r) => [r.key, r.value]));
+  const num = (key: string, fallback: number) => {
+    const n = Number(map.get(key));
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+  };
+
+  return {
+    enabled: map.get("loyaltyEnabled") === "true",
+    pointsPerRupee: num("loyaltyPointsPerRupee", 0.01),
+    redeemValue: num("loyaltyRedeemValue", 1),
+    excludedCategoryIds: String(map.get("loyaltyExcludedCategories") ?? "")
+      .split(",")
+      .map((x) => Number(x.trim()))
+      .filter((x) => Number.isInteger(x) && x > 0),
+  };
+}
+
+export function getLoyaltyBalance(customerId: number) {
+  const row = db
+    .select({
+      points: sql<number>`coalesce(sum(${loyaltyLedger.points}), 0)`,
+    })
+    .from(loyaltyLedger)
+    .where(eq(loyaltyLedger.customerId, customerId))
+    .get();
+  return Number(row?.points ?? 0);
+}
+
+/** Outstanding khata balance (debits minus credits) for a customer. */
+export function getCustomerBalance(customerId: number) {
+  const row = db
+    .select({
+      balance: sql<number>`coalesce(sum(${customerLedger.debit} - ${customerLedger.credit}), 0)`,
+    })
+    .from(customerLedger)
+    .where(eq(customerLedger.customerId, customerId))
+    .get();
+  return Number(row?.balance ?? 0);
+}
+
+/** All promotions with their combo items, in the shape applyPromotions expects. */
+export function getPromotions(): Promotion[] {
+  const promos = db.select().from(promotions).orderBy(asc(promotions.id)).all();
+  const items = db.select().from(promotionItems).all();
+
+  return promos.map((p) => ({
+    id: p.id,
+    name: p.name,
+    type: p.type as Promotion["type"],
+    active: Boolean(p.active),
+    productId: p.productId ?? null,
+    buyQty: p.buyQty ?? null,
+    getQty: p.getQty ?? null,
+    categoryId: p.categoryId ?? null,
+    discountType: (p.discountType as Promotion["discountType"]) ?? null,
+    discountValue: p.discountValue ?? null,
+    comboPrice: p.comboPrice ?? null,
+    items: items
+      .filter((i) => i.promotionId === p.id)
+      .map((i) => ({ productId: i.productId, quantity: Number(i.quantity) })),
+    startDate: p.startDate ?? null,
+    endDate: p.endDate ?? null,
+    startTime: p.startTime ?? null,
+    endTime: p.endTime ?? null,
+    daysOfWeek: p.daysOfWeek ?? null,
+  }));
+}
+
+/** Whether MRPs include GST (settings key `taxInclusive`). */
+export function isTaxInclusive() {
+  const row = db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(eq(settings.key, "taxInclusive"))
+    .get();
+  return row?.value === "true";
+}
+
+/** Store GSTIN from store_settings (first row that has one). */
+export function getStoreGstin() {
+  const row = db
+    .select({ gstin: storeSettings.gstin })
+    .from(storeSettings)
+    .where(and(isNotNull(storeSettings.gstin), sql`trim(${storeSettings.gstin}) <> ''`))
+    .orderBy(asc(storeSettings.id))
+    .get();
+  return row?.gstin?.trim() || null;
+}
+
+/** Indian financial year (April–March) of a date, as "25-26". */
+export function financialYearOf(at: Date) {
+  const start = at.getMonth() >= 3 ? at.getFullYear() : at.getFullYear() - 1;
+  const yy = (n: number) => String(n % 100).padStart(2, "0");
+  return `${yy(start)}-${yy(start + 1)}`;
+}
+
+// GST allows at most 16 characters in an invoice number, so the prefix is
+// kept to 4 ("INV/25-26/00042" is 15)
+export const INVOICE_PREFIX_RE = /^[A-Z0-9]{1,4}$/;
+
+function getInvoicePrefix() {
+  const row = db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(eq(settings.key, "invoicePrefix"))
+    .get();
+  const prefix = row?.value?.trim().toUpperCase() ?? "";
+  return INVOICE_PREFIX_RE.test(prefix) ? prefix : "INV";
+}
+
+/**
+ * Takes the next number in the invoice series for the bill's financial year.
+ * Must run inside the checkout transaction so a failed sale doesn't burn a
+ * number and the series stays gap-free.
+ */
+function nextInvoiceNo(at: Date) {
+  const fy = financialYearOf(at);
+  db.insert(invoiceSeries)
+    .values({ financialYear: fy, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: invoiceSeries.financialYear,
+      set: { lastNumber: sql`${invoiceSeries.lastNumber} + 1` },
+    })
+    .run();
+  const row = db
+    .select({ lastNumber: invoiceSeries.lastNumber })
+    .from(invoiceSeries)
+    .where(eq(invoiceSeries.financialYear, fy))
+    .get();
+  return `${getInvoicePrefix()}/${fy}/${String(row?.lastNumber ?? 1).padStart(5, "0")}`;
+}
+
+/** What bills show as their number; legacy bills predate the series. */
+export function invoiceLabel(r: { id: number; invoiceNo?: string | null }) {
+  return r.invoiceNo || `#${r.id}`;
+}
+
+/**
+ * Prices a cart the same way the POS does: promotion discounts per line first
+ * (see ./promotions), then the bill discount spread pro-rata over what's left,
+ * then GST on each line's net value (see ./gst).
+ *
+ * Each row's `lineAmount` is the pre-discount value excluding tax, so
+ * `lineAmount - lineDiscount + lineTax` is what the customer paid for the
+ * line in either pricing mode.
+ */
+function computeReceiptTotals(args: {
+  items: Array<{ productId: number; qty: number }>;
+  discount: number;
+  at?: Date;
+  taxInclusive?: boolean;
+  interState?: boolean;
+}) {
+  const inclusive = args.taxInclusive ?? isTaxInclusive();
+  const interState = Boolean(args.interState);
+
+  const base = args.items.map((it) => {
+    const p = db.select().from(products).where(eq(products.id, it.productId)).get();
+    if (!p) throw new Error(`Product not found: ${it.productId}`);
+    const qty = Number(it.qty);
+    if (qty <= 0) throw new Error("Invalid quantity");
+    if (Number(p.quantity) < qty) {
+      throw new Error(`Insufficient stock for ${p.productName}`);
+    }
+
+    return { product: p, qty, lineGross: Number(p.mrp) * qty };
+  });
+
+  const promo = applyPromotions(
+    base.map((r) => ({
+      productId: r.product.id,
+      categoryId: r.product.categoryId,
+      unitPrice: Number(r.product.mrp),
+      qty: r.qty,
+    })),
+    getPromotions(),
+    args.at ?? new Date(),
+  );
+
+  const qtyByProduct = new Map<number, number>();
+  for (const r of base) {
+    qtyByProduct.set(r.product.id, (qtyByProduct.get(r.product.id) ?? 0) + r.qty);
+  }
+
+  const subtotal = base.reduce((acc, r) => acc + r.lineGross, 0);
+  const promoDiscount = promo.total;
+  const afterPromo = Math.max(0, subtotal - promoDiscount);
+  const billDiscount = Math.max(
+    0,
+    Math.min(Number(args.discount || 0), afterPromo),
+  );
+
+  const rows = base.map((r) => {
+    const linePromo =
+      ((promo.lineDiscounts.get(r.product.id) ?? 0) * r.qty) /
+      (qtyByProduct.get(r.product.id) || 1);
+    const afterPromoLine = r.lineGross - linePromo;
+    const lineBillDiscount =
+      afterPromo > 0 ? (billDiscount * afterPromoLine) / afterPromo : 0;
+    const lineDiscount = linePromo + lineBillDiscount;
+    const gstRate = Number(r.product.gst || 0);
+    const gst = gstForLine(
+      r.lineGross - lineDiscount,
+      gstRate,
+      inclusive,
+      interState,
+    );
+    return {
+      ...r,
+      linePromo,
+      lineDiscount,
+      lineTax: gst.tax,
+      lineAmount: inclusive ? r.lineGross - gst.tax : r.lineGross,
+      gstRate,
+      gst,
+    };
+  });
+
+  const tax = rows.reduce((acc, r) => acc + r.lineTax, 0);
+  const discount = promoDiscount + billDiscount;
+
+  const total = Math.max(0, subtotal - discount + (inclusive ? 0 : tax));
+  return {
+    rows,
+    subtotal,
+    tax,
+    discount,
+    promoDiscount,
+    billDiscount,
+    appliedPromotions: promo.applied,
+    taxBreakup: breakupByRate(
+      rows.map((r) => ({ ...r.gst, gstRate: r.gstRate })),
+    ),
+    taxInclusive: inclusive,
+    interState,
+    total,
+  };
+}
+
+/**
+ * Draws `qty` out of a product's batches, earliest expiry first (batches
+ * without an expiry date go last). Stock that isn't tracked in any batch is
+ * simply left to products.quantity. Must run inside a transaction.
+ */
+function consumeBatchesFefo(productId: number, qty: number) {
+  let remaining = qty;
+
+  const batches = db
+    .select({ id: productBatches.id, quantity: productBatches.quantity })
+    .from(productBatches)
+    .where(
+      and(
+        eq(productBatches.productId, productId),
+        gt(productBatches.quantity, 0),
+      ),
+    )
+    .orderBy(
+      sql`${productBatches.expiryDate} IS NULL`,
+      asc(productBatches.expiryDate),
+      asc(productBatches.id),
+    )
+    .all();
+
+  for (const b of batches) {
+    if (remaining <= 0) break;
+    const take = Math.min(Number(b.quantity), remaining);
+    db.update(productBatches)
+      .set({ quantity: Number(b.quantity) - take })
+      .where(eq(productBatches.id, b.id))
+      .run();
+    remaining -= take;
+  }
+}
+
+// Stock coming back (returns, a stock-take surplus) goes on the newest batch
+// that hasn't expired; with none left only the product total moves. Sale lines
+// don't record their batch, so this is the best match for a return.
+function restockBatch(productId: number, qty: number) {
+  const batch = db
+    .select({ id: productBatches.id, quantity: productBatches.quantity })
+    .from(productBatches)
+    .where(
+      and(
+        eq(productBatches.productId, productId),
+        or(
+          isNull(productBatches.expiryDate),
+          gt(productBatches.expiryDate, new Date()),
+        ),
+      ),
+    )
+    .orderBy(desc(productBatches.receivedAt), desc(productBatches.id))
+    .get();
+  if (!batch) return;
+
+  db.update(productBatches)
+    .set({ quantity: Number(batch.quantity) + qty })
+    .where(eq(productBatches.id, batch.id))
+    .run();
+}
+
+/**
+ * Batches with stock left whose expiry falls within `warningDays` from now,
+ * including ones that have already expired.
+ */
+export function getExpiringBatches(warningDays: number) {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() + warningDays * 24 * 60 * 60 * 1000);
+
+  const rows = db
+    .select({
+      id: productBatches.id,
+      productId: productBatches.productId,
+      productName: products.productName,
+      barcode: products.barcode,
+      batchNo: productBatches.batchNo,
+      expiryDate: productBatches.expiryDate,
+      quantity: productBatches.quantity,
+      cost: productBatches.cost,
+    })
+    .from(productBatches)
+    .innerJoin(products, eq(products.id, productBatches.productId))
+    .where(
+      and(
+        gt(productBatches.quantity, 0),
+        isNotNull(productBatches.expiryDate),
+        lte(productBatches.expiryDate, cutoff),
+      ),
+    )
+    .orderBy(asc(productBatches.expiryDate))
+    .all();
+
+  return rows.map((r) => {
+    const expiry = r.expiryDate ? new Date(r.expiryDate) : null;
+    const daysLeft = expiry
+      ? Math.ceil((expiry.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+      : null;
+    return {
+      ...r,
+      daysLeft,
+      status: expiry && expiry.getTime() < now.getTime() ? "expired" : "near",
+    };
+  });
+}
+
+// The till rounds bills to the nearest rupee
+const MAX_ROUND_OFF = 0.5;
+
+export function createReceiptWithItems(args: {
+  createdBy: number;
+  receiptDate: Date;
+  discount: number;
+  paymentSplit: PaymentSplit;
+  items: Array<{ productId: number; qty: number }>;
+  customerId?: number | null;
+  redeemPoints?: number;
+  expectedPromoDiscount?: number | null;
+  shiftId?: number | null;
+  // Bill discount cap (% after promotions) for cashiers without the
+  // discount.aboveLimit permission; null = no cap
+  maxDiscountPct?: number | null;
+  allowBelowCost?: boolean;
+  // Supervisor approvals (approveOverride) the till collected for this sale
+  overrideIds?: number[];
+}) {
+  const tx = sqlite.transaction(() => {
+    // B2B sales to a customer registered in another state are IGST
+    const customerGstin =
+      args.customerId != null
+        ? (db
+            .select({ gstin: customers.gstin })
+            .from(customers)
+            .where(eq(customers.id, args.customerId))
+            .get()?.gstin ?? null)
+        : null;
+
+    const {
+      rows,
+      tax,
+      discount,
+      subtotal,
+      promoDiscount,
+      billDiscount,
+      appliedPromotions,
+      taxBreakup,
+      taxInclusive,
+      interState,
+      total,
+    } = computeReceiptTotals({
+      items: args.items,
+      discount: args.discount,
+      at: args.receiptDate,
+      interState: isInterStateSupply(getStoreGstin(), customerGstin),
+    });
+
+    // The cart priced its promotions locally; refuse to save if main disagrees
+    if (
+      args.expectedPromoDiscount != null &&
+      Math.abs(Number(args.expectedPromoDiscount) - promoDiscount) > 0.01
+    ) {
+      throw new Error(
+        `Promotions changed (expected ${Number(args.expectedPromoDiscount).toFixed(2)} off, now ${promoDiscount.toFixed(2)}). Review the cart and try again.`,
+      );
+    }
+
+    // Past the cashier's own limits a supervisor approval must cover the sale
+    const overrideIds = (args.overrideIds ?? []).map(Number);
+    const usedOverrides: number[] = [];
+    if (args.maxDiscountPct != null) {
+      const pct = discountPct(billDiscount, subtotal - promoDiscount);
+      if (pct > args.maxDiscountPct + 0.001) {
+        const o = findOverride(
+          overrideIds,
+          "discount",
+          args.createdBy,
+          args.receiptDate,
+        );
+        if (!o || pct > Number(o.amount ?? 0) + 0.001) {
+          throw new OverrideRequiredError(
+            "discount",
+            `Discount of ${pct.toFixed(1)}% is above the ${args.maxDiscountPct}% limit for your role`,
+            Math.round(pct * 10) / 10,
+          );
+        }
+        usedOverrides.push(o.id);
+      }
+    }
+    if (!args.allowBelowCost) {
+      const below = rows.filter(
+        (r) => r.gst.taxableValue < Number(r.product.cost) * r.qty - 0.005,
+      );
+      if (below.length > 0) {
+        const o = findOverride(
+          overrideIds,
+          "belowCost",
+          args.createdBy,
+          args.receiptDate,
+        );
+        if (!o) {
+          throw new OverrideRequiredError(
+            "belowCost",
+            `Selling below cost: ${below.map((r) => r.product.productName).join(", ")}`,
+          );
+        }
+        usedOverrides.push(o.id);
+      }
+    }
+
+    // The tenders must pay for the bill: nothing negative, and adding up to
+    // the total give or take the till's rounding to the nearest rupee
+    const tenders = JSON.parse(splitToJson(args.paymentSplit)) as Required<PaymentSplit>;
+    const tendered = Object.values(tenders).reduce((a, v) => a + v, 0);
+    if (Object.values(tenders).some((v) => !Number.isFinite(v) || v < 0)) {
+      throw new Error("Payment amounts can't be negative");
+    }
+    if (tenders.creditAmt > total + 0.01) {
+      throw new Error("Credit can't be more than the bill total");
+    }
+    if (Math.abs(tendered - total) > MAX_ROUND_OFF + 0.01) {
+      throw new Error(
+        `Payments (${tendered.toFixed(2)}) don't add up to the bill total (${total.toFixed(2)})`,
+      );
+    }
+
+    const customerId = args.customerId ?? null;
+    const creditAmt = tenders.creditAmt;
+    if (customerId != null) {
+      const customer = db
+        .select()
+        .from(customers)
+        .where(eq(customers.id, customerId))
+        .get();
+      if (!customer) throw new Error(`Customer not found: ${customerId}`);
+      if (!customer.active) throw new Error(`${customer.name} is inactive`);
+
+      const limit = Number(customer.creditLimit || 0);
+      if (creditAmt > 0 && limit > 0) {
+        const balance = getCustomerBalance(customerId);
+        if (balance + creditAmt > limit + 0.01) {
+          throw new Error(
+            `Credit limit exceeded for ${customer.name} (balance ${balance.toFixed(2)}, limit ${limit.toFixed(2)})`,
+          );
+        }
+      }
+    } else if (creditAmt > 0) {
+      throw new Error("Attach a customer to sell on credit");
+    }
+
+    const loyalty = getLoyaltyRules();
+    const redeemPoints = Math.max(
+      0,
+      Math.floor(Number(args.redeemPoints || 0)),
+    );
+    const pointsAmt = Number(args.paymentSplit.pointsAmt || 0);
+    if (redeemPoints > 0 || pointsAmt > 0) {
+      if (!loyalty.enabled) throw new Error("Loyalty points are disabled");
+      if (customerId == null) {
+        throw new Error("Attach a customer to redeem points");
+      }
+      const available = getLoyaltyBalance(customerId);
+      if (redeemPoints > available + 1e-9) {
+        throw new Error(`Only ${available} point(s) available to redeem`);
+      }
+      const expected = redeemPoints * loyalty.redeemValue;
+      if (Math.abs(expected - pointsAmt) > 0.01) {
+        throw new Error(
+          `Points tender (${pointsAmt.toFixed(2)}) does not match ${redeemPoints} point(s) (${expected.toFixed(2)})`,
+        );
+      }
+      if (pointsAmt > total + 0.01) {
+        throw new Error("Points redeemed exceed the bill total");
+      }
+    }
+
+    const invoiceNo = nextInvoiceNo(args.receiptDate);
+
+    const inserted = db
+      .insert(receipts)
+      .values({
+        invoiceNo,
+        shiftId: args.shiftId ?? null,
+        totalAmount: total,
+        tax,
+        paymentSplit: splitToJson(args.paymentSplit),
+        discount,
+        receiptDate: args.receiptDate,
+        createdBy: args.createdBy,
+        customerId,
+        taxInclusive,
+        interState,
+      })
+      .run();
+
+    const receiptId = Number(inserted.lastInsertRowid);
+
+    if (usedOverrides.length > 0) {
+      db.update(supervisorOverrides)
+        .set({ receiptId })
+        .where(inArray(supervisorOverrides.id, usedOverrides))
+        .run();
+    }
+
+    for (const b of taxBreakup) {
+      db.insert(receiptTaxBreakup)
+        .values({
+          receiptId,
+          gstRate: b.gstRate,
+          taxableValue: b.taxableValue,
+          cgst: b.cgst,
+          sgst: b.sgst,
+          igst: b.igst,
+        })
+        .run();
+    }
+    let eligibleSpend = 0;
+
+    if (customerId != null && creditAmt > 0) {
+      db.insert(customerLedger)
+        .values({
+          customerId,
+          type: "sale",
+          receiptId,
+          debit: creditAmt,
+          credit: 0,
+          note: `Bill ${invoiceNo}`,
+          entryDate: args.receiptDate,
+          createdBy: args.createdBy,
+        })
+        .run();
+    }
+
+    for (const r of rows) {
+      const lineDiscount = r.lineDiscount;
+
+      db.insert(receiptItems)
+        .values({
+          receiptId,
+          productId: r.product.id,
+          quantity: r.qty,
+          unitPrice: Number(r.product.mrp),
+          amount: r.lineAmount,
+          tax: r.lineTax,
+          discount: lineDiscount,
+          hsn: r.product.hsn ?? null,
+          gstRate: r.gstRate,
+          taxableValue: r.gst.taxableValue,
+          cgst: r.gst.cgst,
+          sgst: r.gst.sgst,
+          igst: r.gst.igst,
+        })
+        .run();
+
+      db.insert(productLogs)
+        .values({
+          productId: r.product.id,
+          receiptId,
+          type: "sale",
+          quantity: r.qty,
+          amount: r.lineAmount,
+          tax: r.lineTax,
+          discount: lineDiscount,
+          datetime: args.receiptDate,
+        })
+        .run();
+
+      consumeBatchesFefo(r.product.id, r.qty);
+
+      if (!loyalty.excludedCategoryIds.includes(r.product.categoryId)) {
+        eligibleSpend += r.lineAmount - lineDiscount + r.lineTax;
+      }
+
+      db.update(products)
+        .set({
+          quantity: Number(r.product.quantity) - r.qty,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, r.product.id))
+        .run();
+    }
+
+    let pointsEarned = 0;
+    if (customerId != null && loyalty.enabled) {
+      if (redeemPoints > 0) {
+        db.insert(loyaltyLedger)
+          .values({
+            customerId,
+            type: "redeem",
+            receiptId,
+            points: -redeemPoints,
+            value: pointsAmt,
+            note: `Bill ${invoiceNo}`,
+            entryDate: args.receiptDate,
+            createdBy: args.createdBy,
+          })
+          .run();
+      }
+
+      // Value paid with points doesn't earn points again
+      const paidShare = total > 0 ? Math.max(0, total - pointsAmt) / total : 0;
+      pointsEarned = Math.floor(
+        eligibleSpend * paidShare * loyalty.pointsPerRupee,
+      );
+      if (pointsEarned > 0) {
+        db.insert(loyaltyLedger)
+          .values({
+            customerId,
+            type: "earn",
+            receiptId,
+            points: pointsEarned,
+            value: 0,
+            note: `Bill ${invoiceNo}`,
+            entryDate: args.receiptDate,
+            createdBy: args.createdBy,
+          })
+          .run();
+      }
+    }
+
+    return {
+      receiptId,
+      invoiceNo,
+      totalAmount: total,
+      tax,
+      discount,
+      promoDiscount,
+      appliedPromotions,
+      taxBreakup,
+      pointsEarned,
+      pointsRedeemed: redeemPoints,
+    };
+  });
+
+  return tx();
+}
+
+/**
+ * Takes back the share of points earned on a bill that matches the share of
+ * the bill being refunded. Must run inside a transaction.
+ */
+function reverseLoyaltyForReturn(args: {
+  customerId: number;
+  receiptId: number;
+  receiptTotal: number;
+  refundTotal: number;
+  creditNoteNo: string;
+  entryDate: Date;
+  createdBy: number;
+}) {
+  if (args.receiptTotal <= 0) return;
+
+  const rows = db
+    .select({ type: loyaltyLedger.type, points: loyaltyLedger.points })
+    .from(loyaltyLedger)
+    .where(eq(loyaltyLedger.receiptId, args.receiptId))
+    .all();
+  const earned = rows
+    .filter((r) => r.type === "earn")
+    .reduce((acc, r) => acc + Number(r.points), 0);
+  const reversed = rows
+    .filter((r) => r.type === "reverse")
+    .reduce((acc, r) => acc - Number(r.points), 0);
+  const remaining = earned - reversed;
+  if (remaining <= 0) return;
+
+  const share = Math.min(1, args.refundTotal / args.receiptTotal);
+  const points = Math.min(remaining, Math.ceil(earned * share));
+  if (points <= 0) return;
+
+  db.insert(loyaltyLedger)
+    .values({
+      customerId: args.customerId,
+      type: "reverse",
+      receiptId: args.receiptId,
+      points: -points,
+      value: 0,
+      note: args.creditNoteNo,
+      entryDate: args.entryDate,
+      createdBy: args.createdBy,
+    })
+    .run();
+}
+
+/**
+ * What is left to give back of the part of a bill paid with points: its rupee
+ * value and points, against the part of the bill not yet refunded. A return
+ * gives back the same share of it as it refunds of `billLeft`.
+ */
+export function getPointsRefundable(receiptId: number) {
+  const none = { value: 0, points: 0, billLeft: 0 };
+  const receipt = db
+    .select({
+      totalAmount: receipts.totalAmount,
+      paymentSplit: receipts.paymentSplit,
+    })
+    .from(receipts)
+    .where(eq(receipts.id, receiptId))
+    .get();
+  if (!receipt) return none;
+
+  const refunded = db
+    .select({ total: sql<number>`COALESCE(SUM(${creditNotes.totalAmount}), 0)` })
+    .from(creditNotes)
+    .where(eq(creditNotes.receiptId, receiptId))
+    .get();
+  const billLeft = r2(Number(receipt.totalAmount) - Number(refunded?.total ?? 0));
+
+  const paid = parseSplit(receipt.paymentSplit).pointsAmt;
+  if (paid <= 0 || billLeft <= 0) return { ...none, billLeft: Math.max(0, billLeft) };
+
+  const rows = db
+    .select({
+      type: loyaltyLedger.type,
+      points: loyaltyLedger.points,
+      value: loyaltyLedger.value,
+    })
+    .from(loyaltyLedger)
+    .where(eq(loyaltyLedger.receiptId, receiptId))
+    .all();
+  const sum = (type: string, key: "points" | "value") =>
+    rows
+      .filter((r) => r.type === type)
+      .reduce((acc, r) => acc + Number(r[key]), 0);
+
+  return {
+    value: Math.max(0, r2(paid - sum("refund", "value"))),
+    points: Math.max(0, -sum("redeem", "points") - sum("refund", "points")),
+    billLeft,
+  };
+}
+
+/**
+ * Item lines of the bills and credit notes dated in a range, newest first,
+ * shaped like product logs ("sale" / "return") for the sales reports. Read
+ * from the sales ledger itself, so reports always agree with the bills.
+ */
+export function getSalesLines(from: Date, to: Date) {
+  const sold = db
+    .select({
+      id: receiptItems.id,
+      productId: receiptItems.productId,
+      receiptId: receiptItems.receiptId,
+      quantity: receiptItems.quantity,
+      amount: receiptItems.amount,
+      tax: receiptItems.tax,
+      discount: receiptItems.discount,
+      datetime: receipts.receiptDate,
+    })
+    .from(receiptItems)
+    .innerJoin(receipts, eq(receipts.id, receiptItems.receiptId))
+    .where(and(gte(receipts.receiptDate, from), lte(receipts.receiptDate, to)))
+    .all()
+    .map((l) => ({ ...l, type: "sale" as const }));
+
+  const returned = db
+    .select({
+      id: creditNoteItems.id,
+      productId: creditNoteItems.productId,
+      receiptId: creditNotes.receiptId,
+      quantity: creditNoteItems.quantity,
+      amount: creditNoteItems.amount,
+      tax: creditNoteItems.tax,
+      discount: creditNoteItems.discount,
+      datetime: creditNotes.noteDate,
+    })
+    .from(creditNoteItems)
+    .innerJoin(creditNotes, eq(creditNotes.id, creditNoteItems.creditNoteId))
+    .where(and(gte(creditNotes.noteDate, from), lte(creditNotes.noteDate, to)))
+    .all()
+    .map((l) => ({ ...l, type: "return" as const }));
+
+  return [...sold, ...returned].sort(
+    (a, b) => b.datetime.getTime() - a.datetime.getTime(),
+  );
+}
+
+/**
+ * Lines of a receipt with how much of each product has already been returned
+ * through earlier credit notes. Refund values are per unit and include tax,
+ * net of the pro-rata bill discount applied at checkout.
+ */
+export function getReturnableLines(receiptId: number) {
+  const sold = db
+    .select({
+      productId: receiptItems.productId,
+      productName: products.productName,
+      quantity: receiptItems.quantity,
+      unitPrice: receiptItems.unitPrice,
+      amount: receiptItems.amount,
+      tax: receiptItems.tax,
+      discount: receiptItems.discount,
+    })
+    .from(receiptItems)
+    .innerJoin(products, eq(products.id, receiptItems.productId))
+    .where(eq(receiptItems.receiptId, receiptId))
+    .all();
+
+  const returned = db
+    .select({
+      productId: creditNoteItems.productId,
+      quantity: creditNoteItems.quantity,
+    })
+    .from(creditNoteItems)
+    .innerJoin(creditNotes, eq(creditNotes.id, creditNoteItems.creditNoteId))
+    .where(eq(creditNotes.receiptId, receiptId))
+    .all();
+
+  const returnedByProduct = new Map<number, number>();
+  for (const r of returned) {
+    returnedByProduct.set(
+      r.productId,
+      (returnedByProduct.get(r.productId) ?? 0) + Number(r.quantity),
+    );
+  }
+
+  return sold.map((l) => {
+    const qty = Number(l.quantity);
+    const returnedQty = returnedByProduct.get(l.productId) ?? 0;
+    return {
+      productId: l.productId,
+      productName: l.productName,
+      soldQty: qty,
+      returnedQty,
+      returnableQty: Math.max(0, qty - returnedQty),
+      unitPrice: Number(l.unitPrice),
+      // ex-tax value when the bill was priced tax-inclusive
+      unitAmount: qty > 0 ? Number(l.amount) / qty : 0,
+      unitTax: qty > 0 ? Number(l.tax) / qty : 0,
+      unitDiscount: qty > 0 ? Number(l.discount) / qty : 0,
+      unitRefund:
+        qty > 0
+          ? (Number(l.amount) - Number(l.discount) + Number(l.tax)) / qty
+          : 0,
+    };
+  });
+}
+
+export function createReturnForReceipt(args: {
+  receiptId: number;
+  createdBy: number;
+  noteDate: Date;
+  reason?: string | null;
+  refundSplit: PaymentSplit;
+  items: Array<{ productId: number; qty: number }>;
+}) {
+  const tx = sqlite.transaction(() => {
+    const receipt = db
+      .select()
+      .from(receipts)
+      .where(eq(receipts.id, args.receiptId))
+      .get();
+    if (!receipt) throw new Error(`Receipt not found: ${args.receiptId}`);
+
+    const lines = new Map(
+      getReturnableLines(args.receiptId).map((l) => [l.productId, l]),
+    );
+
+    const rows = args.items
+      .filter((it) => Number(it.qty) > 0)
+      .map((it) => {
+        const line = lines.get(it.productId);
+        if (!line) {
+          throw new Error(`Product ${it.productId} is not on this receipt`);
+        }
+        const qty = Number(it.qty);
+        if (qty > line.returnableQty + 1e-9) {
+          throw new Error(
+            `Cannot return ${qty} of ${line.productName} (only ${line.returnableQty} returnable)`,
+          );
+        }
+        return {
+          line,
+          qty,
+          amount: line.unitAmount * qty,
+          tax: line.unitTax * qty,
+          discount: line.unitDiscount * qty,
+          refund: line.unitRefund * qty,
+        };
+      });
+
+    if (rows.length === 0) throw new Error("Nothing to return");
+
+    const total = rows.reduce((acc, r) => acc + r.refund, 0);
+    const tax = rows.reduce((acc, r) => acc + r.tax, 0);
+
+    // The share paid with points goes back as points; the rest as money
+    const refundable = getPointsRefundable(args.receiptId);
+    const share =
+      refundable.billLeft > 0 ? Math.min(1, total / refundable.billLeft) : 0;
+    const pointsBack = {
+      value: r2(refundable.value * share),
+      points: Math.round(refundable.points * share),
+    };
+
+    const split = JSON.parse(
+      splitToJson({ ...args.refundSplit, pointsAmt: pointsBack.value }),
+    ) as Required<PaymentSplit>;
+    const splitTotal =
+      split.cashAmt + split.upiAmt + split.cardAmt + split.creditAmt;
+    const moneyTotal = total - pointsBack.value;
+    if (Math.abs(splitTotal - moneyTotal) > 0.01) {
+      throw new Error(
+        `Refund split (${splitTotal.toFixed(2)}) does not match refund total (${moneyTotal.toFixed(2)})`,
+      );
+    }
+    if (split.creditAmt > 0 && receipt.customerId == null) {
+      throw new Error("Only bills with a customer can be refunded to credit");
+    }
+
+    const lastNote = db
+      .select({ id: max(creditNotes.id) })
+      .from(creditNotes)
+      .get();
+    const creditNoteNo = `CN-${String(Number(lastNote?.id ?? 0) + 1).padStart(6, "0")}`;
+
+    const inserted = db
+      .insert(creditNotes)
+      .values({
+        creditNoteNo,
+        receiptId: args.receiptId,
+        totalAmount: total,
+        tax,
+        refundSplit: splitToJson(split),
+        reason: args.reason ?? null,
+        noteDate: args.noteDate,
+        createdBy: args.createdBy,
+        shiftId: getOpenShift(args.createdBy)?.id ?? null,
+      })
+      .run();
+
+    const creditNoteId = Number(inserted.lastInsertRowid);
+
+    if (receipt.customerId != null && pointsBack.value > 0) {
+      db.insert(loyaltyLedger)
+        .values({
+          customerId: receipt.customerId,
+          type: "refund",
+          receiptId: args.receiptId,
+          points: pointsBack.points,
+          value: pointsBack.value,
+          note: creditNoteNo,
+          entryDate: args.noteDate,
+          createdBy: args.createdBy,
+        })
+        .run();
+    }
+
+    if (receipt.customerId != null) {
+      reverseLoyaltyForReturn({
+        customerId: receipt.customerId,
+        receiptId: args.receiptId,
+        receiptTotal: Number(receipt.totalAmount),
+        refundTotal: total,
+        creditNoteNo,
+        entryDate: args.noteDate,
+        createdBy: args.createdBy,
+      });
+    }
+
+    if (receipt.customerId != null && split.creditAmt > 0) {
+      db.insert(customerLedger)
+        .values({
+          customerId: receipt.customerId,
+          type: "return",
+          receiptId: args.receiptId,
+          creditNoteId,
+          debit: 0,
+          credit: split.creditAmt,
+          note: creditNoteNo,
+          entryDate: args.noteDate,
+          createdBy: args.createdBy,
+        })
+        .run();
+    }
+
+    for (const r of rows) {
+      db.insert(creditNoteItems)
+        .values({
+          creditNoteId,
+          productId: r.line.productId,
+          quantity: r.qty,
+          unitPrice: r.line.unitPrice,
+          amount: r.amount,
+          tax: r.tax,
+          discount: r.discount,
+        })
+        .run();
+
+      db.insert(productLogs)
+        .values({
+          productId: r.line.productId,
+          receiptId: args.receiptId,
+          type: "return",
+          quantity: r.qty,
+          amount: r.amount,
+          tax: r.tax,
+          discount: r.discount,
+          datetime: args.noteDate,
+        })
+        .run();
+
+      const p = db
+        .select({ quantity: products.quantity })
+        .from(products)
+        .where(eq(products.id, r.line.productId))
+        .get();
+      db.update(products)
+        .set({
+          quantity: Number(p?.quantity ?? 0) + r.qty,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, r.line.productId))
+        .run();
+      restockBatch(r.line.productId, r.qty);
+    }
+
+    return { creditNoteId, creditNoteNo, totalAmount: total, tax };
+  });
+
+  return tx();
+}
+
+/**
+ * Records money collected against a customer's khata. The split says how it
+ * was paid (cash/UPI/card) so it can be reconciled with the drawer later.
+ */
+export function collectCustomerPayment(args: {
+  customerId: number;
+  createdBy: number;
+  entryDate: Date;
+  paymentSplit: PaymentSplit;
+  note?: string | null;
+}) {
+  const tx = sqlite.transaction(() => {
+    const customer = db
+      .select()
+      .from(customers)
+      .where(eq(customers.id, args.customerId))
+      .get();
+    if (!customer) throw new Error(`Customer not found: ${args.customerId}`);
+
+    const split = JSON.parse(
+      splitToJson({ ...args.paymentSplit, creditAmt: 0 }),
+    ) as Required<PaymentSplit>;
+    const amount = split.cashAmt + split.upiAmt + split.cardAmt;
+    if (!(amount > 0)) throw new Error("Payment amount must be positive");
+
+    const inserted = db
+      .insert(customerLedger)
+      .values({
+        customerId: args.customerId,
+        type: "payment",
+        debit: 0,
+        credit: amount,
+        paymentSplit: splitToJson(split),
+        note: args.note ?? null,
+        entryDate: args.entryDate,
+        createdBy: args.createdBy,
+        shiftId: getOpenShift(args.createdBy)?.id ?? null,
+      })
+      .run();
+
+    return {
+      entryId: Number(inserted.lastInsertRowid),
+      amount,
+      balance: getCustomerBalance(args.customerId),
+    };
+  });
+
+  return tx();
+}
+
+/** Hours a held bill is kept before it's discarded (settings key `holdExpiryHours`). */
+export function getHoldExpiryHours() {
+  const row = db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(eq(settings.key, "holdExpiryHours"))
+    .get();
+  const hours = Number(row?.value);
+  return Number.isFinite(hours) && hours > 0 ? hours : 24;
+}
+
+/** Drops held bills past their expiry. Returns how many were removed. */
+export function purgeExpiredHolds(now: Date) {
+  const tx = sqlite.transaction(() => {
+    const stale = db
+      .select({ id: heldBills.id })
+      .from(heldBills)
+      .where(lt(heldBills.expiresAt, now))
+      .all()
+      .map((h) => h.id);
+    if (stale.length === 0) return 0;
+
+    db.delete(heldBillItems)
+      .where(inArray(heldBillItems.heldBillId, stale))
+      .run();
+    db.delete(heldBills).where(inArray(heldBills.id, stale)).run();
+    return stale.length;
+  });
+
+  return tx();
+}
+
+/**
+ * Parks a cart in the database so it survives restarts and can be resumed on
+ * any terminal. Stock is not reserved; it only moves at checkout.
+ */
+export function holdBill(args: {
+  userId: number;
+  label: string;
+  customerId?: number | null;
+  billDiscount?: number;
+  roundOff?: boolean;
+  items: Array<{ productId: number; qty: number }>;
+  heldAt: Date;
+}) {
+  const tx = sqlite.transaction(() => {
+    const label = args.label.trim();
+    if (!label) throw new Error("Give the held bill a label");
+
+    const items = args.items.filter((it) => Number(it.qty) > 0);
+    if (items.length === 0) throw new Error("Nothing to hold");
+
+    const expiresAt = new Date(
+      args.heldAt.getTime() + getHoldExpiryHours() * 60 * 60 * 1000,
+    );
+    const inserted = db
+      .insert(heldBills)
+      .values({
+        label,
+        customerId: args.customerId ?? null,
+        billDiscount: Math.max(0, Number(args.billDiscount || 0)),
+        roundOff: args.roundOff ?? true,
+        heldBy: args.userId,
+        heldAt: args.heldAt,
+        expiresAt,
+      })
+      .run();
+    const heldBillId = Number(inserted.lastInsertRowid);
+
+    for (const it of items) {
+      const product = db
+        .select({ id: products.id })
+        .from(products)
+        .where(eq(products.id, it.productId))
+        .get();
+      if (!product) throw new Error(`Product not found: ${it.productId}`);
+
+      db.insert(heldBillItems)
+        .values({
+          heldBillId,
+          productId: it.productId,
+          quantity: Number(it.qty),
+        })
+        .run();
+    }
+
+    return { heldBillId, expiresAt };
+  });
+
+  return tx();
+}
+
+/**
+ * Takes a held bill off the shelf. It is deleted in the same transaction so
+ * two terminals can't resume the same cart.
+ */
+export function recallHeldBill(id: number, now: Date) {
+  const tx = sqlite.transaction(() => {
+    const held = db.select().from(heldBills).where(eq(heldBills.id, id)).get();
+    if (!held || held.expiresAt < now) {
+      throw new Error("This bill was already recalled or has expired");
+    }
+
+    const items = db
+      .select({
+        productId: heldBillItems.productId,
+        qty: heldBillItems.quantity,
+      })
+      .from(heldBillItems)
+      .where(eq(heldBillItems.heldBillId, id))
+      .all();
+
+    db.delete(heldBillItems).where(eq(heldBillItems.heldBillId, id)).run();
+    db.delete(heldBills).where(eq(heldBills.id, id)).run();
+
+    return { ...held, items };
+  });
+
+  return tx();
+}
+
+export function getOpenShift(userId: number) {
+  return (
+    db
+      .select()
+      .from(shifts)
+      .where(and(eq(shifts.openedBy, userId), eq(shifts.status, "open")))
+      .get() ?? null
+  );
+}
+
+export function openShift(args: {
+  userId: number;
+  openingFloat: number;
+  openedAt: Date;
+}) {
+  const tx = sqlite.transaction(() => {
+    if (getOpenShift(args.userId)) {
+      throw new Error("You already have an open shift");
+    }
+    const openingFloat = Number(args.openingFloat);
+    if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+      throw new Error("Opening float must be zero or more");
+    }
+
+    const inserted = db
+      .insert(shifts)
+      .values({
+        status: "open",
+        openedBy: args.userId,
+        openedAt: args.openedAt,
+        openingFloat,
+      })
+      .run();
+    return { shiftId: Number(inserted.lastInsertRowid) };
+  });
+
+  return tx();
+}
+
+export function recordCashMovement(args: {
+  shiftId: number;
+  userId: number;
+  type: "in" | "out";
+  amount: number;
+  reason?: string | null;
+  createdAt: Date;
+}) {
+  const shift = db
+    .select()
+    .from(shifts)
+    .where(eq(shifts.id, args.shiftId))
+    .get();
+  if (!shift) throw new Error(`Shift not found: ${args.shiftId}`);
+  if (shift.status !== "open") throw new Error("Shift is already closed");
+  if (args.type !== "in" && args.type !== "out") {
+    throw new Error("Movement type must be 'in' or 'out'");
+  }
+  const amount = Number(args.amount);
+  if (!(amount > 0)) throw new Error("Amount must be positive");
+  if (args.type === "out" && !args.reason?.trim()) {
+    throw new Error("Give a reason for the cash out");
+  }
+
+  const inserted = db
+    .insert(shiftCashMovements)
+    .values({
+      shiftId: args.shiftId,
+      type: args.type,
+      amount,
+      reason: args.reason?.trim() || null,
+      createdBy: args.userId,
+      createdAt: args.createdAt,
+    })
+    .run();
+  return { movementId: Number(inserted.lastInsertRowid) };
+}
+
+/**
+ * Everything the drawer should hold for a shift: opening float, plus cash
+ * taken on bills and khata collections, plus cash-ins, minus cash-outs and
+ * cash refunds. Also used to print the Z-report.
+ */
+export function getShiftSummary(shiftId: number) {
+  const shift = db.select().from(shifts).where(eq(shifts.id, shiftId)).get();
+  if (!shift) throw new Error(`Shift not found: ${shiftId}`);
+
+  const userName = (id: number | null) =>
+    id == null
+      ? null
+      : (db
+          .select({ name: users.name })
+          .from(users)
+          .where(eq(users.id, id))
+          .get()?.name ?? null);
+
+  const sales = {
+    count: 0,
+    total: 0,
+    cash: 0,
+    upi: 0,
+    card: 0,
+    credit: 0,
+    points: 0,
+  };
+  const shiftReceipts = db
+    .select({
+      totalAmount: receipts.totalAmount,
+      paymentSplit: receipts.paymentSplit,
+    })
+    .from(receipts)
+    .where(eq(receipts.shiftId, shiftId))
+    .all();
+  for (const r of shiftReceipts) {
+    const split = parseSplit(r.paymentSplit);
+    sales.count += 1;
+    sales.total += Number(r.totalAmount || 0);
+    sales.cash += split.cashAmt;
+    sales.upi += split.upiAmt;
+    sales.card += split.cardAmt;
+    sales.credit += split.creditAmt;
+    sales.points += split.pointsAmt;
+  }
+
+  const refunds = { count: 0, total: 0, cash: 0 };
+  const shiftNotes = db
+    .select({
+      totalAmount: creditNotes.totalAmount,
+      refundSplit: creditNotes.refundSplit,
+    })
+    .from(creditNotes)
+    .where(eq(creditNotes.shiftId, shiftId))
+    .all();
+  for (const n of shiftNotes) {
+    refunds.count += 1;
+    refunds.total += Number(n.totalAmount || 0);
+    refunds.cash += parseSplit(n.refundSplit).cashAmt;
+  }
+
+  const collectionsCash = db
+    .select({ paymentSplit: customerLedger.paymentSplit })
+    .from(customerLedger)
+    .where(
+      and(
+        eq(customerLedger.shiftId, shiftId),
+        eq(customerLedger.type, "payment"),
+      ),
+    )
+    .all()
+    .reduce((acc, e) => acc + parseSplit(e.paymentSplit).cashAmt, 0);
+
+  const movements = db
+    .select({
+      id: shiftCashMovements.id,
+      type: shiftCashMovements.type,
+      amount: shiftCashMovements.amount,
+      reason: shiftCashMovements.reason,
+      createdAt: shiftCashMovements.createdAt,
+      createdByName: users.name,
+    })
+    .from(shiftCashMovements)
+    .leftJoin(users, eq(users.id, shiftCashMovements.createdBy))
+    .where(eq(shiftCashMovements.shiftId, shiftId))
+    .orderBy(asc(shiftCashMovements.createdAt))
+    .all();
+  const cashIn = movements
+    .filter((m) => m.type === "in")
+    .reduce((acc, m) => acc + Number(m.amount), 0);
+  const cashOut = movements
+    .filter((m) => m.type === "out")
+    .reduce((acc, m) => acc + Number(m.amount), 0);
+
+  // A closed shift keeps the figure it was closed against
+  const expectedCash =
+    shift.status === "closed" && shift.expectedCash != null
+      ? Number(shift.expectedCash)
+      : r2(
+          Number(shift.openingFloat) +
+            sales.cash +
+            collectionsCash +
+            cashIn -
+            cashOut -
+            refunds.cash,
+        );
+
+  return {
+    shift: {
+      ...shift,
+      openedByName: userName(shift.openedBy),
+      closedByName: userName(shift.closedBy),
+      denominations: shift.denominations
+        ? (JSON.parse(shift.denominations) as Record<string, number>)
+        : null,
+    },
+    sales: {
+      count: sales.count,
+      total: r2(sales.total),
+      cash: r2(sales.cash),
+      upi: r2(sales.upi),
+      card: r2(sales.card),
+      credit: r2(sales.credit),
+      points: r2(sales.points),
+    },
+    refunds: {
+      count: refunds.count,
+      total: r2(refunds.total),
+      cash: r2(refunds.cash),
+    },
+    collectionsCash: r2(collectionsCash),
+    cashIn: r2(cashIn),
+    cashOut: r2(cashOut),
+    movements,
+    expectedCash,
+  };
+}
+
+export type ShiftSummary = ReturnType<typeof getShiftSummary>;
+
+/**
+ * Closes a shift against a denomination-wise count ({ "500": 3, "10": 7 })
+ * and stores expected cash, counted cash and the variance (counted - expected).
+ */
+export function closeShift(args: {
+  shiftId: number;
+  userId: number;
+  denominations: Record<string, number>;
+  note?: string | null;
+  closedAt: Date;
+}) {
+  const tx = sqlite.transaction(() => {
+    const summary = getShiftSummary(args.shiftId);
+    if (summary.shift.status !== "open") {
+      throw new Error("Shift is already closed");
+    }
+
+    const counts: Record<string, number> = {};
+    let countedCash = 0;
+    for (const [denom, qty] of Object.entries(args.denominations ?? {})) {
+      const value = Number(denom);
+      const n = Number(qty || 0);
+      if (!(value > 0) || !Number.isInteger(n) || n < 0) {
+        throw new Error(`Invalid count for ₹${denom}`);
+      }
+      if (n === 0) continue;
+      counts[String(value)] = n;
+      countedCash += value * n;
+    }
+    countedCash = r2(countedCash);
+    const variance = r2(countedCash - summary.expectedCash);
+
+    db.update(shifts)
+      .set({
+        status: "closed",
+        closedBy: args.userId,
+        closedAt: args.closedAt,
+        expectedCash: summary.expectedCash,
+        countedCash,
+        variance,
+        denominations: JSON.stringify(counts),
+        closingNote: args.note?.trim() || null,
+      })
+      .where(eq(shifts.id, args.shiftId))
+      .run();
+
+    return {
+      shiftId: args.shiftId,
+      expectedCash: summary.expectedCash,
+      countedCash,
+      variance,
+    };
+  });
+
+  return tx();
+}
+
+const UQC_BY_UNIT: Record<string, string> = {
+  piece: "NOS",
+  pcs: "NOS",
+  nos: "NOS",
+  pack: "PAC",
+  box: "BOX",
+  bottle: "BTL",
+  kg: "KGS",
+  g: "GMS",
+  gm: "GMS",
+  l: "LTR",
+  litre: "LTR",
+  liter: "LTR",
+  ml: "MLT",
+  dozen: "DOZ",
+};
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+function gstDate(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(d.getDate())}-${pad(d.getMonth() + 1)}-${d.getFullYear()}`;
+}
+
+type GstAmounts = {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+};
+
+function addAmounts(into: GstAmounts, from: GstAmounts, sign = 1) {
+  into.txval = r2(into.txval + sign * from.txval);
+  into.iamt = r2(into.iamt + sign * from.iamt);
+  into.camt = r2(into.camt + sign * from.camt);
+  into.samt = r2(into.samt + sign * from.samt);
+}
+
+/**
+ * GST returns data for a calendar month ("YYYY-MM"): a rate-wise summary,
+ * the HSN summary and the GSTR-1 JSON (offline tool format) with B2B
+ * invoices for customers that have a GSTIN, B2C (small) totals and credit
+ * notes against B2B invoices. B2C returns are netted into B2CS and HSN.
+ * Bills saved before the GST breakup was stored are split on the fly.
+ */
+export function getGstReturns(month: string) {
+  const m = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!m) throw new Error("Month must be YYYY-MM");
+  const year = Number(m[1]);
+  const mon = Number(m[2]);
+  const from = new Date(year, mon - 1, 1, 0, 0, 0, 0);
+  const to = new Date(year, mon, 0, 23, 59, 59, 999);
+
+  const storeGstin = getStoreGstin();
+  const storeState = gstinStateCode(storeGstin);
+  const warnings: string[] = [];
+  if (!storeGstin) warnings.push("Store GSTIN is not set (Settings → System)");
+
+  type TaxedLine = GstAmounts & {
+    productId: number;
+    productName: string;
+    unit: string;
+    hsn: string;
+    rate: number;
+    qty: number;
+    value: number; // taxable value + tax
+  };
+
+  const toTaxed = (
+    l: {
+      productId: number;
+      productName: string;
+      unit: string;
+      productHsn: string | null;
+      productGst: number;
+      quantity: number;
+      amount: number;
+      discount: number;
+      tax: number;
+      hsn?: string | null;
+      gstRate?: number | null;
+      taxableValue?: number | null;
+      cgst?: number | null;
+      sgst?: number | null;
+      igst?: number | null;
+    },
+    interState: boolean,
+  ): TaxedLine => {
+    const tax = Number(l.tax || 0);
+    const split =
+      l.taxableValue && Number(l.taxableValue) > 0
+        ? {
+            txval: Number(l.taxableValue),
+            iamt: Number(l.igst || 0),
+            camt: Number(l.cgst || 0),
+            samt: Number(l.sgst || 0),
+          }
+        : {
+            txval: Number(l.amount) - Number(l.discount || 0),
+            iamt: interState ? tax : 0,
+            camt: interState ? 0 : r2(tax / 2),
+            samt: interState ? 0 : r2(tax - r2(tax / 2)),
+          };
+    return {
+      productId: l.productId,
+      productName: l.productName,
+      unit: l.unit,
+      hsn: (l.hsn || l.productHsn || "").trim(),
+      rate: Number(l.gstRate ?? l.productGst ?? 0),
+      qty: Number(l.quantity),
+      value: r2(split.txval + tax),
+      txval: r2(split.txval),
+      iamt: r2(split.iamt),
+      camt: r2(split.camt),
+      samt: r2(split.samt),
+    };
+  };
+
+  const sales = db
+    .select({
+      id: receipts.id,
+      invoiceNo: receipts.invoiceNo,
+      totalAmount: receipts.totalAmount,
+      receiptDate: receipts.receiptDate,
+      interState: receipts.interState,
+      customerGstin: customers.gstin,
+    })
+    .from(receipts)
+    .leftJoin(customers, eq(customers.id, receipts.customerId))
+    .where(
+      and(gte(receipts.receiptDate, from), lte(receipts.receiptDate, to)),
+    )
+    .orderBy(asc(receipts.receiptDate))
+    .all();
+
+  const saleLines = (receiptId: number) =>
+    db
+      .select({
+        productId: receiptItems.productId,
+        productName: products.productName,
+        unit: products.unit,
+        productHsn: products.hsn,
+        productGst: products.gst,
+        quantity: receiptItems.quantity,
+        amount: receiptItems.amount,
+        discount: receiptItems.discount,
+        tax: receiptItems.tax,
+        hsn: receiptItems.hsn,
+        gstRate: receiptItems.gstRate,
+        taxableValue: receiptItems.taxableValue,
+        cgst: receiptItems.cgst,
+        sgst: receiptItems.sgst,
+        igst: receiptItems.igst,
+      })
+      .from(receiptItems)
+      .innerJoin(products, eq(products.id, receiptItems.productId))
+      .where(eq(receiptItems.receiptId, receiptId))
+      .all();
+
+  const hsnRows = new Map<string, GstAmounts & {
+    hsn: string;
+    desc: string;
+    uqc: string;
+    rate: number;
+    qty: number;
+    val: number;
+  }>();
+  const addHsn = (l: TaxedLine, sign: number) => {
+    const key = `${l.hsn}|${l.rate}`;
+    const row = hsnRows.get(key) ?? {
+      hsn: l.hsn,
+      desc: l.productName,
+      uqc: UQC_BY_UNIT[l.unit.trim().toLowerCase()] ?? "OTH",
+      rate: l.rate,
+      qty: 0,
+      val: 0,
+      txval: 0,
+      iamt: 0,
+      camt: 0,
+      samt: 0,
+    };
+    row.qty = r2(row.qty + sign * l.qty);
+    row.val = r2(row.val + sign * l.value);
+    addAmounts(row, l, sign);
+    hsnRows.set(key, row);
+  };
+
+  const rateRows = new Map<number, GstAmounts & { rate: number }>();
+  const addRate = (l: TaxedLine, sign: number) => {
+    const row = rateRows.get(l.rate) ?? {
+      rate: l.rate,
+      txval: 0,
+      iamt: 0,
+      camt: 0,
+      samt: 0,
+    };
+    addAmounts(row, l, sign);
+    rateRows.set(l.rate, row);
+  };
+
+  const b2cs = new Map<string, GstAmounts & {
+    sply_ty: "INTRA" | "INTER";
+    pos: string;
+    rt: number;
+  }>();
+  const addB2cs = (l: TaxedLine, interState: boolean, sign: number) => {
+    const pos = storeState ?? "";
+    const sply = interState ? "INTER" : "INTRA";
+    const key = `${sply}|${pos}|${l.rate}`;
+    const row = b2cs.get(key) ?? {
+      sply_ty: sply,
+      pos,
+      rt: l.rate,
+      txval: 0,
+      iamt: 0,
+      camt: 0,
+      samt: 0,
+    };
+    addAmounts(row, l, sign);
+    b2cs.set(key, row);
+  };
+
+  const itemsByRate = (lines: TaxedLine[]) => {
+    const byRate = new Map<number, GstAmounts>();
+    for (const l of lines) {
+      const row = byRate.get(l.rate) ?? { txval: 0, iamt: 0, camt: 0, samt: 0 };
+      addAmounts(row, l);
+      byRate.set(l.rate, row);
+    }
+    return Array.from(byRate.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([rt, a], i) => ({
+        num: i + 1,
+        itm_det: { ...a, rt, csamt: 0 },
+      }));
+  };
+
+  const b2b = new Map<string, Array<Record<string, unknown>>>();
+  const b2bReceipts = new Set<number>();
+  let missingHsn = 0;
+
+  for (const s of sales) {
+    const interState = Boolean(s.interState);
+    const lines = saleLines(s.id).map((l) => toTaxed(l, interState));
+    missingHsn += lines.filter((l) => !l.hsn).length;
+
+    for (const l of lines) {
+      addHsn(l, 1);
+      addRate(l, 1);
+    }
+
+    const ctin = s.customerGstin?.trim().toUpperCase();
+    if (ctin && gstinStateCode(ctin)) {
+      b2bReceipts.add(s.id);
+      const invoices = b2b.get(ctin) ?? [];
+      invoices.push({
+        inum: s.invoiceNo ?? String(s.id),
+        idt: gstDate(new Date(s.receiptDate)),
+        val: r2(Number(s.totalAmount)),
+        pos: gstinStateCode(ctin),
+        rchrg: "N",
+        inv_typ: "R",
+        itms: itemsByRate(lines),
+      });
+      b2b.set(ctin, invoices);
+    } else {
+      for (const l of lines) addB2cs(l, interState, 1);
+    }
+  }
+
+  const notes = db
+    .select({
+      id: creditNotes.id,
+      creditNoteNo: creditNotes.creditNoteNo,
+      receiptId: creditNotes.receiptId,
+      totalAmount: creditNotes.totalAmount,
+      noteDate: creditNotes.noteDate,
+      interState: receipts.interState,
+      customerGstin: customers.gstin,
+    })
+    .from(creditNotes)
+    .innerJoin(receipts, eq(receipts.id, creditNotes.receiptId))
+    .leftJoin(customers, eq(customers.id, receipts.customerId))
+    .where(and(gte(creditNotes.noteDate, from), lte(creditNotes.noteDate, to)))
+    .orderBy(asc(creditNotes.noteDate))
+    .all();
+
+  const cdnr = new Map<string, Array<Record<string, unknown>>>();
+  for (const n of notes) {
+    const interState = Boolean(n.interState);
+    const sold = new Map(saleLines(n.receiptId).map((l) => [l.productId, l]));
+    const lines = db
+      .select({
+        productId: creditNoteItems.productId,
+        productName: products.productName,
+        unit: products.unit,
+        productHsn: products.hsn,
+        productGst: products.gst,
+        quantity: creditNoteItems.quantity,
+        amount: creditNoteItems.amount,
+        discount: creditNoteItems.discount,
+        tax: creditNoteItems.tax,
+      })
+      .from(creditNoteItems)
+      .innerJoin(products, eq(products.id, creditNoteItems.productId))
+      .where(eq(creditNoteItems.creditNoteId, n.id))
+      .all()
+      .map((l) => {
+        // Take HSN + rate from the original bill line
+        const orig = sold.get(l.productId);
+        return toTaxed(
+          { ...l, hsn: orig?.hsn ?? null, gstRate: orig?.gstRate ?? null },
+          interState,
+        );
+      });
+
+    for (const l of lines) {
+      addHsn(l, -1);
+      addRate(l, -1);
+    }
+
+    const ctin = n.customerGstin?.trim().toUpperCase();
+    if (ctin && gstinStateCode(ctin)) {
+      const list = cdnr.get(ctin) ?? [];
+      list.push({
+        ntty: "C",
+        nt_num: n.creditNoteNo,
+        nt_dt: gstDate(new Date(n.noteDate)),
+        val: r2(Number(n.totalAmount)),
+        pos: gstinStateCode(ctin),
+        rchrg: "N",
+        inv_typ: "R",
+        itms: itemsByRate(lines),
+      });
+      cdnr.set(ctin, list);
+    } else {
+      for (const l of lines) addB2cs(l, interState, -1);
+    }
+  }
+
+  if (missingHsn > 0) {
+    warnings.push(`${missingHsn} sold line(s) have no HSN code`);
+  }
+
+  const hsnSummary = Array.from(hsnRows.values()).sort(
+    (a, b) => a.hsn.localeCompare(b.hsn) || a.rate - b.rate,
+  );
+  const rateSummary = Array.from(rateRows.values()).sort(
+    (a, b) => a.rate - b.rate,
+  );
+
+  const gstr1 = {
+    gstin: storeGstin ?? "",
+    fp: `${String(mon).padStart(2, "0")}${year}`,
+    version: "GST3.0.4",
+    b2b: Array.from(b2b.entries()).map(([ctin, inv]) => ({ ctin, inv })),
+    b2cs: Array.from(b2cs.values())
+      .filter((r) => Math.abs(r.txval) > 0.001)
+      .map((r) => ({ ...r, typ: "OE", csamt: 0 })),
+    cdnr: Array.from(cdnr.entries()).map(([ctin, nt]) => ({ ctin, nt })),
+    hsn: {
+      data: hsnSummary.map((h, i) => ({
+        num: i + 1,
+        hsn_sc: h.hsn,
+        desc: h.desc,
+        uqc: h.uqc,
+        qty: h.qty,
+        rt: h.rate,
+        val: h.val,
+        txval: h.txval,
+        iamt: h.iamt,
+        camt: h.camt,
+        samt: h.samt,
+        csamt: 0,
+      })),
+    },
+  };
+
+  return {
+    month,
+    storeGstin,
+    rateSummary,
+    hsnSummary,
+    b2bInvoiceCount: b2bReceipts.size,
+    invoiceCount: sales.length,
+    creditNoteCount: notes.length,
+    gstr1,
+    warnings,
+  };
+}
+
+export type PaymentFilter = "all" | "cash" | "upi" | "card" | "credit";
+
+/** Bills in the range as the sales report's CSV, optionally only those paid by one tender. */
+export function getSalesExport(from: Date, to: Date, payment: PaymentFilter = "all"): Sheet {
+  const tenderKey = {
+    cash: "cashAmt",
+    upi: "upiAmt",
+    card: "cardAmt",
+    credit: "creditAmt",
+  } as const;
+
+  const rows = db
+    .select()
+    .from(receipts)
+    .where(and(gte(receipts.receiptDate, from), lte(receipts.receiptDate, to)))
+    .orderBy(desc(receipts.receiptDate))
+    .all()
+    .map((r) => ({ r, split: parseSplit(r.paymentSplit) }))
+    .filter(({ split }) => payment === "all" || split[tenderKey[payment]] > 0);
+
+  return [
+    ["id", "receiptDate", "totalAmount", "tax", "discount", "cash", "upi", "card", "credit"],
+    ...rows.map(({ r, split }) =>
+      [
+        r.id,
+        r.receiptDate ? new Date(r.receiptDate).toISOString() : "",
+        Number(r.totalAmount || 0),
+        Number(r.tax || 0),
+        Number(r.discount || 0),
+        split.cashAmt,
+        split.upiAmt,
+        split.cardAmt,
+        split.creditAmt,
+      ].map(String),
+    ),
+  ];
+}
+
+/** Table 3.1 of GSTR-3B and the rate-wise breakup behind it. */
+export function getGstr3bSheet(
+  rateSummary: ReturnType<typeof getGstReturns>["rateSummary"],
+): Sheet {
+  const taxable = rateSummary.filter((r) => r.rate > 0);
+  const nil = rateSummary.filter((r) => r.rate === 0);
+  const sum = (
+    list: typeof rateSummary,
+    k: "txval" | "iamt" | "camt" | "samt",
+  ) => list.reduce((acc, r) => acc + r[k], 0).toFixed(2);
+  const zero = "0.00";
+
+  return [
+    ["Section", "Nature of supplies", "Taxable value", "IGST", "CGST", "SGST/UTGST", "Cess"],
+    [
+      "3.1(a)",
+      "Outward taxable supplies (other than zero rated, nil rated and exempted)",
+      sum(taxable, "txval"),
+      sum(taxable, "iamt"),
+      sum(taxable, "camt"),
+      sum(taxable, "samt"),
+      zero,
+    ],
+    ["3.1(b)", "Outward taxable supplies (zero rated)", zero, zero, zero, zero, zero],
+    ["3.1(c)", "Other outward supplies (nil rated, exempted)", sum(nil, "txval"), zero, zero, zero, zero],
+    ["3.1(d)", "Inward supplies (liable to reverse charge)", zero, zero, zero, zero, zero],
+    ["3.1(e)", "Non-GST outward supplies", zero, zero, zero, zero, zero],
+    [],
+    ["Rate-wise", "GST rate %", "Taxable value", "IGST", "CGST", "SGST/UTGST", "Cess"],
+    ...rateSummary.map((r) => [
+      "",
+      String(r.rate),
+      r.txval.toFixed(2),
+      r.iamt.toFixed(2),
+      r.camt.toFixed(2),
+      r.samt.toFixed(2),
+      zero,
+    ]),
+  ];
+}
+
+export type PromotionInput = {
+  id?: number | null;
+  name: string;
+  type: Promotion["type"];
+  active: boolean;
+  productId?: number | null;
+  buyQty?: number | null;
+  getQty?: number | null;
+  categoryId?: number | null;
+  discountType?: "flat" | "percent" | null;
+  discountValue?: number | null;
+  comboPrice?: number | null;
+  items?: Array<{ productId: number; quantity: number }>;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  daysOfWeek?: string | null;
+  createdBy: number;
+};
+
+/** Creates or replaces a promotion (and its combo items) after validating it. */
+export function savePromotion(args: PromotionInput) {
+  const tx = sqlite.transaction(() => {
+    const name = args.name.trim();
+    if (!name) throw new Error("Promotion name is required");
+
+    const hhmm = /^([01]\d|2[0-3]):[0-5]\d$/;
+    const startTime = args.startTime?.trim() || null;
+    const endTime = args.endTime?.trim() || null;
+    if (Boolean(startTime) !== Boolean(endTime)) {
+      throw new Error("Set both a start and end time for a happy hour");
+    }
+    if ((startTime && !hhmm.test(startTime)) || (endTime && !hhmm.test(endTime))) {
+      throw new Error("Times must be HH:MM");
+    }
+    if (args.startDate && args.endDate && args.startDate > args.endDate) {
+      throw new Error("End date is before start date");
+    }
+
+    const values = {
+      name,
+      type: args.type,
+      active: Boolean(args.active),
+      productId: null as number | null,
+      buyQty: null as number | null,
+      getQty: null as number | null,
+      categoryId: null as number | null,
+      discountType: null as string | null,
+      discountValue: null as number | null,
+      comboPrice: null as number | null,
+      startDate: args.startDate ?? null,
+      endDate: args.endDate ?? null,
+      startTime,
+      endTime,
+      daysOfWeek: args.daysOfWeek?.trim() || null,
+    };
+    let items: Array<{ productId: number; quantity: number }> = [];
+
+    if (args.type === "bogo") {
+      const buy = Math.floor(Number(args.buyQty || 0));
+      const get = Math.floor(Number(args.getQty || 0));
+      if (!args.productId) throw new Error("Pick the product for buy X get Y");
+      if (buy <= 0 || get <= 0) throw new Error("Buy and get quantities must be at least 1");
+      values.productId = args.productId;
+      values.buyQty = buy;
+      values.getQty = get;
+    } else if (args.type === "category") {
+      const value = Number(args.discountValue || 0);
+      if (!args.categoryId) throw new Error("Pick the category to discount");
+      if (args.discountType !== "flat" && args.discountType !== "percent") {
+        throw new Error("Discount must be flat or percent");
+      }
+      if (value <= 0) throw new Error("Discount value must be greater than 0");
+      if (args.discountType === "percent" && value > 100) {
+        throw new Error("Percent discount cannot exceed 100");
+      }
+      values.categoryId = args.categoryId;
+      values.discountType = args.discountType;
+      values.discountValue = value;
+    } else if (args.type === "combo") {
+      items = (args.items ?? []).filter((i) => Number(i.quantity) > 0);
+      if (items.length < 2) throw new Error("A combo needs at least two products");
+      if (Number(args.comboPrice) < 0 || args.comboPrice == null) {
+        throw new Error("Combo price is required");
+      }
+      values.comboPrice = Number(args.comboPrice);
+    } else {
+      throw new Error(`Unknown promotion type: ${args.type}`);
+    }
+
+    const productIds = [
+      ...(values.productId ? [values.productId] : []),
+      ...items.map((i) => i.productId),
+    ];
+    for (const id of productIds) {
+      const p = db
+        .select({ id: products.id })
+        .from(products)
+        .where(eq(products.id, id))
+        .get();
+      if (!p) throw new Error(`Product not found: ${id}`);
+    }
+
+    let promotionId: number;
+    if (args.id) {
+      const existing = db
+        .select({ id: promotions.id })
+        .from(promotions)
+        .where(eq(promotions.id, args.id))
+        .get();
+      if (!existing) throw new Error("Promotion not found");
+      db.update(promotions).set(values).where(eq(promotions.id, args.id)).run();
+      db.delete(promotionItems)
+        .where(eq(promotionItems.promotionId, args.id))
+        .run();
+      promotionId = args.id;
+    } else {
+      const inserted = db
+        .insert(promotions)
+        .values({ ...values, createdBy: args.createdBy, createdAt: new Date() })
+        .run();
+      promotionId = Number(inserted.lastInsertRowid);
+    }
+
+    for (const it of items) {
+      db.insert(promotionItems)
+        .values({
+          promotionId,
+          productId: it.productId,
+          quantity: Math.floor(Number(it.quantity)),
+        })
+        .run();
+    }
+
+    return { promotionId };
+  });
+
+  return tx();
+}
+
+export function createPurchaseOrder(args: {
+  supplierId: number;
+  createdBy: number;
+  orderDate: Date;
+  expectedDate?: Date | null;
+  notes?: string | null;
+  items: Array<{ productId: number; qty: number; unitCost: number }>;
+}) {
+  const tx = sqlite.transaction(() => {
+    const supplier = db
+      .select({ id: suppliers.id })
+      .from(suppliers)
+      .where(eq(suppliers.id, args.supplierId))
+      .get();
+    if (!supplier) throw new Error(`Supplier not found: ${args.supplierId}`);
+
+    const items = args.items.filter((it) => Number(it.qty) > 0);
+    if (items.length === 0) throw new Error("Purchase order has no items");
+
+    const last = db
+      .select({ id: max(purchaseOrders.id) })
+      .from(purchaseOrders)
+      .get();
+    const poNo = `PO-${String(Number(last?.id ?? 0) + 1).padStart(6, "0")}`;
+
+    const inserted = db
+      .insert(purchaseOrders)
+      .values({
+        poNo,
+        supplierId: args.supplierId,
+        status: "open",
+        orderDate: args.orderDate,
+        expectedDate: args.expectedDate ?? null,
+        notes: args.notes ?? null,
+        createdBy: args.createdBy,
+      })
+      .run();
+    const purchaseOrderId = Number(inserted.lastInsertRowid);
+
+    for (const it of items) {
+      const p = db
+        .select({ id: products.id })
+        .from(products)
+        .where(eq(products.id, it.productId))
+        .get();
+      if (!p) throw new Error(`Product not found: ${it.productId}`);
+      if (Number(it.unitCost) < 0) throw new Error("Invalid unit cost");
+
+      db.insert(purchaseOrderItems)
+        .values({
+          purchaseOrderId,
+          productId: it.productId,
+          quantity: Number(it.qty),
+          unitCost: Number(it.unitCost),
+          receivedQty: 0,
+        })
+        .run();
+    }
 
-// Use createRequire for CommonJS modules (bcrypt)
-import { createRequire } from "node:module";
-const require = createRequire(import.meta.url);
-const bcrypt = require("bcrypt");
+    return { purchaseOrderId, poNo };
+  });
 
-function hasColumn(sqliteDb: Database, table: string, column: string) {
-  const rows = sqliteDb.prepare(`PRAGMA table_info(${table})`).all() as Array<{
-    name: string;
-  }>;
-  return rows.some((r) => r.name === column);
+  return tx();
 }
 
-function ensureColumn(
-  sqliteDb: Database,
-  table: string,
-  column: string,
-  ddl: string
-) {
-  if (hasColumn(sqliteDb, table, column)) return;
-  sqliteDb.exec(`ALTER TABLE ${table} ADD COLUMN ${ddl}`);
-}
+/**
+ * Receives stock from a supplier, optionally against a purchase order.
+ * Partial deliveries are allowed; the order moves to 'partial' until every
+ * line is fully received. Each line restocks the product, updates its cost to
+ * the latest purchase cost and writes a 'purchase' product log; lines carrying
+ * a batch number or expiry date also open a product batch.
+ */
+export function receiveGoods(args: {
+  purchaseOrderId?: number | null;
+  supplierId?: number | null;
+  createdBy: number;
+  receivedDate: Date;
+  invoiceNo?: string | null;
+  items: Array<{
+    productId: number;
+    qty: number;
+    unitCost: number;
+    purchaseOrderItemId?: number | null;
+    batchNo?: string | null;
+    expiryDate?: Date | null;
+  }>;
+  actor: AuditActor;
+}) {
+  const tx = sqlite.transaction(() => {
+    const po = args.purchaseOrderId
+      ? db
+          .select()
+          .from(purchaseOrders)
+          .where(eq(purchaseOrders.id, args.purchaseOrderId))
+          .get()
+      : null;
+    if (args.purchaseOrderId && !po) {
+      throw new Error(`Purchase order not found: ${args.purchaseOrderId}`);
+    }
+    if (po && (po.status === "received" || po.status === "cancelled")) {
+      throw new Error(`Purchase order ${po.poNo} is ${po.status}`);
+    }
 
-export function ensureDbSchema() {
-  console.log("📊 Starting ensureDbSchema...");
-  try {
-    sqlite.exec(`
-      PRAGMA foreign_keys = ON;
-
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL,
-        role TEXT NOT NULL,
-        active INTEGER NOT NULL DEFAULT 1,
-        created_at INTEGER NOT NULL
-      );
+    const supplierId = po?.supplierId ?? args.supplierId;
+    if (!supplierId) throw new Error("Supplier is required");
+
+    const poLines = po
+      ? db
+          .select()
+          .from(purchaseOrderItems)
+          .where(eq(purchaseOrderItems.purchaseOrderId, po.id))
+          .all()
+      : [];
+    const poLineById = new Map(poLines.map((l) => [l.id, l]));
+
+    const items = args.items.filter((it) => Number(it.qty) > 0);
+    if (items.length === 0) throw new Error("Nothing to receive");
+
+    const rows = items.map((it) => {
+      const product = db
+        .select()
+        .from(products)
+        .where(eq(products.id, it.productId))
+        .get();
+      if (!product) throw new Error(`Product not found: ${it.productId}`);
+
+      const unitCost = Number(it.unitCost);
+      if (Number.isNaN(unitCost) || unitCost < 0) {
+        throw new Error(`Invalid cost for ${product.productName}`);
+      }
 
-      CREATE TABLE IF NOT EXISTS categories (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        category_name TEXT NOT NULL UNIQUE
-      );
+      const qty = Number(it.qty);
+      let poLine: (typeof poLines)[number] | null = null;
+      if (po) {
+        poLine =
+          (it.purchaseOrderItemId
+            ? poLineById.get(it.purchaseOrderItemId)
+            : poLines.find((l) => l.productId === it.productId)) ?? null;
+        if (!poLine || poLine.productId !== it.productId) {
+          throw new Error(`${product.productName} is not on ${po.poNo}`);
+        }
+        const pending = Number(poLine.quantity) - Number(poLine.receivedQty);
+        if (qty > pending + 1e-9) {
+          throw new Error(
+            `Cannot receive ${qty} of ${product.productName} (only ${pending} pending)`,
+          );
+        }
+      }
 
-      CREATE TABLE IF NOT EXISTS suppliers (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        supplier_name TEXT NOT NULL UNIQUE,
-        supplier_phone TEXT,
-        supplier_gstin TEXT,
-        supplier_address TEXT
-      );
+      const batchNo = it.batchNo?.trim() || null;
+      const expiryDate = it.expiryDate ?? null;
 
-      CREATE TABLE IF NOT EXISTS products (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        barcode TEXT NOT NULL UNIQUE,
-        product_name TEXT NOT NULL,
-        category_id INTEGER NOT NULL REFERENCES categories(id),
-        supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
-        quantity REAL NOT NULL DEFAULT 0,
-        brand TEXT NOT NULL,
-        unit TEXT NOT NULL,
-        mrp REAL NOT NULL,
-        cost REAL NOT NULL,
-        gst REAL NOT NULL,
-        reorder_level REAL NOT NULL DEFAULT 0,
-        warehouse TEXT,
-        description TEXT,
-        created_at INTEGER,
-        updated_at INTEGER
-      );
+      return { product, qty, unitCost, poLine, batchNo, expiryDate };
+    });
 
-      CREATE TABLE IF NOT EXISTS receipts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        total_amount REAL NOT NULL,
-        tax REAL NOT NULL DEFAULT 0,
-        payment_split TEXT NOT NULL,
-        discount REAL DEFAULT 0,
-        receipt_date INTEGER,
-        created_by INTEGER NOT NULL REFERENCES users(id)
-      );
+    const totalAmount = rows.reduce((acc, r) => acc + r.qty * r.unitCost, 0);
 
-      CREATE TABLE IF NOT EXISTS transactions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        final_amount REAL NOT NULL,
-        tax REAL NOT NULL DEFAULT 0,
-        payment_split TEXT NOT NULL,
-        discount REAL DEFAULT 0,
-        transaction_date INTEGER NOT NULL,
-        created_by INTEGER NOT NULL REFERENCES users(id)
-      );
+    const last = db
+      .select({ id: max(goodsReceivedNotes.id) })
+      .from(goodsReceivedNotes)
+      .get();
+    const grnNo = `GRN-${String(Number(last?.id ?? 0) + 1).padStart(6, "0")}`;
 
-      CREATE TABLE IF NOT EXISTS transaction_items (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        transaction_id INTEGER NOT NULL REFERENCES transactions(id),
-        product_id INTEGER NOT NULL REFERENCES products(id),
-        quantity REAL NOT NULL,
-        unit_price REAL NOT NULL,
-        amount REAL NOT NULL,
-        tax REAL NOT NULL DEFAULT 0,
-        discount REAL NOT NULL DEFAULT 0
-      );
+    const inserted = db
+      .insert(goodsReceivedNotes)
+      .values({
+        grnNo,
+        purchaseOrderId: po?.id ?? null,
+        supplierId,
+        invoiceNo: args.invoiceNo ?? null,
+        totalAmount,
+        receivedDate: args.receivedDate,
+        createdBy: args.createdBy,
+      })
+      .run();
+    const grnId = Number(inserted.lastInsertRowid);
 
-      CREATE TABLE IF NOT EXISTS product_logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        product_id INTEGER NOT NULL REFERENCES products(id),
-        receipt_id INTEGER REFERENCES receipts(id),
-        type TEXT NOT NULL,
-        quantity REAL NOT NULL DEFAULT 1,
-        amount REAL NOT NULL,
-        tax REAL NOT NULL DEFAULT 0,
-        discount REAL NOT NULL DEFAULT 0,
-        datetime INTEGER NOT NULL
-      );
+    for (const r of rows) {
+      const amount = r.qty * r.unitCost;
 
-      CREATE TABLE IF NOT EXISTS user_settings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL REFERENCES users(id),
-        landing_page TEXT NOT NULL DEFAULT 'dashboard'
-      );
+      db.insert(grnItems)
+        .values({
+          grnId,
+          purchaseOrderItemId: r.poLine?.id ?? null,
+          productId: r.product.id,
+          quantity: r.qty,
+          unitCost: r.unitCost,
+          amount,
+        })
+        .run();
 
-      CREATE TABLE IF NOT EXISTS store_settings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER REFERENCES users(id),
-        address TEXT,
-        phone TEXT,
-        gstin TEXT,
-        allow_negative_stock INTEGER NOT NULL DEFAULT 0,
-        default_gst_rate REAL,
-        default_reorder_level REAL,
-        expiry_warning_in INTEGER
-      );
+      if (r.batchNo || r.expiryDate) {
+        db.insert(productBatches)
+          .values({
+            productId: r.product.id,
+            batchNo: r.batchNo ?? grnNo,
+            expiryDate: r.expiryDate,
+            quantity: r.qty,
+            cost: r.unitCost,
+            grnId,
+            receivedAt: args.receivedDate,
+          })
+          .run();
+      }
 
-      CREATE TABLE IF NOT EXISTS notifications (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL REFERENCES users(id),
-        whatsapp_no TEXT,
-        notify_expiry INTEGER NOT NULL DEFAULT 1,
-        notify_reorder INTEGER NOT NULL DEFAULT 1,
-        notify_weekly_report INTEGER NOT NULL DEFAULT 1,
-        notify_monthly_report INTEGER NOT NULL DEFAULT 1,
-        notify_daily_revenue INTEGER NOT NULL DEFAULT 1,
-        daily_report_timing INTEGER
-      );
+      if (r.poLine) {
+        r.poLine.receivedQty = Number(r.poLine.receivedQty) + r.qty;
+        db.update(purchaseOrderItems)
+          .set({ receivedQty: r.poLine.receivedQty })
+          .where(eq(purchaseOrderItems.id, r.poLine.id))
+          .run();
+      }
 
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-    `);
-
-    console.log("📊 Base schema created successfully");
-
-    ensureColumn(sqlite, "users", "active", "active INTEGER NOT NULL DEFAULT 1");
-    console.log("📊 Users 'active' column ensured");
-    
-    ensureColumn(
-      sqlite,
-      "products",
-      "warehouse",
-      "warehouse TEXT"
-    );
-    console.log("📊 Products 'warehouse' column ensured");
-    
-    ensureColumn(
-      sqlite,
-      "products",
-      "description",
-      "description TEXT"
-    );
-    console.log("📊 Products 'description' column ensured");
-    
-    console.log("✅ ensureDbSchema completed successfully");
-  } catch (e) {
-    console.error("❌ ensureDbSchema failed:", e);
-    console.error("❌ Schema error details:", {
-      message: e instanceof Error ? e.message : String(e),
-      stack: e instanceof Error ? e.stack : undefined,
-      timestamp: new Date().toISOString()
+      db.insert(productLogs)
+        .values({
+          productId: r.product.id,
+          receiptId: null,
+          type: "purchase",
+          quantity: r.qty,
+          amount,
+          tax: 0,
+          discount: 0,
+          datetime: args.receivedDate,
+        })
+        .run();
+
+      const current = db
+        .select({ quantity: products.quantity, cost: products.cost })
+        .from(products)
+        .where(eq(products.id, r.product.id))
+        .get();
+      db.update(products)
+        .set({
+          quantity: Number(current?.quantity ?? 0) + r.qty,
+          cost: r.unitCost,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, r.product.id))
+        .run();
+
+      // The GRN's cost becomes the product's cost price
+      const diff = auditDiff({ cost: current?.cost }, { cost: r.unitCost });
+      if (diff) {
+        writeAudit({
+          actor: args.actor,
+          action: "update",
+          entity: "product",
+          entityId: r.product.id,
+          ...diff,
+        });
+      }
+    }
+
+    writeAudit({
+      actor: args.actor,
+      action: "create",
+      entity: "goods_received_note",
+      entityId: grnId,
+      after: { grnNo, purchaseOrderId: po?.id ?? null, supplierId, totalAmount },
     });
-    throw e;
-  }
-}
 
-type PaymentSplit = { cashAmt: number; upiAmt: number; cardAmt: number };
+    if (po) {
+      const fullyReceived = poLines.every(
+        (l) => Number(l.receivedQty) >= Number(l.quantity) - 1e-9,
+      );
+      db.update(purchaseOrders)
+        .set({ status: fullyReceived ? "received" : "partial" })
+        .where(eq(purchaseOrders.id, po.id))
+        .run();
+    }
 
-function splitToJson(split: PaymentSplit) {
-  return JSON.stringify({
-    cashAmt: Number(split.cashAmt || 0),
-    upiAmt: Number(split.upiAmt || 0),
-    cardAmt: Number(split.cardAmt || 0),
+    return { grnId, grnNo, totalAmount };
   });
+
+  return tx();
 }
 
-function computeReceiptTotals(args: {
-  items: Array<{ productId: number; qty: number }>;
-  discount: number;
-}) {
-  const rows = args.items.map((it) => {
-    const p = db.select().from(products).where(eq(products.id, it.productId)).get();
-    if (!p) throw new Error(`Product not found: ${it.productId}`);
-    const qty = Number(it.qty);
-    if (qty <= 0) throw new Error("Invalid quantity");
-    if (Number(p.quantity) < qty) {
-      throw new Error(`Insufficient stock for ${p.productName}`);
+export function findProductByBarcode(barcode: string) {
+  return db.select().from(products).where(eq(products.barcode, barcode)).get();
+}
+
+function getStoreBarcodePrefix() {
+  const row = db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(eq(settings.key, "barcodePrefix"))
+    .get();
+  const prefix = row?.value?.trim() ?? "";
+  return STORE_BARCODE_PREFIX_RE.test(prefix) ? prefix : DEFAULT_STORE_BARCODE_PREFIX;
+}
+
+/** An unused in-store EAN-13 for loose or store-packed goods. */
+export function generateStoreBarcode() {
+  const prefix = getStoreBarcodePrefix();
+  const taken = db
+    .select({ barcode: products.barcode })
+    .from(products)
+    .where(sql`${products.barcode} LIKE ${`${prefix}%`}`)
+    .all()
+    .map((r) => r.barcode);
+  return nextStoreBarcode(prefix, taken);
+}
+
+const HSN_RE = /^(\d{4}|\d{6}|\d{8})$/;
+
+// Long numeric barcodes that Excel has turned into "8.90123E+12"
+const SCIENTIFIC_RE = /^\d+(\.\d+)?e\+\d+$/i;
+
+export type ImportPreviewLine = {
+  line: number; // spreadsheet row, counting the header as row 1
+  barcode: string;
+  productName: string;
+  action: "insert" | "update" | "unchanged" | "error";
+  errors: string[];
+  changes: string[]; // "MRP: 40 → 45" for updates
+};
+
+type ProductFields = Partial<
+  Pick<
+    typeof products.$inferInsert,
+    | "productName"
+    | "brand"
+    | "unit"
+    | "mrp"
+    | "cost"
+    | "gst"
+    | "hsn"
+    | "quantity"
+    | "reorderLevel"
+    | "warehouse"
+    | "description"
+  >
+>;
+
+type ImportOp = {
+  line: ImportPreviewLine;
+  existing?: typeof products.$inferSelect;
+  fields: ProductFields;
+  category?: string;
+  supplier?: string;
+};
+
+const FIELD_LABELS: Record<keyof ProductFields, string> = {
+  productName: "Name",
+  brand: "Brand",
+  unit: "Unit",
+  mrp: "MRP",
+  cost: "Cost",
+  gst: "GST %",
+  hsn: "HSN",
+  quantity: "Stock",
+  reorderLevel: "Reorder level",
+  warehouse: "Warehouse",
+  description: "Description",
+};
+
+const byName = (s: string) => s.trim().toLowerCase();
+
+/**
+ * Checks every row against the catalogue and works out what importing it
+ * would do. Blank cells leave the current value alone on updates; rows with
+ * errors are reported and skipped. Categories and suppliers are matched by
+ * name, ignoring case, and listed as new when they don't exist yet.
+ */
+function planProductImport(
+  rows: CatalogueRow[],
+  opts: {
+    canEditPrice: boolean;
+    canViewCost: boolean;
+    canAdjustStock: boolean;
+  },
+) {
+  const categoryList = db.select().from(categories).all();
+  const supplierList = db
+    .select()
+    .from(suppliers)
+    .orderBy(asc(suppliers.id))
+    .all();
+  const categoryByName = new Map(
+    categoryList.map((c) => [byName(c.categoryName), c]),
+  );
+  const supplierByName = new Map(
+    supplierList.map((s) => [byName(s.supplierName), s]),
+  );
+  const brands = new Set(
+    db
+      .selectDistinct({ brand: products.brand })
+      .from(products)
+      .all()
+      .map((b) => byName(b.brand)),
+  );
+
+  const newCategories = new Map<string, string>();
+  const newSuppliers = new Map<string, string>();
+  const newBrands = new Map<string, string>();
+  const seen = new Map<string, number>();
+
+  const ops = rows.map((row, i): ImportOp => {
+    const errors: string[] = [];
+    const line: ImportPreviewLine = {
+      line: i + 2,
+      barcode: row.barcode ?? "",
+      productName: row.productName ?? "",
+      action: "error",
+      errors,
+      changes: [],
+    };
+
+    const barcode = row.barcode ?? "";
+    if (!barcode) errors.push("Barcode is missing");
+    else if (SCIENTIFIC_RE.test(barcode)) {
+      errors.push("Barcode was shortened by Excel; format the column as text");
+    } else if (/\s/.test(barcode)) errors.push("Barcode can't contain spaces");
+    else if (seen.has(barcode)) {
+      errors.push(`Same barcode as row ${seen.get(barcode)}`);
+    } else seen.set(barcode, line.line);
+
+    const existing = barcode ? findProductByBarcode(barcode) : undefined;
+
+    const num = (
+      key: "mrp" | "cost" | "gst" | "quantity" | "reorderLevel",
+      check: (n: number) => boolean,
+      message: string,
+    ) => {
+      const raw = row[key];
+      if (raw == null) return undefined;
+      const n = Number(raw.replace(/[₹,\s]/g, ""));
+      if (!Number.isFinite(n) || !check(n)) {
+        errors.push(`${FIELD_LABELS[key]} ${message}`);
+        return undefined;
+      }
+      return n;
+    };
+
+    const fields: ProductFields = {
+      productName: row.productName,
+      brand: row.brand,
+      unit: row.unit,
+      mrp: num("mrp", (n) => n > 0, "must be more than 0"),
+      cost: num("cost", (n) => n >= 0, "can't be negative"),
+      gst: num("gst", (n) => n >= 0 && n <= 100, "must be between 0 and 100"),
+      hsn: row.hsn,
+      quantity: num("quantity", (n) => n >= 0, "can't be negative"),
+      reorderLevel: num("reorderLevel", (n) => n >= 0, "can't be negative"),
+      warehouse: row.warehouse,
+      description: row.description,
+    };
+    if (row.hsn && !HSN_RE.test(row.hsn)) {
+      errors.push("HSN must be 4, 6 or 8 digits");
+    }
+
+    if (!existing) {
+      const badCode = barcode ? retailBarcodeError(barcode) : null;
+      if (badCode) errors.push(badCode);
+      if (!row.productName) errors.push("Product name is missing");
+      if (!row.category) errors.push("Category is missing");
+      if (row.mrp == null) errors.push("MRP is missing");
+      if (!row.supplier && supplierList.length === 0) {
+        errors.push("Supplier is missing");
+      }
+    }
+
+    // Only count new names from rows that will actually be imported
+    if (errors.length === 0) {
+      if (row.category && !categoryByName.has(byName(row.category))) {
+        newCategories.set(byName(row.category), row.category);
+      }
+      if (row.supplier && !supplierByName.has(byName(row.supplier))) {
+        newSuppliers.set(byName(row.supplier), row.supplier);
+      }
+      if (row.brand && !brands.has(byName(row.brand))) {
+        newBrands.set(byName(row.brand), row.brand);
+      }
     }
 
-    const lineGross = Number(p.mrp) * qty;
-    const lineTax = (lineGross * Number(p.gst || 0)) / 100;
-    return { product: p, qty, lineGross, lineTax };
+    if (existing) {
+      const changes = line.changes;
+      for (const key of Object.keys(FIELD_LABELS) as (keyof ProductFields)[]) {
+        const next = fields[key];
+        if (next === undefined || next === (existing[key] ?? null)) continue;
+        const label = FIELD_LABELS[key];
+        changes.push(
+          key === "cost" && !opts.canViewCost
+            ? `${label} changed`
+            : `${label}: ${existing[key] ?? "—"} → ${next}`,
+        );
+      }
+      const currentCategory = categoryList.find(
+        (c) => c.id === existing.categoryId,
+      )?.categoryName;
+      if (row.category && byName(row.category) !== byName(currentCategory ?? "")) {
+        changes.push(`Category: ${currentCategory ?? "—"} → ${row.category}`);
+      }
+      const currentSupplier = supplierList.find(
+        (s) => s.id === existing.supplierId,
+      )?.supplierName;
+      if (row.supplier && byName(row.supplier) !== byName(currentSupplier ?? "")) {
+        changes.push(`Supplier: ${currentSupplier ?? "—"} → ${row.supplier}`);
+      }
+
+      const repriced =
+        (fields.mrp !== undefined && fields.mrp !== existing.mrp) ||
+        (fields.cost !== undefined && fields.cost !== existing.cost);
+      if (repriced && !opts.canEditPrice) {
+        errors.push("You don't have permission to change prices");
+      }
+      const restocked =
+        fields.quantity !== undefined && fields.quantity !== existing.quantity;
+      if (restocked && !opts.canAdjustStock) {
+        errors.push("You don't have permission to adjust stock");
+      }
+    }
+
+    if (errors.length === 0) {
+      line.action = !existing
+        ? "insert"
+        : line.changes.length > 0
+          ? "update"
+          : "unchanged";
+    }
+    return {
+      line,
+      existing,
+      fields,
+      category: row.category,
+      supplier: row.supplier,
+    };
   });
 
-  const subtotal = rows.reduce((acc, r) => acc + r.lineGross, 0);
-  const tax = rows.reduce((acc, r) => acc + r.lineTax, 0);
-  const discount = Math.max(0, Math.min(Number(args.discount || 0), subtotal));
+  const lines = ops.map((o) => o.line);
+  const countOf = (action: ImportPreviewLine["action"]) =>
+    lines.filter((l) => l.action === action).length;
+
+  return {
+    ops,
+    lines,
+    counts: {
+      insert: countOf("insert"),
+      update: countOf("update"),
+      unchanged: countOf("unchanged"),
+      error: countOf("error"),
+    },
+    newCategories: [...newCategories.values()],
+    newSuppliers: [...newSuppliers.values()],
+    newBrands: [...newBrands.values()],
+  };
+}
 
-  const total = Math.max(0, subtotal - discount + tax);
-  return { rows, subtotal, tax, discount, total };
+export function previewProductImport(
+  rows: CatalogueRow[],
+  opts: {
+    canEditPrice: boolean;
+    canViewCost: boolean;
+    canAdjustStock: boolean;
+  },
+) {
+  const plan = planProductImport(rows, opts);
+  return {
+    lines: plan.lines,
+    counts: plan.counts,
+    newCategories: plan.newCategories,
+    newSuppliers: plan.newSuppliers,
+    newBrands: plan.newBrands,
+  };
 }
 
-export function createReceiptWithItems(args: {
+/**
+ * Imports the rows that passed the preview checks in one transaction,
+ * creating any missing categories and suppliers. Stock changes on existing
+ * products are logged as adjustments and every update is audited.
+ */
+export function importProducts(
+  rows: CatalogueRow[],
+  opts: {
+    canEditPrice: boolean;
+    canViewCost: boolean;
+    canAdjustStock: boolean;
+    actor: AuditActor;
+  },
+) {
+  const tx = sqlite.transaction(() => {
+    const plan = planProductImport(rows, opts);
+    const now = new Date();
+
+    const categoryIds = new Map(
+      db
+        .select()
+        .from(categories)
+        .all()
+        .map((c) => [byName(c.categoryName), c.id]),
+    );
+    const supplierIds = new Map(
+      db
+        .select()
+        .from(suppliers)
+        .orderBy(asc(suppliers.id))
+        .all()
+        .map((s) => [byName(s.supplierName), s.id]),
+    );
+
+    const categoryId = (name: string) => {
+      const key = byName(name);
+      if (!categoryIds.has(key)) {
+        const inserted = db
+          .insert(categories)
+          .values({ categoryName: name.trim() })
+          .run();
+        categoryIds.set(key, Number(inserted.lastInsertRowid));
+      }
+      return categoryIds.get(key)!;
+    };
+    const supplierId = (name: string) => {
+      const key = byName(name);
+      if (!supplierIds.has(key)) {
+        const inserted = db
+          .insert(suppliers)
+          .values({ supplierName: name.trim() })
+          .run();
+        supplierIds.set(key, Number(inserted.lastInsertRowid));
+      }
+      return supplierIds.get(key)!;
+    };
+
+    for (const op of plan.ops) {
+      const { action, barcode } = op.line;
+      if (action === "insert") {
+        const mrp = op.fields.mrp!;
+        db.insert(products)
+          .values({
+            barcode,
+            productName: op.fields.productName!,
+            categoryId: categoryId(op.category!),
+            supplierId: op.supplier
+              ? supplierId(op.supplier)
+              : supplierIds.values().next().value!,
+            quantity: op.fields.quantity ?? 0,
+            brand: op.fields.brand ?? "AVM",
+            unit: op.fields.unit ?? "piece",
+            mrp,
+            cost: op.fields.cost ?? Math.max(0, mrp * 0.75),
+            gst: op.fields.gst ?? 0,
+            hsn: op.fields.hsn ?? null,
+            reorderLevel: op.fields.reorderLevel ?? 0,
+            warehouse: op.fields.warehouse ?? "Main",
+            description: op.fields.description ?? null,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+      } else if (action === "update" && op.existing) {
+        const current = op.existing;
+        const patch: Partial<typeof products.$inferInsert> = { ...op.fields };
+        for (const key of Object.keys(FIELD_LABELS) as (keyof ProductFields)[]) {
+          if (patch[key] === undefined) delete patch[key];
+        }
+        if (op.category) patch.categoryId = categoryId(op.category);
+        if (op.supplier) patch.supplierId = supplierId(op.supplier);
+
+        const diff = auditDiff(current, patch);
+        if (!diff) continue;
+        db.update(products)
+          .set({ ...patch, updatedAt: now })
+          .where(eq(products.id, current.id))
+          .run();
+
+        const delta =
+          patch.quantity === undefined
+            ? 0
+            : Number(patch.quantity) - Number(current.quantity);
+        if (delta !== 0) {
+          db.insert(productLogs)
+            .values({
+              productId: current.id,
+              receiptId: null,
+              type: "adjustment",
+              quantity: delta,
+              amount: delta * Number(current.cost),
+              datetime: now,
+            })
+            .run();
+        }
+        writeAudit({
+          actor: opts.actor,
+          action: "update",
+          entity: "product",
+          entityId: current.id,
+          ...diff,
+        });
+      }
+    }
+
+    return {
+      ...plan.counts,
+      newCategories: plan.newCategories,
+      newSuppliers: plan.newSuppliers,
+    };
+  });
+
+  return tx();
+}
+
+export type StockTakeScope =
+  | { type: "all" }
+  | { type: "category"; categoryId: number }
+  | { type: "warehouse"; warehouse: string };
+
+/**
+ * Opens a count over every product in scope, snapshotting each one's system
+ * quantity and cost. Stock keeps moving while the count runs; approval posts
+ * counted − snapshot, so sales made mid-count aren't undone.
+ */
+export function startStockTake(args: {
+  scope: StockTakeScope;
   createdBy: number;
-  receiptDate: Date;
-  discount: number;
-  paymentSplit: PaymentSplit;
-  items: Array<{ productId: number; qty: number }>;
+  notes?: string | null;
 }) {
   const tx = sqlite.transaction(() => {
-    const { rows, subtotal, tax, discount, total } = computeReceiptTotals({
-      items: args.items,
-      discount: args.discount,
-    });
+    const { scope } = args;
+    let scopeValue: string | null = null;
+    let scopeLabel = "All products";
+    let where;
+    if (scope.type === "category") {
+      const category = db
+        .select()
+        .from(categories)
+        .where(eq(categories.id, scope.categoryId))
+        .get();
+      if (!category) throw new Error(`Category not found: ${scope.categoryId}`);
+      scopeValue = String(category.id);
+      scopeLabel = `Category: ${category.categoryName}`;
+      where = eq(products.categoryId, category.id);
+    } else if (scope.type === "warehouse") {
+      const warehouse = scope.warehouse.trim();
+      if (!warehouse) throw new Error("Warehouse is required");
+      scopeValue = warehouse;
+      scopeLabel = `Warehouse: ${warehouse}`;
+      where = sql`lower(trim(${products.warehouse})) = ${warehouse.toLowerCase()}`;
+    }
 
-    const insertedTx = db
-      .insert(transactions)
-      .values({
-        finalAmount: total,
-        tax,
-        paymentSplit: splitToJson(args.paymentSplit),
-        discount,
-        transactionDate: args.receiptDate,
-        createdBy: args.createdBy,
+    const inScope = db
+      .select({
+        id: products.id,
+        quantity: products.quantity,
+        cost: products.cost,
       })
-      .run();
+      .from(products)
+      .where(where)
+      .all();
+    if (inScope.length === 0) throw new Error("No products in this scope");
 
-    const transactionId = Number(insertedTx.lastInsertRowid);
+    const last = db.select({ id: max(stockTakes.id) }).from(stockTakes).get();
+    const takeNo = `ST-${String(Number(last?.id ?? 0) + 1).padStart(6, "0")}`;
 
-    // Keep receipts in-sync (used by existing UI)
-    db.insert(receipts)
+    const inserted = db
+      .insert(stockTakes)
       .values({
-        id: transactionId,
-        totalAmount: total,
-        tax,
-        paymentSplit: splitToJson(args.paymentSplit),
-        discount,
-        receiptDate: args.receiptDate,
+        takeNo,
+        scopeType: scope.type,
+        scopeValue,
+        scopeLabel,
+        status: "counting",
+        notes: args.notes?.trim() || null,
         createdBy: args.createdBy,
+        createdAt: new Date(),
       })
       .run();
+    const stockTakeId = Number(inserted.lastInsertRowid);
 
-    const receiptId = transactionId;
-
-    for (const r of rows) {
-      const lineDiscount =
-        subtotal > 0 ? (discount * r.lineGross) / subtotal : 0;
-
-      db.insert(transactionItems)
+    for (const p of inScope) {
+      db.insert(stockTakeItems)
         .values({
-          transactionId,
-          productId: r.product.id,
-          quantity: r.qty,
-          unitPrice: Number(r.product.mrp),
-          amount: r.lineGross,
-          tax: r.lineTax,
-          discount: lineDiscount,
+          stockTakeId,
+          productId: p.id,
+          systemQty: Number(p.quantity),
+          countedQty: null,
+          unitCost: Number(p.cost),
         })
         .run();
+    }
+
+    return { stockTakeId, takeNo, items: inScope.length };
+  });
+
+  return tx();
+}
+
+function openStockTake(id: number) {
+  const take = db.select().from(stockTakes).where(eq(stockTakes.id, id)).get();
+  if (!take) throw new Error(`Stock take not found: ${id}`);
+  if (take.status !== "counting") {
+    throw new Error(`${take.takeNo} is ${take.status}`);
+  }
+  return take;
+}
+
+/**
+ * Records a count for one product, found by barcode (scanner) or id. "add"
+ * adds to what has been counted so far, for scanning items one by one or
+ * counting a product kept in several places; "set" replaces it.
+ */
+export function recordStockCount(args: {
+  stockTakeId: number;
+  barcode?: string | null;
+  productId?: number | null;
+  qty: number;
+  mode: "add" | "set";
+}) {
+  const take = openStockTake(args.stockTakeId);
+
+  const qty = Number(args.qty);
+  if (!Number.isFinite(qty)) throw new Error("Invalid quantity");
+
+  const barcode = args.barcode?.trim();
+  const product = barcode
+    ? findProductByBarcode(barcode)
+    : args.productId
+      ? db.select().from(products).where(eq(products.id, args.productId)).get()
+      : undefined;
+  if (!product) {
+    throw new Error(
+      barcode ? `No product with barcode ${barcode}` : "Product not found",
+    );
+  }
+
+  const line = db
+    .select()
+    .from(stockTakeItems)
+    .where(
+      and(
+        eq(stockTakeItems.stockTakeId, take.id),
+        eq(stockTakeItems.productId, product.id),
+      ),
+    )
+    .get();
+  if (!line) {
+    throw new Error(
+      `${product.productName} is not part of ${take.takeNo} (${take.scopeLabel})`,
+    );
+  }
+
+  const countedQty =
+    args.mode === "add" ? Number(line.countedQty ?? 0) + qty : qty;
+  if (countedQty < 0) throw new Error("Counted quantity can't be negative");
+
+  db.update(stockTakeItems)
+    .set({ countedQty, countedAt: new Date() })
+    .where(eq(stockTakeItems.id, line.id))
+    .run();
+
+  return {
+    productId: product.id,
+    productName: product.productName,
+    countedQty,
+  };
+}
+
+export function listStockTakes() {
+  const totals = db
+    .select({
+      stockTakeId: stockTakeItems.stockTakeId,
+      items: count(),
+      counted: sql<number>`count(${stockTakeItems.countedQty})`,
+      varianceValue: sql<number>`coalesce(sum((${stockTakeItems.countedQty} - ${stockTakeItems.systemQty}) * ${stockTakeItems.unitCost}), 0)`,
+    })
+    .from(stockTakeItems)
+    .groupBy(stockTakeItems.stockTakeId)
+    .all();
+  const totalsById = new Map(totals.map((t) => [t.stockTakeId, t]));
+
+  return db
+    .select({
+      take: stockTakes,
+      createdByName: users.name,
+    })
+    .from(stockTakes)
+    .leftJoin(users, eq(users.id, stockTakes.createdBy))
+    .orderBy(desc(stockTakes.id))
+    .all()
+    .map(({ take, createdByName }) => {
+      const t = totalsById.get(take.id);
+      return {
+        ...take,
+        createdByName,
+        items: Number(t?.items ?? 0),
+        counted: Number(t?.counted ?? 0),
+        varianceValue: Number(t?.varianceValue ?? 0),
+      };
+    });
+}
+
+/** A stock take with its variance sheet (uncounted lines have no variance). */
+export function getStockTake(id: number) {
+  const take = db.select().from(stockTakes).where(eq(stockTakes.id, id)).get();
+  if (!take) throw new Error(`Stock take not found: ${id}`);
+
+  const lines = db
+    .select({
+      id: stockTakeItems.id,
+      productId: stockTakeItems.productId,
+      productName: products.productName,
+      barcode: products.barcode,
+      unit: products.unit,
+      systemQty: stockTakeItems.systemQty,
+      countedQty: stockTakeItems.countedQty,
+      unitCost: stockTakeItems.unitCost,
+      countedAt: stockTakeItems.countedAt,
+    })
+    .from(stockTakeItems)
+    .innerJoin(products, eq(products.id, stockTakeItems.productId))
+    .where(eq(stockTakeItems.stockTakeId, id))
+    .orderBy(asc(products.productName))
+    .all()
+    .map((l) => {
+      const variance =
+        l.countedQty == null ? null : Number(l.countedQty) - Number(l.systemQty);
+      return {
+        ...l,
+        variance,
+        varianceValue: variance == null ? null : variance * Number(l.unitCost),
+      };
+    });
+
+  const nameOf = (userId: number | null) =>
+    userId == null
+      ? null
+      : (db
+          .select({ name: users.name })
+          .from(users)
+          .where(eq(users.id, userId))
+          .get()?.name ?? null);
+
+  return {
+    take: {
+      ...take,
+      createdByName: nameOf(take.createdBy),
+      closedByName: nameOf(take.closedBy),
+    },
+    lines,
+  };
+}
+
+/**
+ * Posts the variance of every counted line as an 'adjustment' product log
+ * (amount = variance at the snapshot cost) and moves stock by the same
+ * amount. Uncounted lines are left alone.
+ */
+export function approveStockTake(args: { stockTakeId: number; userId: number }) {
+  const tx = sqlite.transaction(() => {
+    const take = openStockTake(args.stockTakeId);
+    const now = new Date();
+
+    const lines = db
+      .select()
+      .from(stockTakeItems)
+      .where(
+        and(
+          eq(stockTakeItems.stockTakeId, take.id),
+          isNotNull(stockTakeItems.countedQty),
+        ),
+      )
+      .all();
+    if (lines.length === 0) throw new Error("Nothing has been counted yet");
+
+    let adjusted = 0;
+    let varianceValue = 0;
+    for (const l of lines) {
+      const delta = Number(l.countedQty) - Number(l.systemQty);
+      if (delta === 0) continue;
+      adjusted += 1;
+      varianceValue += delta * Number(l.unitCost);
 
       db.insert(productLogs)
         .values({
-          productId: r.product.id,
-          receiptId,
-          type: "sale",
-          quantity: r.qty,
-          amount: r.lineGross,
-          tax: r.lineTax,
-          discount: lineDiscount,
-          datetime: args.receiptDate,
+          productId: l.productId,
+          receiptId: null,
+          type: "adjustment",
+          quantity: delta,
+          amount: delta * Number(l.unitCost),
+          tax: 0,
+          discount: 0,
+          datetime: now,
         })
         .run();
-
       db.update(products)
         .set({
-          quantity: Number(r.product.quantity) - r.qty,
-          updatedAt: new Date(),
+          quantity: sql`${products.quantity} + ${delta}`,
+          updatedAt: now,
         })
-        .where(eq(products.id, r.product.id))
+        .where(eq(products.id, l.productId))
         .run();
+      // Batches follow the count: shrinkage comes off the earliest-expiring
+      // stock, a surplus goes back on the newest batch
+      if (delta < 0) consumeBatchesFefo(l.productId, -delta);
+      else restockBatch(l.productId, delta);
     }
 
-    return { receiptId, transactionId, totalAmount: total, tax, discount };
+    db.update(stockTakes)
+      .set({ status: "approved", closedBy: args.userId, closedAt: now })
+      .where(eq(stockTakes.id, take.id))
+      .run();
+
+    return { takeNo: take.takeNo, counted: lines.length, adjusted, varianceValue };
   });
 
   return tx();
 }
 
+export function cancelStockTake(args: { stockTakeId: number; userId: number }) {
+  const take = openStockTake(args.stockTakeId);
+  db.update(stockTakes)
+    .set({ status: "cancelled", closedBy: args.userId, closedAt: new Date() })
+    .where(eq(stockTakes.id, take.id))
+    .run();
+  return { takeNo: take.takeNo };
+}
+
 export async function seedDbIfEmpty() {
   console.log("🌱 Starting seedDbIfEmpty...");
   try {
@@ -720,6 +3850,14 @@ export async function seedDbIfEmpty() {
     lowStockThreshold: "10",
     currency: "INR",
     discountPolicy: "percent",
+    taxInclusive: "true",
+    invoicePrefix: "INV",
+    holdExpiryHours: "24",
+    discountLimitPct: "10",
+    loyaltyEnabled: "true",
+    loyaltyPointsPerRupee: "0.01",
+    loyaltyRedeemValue: "1",
+    loyaltyExcludedCategories: "",
   };
 
   for (const [key, value] of Object.entries(settingsSeed)) {
@@ -879,7 +4017,7 @@ export async function seedDbIfEmpty() {
         : 0;
 
     const paymentRatio = paymentModes[i % paymentModes.length];
-    const totalAmount = Math.max(0, totals.subtotal - discount + totals.tax);
+    const totalAmount = computeReceiptTotals({ items, discount }).total;
     const paymentSplit: PaymentSplit = {
       cashAmt: totalAmount * paymentRatio.cashAmt,
       upiAmt: totalAmount * paymentRatio.upiAmt,
@@ -901,11 +4039,15 @@ export async function seedDbIfEmpty() {
     if (logCount === 0) {
       const p = db.select().from(products).limit(1).get();
       if (p) {
+        const { total } = computeReceiptTotals({
+          items: [{ productId: p.id, qty: 1 }],
+          discount: 0,
+        });
         createReceiptWithItems({
           createdBy: admin.id,
           receiptDate: new Date(),
           discount: 0,
-          paymentSplit: { cashAmt: p.mrp, upiAmt: 0, cardAmt: 0 },
+          paymentSplit: { cashAmt: total, upiAmt: 0, cardAmt: 0 },
           items: [{ productId: p.id, qty: 1 }],
         });
       }
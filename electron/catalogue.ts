@@ -0,0 +1,81 @@
+// Product catalogue columns, as exported from Inventory and read back by the
+// import wizard. Shared by the renderer (column mapping) and main (import /
+// export handlers). Keep this module free of node/electron imports.
+
+export const CATALOGUE_COLUMNS = [
+  // "new": needed to create a product, optional when updating one
+  { key: "barcode", label: "Barcode", required: "always" },
+  { key: "productName", label: "Product name", required: "new" },
+  { key: "category", label: "Category", required: "new" },
+  { key: "supplier", label: "Supplier" },
+  { key: "brand", label: "Brand" },
+  { key: "unit", label: "Unit" },
+  { key: "mrp", label: "MRP", required: "new" },
+  { key: "cost", label: "Cost" },
+  { key: "gst", label: "GST %" },
+  { key: "hsn", label: "HSN" },
+  { key: "quantity", label: "Stock" },
+  { key: "reorderLevel", label: "Reorder level" },
+  { key: "warehouse", label: "Warehouse" },
+  { key: "description", label: "Description" },
+] as const satisfies ReadonlyArray<{
+  key: string;
+  label: string;
+  required?: "always" | "new";
+}>;
+
+export type CatalogueField = (typeof CATALOGUE_COLUMNS)[number]["key"];
+
+/** One spreadsheet row, by field; blank cells are left out. */
+export type CatalogueRow = Partial<Record<CatalogueField, string>>;
+
+/** Spreadsheet column index for each mapped field. */
+export type ColumnMapping = Partial<Record<CatalogueField, number>>;
+
+// Header spellings recognised when guessing the mapping (lower case,
+// punctuation stripped)
+const ALIASES: Record<CatalogueField, string[]> = {
+  barcode: ["barcode", "sku", "ean", "upc", "code", "itemcode", "productcode"],
+  productName: ["productname", "name", "product", "item", "itemname", "title"],
+  category: ["category", "categoryname", "group", "department"],
+  supplier: ["supplier", "suppliername", "vendor", "distributor"],
+  brand: ["brand", "make", "manufacturer"],
+  unit: ["unit", "uom", "units"],
+  mrp: ["mrp", "price", "sellingprice", "saleprice", "rate"],
+  cost: ["cost", "costprice", "purchaseprice", "buyingprice"],
+  gst: ["gst", "gstrate", "tax", "taxrate"],
+  hsn: ["hsn", "hsncode", "hsnsac", "sac"],
+  quantity: ["stock", "quantity", "qty", "onhand", "closingstock"],
+  reorderLevel: ["reorderlevel", "reorder", "minstock", "minimumstock"],
+  warehouse: ["warehouse", "location", "store", "godown"],
+  description: ["description", "details", "notes"],
+};
+
+const normalise = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  for (const col of CATALOGUE_COLUMNS) {
+    const i = headers.findIndex(
+      (h, idx) => !taken.has(idx) && ALIASES[col.key].includes(normalise(h)),
+    );
+    if (i >= 0) {
+      mapping[col.key] = i;
+      taken.add(i);
+    }
+  }
+  return mapping;
+}
+
+export function applyMapping(rows: string[][], mapping: ColumnMapping) {
+  return rows.map((r) => {
+    const out: CatalogueRow = {};
+    for (const col of CATALOGUE_COLUMNS) {
+      const i = mapping[col.key];
+      const v = i == null ? "" : String(r[i] ?? "").trim();
+      if (v !== "") out[col.key] = v;
+    }
+    return out;
+  });
+}
@@ -12,6 +12,7 @@ if (!(global as any).__dirname) {
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import { app } from "electron";
 import Database from "better-sqlite3";
+import * as fs from "fs";
 import * as path from "path";
 import * as schema from "./schema";
 
@@ -22,6 +23,17 @@ const dbPath = isDev
 
 console.log("🗄️ Initializing database at:", dbPath);
 
+// A restore (see backup.ts) stages the chosen backup next to the live file and
+// restarts; swap it in here, before anything has the database open
+const pendingRestore = `${dbPath}.restore`;
+if (fs.existsSync(pendingRestore)) {
+  console.log("♻️ Restoring database from staged backup");
+  for (const f of [`${dbPath}-wal`, `${dbPath}-shm`]) {
+    if (fs.existsSync(f)) fs.rmSync(f);
+  }
+  fs.renameSync(pendingRestore, dbPath);
+}
+
 let sqlite: Database.Database;
 let db: ReturnType<typeof drizzle>;
 
@@ -43,4 +55,4 @@ try {
   throw e;
 }
 
-export { sqlite, db };
+export { sqlite, db, dbPath };
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { encodeEscPos, type EscPosOptions, type PosPrintData } from "./escpos";
+
+const opts: EscPosOptions = {
+  paperWidth: 58,
+  codePage: "pc437",
+  cut: false,
+  drawerKick: false,
+};
+
+const table: PosPrintData = {
+  type: "table",
+  tableHeader: ["Item", "Qty", "Amt"],
+  tableBody: [
+    ["Basmati Rice Premium 5kg", 2, "1,250.00"],
+    ["Salt", 1, "20.00"],
+  ],
+  tableHeaderStyle: { fontWeight: "700" },
+};
+
+// Printed lines: whatever follows the last control byte before each line feed
+function printedLines(bytes: Uint8Array) {
+  const lines: string[] = [];
+  let line = "";
+  for (const b of bytes) {
+    if (b === 0x0a) {
+      lines.push(line);
+      line = "";
+    } else if (b < 0x20) line = "";
+    else line += String.fromCharCode(b);
+  }
+  return lines;
+}
+
+describe("encodeEscPos tables", () => {
+  it("right-aligns the number columns and wraps the first to fill the paper", () => {
+    expect(printedLines(encodeEscPos([table], opts))).toEqual([
+      "Item                Qty      Amt",
+      "Basmati Rice",
+      "Premium 5kg           2 1,250.00",
+      "Salt                  1    20.00",
+    ]);
+  });
+
+  it("uses the wider column count on 80mm paper", () => {
+    const lines = printedLines(encodeEscPos([table], { ...opts, paperWidth: 80 }));
+    expect(lines[1]).toBe("Basmati Rice Premium 5kg              2 1,250.00");
+    expect(lines.every((l) => l.length === 48)).toBe(true);
+  });
+
+  it("bolds only the header row", () => {
+    const text = String.fromCharCode(...encodeEscPos([table], opts));
+    const boldOn = "\x1bE\x01";
+    const boldOff = "\x1bE\x00";
+    expect(text.indexOf(boldOn)).toBeLessThan(text.indexOf("Item"));
+    expect(text.lastIndexOf(boldOn)).toBe(text.indexOf(boldOn));
+    expect(text.lastIndexOf(boldOff, text.indexOf("Basmati"))).toBeGreaterThan(
+      text.indexOf("Item"),
+    );
+  });
+});
@@ -0,0 +1,271 @@
+// ESC/POS encoder for thermal receipt printers. Turns the receipt layout built
+// by buildReceiptData (PosPrintData blocks) into raw printer commands.
+// Pure: no node/electron imports, so Settings can read the option lists too.
+
+// The CSS-like subset buildReceiptData sets on blocks.
+export type PrintStyle = {
+  textAlign?: string;
+  fontWeight?: string | number;
+  fontSize?: string;
+  margin?: string;
+  border?: string;
+};
+
+export type PosPrintData =
+  | { type: "text"; value: string; style?: PrintStyle }
+  | {
+      type: "table";
+      tableHeader: string[];
+      tableBody: (string | number)[][];
+      style?: PrintStyle;
+      tableHeaderStyle?: PrintStyle;
+      tableBodyStyle?: PrintStyle;
+    }
+  | { type: "image"; path?: string; url?: string; style?: PrintStyle }
+  | {
+      type: "barCode" | "qrCode";
+      value: string;
+      height?: number;
+      width?: number;
+      style?: PrintStyle;
+    };
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in font A, and printable dots per line
+export const PAPER = {
+  58: { columns: 32, dots: 384 },
+  80: { columns: 48, dots: 576 },
+} as const;
+
+// Upper halves (0x80-0xFF) of the single-byte code pages we can select
+const CP437 =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐" +
+  "└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0";
+const CP850 =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐" +
+  "└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0";
+const CP1252 =
+  "€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd\ufffd‘’“”•–—˜™š›œ\ufffdžŸ" +
+  Array.from({ length: 96 }, (_, i) => String.fromCharCode(0xa0 + i)).join("");
+
+// `n` is the ESC t code page number in Epson's table
+export const CODE_PAGES = {
+  pc437: { n: 0, label: "PC437 (USA, standard Europe)", table: CP437 },
+  pc850: { n: 2, label: "PC850 (Multilingual)", table: CP850 },
+  pc858: {
+    n: 19,
+    label: "PC858 (Multilingual with €)",
+    table: CP850.replace("ı", "€"),
+  },
+  wpc1252: { n: 16, label: "WPC1252 (Windows Latin 1)", table: CP1252 },
+} as const;
+
+export type CodePage = keyof typeof CODE_PAGES;
+
+export function isCodePage(key: string): key is CodePage {
+  return Object.prototype.hasOwnProperty.call(CODE_PAGES, key);
+}
+
+/** 1-bit image, row-major, one byte per pixel (1 = black). */
+export type MonoImage = { width: number; height: number; pixels: Uint8Array };
+
+export type EscPosOptions = {
+  paperWidth: PaperWidth;
+  codePage: CodePage;
+  cut: boolean;
+  drawerKick: boolean;
+  images?: Record<string, MonoImage>; // image blocks by url (or path)
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Stand-ins for characters no code page has
+const TRANSLITERATE: Record<string, string> = {
+  "₹": "Rs.",
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "…": "...",
+  "•": "*",
+  "×": "x",
+};
+
+function encodeText(text: string, codePage: CodePage) {
+  const table = CODE_PAGES[codePage].table;
+  const out: number[] = [];
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (code < 0x80) {
+      out.push(code);
+      continue;
+    }
+    const i = table.indexOf(ch);
+    if (i >= 0) {
+      out.push(0x80 + i);
+      continue;
+    }
+    const stand = TRANSLITERATE[ch] ?? ch.normalize("NFD")[0];
+    for (const c of stand) out.push(c.charCodeAt(0) < 0x80 ? c.charCodeAt(0) : 0x3f);
+  }
+  return out;
+}
+
+function wrap(text: string, width: number) {
+  const lines: string[] = [];
+  for (const para of text.split("\n")) {
+    let line = "";
+    for (const word of para.split(" ")) {
+      let w = word;
+      while (w.length > width) {
+        if (line) lines.push(line);
+        lines.push(w.slice(0, width));
+        line = "";
+        w = w.slice(width);
+      }
+      if (!line) line = w;
+      else if (line.length + 1 + w.length <= width) line += ` ${w}`;
+      else {
+        lines.push(line);
+        line = w;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const alignOf = (style?: PrintStyle) =>
+  style?.textAlign === "center" ? 1 : style?.textAlign === "right" ? 2 : 0;
+
+const isBold = (style?: PrintStyle) =>
+  style?.fontWeight === "bold" || Number(style?.fontWeight) >= 600;
+
+const isLarge = (style?: PrintStyle) => parseInt(String(style?.fontSize ?? ""), 10) >= 16;
+
+function raster(img: MonoImage) {
+  const bytesPerRow = Math.ceil(img.width / 8);
+  const out = [
+    GS, 0x76, 0x30, 0,
+    bytesPerRow & 0xff, bytesPerRow >> 8,
+    img.height & 0xff, img.height >> 8,
+  ];
+  for (let y = 0; y < img.height; y++) {
+    for (let bx = 0; bx < bytesPerRow; bx++) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const x = bx * 8 + bit;
+        if (x < img.width && img.pixels[y * img.width + x]) byte |= 0x80 >> bit;
+      }
+      out.push(byte);
+    }
+  }
+  return out;
+}
+
+function qrCode(value: string, size: number) {
+  const data = Array.from(new TextEncoder().encode(value));
+  const len = data.length + 3;
+  return [
+    GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0, // model 2
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.min(16, Math.max(1, size)), // module size
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31, // error correction M
+    GS, 0x28, 0x6b, len & 0xff, len >> 8, 0x31, 0x50, 0x30, ...data,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30, // print
+  ];
+}
+
+function barCode128(value: string, height: number, width: number) {
+  const data = [0x7b, 0x42, ...Array.from(value, (c) => c.charCodeAt(0) & 0x7f)];
+  return [
+    GS, 0x68, Math.min(255, Math.max(1, height)),
+    GS, 0x77, Math.min(6, Math.max(2, width)),
+    GS, 0x48, 2, // human-readable text below
+    GS, 0x6b, 73, data.length, ...data,
+  ];
+}
+
+/** Pulse on drawer pin 2 (the usual RJ11 drawer port): 50ms on, 500ms off. */
+export function drawerKick() {
+  return Uint8Array.from([ESC, 0x70, 0, 25, 250]);
+}
+
+/** Encodes a receipt layout into ESC/POS bytes for the given paper. */
+export function encodeEscPos(blocks: PosPrintData[], opts: EscPosOptions) {
+  const { columns } = PAPER[opts.paperWidth];
+  const out: number[] = [ESC, 0x40, ESC, 0x74, CODE_PAGES[opts.codePage].n];
+
+  const text = (s: string) => out.push(...encodeText(s, opts.codePage));
+  const align = (n: number) => out.push(ESC, 0x61, n);
+  const bold = (on: boolean) => out.push(ESC, 0x45, on ? 1 : 0);
+  const large = (on: boolean) => out.push(GS, 0x21, on ? 0x11 : 0);
+
+  for (const block of blocks) {
+    if (block.type === "text") {
+      const big = isLarge(block.style);
+      const width = big ? Math.floor(columns / 2) : columns;
+      // Rules ("-----") stretch to the paper width
+      const value = /^([-=_*])\1+$/.test(block.value.trim())
+        ? block.value.trim()[0].repeat(width)
+        : block.value;
+      align(alignOf(block.style));
+      bold(isBold(block.style));
+      large(big);
+      for (const line of wrap(value, width)) {
+        text(line);
+        out.push(0x0a);
+      }
+      large(false);
+      bold(false);
+    } else if (block.type === "table") {
+      const rows = [block.tableHeader, ...block.tableBody].map((r) =>
+        r.map((c) => String(c)),
+      );
+      const n = block.tableHeader.length;
+      // Columns after the first are right-aligned and as wide as their
+      // longest value; the first column takes what's left and wraps
+      const widths = Array.from({ length: n }, (_, i) =>
+        i === 0 ? 0 : Math.max(...rows.map((r) => (r[i] ?? "").length)),
+      );
+      widths[0] = Math.max(
+        8,
+        columns - widths.slice(1).reduce((a, w) => a + w + 1, 0),
+      );
+      align(0);
+      rows.forEach((r, ri) => {
+        bold(ri === 0 && isBold(block.tableHeaderStyle));
+        const first = wrap(r[0] ?? "", widths[0]);
+        const rest = r
+          .slice(1)
+          .map((c, i) => ` ${c.padStart(widths[i + 1])}`)
+          .join("");
+        first.forEach((line, li) => {
+          text(li === first.length - 1 ? line.padEnd(widths[0]) + rest : line);
+          out.push(0x0a);
+        });
+      });
+      bold(false);
+    } else if (block.type === "image") {
+      const img = opts.images?.[block.url ?? block.path ?? ""];
+      if (!img) continue;
+      align(1);
+      out.push(...raster(img), 0x0a);
+    } else if (block.type === "qrCode") {
+      align(1);
+      out.push(...qrCode(block.value, block.width ?? 6), 0x0a);
+    } else if (block.type === "barCode") {
+      align(1);
+      out.push(...barCode128(block.value, block.height ?? 60, block.width ?? 2), 0x0a);
+    }
+  }
+
+  align(0);
+  out.push(ESC, 0x64, 3); // feed past the tear bar
+  if (opts.cut) out.push(GS, 0x56, 66, 3); // feed and partial cut
+  if (opts.drawerKick) out.push(...drawerKick());
+  return Uint8Array.from(out);
+}
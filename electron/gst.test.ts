@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { gstForLine } from "./gst";
+
+describe("gstForLine", () => {
+  it("carries no tax at a 0% rate", () => {
+    const nil = { taxableValue: 250, tax: 0, cgst: 0, sgst: 0, igst: 0 };
+    expect(gstForLine(250, 0, true, false)).toEqual(nil);
+    expect(gstForLine(250, 0, false, false)).toEqual(nil);
+  });
+
+  it("takes GST out of an inclusive price", () => {
+    expect(gstForLine(118, 18, true, false)).toEqual({
+      taxableValue: 100,
+      tax: 18,
+      cgst: 9,
+      sgst: 9,
+      igst: 0,
+    });
+    expect(gstForLine(100, 5, true, false)).toMatchObject({
+      taxableValue: 95.24,
+      tax: 4.76,
+    });
+  });
+
+  it("adds GST on top of an exclusive price", () => {
+    expect(gstForLine(100, 18, false, false)).toEqual({
+      taxableValue: 100,
+      tax: 18,
+      cgst: 9,
+      sgst: 9,
+      igst: 0,
+    });
+  });
+
+  it("puts the odd paisa on one side so CGST + SGST equals the tax", () => {
+    const line = gstForLine(10.5, 18, false, false);
+    expect(line.tax).toBe(1.89);
+    expect([line.cgst, line.sgst]).toEqual([0.95, 0.94]);
+
+    const small = gstForLine(10.1, 5, false, false);
+    expect(small.tax).toBe(0.51);
+    expect(small.cgst + small.sgst).toBeCloseTo(small.tax, 10);
+  });
+
+  it("charges inter-state supplies as IGST only", () => {
+    expect(gstForLine(118, 18, true, true)).toEqual({
+      taxableValue: 100,
+      tax: 18,
+      cgst: 0,
+      sgst: 0,
+      igst: 18,
+    });
+  });
+});
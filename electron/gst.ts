@@ -0,0 +1,88 @@
+// GST arithmetic shared by the POS cart (renderer) and computeReceiptTotals
+// (main). Keep this module free of node/electron imports.
+
+export type GstLine = {
+  taxableValue: number;
+  tax: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+};
+
+export type GstRateBreakup = GstLine & { gstRate: number };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Splits a line's net selling value (after discounts) into taxable value and
+ * tax. With inclusive pricing the net value already contains GST (Indian
+ * MRP); otherwise GST is added on top. Intra-state supplies split the tax
+ * equally into CGST + SGST, inter-state supplies carry it all as IGST.
+ */
+export function gstForLine(
+  netValue: number,
+  gstRate: number,
+  inclusive: boolean,
+  interState: boolean,
+): GstLine {
+  const rate = Math.max(0, Number(gstRate || 0));
+  const net = Math.max(0, Number(netValue || 0));
+
+  const taxableValue = inclusive ? net / (1 + rate / 100) : net;
+  const tax = round2(inclusive ? net - taxableValue : (net * rate) / 100);
+  const half = round2(tax / 2);
+
+  return {
+    taxableValue: round2(taxableValue),
+    tax,
+    cgst: interState ? 0 : half,
+    sgst: interState ? 0 : round2(tax - half),
+    igst: interState ? tax : 0,
+  };
+}
+
+/** Groups line breakups by GST rate, lowest rate first. */
+export function breakupByRate(
+  lines: Array<GstLine & { gstRate: number }>,
+): GstRateBreakup[] {
+  const byRate = new Map<number, GstRateBreakup>();
+  for (const l of lines) {
+    const r = byRate.get(l.gstRate) ?? {
+      gstRate: l.gstRate,
+      taxableValue: 0,
+      tax: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+    };
+    r.taxableValue = round2(r.taxableValue + l.taxableValue);
+    r.tax = round2(r.tax + l.tax);
+    r.cgst = round2(r.cgst + l.cgst);
+    r.sgst = round2(r.sgst + l.sgst);
+    r.igst = round2(r.igst + l.igst);
+    byRate.set(l.gstRate, r);
+  }
+  return Array.from(byRate.values()).sort((a, b) => a.gstRate - b.gstRate);
+}
+
+// State code, PAN, entity number, "Z" and a check character
+export const GSTIN_RE = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/** First two digits of a GSTIN are the state code ("33" = Tamil Nadu). */
+export function gstinStateCode(gstin: string | null | undefined) {
+  const code = String(gstin ?? "").trim().slice(0, 2);
+  return /^\d{2}$/.test(code) ? code : null;
+}
+
+/**
+ * A sale is inter-state only when both GSTINs are known and their state codes
+ * differ; walk-in (B2C) sales are treated as intra-state.
+ */
+export function isInterStateSupply(
+  storeGstin: string | null | undefined,
+  customerGstin: string | null | undefined,
+) {
+  const store = gstinStateCode(storeGstin);
+  const customer = gstinStateCode(customerGstin);
+  return Boolean(store && customer && store !== customer);
+}
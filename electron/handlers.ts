@@ -9,24 +9,178 @@ if (!(global as any).__dirname) {
   (global as any).__dirname = import.meta.url;
 }
 
-import { BrowserWindow, ipcMain } from "electron";
-import { and, count, desc, eq, gte, lte } from "drizzle-orm";
-import { db } from "./db";
 import {
+  app,
+  BrowserWindow,
+  dialog,
+  ipcMain,
+  nativeImage,
+  type IpcMainInvokeEvent,
+  type WebContents,
+} from "electron";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  lt,
+  lte,
+  sql,
+} from "drizzle-orm";
+import * as fs from "fs";
+import * as path from "path";
+import { db, sqlite } from "./db";
+import {
+  auditDiff,
+  getAuditLog,
+  verifyAuditChain,
+  writeAudit,
+  type AuditEntry,
+} from "./audit";
+import {
+  getBackupStatus,
+  inspectBackup,
+  listBackups,
+  restoreBackup,
+  runBackup,
+  startBackupSchedule,
+} from "./backup";
+import { retailBarcodeError, STORE_BARCODE_PREFIX_RE } from "./barcode";
+import { CODE_PAGES, isCodePage, PAPER } from "./escpos";
+import { GSTIN_RE } from "./gst";
+import {
+  buildLabelSheetHtml,
+  buildTspl,
+  buildZpl,
+  isLabelSheet,
+  LABEL_LANGUAGES,
+  soldLoose,
+  type LabelItem,
+} from "./labels";
+import { MigrationError, runMigrations } from "./migrations";
+import {
+  DRAWER_KICK_MODES,
+  getLabelDesign,
+  getLabelPrinter,
+  getPrinterConfig,
+  getReceiptTemplate,
+  openCashDrawer,
+  printEscPos,
+  PRINTER_INTERFACES,
+  sendToPrinter,
+} from "./printer";
+import {
+  buildReceiptData,
+  buildReceiptHtml,
+  escapeHtml,
+  UPI_ID_RE,
+  type BillPayload,
+} from "./receipt";
+import { readSpreadsheet, toCsv, toXlsx } from "./spreadsheet";
+import {
+  approveOverride,
+  approveStockTake,
+  cancelStockTake,
+  can,
   createReceiptWithItems,
-  ensureDbSchema,
+  collectCustomerPayment,
+  createPurchaseOrder,
+  createReturnForReceipt,
+  closeShift,
+  getCustomerBalance,
+  getDiscountLimitPct,
+  findProductByBarcode,
+  generateStoreBarcode,
+  getExpiringBatches,
+  getGstReturns,
+  getGstr3bSheet,
+  getLoyaltyBalance,
+  getLoyaltyRules,
+  getOpenShift,
+  getPermissionMatrix,
+  getPointsRefundable,
+  getPromotions,
+  getReturnableLines,
+  getSalesExport,
+  getSalesLines,
+  getShiftSummary,
+  getStockTake,
+  holdBill,
+  importProducts,
+  getStoreGstin,
+  hashSupervisorPin,
+  INVOICE_PREFIX_RE,
+  invoiceLabel,
+  isTaxInclusive,
+  listStockTakes,
+  openShift,
+  previewProductImport,
+  OverrideRequiredError,
+  purgeExpiredHolds,
+  recallHeldBill,
+  receiveGoods,
+  recordCashMovement,
+  recordStockCount,
+  savePromotion,
   seedDbIfEmpty,
+  setRolePermissions,
+  startStockTake,
+  type PaymentFilter,
+  type PromotionInput,
+  type ShiftSummary,
+  type StockTakeScope,
 } from "./bootstrap";
+import {
+  CATALOGUE_COLUMNS,
+  type CatalogueField,
+  type CatalogueRow,
+} from "./catalogue";
+import { isOverrideAction, PERMISSIONS } from "./permissions";
+import {
+  authorize,
+  endSession,
+  requirePermission,
+  requireSession,
+  sessionOf,
+  startSession,
+  syncUserSessions,
+  type Role,
+  type SessionUser,
+} from "./session";
 import {
   categories,
+  creditNoteItems,
+  creditNotes,
+  customerLedger,
+  customers,
+  goodsReceivedNotes,
+  heldBillItems,
+  heldBills,
+  grnItems,
+  labelQueue,
+  loyaltyLedger,
   notifications,
+  productBatches,
   productLogs,
   products,
+  promotionItems,
+  promotions,
+  purchaseOrderItems,
+  purchaseOrders,
+  receiptItems,
+  receiptReprints,
+  receiptTaxBreakup,
   receipts,
   settings,
+  shifts,
+  stockTakeItems,
   storeSettings,
+  supervisorOverrides,
   suppliers,
-  transactionItems,
   userSettings,
   users,
 } from "./schema";
@@ -36,236 +190,128 @@ import { createRequire } from "node:module";
 const require = createRequire(import.meta.url);
 const bcrypt = require("bcrypt");
 
-// Types for bill printing
-type BillItem = { name: string; qty: number; price: number };
-type BillPayload = {
-  storeName: string;
-  address: string;
-  phone: string;
-  billNo: string;
-  dateTime: string;
-  items: BillItem[];
-  total: number;
-  paymentMode: string;
-};
-type PosPrintData =
-  | { type: "text"; value: string; style?: any }
-  | {
-      type: "table";
-      tableHeader: string[];
-      tableBody: (string | number)[][];
-      style?: any;
-      tableHeaderStyle?: any;
-      tableBodyStyle?: any;
-    }
-  | { type: "image"; path?: string; url?: string; style?: any }
-  | {
-      type: "barCode" | "qrCode";
-      value: string;
-      height?: number;
-      width?: number;
-      style?: any;
-    };
-
-type Role = "admin" | "staff" | "manager";
-
+// Bills as the till sends them; the store's details come from Settings
+type BillRequest = Omit<BillPayload, "storeName" | "address" | "phone">;
 type DeviceStatus = "connected" | "disconnected" | "unknown";
 let lastScannerActivityAt: number | null = null;
 const SCANNER_ACTIVE_WINDOW_MS = 30_000;
-
-// Session management
-let currentUser: { id: number; name: string; role: Role } | null = null;
-
-function escapeHtml(s: string) {
-  return s
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
-}
-
-function buildReceiptHtml(payload: BillPayload) {
-  const itemRows = payload.items
-    .map((it) => {
-      const amt = Number(it.qty) * Number(it.price);
-      return `<tr>
-        <td class="name">${escapeHtml(it.name)}</td>
-        <td class="qty">${Number(it.qty)}</td>
-        <td class="rate">${Number(it.price).toFixed(2)}</td>
-        <td class="amt">${amt.toFixed(2)}</td>
-      </tr>`;
-    })
+const MAX_LABEL_COPIES = 500;
+
+function buildZReportHtml(payload: BillPayload, summary: ShiftSummary) {
+  const money = (n: number | null | undefined) => Number(n ?? 0).toFixed(2);
+  const row = (label: string, value: string) =>
+    `<tr><td>${escapeHtml(label)}</td><td class="amt">${value}</td></tr>`;
+  const fmtTime = (d: Date | null) =>
+    d ? new Date(d).toLocaleString("en-IN") : "—";
+
+  const { shift, sales, refunds } = summary;
+  const counts = Object.entries(shift.denominations ?? {})
+    .sort((a, b) => Number(b[0]) - Number(a[0]))
+    .map(([denom, n]) =>
+      row(`₹${denom} × ${n}`, money(Number(denom) * Number(n))),
+    )
+    .join("\n");
+  const movements = summary.movements
+    .map((m) =>
+      row(
+        `${m.type === "in" ? "In" : "Out"}: ${m.reason ?? "—"}`,
+        (m.type === "in" ? "" : "-") + money(m.amount),
+      ),
+    )
     .join("\n");
-
-  const total = Number(payload.total || 0).toFixed(2);
 
   return `<!doctype html>
   <html>
     <head>
       <meta charset="utf-8" />
-      <meta name="viewport" content="width=device-width, initial-scale=1" />
-      <title>Receipt</title>
+      <title>Z-Report</title>
       <style>
         * { box-sizing: border-box; }
         body { margin: 0; padding: 10px; font-family: Arial, sans-serif; }
         .receipt { width: 280px; }
         .center { text-align: center; }
-        .logo { font-weight: 800; letter-spacing: 2px; font-size: 18px; }
         .muted { color: #444; font-size: 11px; }
-        .meta { margin-top: 6px; font-size: 11px; }
         .hr { border-top: 1px dashed #111; margin: 8px 0; }
+        .title { font-size: 12px; font-weight: 700; margin: 4px 0; }
         table { width: 100%; border-collapse: collapse; font-size: 11px; }
-        th { text-align: left; padding: 2px 0; border-bottom: 1px solid #ddd; }
         td { padding: 2px 0; vertical-align: top; }
-        td.qty, td.rate, td.amt { text-align: right; width: 52px; }
-        td.name { width: auto; }
+        td.amt { text-align: right; }
         .totalRow { display: flex; justify-content: space-between; font-size: 12px; font-weight: 700; }
-        .foot { margin-top: 8px; font-size: 11px; }
       </style>
     </head>
     <body>
       <div class="receipt">
         <div class="center">
-          <div class="logo">AVM</div>
           <div style="font-size:14px; font-weight:700;">${escapeHtml(payload.storeName)}</div>
           <div class="muted">${escapeHtml(payload.address)}</div>
-          <div class="muted">Phone: ${escapeHtml(payload.phone)}</div>
+          <div style="font-size:12px; font-weight:700; margin-top:4px;">Z-REPORT · SHIFT #${shift.id}</div>
         </div>
 
         <div class="hr"></div>
-
-        <div class="meta">
-          <div>Bill: ${escapeHtml(payload.billNo)}</div>
-          <div>${escapeHtml(payload.dateTime)}</div>
-        </div>
+        <table>
+          ${row("Cashier", escapeHtml(shift.openedByName ?? "—"))}
+          ${row("Opened", escapeHtml(fmtTime(shift.openedAt)))}
+          ${row("Closed", escapeHtml(fmtTime(shift.closedAt)))}
+          ${shift.closedByName ? row("Closed by", escapeHtml(shift.closedByName)) : ""}
+        </table>
 
         <div class="hr"></div>
+        <div class="title">Sales (${sales.count} bills)</div>
+        <table>
+          ${row("Cash", money(sales.cash))}
+          ${row("UPI", money(sales.upi))}
+          ${row("Card", money(sales.card))}
+          ${row("Credit (khata)", money(sales.credit))}
+          ${row("Points", money(sales.points))}
+          ${row("Total", money(sales.total))}
+          ${row(`Refunds (${refunds.count})`, "-" + money(refunds.total))}
+        </table>
 
+        <div class="hr"></div>
+        <div class="title">Cash drawer</div>
         <table>
-          <thead>
-            <tr>
-              <th>Item</th>
-              <th style="text-align:right;">Qty</th>
-              <th style="text-align:right;">Rate</th>
-              <th style="text-align:right;">Amt</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${itemRows}
-          </tbody>
+          ${row("Opening float", money(shift.openingFloat))}
+          ${row("Cash sales", money(sales.cash))}
+          ${row("Khata collections", money(summary.collectionsCash))}
+          ${row("Cash in", money(summary.cashIn))}
+          ${row("Cash out", "-" + money(summary.cashOut))}
+          ${row("Cash refunds", "-" + money(refunds.cash))}
         </table>
+        ${movements ? `<div class="hr"></div><table>${movements}</table>` : ""}
 
         <div class="hr"></div>
+        <div class="title">Count</div>
+        <table>${counts || row("No cash counted", "")}</table>
 
-        <div class="totalRow">
-          <span>Total</span>
-          <span>${total}</span>
-        </div>
-        <div class="foot">
-          <div>Payment: ${escapeHtml(payload.paymentMode)}</div>
-          <div class="center" style="margin-top:6px;">Thank you! Visit again.</div>
-        </div>
+        <div class="hr"></div>
+        <div class="totalRow"><span>Expected</span><span>${money(summary.expectedCash)}</span></div>
+        <div class="totalRow"><span>Counted</span><span>${money(shift.countedCash)}</span></div>
+        <div class="totalRow"><span>Variance</span><span>${money(shift.variance)}</span></div>
+        ${shift.closingNote ? `<div class="muted" style="margin-top:6px;">${escapeHtml(shift.closingNote)}</div>` : ""}
+        <div class="muted center" style="margin-top:8px;">Printed ${escapeHtml(payload.dateTime)}</div>
       </div>
     </body>
   </html>`;
 }
 
-/**
- * Helper to build receipt data for PosPrinter.
- * Kept as a pure function with no side effects so it can be unit-tested easily
- * and does not contribute to startup-time crashes.
- */
-export function buildReceiptData(payload: BillPayload): PosPrintData[] {
-  const {
-    storeName,
-    address,
-    phone,
-    billNo,
-    dateTime,
-    items,
-    total,
-    paymentMode,
-  } = payload;
-
-  const itemRows = items.map((item) => [
-    item.name,
-    String(item.qty),
-    item.price.toFixed(2),
-    (item.qty * item.price).toFixed(2),
-  ]);
-
-  return [
-    {
-      type: "text",
-      value: storeName,
-      style: {
-        fontWeight: "700",
-        textAlign: "center",
-        fontSize: "18px",
-      },
-    },
-    {
-      type: "text",
-      value: address,
-      style: { textAlign: "center", fontSize: "10px" },
-    },
-    {
-      type: "text",
-      value: `Phone: ${phone}`,
-      style: {
-        textAlign: "center",
-        fontSize: "10px",
-        margin: "0 0 4px 0",
-      },
-    },
-    {
-      type: "text",
-      value: `Bill No: ${billNo}   Date: ${dateTime}`,
-      style: { fontSize: "10px", margin: "4px 0" },
-    },
-    {
-      type: "text",
-      value: "--------------------------------",
-      style: { textAlign: "center" },
-    },
-    {
-      type: "table",
-      style: { border: "0px solid #fff" },
-      tableHeader: ["Item", "Qty", "Rate", "Amt"],
-      tableBody: itemRows,
-      tableHeaderStyle: { fontSize: "10px", fontWeight: "700" },
-      tableBodyStyle: { fontSize: "10px" },
-    },
-    {
-      type: "text",
-      value: "--------------------------------",
-      style: { textAlign: "center" },
-    },
-    {
-      type: "text",
-      value: `Total: ${total.toFixed(2)}`,
-      style: {
-        fontSize: "12px",
-        fontWeight: "700",
-        textAlign: "right",
-      },
-    },
-    {
-      type: "text",
-      value: `Payment: ${paymentMode}`,
-      style: {
-        fontSize: "10px",
-        textAlign: "right",
-        margin: "4px 0 0 0",
-      },
-    },
-    {
-      type: "text",
-      value: "Thank you! Visit again.",
-      style: { textAlign: "center", margin: "6px 0 0 0" },
-    },
-  ];
+/** Payment label for a saved bill's tender split, as the till prints it. */
+function paymentModeOf(paymentSplit: string | null) {
+  let split: Record<string, number> = {};
+  try {
+    split = JSON.parse(paymentSplit ?? "{}");
+  } catch {
+    // legacy rows without a split
+  }
+  const paid = (
+    [
+      ["CASH", split.cashAmt],
+      ["UPI", split.upiAmt],
+      ["CARD", split.cardAmt],
+    ] as const
+  ).filter(([, amt]) => Number(amt ?? 0) > 0.01);
+  if (Number(split.creditAmt ?? 0) > 0.01) return paid.length ? "MIXED" : "CREDIT";
+  if (paid.length === 1) return paid[0][0];
+  return paid.length ? "MIXED" : "PENDING";
 }
 
 function ok<T extends object>(data?: T) {
@@ -275,18 +321,16 @@ function fail(error: unknown) {
   return { success: false, error: String(error) };
 }
 
-function assertAdmin(currentUserId: number) {
-  try {
-    console.log(`🔐 Checking admin status for user ${currentUserId}`);
-    const u = db.select().from(users).where(eq(users.id, currentUserId)).get();
-    if (!u) throw new Error("Current user not found");
-    if (u.role !== "admin") throw new Error("Access denied (admin only)");
-    console.log(`✅ Admin check passed for user ${currentUserId}`);
-    return u;
-  } catch (e) {
-    console.error(`❌ Admin check failed for user ${currentUserId}:`, e);
-    throw e;
-  }
+/** Near-expiry window in days from store_settings (defaults to 30). */
+function getExpiryWarningDays() {
+  const row = db
+    .select({ expiryWarningIn: storeSettings.expiryWarningIn })
+    .from(storeSettings)
+    .where(isNotNull(storeSettings.expiryWarningIn))
+    .orderBy(asc(storeSettings.id))
+    .get();
+  const days = Number(row?.expiryWarningIn ?? 30);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
 }
 
 export async function setupHandlers() {
@@ -298,16 +342,34 @@ export async function setupHandlers() {
   ipcMain.removeAllListeners("print-bill:error");
   
   let bootstrapError: string | null = null;
+  // Shown on the Auth screen, with the backup taken before the upgrade
+  let migrationFailure: {
+    version: number;
+    name: string;
+    backup: string | null;
+  } | null = null;
   try {
-    console.log("📊 Ensuring database schema...");
-    ensureDbSchema();
-    console.log("📊 Schema ensured successfully");
+    console.log("📊 Running schema migrations...");
+    const { applied } = await runMigrations();
+    console.log(
+      applied.length > 0
+        ? `📊 Schema migrated (${applied.join(", ")})`
+        : "📊 Schema up to date",
+    );
     
     console.log("🌱 Seeding database if empty...");
     await seedDbIfEmpty();
     console.log("🌱 Database seeding completed");
   } catch (e) {
     bootstrapError = String(e);
+    if (e instanceof MigrationError) {
+      bootstrapError = e.message;
+      migrationFailure = {
+        version: e.version,
+        name: e.migration,
+        backup: e.backup,
+      };
+    }
     console.error("❌ DB bootstrap failed:", e);
     console.error("❌ Bootstrap error details:", {
       message: e instanceof Error ? e.message : String(e),
@@ -318,14 +380,49 @@ export async function setupHandlers() {
 
   console.log("🔧 Setting up IPC handlers...");
 
+  // Every channel is checked against the access table in ./session first
+  const handle = (
+    channel: string,
+    listener: (event: IpcMainInvokeEvent, ...args: any[]) => unknown,
+  ) =>
+    ipcMain.handle(channel, (event, ...args) => {
+      const denied = authorize(channel, event);
+      if (denied) {
+        console.warn(`🔐 ${channel} refused: ${denied}`);
+        return fail(denied);
+      }
+      return listener(event, ...args);
+    });
+
+  const canSeeCost = (event: IpcMainInvokeEvent) => {
+    const me = sessionOf(event);
+    return me ? can(me.role, "cost.view") : false;
+  };
+
+  // Blanks cost prices for roles without cost.view
+  const costVisibleTo = (event: IpcMainInvokeEvent) => {
+    const visible = canSeeCost(event);
+    return <T extends { cost: number }>(row: T) =>
+      visible ? row : { ...row, cost: null };
+  };
+
+  // Appends to the audit trail as the caller; run inside the change's transaction
+  const audit = (
+    event: IpcMainInvokeEvent,
+    entry: Omit<AuditEntry, "actor">,
+  ) => {
+    const me = sessionOf(event);
+    writeAudit({ ...entry, actor: me && { id: me.id, name: me.name } });
+  };
+
   // -------- Auth --------
 
-  ipcMain.handle("auth:check-init", () => {
+  handle("auth:check-init", () => {
     try {
       console.log("🔍 auth:check-init called");
       if (bootstrapError) {
         console.log("❌ Bootstrap error detected:", bootstrapError);
-        return fail(bootstrapError);
+        return { ...fail(bootstrapError), migration: migrationFailure };
       }
       const result = db.select({ count: count() }).from(users).get();
       console.log("✅ auth:check-init success");
@@ -336,7 +433,7 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle(
+  handle(
     "auth:setup-admin",
     async (_, { name, password }: { name: string; password: string }) => {
       try {
@@ -370,9 +467,9 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle(
+  handle(
     "auth:login",
-    async (_, { name, password }: { name: string; password: string }) => {
+    async (event, { name, password }: { name: string; password: string }) => {
       try {
         if (bootstrapError) return fail(bootstrapError);
         const u = db.select().from(users).where(eq(users.name, name)).get();
@@ -383,26 +480,26 @@ export async function setupHandlers() {
         
         if (!u.active) return { success: false, error: "User is disabled" };
 
-        // Set current user session
-        currentUser = { id: u.id, name: u.name, role: u.role as Role };
+        // Bind the session to the renderer that logged in
+        const user = { id: u.id, name: u.name, role: u.role as Role };
+        startSession(event.sender, user);
 
-        return ok({
-          user: { id: u.id, name: u.name, role: u.role as Role },
-        });
+        return ok({ user });
       } catch (e) {
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
+  handle(
     "auth:change-password",
-    async (_, args: { currentUserId: number; password: string }) => {
+    async (event, args: { password: string }) => {
       try {
+        const me = requireSession(event);
         const existingUser = db
           .select()
           .from(users)
-          .where(eq(users.id, args.currentUserId))
+          .where(eq(users.id, me.id))
           .get();
         if (!existingUser) return fail("User not found");
 
@@ -412,7 +509,7 @@ export async function setupHandlers() {
         const hashedPassword = await bcrypt.hash(args.password, 10);
         db.update(users)
           .set({ password: hashedPassword })
-          .where(eq(users.id, args.currentUserId))
+          .where(eq(users.id, me.id))
           .run();
         return ok();
       } catch (e) {
@@ -421,18 +518,18 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle("auth:logout", () => {
+  handle("auth:logout", (event) => {
     try {
-      currentUser = null;
+      endSession(event.sender);
       return ok();
     } catch (e) {
       return fail(e);
     }
   });
 
-  ipcMain.handle("auth:checkSession", () => {
+  handle("auth:checkSession", (event) => {
     try {
-      return ok({ user: currentUser });
+      return ok({ user: sessionOf(event) });
     } catch (e) {
       return fail(e);
     }
@@ -440,35 +537,39 @@ export async function setupHandlers() {
 
   // -------- Products --------
 
-  ipcMain.handle("products:getAll", () => {
+  handle("products:getAll", (event) => {
     try {
       console.log("🔍 products:getAll called");
       const all = db.select().from(products).all();
       console.log("✅ products:getAll success, found:", all.length, "products");
-      return ok({ products: all });
+      return ok({ products: all.map(costVisibleTo(event)) });
     } catch (e) {
       console.error("❌ products:getAll failed:", e);
       return fail(e);
     }
   });
 
-  ipcMain.handle(
+  handle(
     "products:barcodeExists",
     (_, { barcode }: { barcode: string }) => {
       try {
-        const row = db
-          .select({ id: products.id })
-          .from(products)
-          .where(eq(products.barcode, barcode))
-          .get();
-        return ok({ exists: Boolean(row) });
+        return ok({ exists: Boolean(findProductByBarcode(barcode)) });
       } catch (e) {
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
+  // A fresh in-store EAN-13 for a product that has no barcode of its own
+  handle("products:generateBarcode", () => {
+    try {
+      return ok({ barcode: generateStoreBarcode() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
     "products:add",
     (
       _,
@@ -483,12 +584,15 @@ export async function setupHandlers() {
         mrp: number;
         cost: number;
         gst: number;
+        hsn?: string | null;
         reorderLevel: number;
         warehouse?: string;
         description?: string;
       },
     ) => {
       try {
+        const badCode = retailBarcodeError(args.barcode?.trim() ?? "");
+        if (badCode) return fail(badCode);
         const inserted = db
           .insert(products)
           .values({
@@ -502,6 +606,7 @@ export async function setupHandlers() {
             mrp: args.mrp,
             cost: args.cost,
             gst: args.gst,
+            hsn: args.hsn?.trim() || null,
             reorderLevel: args.reorderLevel,
             warehouse: args.warehouse,
             description: args.description,
@@ -517,7 +622,7 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle("products:getOne", (_, { id }: { id: number }) => {
+  handle("products:getOne", (event, { id }: { id: number }) => {
     try {
       const product = db
         .select()
@@ -525,16 +630,16 @@ export async function setupHandlers() {
         .where(eq(products.id, id))
         .get();
       if (!product) return { success: false, error: "Product not found" };
-      return ok({ product });
+      return ok({ product: costVisibleTo(event)(product) });
     } catch (e) {
       return fail(e);
     }
   });
 
-  ipcMain.handle(
+  handle(
     "products:update",
     (
-      _,
+      event,
       {
         id,
         args,
@@ -551,6 +656,7 @@ export async function setupHandlers() {
           mrp: number;
           cost: number;
           gst: number;
+          hsn: string | null;
           reorderLevel: number;
           warehouse: string | null;
           description: string | null;
@@ -558,10 +664,55 @@ export async function setupHandlers() {
       },
     ) => {
       try {
-        db.update(products)
-          .set({ ...args, updatedAt: new Date() })
+        const current = db
+          .select()
+          .from(products)
           .where(eq(products.id, id))
-          .run();
+          .get();
+        if (!current) return fail("Product not found");
+        const repriced =
+          (args.mrp != null && Number(args.mrp) !== current.mrp) ||
+          (args.cost != null && Number(args.cost) !== current.cost);
+        if (repriced) requirePermission(event, "price.edit");
+        if (
+          args.quantity != null &&
+          Number(args.quantity) !== Number(current.quantity)
+        ) {
+          requirePermission(event, "stock.adjust");
+        }
+
+        sqlite.transaction(() => {
+          db.update(products)
+            .set({ ...args, updatedAt: new Date() })
+            .where(eq(products.id, id))
+            .run();
+          // Stock edited by hand is logged like any other movement
+          const delta =
+            args.quantity == null
+              ? 0
+              : Number(args.quantity) - Number(current.quantity);
+          if (delta !== 0) {
+            db.insert(productLogs)
+              .values({
+                productId: id,
+                receiptId: null,
+                type: "adjustment",
+                quantity: delta,
+                amount: delta * Number(current.cost),
+                datetime: new Date(),
+              })
+              .run();
+          }
+          const diff = auditDiff(current, args);
+          if (diff) {
+            audit(event, {
+              action: "update",
+              entity: "product",
+              entityId: id,
+              ...diff,
+            });
+          }
+        })();
         return ok();
       } catch (e) {
         return fail(e);
@@ -569,24 +720,185 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle("products:delete", (_, { id }: { id: number }) => {
+  handle("products:delete", (event, { id }: { id: number }) => {
     try {
-      // Remove dependent rows first (so FK constraints don't block deletion)
-      db.delete(productLogs).where(eq(productLogs.productId, id)).run();
-      db.delete(transactionItems)
-        .where(eq(transactionItems.productId, id))
-        .run();
+      const before = db.select().from(products).where(eq(products.id, id)).get();
+      if (!before) return fail("Product not found");
+
+      // Sales, returns, purchases and stock movements stay on the books, so a
+      // product that appears in any of them can't be deleted
+      const history = [
+        db.select({ n: count() })
+          .from(receiptItems)
+          .where(eq(receiptItems.productId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(productLogs)
+          .where(eq(productLogs.productId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(creditNoteItems)
+          .where(eq(creditNoteItems.productId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(purchaseOrderItems)
+          .where(eq(purchaseOrderItems.productId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(grnItems)
+          .where(eq(grnItems.productId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(stockTakeItems)
+          .where(eq(stockTakeItems.productId, id))
+          .get(),
+      ];
+      if (history.some((r) => (r?.n ?? 0) > 0)) {
+        return fail(
+          `${before.productName} has sales, purchase or stock history and can't be deleted`,
+        );
+      }
 
-      db.delete(products).where(eq(products.id, id)).run();
+      sqlite.transaction(() => {
+        db.delete(productBatches)
+          .where(eq(productBatches.productId, id))
+          .run();
+        db.delete(promotionItems).where(eq(promotionItems.productId, id)).run();
+        db.delete(heldBillItems).where(eq(heldBillItems.productId, id)).run();
+        db.delete(labelQueue).where(eq(labelQueue.productId, id)).run();
+        const bogo = db
+          .select({ id: promotions.id })
+          .from(promotions)
+          .where(eq(promotions.productId, id))
+          .all();
+        for (const p of bogo) {
+          db.delete(promotionItems)
+            .where(eq(promotionItems.promotionId, p.id))
+            .run();
+          db.delete(promotions).where(eq(promotions.id, p.id)).run();
+        }
+
+        db.delete(products).where(eq(products.id, id)).run();
+        audit(event, { action: "delete", entity: "product", entityId: id, before });
+      })();
       return ok();
     } catch (e) {
       return fail(e);
     }
   });
 
+  // -------- Catalogue import / export --------
+
+  // Reads an uploaded .csv / .xlsx into its header row and data rows
+  handle(
+    "products:importParse",
+    (_, { fileName, data }: { fileName: string; data: ArrayBuffer }) => {
+      try {
+        const sheet = readSpreadsheet(fileName, Buffer.from(data)).filter(
+          (r) => r.some((cell) => cell.trim() !== ""),
+        );
+        if (sheet.length < 2) return fail("The file has no product rows");
+        const [headers, ...rows] = sheet;
+        return ok({ headers, rows });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  const importOptions = (event: IpcMainInvokeEvent) => {
+    const me = requireSession(event);
+    return {
+      canEditPrice: can(me.role, "price.edit"),
+      canViewCost: can(me.role, "cost.view"),
+      canAdjustStock: can(me.role, "stock.adjust"),
+      actor: { id: me.id, name: me.name },
+    };
+  };
+
+  handle(
+    "products:importPreview",
+    (event, { rows }: { rows: CatalogueRow[] }) => {
+      try {
+        return ok(previewProductImport(rows, importOptions(event)));
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "products:importCommit",
+    (event, { rows }: { rows: CatalogueRow[] }) => {
+      try {
+        return ok({ result: importProducts(rows, importOptions(event)) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "products:export",
+    (event, { format }: { format: "csv" | "xlsx" }) => {
+      try {
+        const visible = costVisibleTo(event);
+        const rows = db
+          .select({
+            product: products,
+            category: categories.categoryName,
+            supplier: suppliers.supplierName,
+          })
+          .from(products)
+          .leftJoin(categories, eq(categories.id, products.categoryId))
+          .leftJoin(suppliers, eq(suppliers.id, products.supplierId))
+          .orderBy(asc(products.productName))
+          .all();
+
+        const sheet = [
+          CATALOGUE_COLUMNS.map((c) => c.label),
+          ...rows.map(({ product, category, supplier }) => {
+            const p = visible(product);
+            const cells: Record<CatalogueField, unknown> = {
+              barcode: p.barcode,
+              productName: p.productName,
+              category,
+              supplier,
+              brand: p.brand,
+              unit: p.unit,
+              mrp: p.mrp,
+              cost: p.cost,
+              gst: p.gst,
+              hsn: p.hsn,
+              quantity: p.quantity,
+              reorderLevel: p.reorderLevel,
+              warehouse: p.warehouse,
+              description: p.description,
+            };
+            return CATALOGUE_COLUMNS.map((c) => String(cells[c.key] ?? ""));
+          }),
+        ];
+
+        const day = new Date().toISOString().slice(0, 10);
+        return ok({
+          fileName: `products_${day}.${format === "xlsx" ? "xlsx" : "csv"}`,
+          data:
+            format === "xlsx"
+              ? toXlsx(sheet, "Products", [
+                  CATALOGUE_COLUMNS.findIndex((c) => c.key === "barcode"),
+                  CATALOGUE_COLUMNS.findIndex((c) => c.key === "hsn"),
+                ])
+              : Buffer.from(toCsv(sheet), "utf8"),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
   // -------- Categories --------
 
-  ipcMain.handle("categories:getAll", () => {
+  handle("categories:getAll", () => {
     try {
       const all = db.select().from(categories).all();
       return ok({ categories: all });
@@ -595,7 +907,7 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle("categories:add", (_, { name }: { name: string }) => {
+  handle("categories:add", (_, { name }: { name: string }) => {
     try {
       db.insert(categories).values({ categoryName: name }).run();
       return ok();
@@ -604,14 +916,31 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle(
+  handle(
     "categories:update",
-    (_, { id, name }: { id: number; name: string }) => {
+    (event, { id, name }: { id: number; name: string }) => {
       try {
-        db.update(categories)
-          .set({ categoryName: name })
+        const before = db
+          .select()
+          .from(categories)
           .where(eq(categories.id, id))
-          .run();
+          .get();
+        if (!before) return fail("Category not found");
+        sqlite.transaction(() => {
+          db.update(categories)
+            .set({ categoryName: name })
+            .where(eq(categories.id, id))
+            .run();
+          const diff = auditDiff(before, { categoryName: name });
+          if (diff) {
+            audit(event, {
+              action: "update",
+              entity: "category",
+              entityId: id,
+              ...diff,
+            });
+          }
+        })();
         return ok();
       } catch (e) {
         return fail(e);
@@ -619,9 +948,18 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle("categories:delete", (_, { id }: { id: number }) => {
+  handle("categories:delete", (event, { id }: { id: number }) => {
     try {
-      db.delete(categories).where(eq(categories.id, id)).run();
+      const before = db
+        .select()
+        .from(categories)
+        .where(eq(categories.id, id))
+        .get();
+      if (!before) return fail("Category not found");
+      sqlite.transaction(() => {
+        db.delete(categories).where(eq(categories.id, id)).run();
+        audit(event, { action: "delete", entity: "category", entityId: id, before });
+      })();
       return ok();
     } catch (e) {
       return fail(e);
@@ -630,7 +968,7 @@ export async function setupHandlers() {
 
   // -------- Suppliers --------
 
-  ipcMain.handle("suppliers:getAll", () => {
+  handle("suppliers:getAll", () => {
     try {
       const all = db.select().from(suppliers).all();
       return ok({ suppliers: all });
@@ -639,7 +977,7 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle(
+  handle(
     "suppliers:add",
     (
       _,
@@ -659,10 +997,10 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle(
+  handle(
     "suppliers:update",
     (
-      _,
+      event,
       {
         id,
         args,
@@ -677,7 +1015,24 @@ export async function setupHandlers() {
       },
     ) => {
       try {
-        db.update(suppliers).set(args).where(eq(suppliers.id, id)).run();
+        const before = db
+          .select()
+          .from(suppliers)
+          .where(eq(suppliers.id, id))
+          .get();
+        if (!before) return fail("Supplier not found");
+        sqlite.transaction(() => {
+          db.update(suppliers).set(args).where(eq(suppliers.id, id)).run();
+          const diff = auditDiff(before, args);
+          if (diff) {
+            audit(event, {
+              action: "update",
+              entity: "supplier",
+              entityId: id,
+              ...diff,
+            });
+          }
+        })();
         return ok();
       } catch (e) {
         return fail(e);
@@ -685,9 +1040,18 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle("suppliers:delete", (_, { id }: { id: number }) => {
+  handle("suppliers:delete", (event, { id }: { id: number }) => {
     try {
-      db.delete(suppliers).where(eq(suppliers.id, id)).run();
+      const before = db
+        .select()
+        .from(suppliers)
+        .where(eq(suppliers.id, id))
+        .get();
+      if (!before) return fail("Supplier not found");
+      sqlite.transaction(() => {
+        db.delete(suppliers).where(eq(suppliers.id, id)).run();
+        audit(event, { action: "delete", entity: "supplier", entityId: id, before });
+      })();
       return ok();
     } catch (e) {
       return fail(e);
@@ -696,74 +1060,83 @@ export async function setupHandlers() {
 
   // -------- Receipts --------
 
-  ipcMain.handle("receipts:getAll", () => {
+  handle("receipts:getAll", () => {
     try {
-      const allRec = db.select().from(receipts).all();
+      const reprints = new Map(
+        db
+          .select({ receiptId: receiptReprints.receiptId, n: count() })
+          .from(receiptReprints)
+          .groupBy(receiptReprints.receiptId)
+          .all()
+          .map((r) => [r.receiptId, r.n]),
+      );
+      const allRec = db
+        .select()
+        .from(receipts)
+        .all()
+        .map((r) => ({ ...r, reprints: reprints.get(r.id) ?? 0 }));
       return ok({ allRec });
     } catch (e) {
       return fail(e);
     }
   });
 
-  ipcMain.handle(
-    "receipts:add",
-    (
-      _,
-      args: {
-        totalAmount: number;
-        tax: number;
-        paymentSplit: string; // JSON string
-        discount?: number;
-        receiptDate?: Date;
-        createdBy: number;
-      },
-    ) => {
-      try {
-        const inserted = db
-          .insert(receipts)
-          .values({
-            totalAmount: args.totalAmount,
-            tax: args.tax,
-            paymentSplit: args.paymentSplit,
-            discount: args.discount ?? 0,
-            receiptDate: args.receiptDate ?? new Date(),
-            createdBy: args.createdBy,
-          })
-          .run();
-        return ok({ receiptId: Number(inserted.lastInsertRowid) });
-      } catch (e) {
-        return fail(e);
-      }
-    },
-  );
-
-  ipcMain.handle(
+  handle(
     "pos:checkout",
     (
-      _,
+      event,
       args: {
-        createdBy: number;
         discount: number;
-        paymentSplit: { cashAmt: number; upiAmt: number; cardAmt: number };
+        paymentSplit: {
+          cashAmt: number;
+          upiAmt: number;
+          cardAmt: number;
+          creditAmt?: number;
+          pointsAmt?: number;
+        };
         items: Array<{ productId: number; qty: number }>;
+        customerId?: number | null;
+        redeemPoints?: number;
+        promoDiscount?: number | null;
+        overrideIds?: number[];
       },
     ) => {
       try {
+        const me = requireSession(event);
+        const shift = getOpenShift(me.id);
+        if (!shift) return fail("Open a shift before billing");
+
         const res = createReceiptWithItems({
-          createdBy: args.createdBy,
+          shiftId: shift.id,
+          createdBy: me.id,
           receiptDate: new Date(),
           discount: Number(args.discount || 0),
           paymentSplit: args.paymentSplit,
           items: args.items,
+          customerId: args.customerId ?? null,
+          redeemPoints: Number(args.redeemPoints || 0),
+          expectedPromoDiscount: args.promoDiscount ?? null,
+          maxDiscountPct: can(me.role, "discount.aboveLimit")
+            ? null
+            : getDiscountLimitPct(),
+          allowBelowCost: can(me.role, "sale.belowCost"),
+          overrideIds: args.overrideIds ?? [],
         });
         return ok(res);
       } catch (e) {
+        // The till asks for a supervisor PIN and retries
+        if (e instanceof OverrideRequiredError) {
+          return {
+            ...fail(e.message),
+            override: { action: e.action, amount: e.amount, reason: e.message },
+          };
+        }
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
+  handle(
     "receipts:getRange",
     (
       _,
@@ -792,70 +1165,287 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle("receipts:delete", (_, { id }: { id: number }) => {
+  handle("receipts:delete", (event, { id }: { id: number }) => {
     try {
-      db.delete(receipts).where(eq(receipts.id, id)).run();
+      const before = db.select().from(receipts).where(eq(receipts.id, id)).get();
+      if (!before) return fail("Receipt not found");
+
+      // A bill that sold anything, took credit or loyalty, or was approved or
+      // returned is part of the books; reverse it with a return instead
+      const history = [
+        db.select({ n: count() })
+          .from(receiptItems)
+          .where(eq(receiptItems.receiptId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(productLogs)
+          .where(eq(productLogs.receiptId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(creditNotes)
+          .where(eq(creditNotes.receiptId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(customerLedger)
+          .where(eq(customerLedger.receiptId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(loyaltyLedger)
+          .where(eq(loyaltyLedger.receiptId, id))
+          .get(),
+        db.select({ n: count() })
+          .from(supervisorOverrides)
+          .where(eq(supervisorOverrides.receiptId, id))
+          .get(),
+      ];
+      if (history.some((r) => (r?.n ?? 0) > 0)) {
+        return fail(
+          "This bill has sales history and can't be deleted. Issue a return instead.",
+        );
+      }
+
+      sqlite.transaction(() => {
+        db.delete(receiptTaxBreakup)
+          .where(eq(receiptTaxBreakup.receiptId, id))
+          .run();
+        db.delete(receiptReprints)
+          .where(eq(receiptReprints.receiptId, id))
+          .run();
+        db.delete(receipts).where(eq(receipts.id, id)).run();
+        audit(event, { action: "delete", entity: "receipt", entityId: id, before });
+      })();
       return ok();
     } catch (e) {
       return fail(e);
     }
   });
 
-  // -------- Logs --------
+  // -------- Supervisor overrides --------
+
+  // A few wrong PINs lock the till out for a minute
+  const pinFailures = new Map<number, { count: number; until: number }>();
+
+  handle(
+    "overrides:approve",
+    async (
+      event,
+      args: {
+        action: string;
+        pin: string;
+        amount?: number | null;
+        detail?: string | null;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        if (!isOverrideAction(args.action)) {
+          return fail(`Unknown override: ${args.action}`);
+        }
+
+        const now = Date.now();
+        const tries = pinFailures.get(event.sender.id);
+        if (tries && tries.until > now) {
+          return fail("Too many wrong PINs, wait a minute and try again");
+        }
+
+        try {
+          const res = await approveOverride({
+            action: args.action,
+            pin: String(args.pin ?? ""),
+            requestedBy: me.id,
+            amount: args.amount ?? null,
+            detail: args.detail ?? null,
+            actor: { id: me.id, name: me.name },
+          });
+          pinFailures.delete(event.sender.id);
+          return ok(res);
+        } catch (e) {
+          const count = (tries?.count ?? 0) + 1;
+          pinFailures.set(event.sender.id, {
+            count: count >= 5 ? 0 : count,
+            until: count >= 5 ? now + 60_000 : 0,
+          });
+          throw e;
+        }
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // -------- Held bills (park / recall) --------
+
+  handle("holds:getAll", () => {
+    try {
+      const now = new Date();
+      purgeExpiredHolds(now);
+
+      const rows = db
+        .select({
+          id: heldBills.id,
+          label: heldBills.label,
+          customerId: heldBills.customerId,
+          customerName: customers.name,
+          billDiscount: heldBills.billDiscount,
+          heldAt: heldBills.heldAt,
+          expiresAt: heldBills.expiresAt,
+          heldByName: users.name,
+        })
+        .from(heldBills)
+        .leftJoin(customers, eq(customers.id, heldBills.customerId))
+        .leftJoin(users, eq(users.id, heldBills.heldBy))
+        .orderBy(desc(heldBills.heldAt))
+        .all();
+
+      const items = db
+        .select({
+          heldBillId: heldBillItems.heldBillId,
+          productId: heldBillItems.productId,
+          productName: products.productName,
+          mrp: products.mrp,
+          qty: heldBillItems.quantity,
+        })
+        .from(heldBillItems)
+        .innerJoin(products, eq(products.id, heldBillItems.productId))
+        .all();
+
+      return ok({
+        holds: rows.map((h) => ({
+          ...h,
+          items: items.filter((it) => it.heldBillId === h.id),
+        })),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
 
-  ipcMain.handle(
-    "logs:add",
+  handle(
+    "holds:save",
     (
-      _,
+      event,
       args: {
-        productId: number;
-        receiptId?: number;
-        type: string;
-        quantity: number;
-        amount: number;
-        tax?: number;
-        discount?: number;
-        datetime: Date;
+        label: string;
+        customerId?: number | null;
+        billDiscount?: number;
+        roundOff?: boolean;
+        items: Array<{ productId: number; qty: number }>;
       },
     ) => {
       try {
-        db.insert(productLogs)
-          .values({
-            productId: args.productId,
-            receiptId: args.receiptId,
-            type: args.type,
-            quantity: args.quantity,
-            amount: args.amount,
-            tax: args.tax ?? 0,
-            discount: args.discount ?? 0,
-            datetime: args.datetime,
-          })
-          .run();
-        return ok();
+        const res = holdBill({
+          ...args,
+          userId: requireSession(event).id,
+          heldAt: new Date(),
+        });
+        return ok(res);
       } catch (e) {
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
-    "logs:getReceiptLogs",
+  handle("holds:recall", (_, { id }: { id: number }) => {
+    try {
+      return ok({ hold: recallHeldBill(id, new Date()) });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("holds:delete", (_, { id }: { id: number }) => {
+    try {
+      db.delete(heldBillItems).where(eq(heldBillItems.heldBillId, id)).run();
+      db.delete(heldBills).where(eq(heldBills.id, id)).run();
+      return ok();
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // -------- Returns / Credit notes --------
+
+  handle(
+    "receipts:getReturnable",
     (_, { receiptId }: { receiptId: number }) => {
       try {
-        const logs = db
+        const receipt = db
           .select()
-          .from(productLogs)
-          .where(eq(productLogs.receiptId, receiptId))
+          .from(receipts)
+          .where(eq(receipts.id, receiptId))
+          .get();
+        if (!receipt) return fail("Receipt not found");
+
+        const notes = db
+          .select()
+          .from(creditNotes)
+          .where(eq(creditNotes.receiptId, receiptId))
+          .orderBy(desc(creditNotes.noteDate))
           .all();
-        return ok({ logs });
+
+        return ok({
+          receipt,
+          lines: getReturnableLines(receiptId),
+          creditNotes: notes,
+          pointsRefundable: getPointsRefundable(receiptId),
+        });
       } catch (e) {
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
-    "logs:getRange",
+  handle(
+    "receipts:return",
+    (
+      event,
+      args: {
+        receiptId: number;
+        reason?: string | null;
+        refundSplit: {
+          cashAmt: number;
+          upiAmt: number;
+          cardAmt: number;
+          creditAmt?: number;
+        };
+        items: Array<{ productId: number; qty: number }>;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        const res = sqlite.transaction(() => {
+          const note = createReturnForReceipt({
+            receiptId: args.receiptId,
+            createdBy: me.id,
+            noteDate: new Date(),
+            reason: args.reason,
+            refundSplit: args.refundSplit,
+            items: args.items,
+          });
+          audit(event, {
+            action: "create",
+            entity: "credit_note",
+            entityId: note.creditNoteId,
+            after: {
+              creditNoteNo: note.creditNoteNo,
+              receiptId: args.receiptId,
+              totalAmount: note.totalAmount,
+              reason: args.reason ?? null,
+              refundSplit: args.refundSplit,
+              items: args.items,
+            },
+          });
+          return note;
+        })();
+        return ok(res);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "creditNotes:getRange",
     (
       _,
       args: {
@@ -867,15 +1457,915 @@ export async function setupHandlers() {
         const from = new Date(args.from);
         const to = new Date(args.to);
 
-        const logs = db
+        const rows = db
           .select()
-          .from(productLogs)
+          .from(creditNotes)
           .where(
-            and(gte(productLogs.datetime, from), lte(productLogs.datetime, to)),
+            and(gte(creditNotes.noteDate, from), lte(creditNotes.noteDate, to)),
           )
-          .orderBy(desc(productLogs.datetime))
+          .orderBy(desc(creditNotes.noteDate))
           .all();
 
+        return ok({ creditNotes: rows });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // -------- Customers / Khata --------
+
+  handle("customers:getAll", () => {
+    try {
+      const rows = db
+        .select()
+        .from(customers)
+        .orderBy(asc(customers.name))
+        .all();
+
+      const balances = db
+        .select({
+          customerId: customerLedger.customerId,
+          balance: sql<number>`sum(${customerLedger.debit} - ${customerLedger.credit})`,
+        })
+        .from(customerLedger)
+        .groupBy(customerLedger.customerId)
+        .all();
+      const balanceById = new Map(
+        balances.map((b) => [b.customerId, Number(b.balance ?? 0)]),
+      );
+
+      const points = db
+        .select({
+          customerId: loyaltyLedger.customerId,
+          points: sql<number>`sum(${loyaltyLedger.points})`,
+        })
+        .from(loyaltyLedger)
+        .groupBy(loyaltyLedger.customerId)
+        .all();
+      const pointsById = new Map(
+        points.map((p) => [p.customerId, Number(p.points ?? 0)]),
+      );
+
+      return ok({
+        customers: rows.map((c) => ({
+          ...c,
+          balance: balanceById.get(c.id) ?? 0,
+          points: pointsById.get(c.id) ?? 0,
+        })),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // Checks shared by customer create and update
+  const customerFieldError = (args: {
+    gstin?: string | null;
+    creditLimit?: unknown;
+  }) => {
+    if (args.gstin && !GSTIN_RE.test(args.gstin)) {
+      return "GSTIN must be 15 characters, e.g. 33ABCDE1234F1Z5";
+    }
+    const limit = args.creditLimit;
+    if (
+      limit !== undefined &&
+      (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0)
+    ) {
+      return "Credit limit must be a valid amount";
+    }
+    return null;
+  };
+
+  handle(
+    "customers:create",
+    (
+      _,
+      args: {
+        name: string;
+        phone?: string | null;
+        email?: string | null;
+        address?: string | null;
+        gstin?: string | null;
+        creditLimit?: number;
+      },
+    ) => {
+      try {
+        const name = String(args.name ?? "").trim();
+        if (!name) return fail("Customer name is required");
+        const gstin = args.gstin?.trim().toUpperCase() || null;
+        const creditLimit = args.creditLimit ?? 0;
+        const invalid = customerFieldError({ gstin, creditLimit });
+        if (invalid) return fail(invalid);
+
+        const inserted = db
+          .insert(customers)
+          .values({
+            name,
+            phone: args.phone?.trim() || null,
+            email: args.email?.trim() || null,
+            address: args.address?.trim() || null,
+            gstin,
+            creditLimit,
+            active: true,
+            createdAt: new Date(),
+          })
+          .run();
+
+        const customer = db
+          .select()
+          .from(customers)
+          .where(eq(customers.id, Number(inserted.lastInsertRowid)))
+          .get();
+        return ok({ customer: { ...customer, balance: 0, points: 0 } });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "customers:update",
+    (
+      event,
+      {
+        id,
+        args,
+      }: {
+        id: number;
+        args: Partial<{
+          name: string;
+          phone: string | null;
+          email: string | null;
+          address: string | null;
+          gstin: string | null;
+          creditLimit: number;
+          active: boolean;
+        }>;
+      },
+    ) => {
+      try {
+        // Only the editable fields; anything else the renderer sends is dropped
+        const { name, phone, email, address, gstin, creditLimit, active } = args;
+        const patch = { name, phone, email, address, gstin, creditLimit, active };
+        if (patch.name !== undefined) {
+          patch.name = patch.name.trim();
+          if (!patch.name) return fail("Customer name is required");
+        }
+        if (patch.phone !== undefined) {
+          patch.phone = patch.phone?.trim() || null;
+        }
+        if (patch.gstin !== undefined) {
+          patch.gstin = patch.gstin?.trim().toUpperCase() || null;
+        }
+        const invalid = customerFieldError(patch);
+        if (invalid) return fail(invalid);
+        if (patch.active !== undefined && typeof patch.active !== "boolean") {
+          return fail("Active must be true or false");
+        }
+
+        const before = db
+          .select()
+          .from(customers)
+          .where(eq(customers.id, id))
+          .get();
+        if (!before) return fail("Customer not found");
+
+        // Credit limits and blocking decide who can buy on account
+        const limitChanged =
+          patch.creditLimit !== undefined &&
+          patch.creditLimit !== Number(before.creditLimit);
+        const activeChanged =
+          patch.active !== undefined && patch.active !== Boolean(before.active);
+        if (limitChanged || activeChanged) {
+          requirePermission(event, "credit.manage");
+        }
+
+        sqlite.transaction(() => {
+          db.update(customers).set(patch).where(eq(customers.id, id)).run();
+          const diff = auditDiff(before, patch);
+          if (diff) {
+            audit(event, {
+              action: "update",
+              entity: "customer",
+              entityId: id,
+              ...diff,
+            });
+          }
+        })();
+        return ok();
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "customers:collectPayment",
+    (
+      event,
+      args: {
+        customerId: number;
+        paymentSplit: { cashAmt: number; upiAmt: number; cardAmt: number };
+        note?: string | null;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        const res = collectCustomerPayment({
+          customerId: args.customerId,
+          createdBy: me.id,
+          entryDate: new Date(),
+          paymentSplit: args.paymentSplit,
+          note: args.note?.trim() || null,
+        });
+        return ok(res);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // Statement for a period: opening balance, entries with running balance, closing balance
+  handle(
+    "customers:statement",
+    (
+      _,
+      args: {
+        customerId: number;
+        from: string; // ISO
+        to: string; // ISO
+      },
+    ) => {
+      try {
+        const customer = db
+          .select()
+          .from(customers)
+          .where(eq(customers.id, args.customerId))
+          .get();
+        if (!customer) return fail("Customer not found");
+
+        const from = new Date(args.from);
+        const to = new Date(args.to);
+
+        const opening = db
+          .select({
+            balance: sql<number>`coalesce(sum(${customerLedger.debit} - ${customerLedger.credit}), 0)`,
+          })
+          .from(customerLedger)
+          .where(
+            and(
+              eq(customerLedger.customerId, args.customerId),
+              lt(customerLedger.entryDate, from),
+            ),
+          )
+          .get();
+        const openingBalance = Number(opening?.balance ?? 0);
+
+        const rows = db
+          .select()
+          .from(customerLedger)
+          .where(
+            and(
+              eq(customerLedger.customerId, args.customerId),
+              gte(customerLedger.entryDate, from),
+              lte(customerLedger.entryDate, to),
+            ),
+          )
+          .orderBy(asc(customerLedger.entryDate), asc(customerLedger.id))
+          .all();
+
+        let running = openingBalance;
+        const entries = rows.map((r) => {
+          running += Number(r.debit) - Number(r.credit);
+          return { ...r, balance: running };
+        });
+
+        return ok({
+          customer,
+          openingBalance,
+          entries,
+          totalDebit: rows.reduce((acc, r) => acc + Number(r.debit), 0),
+          totalCredit: rows.reduce((acc, r) => acc + Number(r.credit), 0),
+          closingBalance: running,
+          currentBalance: getCustomerBalance(args.customerId),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // Aging: outstanding debits bucketed by age, after applying credits oldest-first
+  handle("customers:aging", () => {
+    try {
+      const now = Date.now();
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      const all = db
+        .select()
+        .from(customerLedger)
+        .orderBy(asc(customerLedger.entryDate), asc(customerLedger.id))
+        .all();
+      const byCustomer = new Map<number, typeof all>();
+      for (const r of all) {
+        const arr = byCustomer.get(r.customerId) ?? [];
+        arr.push(r);
+        byCustomer.set(r.customerId, arr);
+      }
+
+      const customerRows = db.select().from(customers).all();
+      const rows = customerRows
+        .map((c) => {
+          const entries = byCustomer.get(c.id) ?? [];
+          let credits = entries.reduce((acc, e) => acc + Number(e.credit), 0);
+
+          const buckets = { d0_30: 0, d31_60: 0, d61_90: 0, d90_plus: 0 };
+          let oldestDue: Date | null = null;
+          for (const e of entries) {
+            const debit = Number(e.debit);
+            if (debit <= 0) continue;
+            const applied = Math.min(debit, credits);
+            credits -= applied;
+            const open = debit - applied;
+            if (open <= 0.005) continue;
+
+            const date = new Date(e.entryDate);
+            if (!oldestDue) oldestDue = date;
+            const age = Math.floor((now - date.getTime()) / dayMs);
+            if (age <= 30) buckets.d0_30 += open;
+            else if (age <= 60) buckets.d31_60 += open;
+            else if (age <= 90) buckets.d61_90 += open;
+            else buckets.d90_plus += open;
+          }
+
+          const outstanding =
+            buckets.d0_30 + buckets.d31_60 + buckets.d61_90 + buckets.d90_plus;
+          return {
+            customerId: c.id,
+            name: c.name,
+            phone: c.phone,
+            creditLimit: c.creditLimit,
+            outstanding,
+            advance: credits, // unapplied credits (customer paid ahead)
+            oldestDue,
+            ...buckets,
+          };
+        })
+        .filter((r) => r.outstanding > 0.005 || r.advance > 0.005)
+        .sort((a, b) => b.outstanding - a.outstanding);
+
+      return ok({ rows });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // -------- Loyalty points --------
+
+  handle(
+    "loyalty:getBalance",
+    (_, { customerId }: { customerId: number }) => {
+      try {
+        return ok({
+          points: getLoyaltyBalance(customerId),
+          rules: getLoyaltyRules(),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // Points ledger audit (admin-only), optionally narrowed to one customer
+  handle(
+    "loyalty:getLedger",
+    (
+      _,
+      args: {
+        from: string; // ISO
+        to: string; // ISO
+        customerId?: number | null;
+      },
+    ) => {
+      try {
+        const from = new Date(args.from);
+        const to = new Date(args.to);
+        const where = [
+          gte(loyaltyLedger.entryDate, from),
+          lte(loyaltyLedger.entryDate, to),
+        ];
+        if (args.customerId) {
+          where.push(eq(loyaltyLedger.customerId, args.customerId));
+        }
+
+        const rows = db
+          .select({
+            id: loyaltyLedger.id,
+            customerId: loyaltyLedger.customerId,
+            customerName: customers.name,
+            type: loyaltyLedger.type,
+            receiptId: loyaltyLedger.receiptId,
+            invoiceNo: receipts.invoiceNo,
+            points: loyaltyLedger.points,
+            value: loyaltyLedger.value,
+            note: loyaltyLedger.note,
+            entryDate: loyaltyLedger.entryDate,
+            createdBy: loyaltyLedger.createdBy,
+            createdByName: users.name,
+          })
+          .from(loyaltyLedger)
+          .leftJoin(customers, eq(loyaltyLedger.customerId, customers.id))
+          .leftJoin(receipts, eq(loyaltyLedger.receiptId, receipts.id))
+          .leftJoin(users, eq(loyaltyLedger.createdBy, users.id))
+          .where(and(...where))
+          .orderBy(desc(loyaltyLedger.entryDate), desc(loyaltyLedger.id))
+          .all();
+
+        return ok({
+          entries: rows,
+          earned: rows
+            .filter((r) => r.points > 0)
+            .reduce((acc, r) => acc + Number(r.points), 0),
+          burned: rows
+            .filter((r) => r.points < 0)
+            .reduce((acc, r) => acc - Number(r.points), 0),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // -------- Promotions --------
+
+  const promotionById = (id: number) =>
+    getPromotions().find((p) => p.id === id) ?? null;
+
+  handle("promotions:getAll", () => {
+    try {
+      return ok({ promotions: getPromotions() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "promotions:save",
+    (
+      event,
+      args: Omit<PromotionInput, "startDate" | "endDate" | "createdBy"> & {
+        startDate?: string | null; // ISO
+        endDate?: string | null; // ISO
+      },
+    ) => {
+      try {
+        const res = sqlite.transaction(() => {
+          const before = args.id ? promotionById(args.id) : null;
+          const saved = savePromotion({
+            ...args,
+            createdBy: requireSession(event).id,
+            startDate: args.startDate ? new Date(args.startDate) : null,
+            endDate: args.endDate ? new Date(args.endDate) : null,
+          });
+          const after = promotionById(saved.promotionId);
+          if (!before) {
+            audit(event, {
+              action: "create",
+              entity: "promotion",
+              entityId: saved.promotionId,
+              after,
+            });
+          } else {
+            const diff = auditDiff(before, after ?? {});
+            if (diff) {
+              audit(event, {
+                action: "update",
+                entity: "promotion",
+                entityId: saved.promotionId,
+                ...diff,
+              });
+            }
+          }
+          return saved;
+        })();
+        return ok(res);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "promotions:setActive",
+    (event, { id, active }: { id: number; active: boolean }) => {
+      try {
+        const before = promotionById(id);
+        if (!before) return fail("Promotion not found");
+        sqlite.transaction(() => {
+          db.update(promotions)
+            .set({ active: Boolean(active) })
+            .where(eq(promotions.id, id))
+            .run();
+          audit(event, {
+            action: "update",
+            entity: "promotion",
+            entityId: id,
+            before: { active: before.active },
+            after: { active: Boolean(active) },
+          });
+        })();
+        return ok();
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle("promotions:delete", (event, { id }: { id: number }) => {
+    try {
+      const before = promotionById(id);
+      if (!before) return fail("Promotion not found");
+      sqlite.transaction(() => {
+        db.delete(promotionItems)
+          .where(eq(promotionItems.promotionId, id))
+          .run();
+        db.delete(promotions).where(eq(promotions.id, id)).run();
+        audit(event, { action: "delete", entity: "promotion", entityId: id, before });
+      })();
+      return ok();
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // -------- Purchases (POs + GRNs) --------
+
+  handle("purchases:getAll", () => {
+    try {
+      const orders = db
+        .select({
+          id: purchaseOrders.id,
+          poNo: purchaseOrders.poNo,
+          supplierId: purchaseOrders.supplierId,
+          supplierName: suppliers.supplierName,
+          status: purchaseOrders.status,
+          orderDate: purchaseOrders.orderDate,
+          expectedDate: purchaseOrders.expectedDate,
+          notes: purchaseOrders.notes,
+        })
+        .from(purchaseOrders)
+        .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+        .orderBy(desc(purchaseOrders.orderDate))
+        .all();
+
+      const lines = db
+        .select({
+          id: purchaseOrderItems.id,
+          purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+          productId: purchaseOrderItems.productId,
+          productName: products.productName,
+          barcode: products.barcode,
+          quantity: purchaseOrderItems.quantity,
+          unitCost: purchaseOrderItems.unitCost,
+          receivedQty: purchaseOrderItems.receivedQty,
+        })
+        .from(purchaseOrderItems)
+        .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+        .all();
+
+      const linesByOrder = new Map<number, typeof lines>();
+      for (const l of lines) {
+        const arr = linesByOrder.get(l.purchaseOrderId) ?? [];
+        arr.push(l);
+        linesByOrder.set(l.purchaseOrderId, arr);
+      }
+
+      const result = orders.map((o) => {
+        const items = linesByOrder.get(o.id) ?? [];
+        return {
+          ...o,
+          supplierName: o.supplierName ?? "Unknown",
+          items,
+          totalAmount: items.reduce(
+            (acc, it) => acc + Number(it.quantity) * Number(it.unitCost),
+            0,
+          ),
+        };
+      });
+
+      return ok({ orders: result });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "purchases:create",
+    (
+      event,
+      args: {
+        supplierId: number;
+        expectedDate?: string | null; // ISO
+        notes?: string | null;
+        items: Array<{ productId: number; qty: number; unitCost: number }>;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        const res = createPurchaseOrder({
+          supplierId: args.supplierId,
+          createdBy: me.id,
+          orderDate: new Date(),
+          expectedDate: args.expectedDate ? new Date(args.expectedDate) : null,
+          notes: args.notes?.trim() || null,
+          items: args.items,
+        });
+        return ok(res);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle("purchases:cancel", (event, { id }: { id: number }) => {
+    try {
+      const po = db
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .get();
+      if (!po) return fail("Purchase order not found");
+      if (po.status !== "open") {
+        return fail("Only open purchase orders can be cancelled");
+      }
+
+      sqlite.transaction(() => {
+        db.update(purchaseOrders)
+          .set({ status: "cancelled" })
+          .where(eq(purchaseOrders.id, id))
+          .run();
+        audit(event, {
+          action: "update",
+          entity: "purchase_order",
+          entityId: id,
+          before: { status: po.status },
+          after: { status: "cancelled" },
+        });
+      })();
+      return ok();
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "grn:create",
+    (
+      event,
+      args: {
+        purchaseOrderId?: number | null;
+        supplierId?: number | null;
+        invoiceNo?: string | null;
+        items: Array<{
+          productId: number;
+          qty: number;
+          unitCost: number;
+          purchaseOrderItemId?: number | null;
+          batchNo?: string | null;
+          expiryDate?: string | null; // ISO
+        }>;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        const res = receiveGoods({
+          purchaseOrderId: args.purchaseOrderId ?? null,
+          supplierId: args.supplierId ?? null,
+          createdBy: me.id,
+          receivedDate: new Date(),
+          invoiceNo: args.invoiceNo?.trim() || null,
+          items: args.items.map((it) => ({
+            ...it,
+            expiryDate: it.expiryDate ? new Date(it.expiryDate) : null,
+          })),
+          actor: { id: me.id, name: me.name },
+        });
+        return ok(res);
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle("grn:getAll", () => {
+    try {
+      const notes = db
+        .select({
+          id: goodsReceivedNotes.id,
+          grnNo: goodsReceivedNotes.grnNo,
+          purchaseOrderId: goodsReceivedNotes.purchaseOrderId,
+          poNo: purchaseOrders.poNo,
+          supplierId: goodsReceivedNotes.supplierId,
+          supplierName: suppliers.supplierName,
+          invoiceNo: goodsReceivedNotes.invoiceNo,
+          totalAmount: goodsReceivedNotes.totalAmount,
+          receivedDate: goodsReceivedNotes.receivedDate,
+        })
+        .from(goodsReceivedNotes)
+        .leftJoin(
+          purchaseOrders,
+          eq(goodsReceivedNotes.purchaseOrderId, purchaseOrders.id),
+        )
+        .leftJoin(suppliers, eq(goodsReceivedNotes.supplierId, suppliers.id))
+        .orderBy(desc(goodsReceivedNotes.receivedDate))
+        .all();
+
+      const lines = db
+        .select({
+          id: grnItems.id,
+          grnId: grnItems.grnId,
+          productId: grnItems.productId,
+          productName: products.productName,
+          quantity: grnItems.quantity,
+          unitCost: grnItems.unitCost,
+          amount: grnItems.amount,
+        })
+        .from(grnItems)
+        .leftJoin(products, eq(grnItems.productId, products.id))
+        .all();
+
+      const result = notes.map((n) => ({
+        ...n,
+        supplierName: n.supplierName ?? "Unknown",
+        items: lines.filter((l) => l.grnId === n.id),
+      }));
+
+      return ok({ notes: result });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // -------- Batches / Expiry --------
+
+  handle("batches:getExpiring", (event) => {
+    try {
+      const warningDays = getExpiryWarningDays();
+      return ok({
+        warningDays,
+        batches: getExpiringBatches(warningDays).map(costVisibleTo(event)),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "batches:getByProduct",
+    (event, { productId }: { productId: number }) => {
+      try {
+        const rows = db
+          .select()
+          .from(productBatches)
+          .where(eq(productBatches.productId, productId))
+          .orderBy(asc(productBatches.expiryDate))
+          .all();
+        return ok({ batches: rows.map(costVisibleTo(event)) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // -------- Stock take (cycle counts) --------
+
+  // Variance at cost is only shown to roles that can see cost prices
+  handle("stockTake:getAll", (event) => {
+    try {
+      const visible = canSeeCost(event);
+      return ok({
+        takes: listStockTakes().map((t) =>
+          visible ? t : { ...t, varianceValue: null },
+        ),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("stockTake:get", (event, { id }: { id: number }) => {
+    try {
+      const { take, lines } = getStockTake(id);
+      const visible = canSeeCost(event);
+      return ok({
+        take,
+        lines: visible
+          ? lines
+          : lines.map((l) => ({ ...l, unitCost: null, varianceValue: null })),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "stockTake:start",
+    (
+      event,
+      args: { scope: StockTakeScope; notes?: string | null },
+    ) => {
+      try {
+        const me = requireSession(event);
+        return ok(
+          startStockTake({
+            scope: args.scope,
+            createdBy: me.id,
+            notes: args.notes,
+          }),
+        );
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "stockTake:count",
+    (
+      _,
+      args: {
+        stockTakeId: number;
+        barcode?: string | null;
+        productId?: number | null;
+        qty: number;
+        mode: "add" | "set";
+      },
+    ) => {
+      try {
+        return ok({ line: recordStockCount(args) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle("stockTake:approve", (event, { id }: { id: number }) => {
+    try {
+      const me = requireSession(event);
+      const result = sqlite.transaction(() => {
+        const res = approveStockTake({ stockTakeId: id, userId: me.id });
+        audit(event, {
+          action: "update",
+          entity: "stock_take",
+          entityId: id,
+          before: { status: "counting" },
+          after: {
+            status: "approved",
+            counted: res.counted,
+            adjusted: res.adjusted,
+            varianceValue: res.varianceValue,
+          },
+        });
+        return res;
+      })();
+      return ok({ result });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("stockTake:cancel", (event, { id }: { id: number }) => {
+    try {
+      const me = requireSession(event);
+      const result = sqlite.transaction(() => {
+        const res = cancelStockTake({ stockTakeId: id, userId: me.id });
+        audit(event, {
+          action: "update",
+          entity: "stock_take",
+          entityId: id,
+          before: { status: "counting" },
+          after: { status: "cancelled" },
+        });
+        return res;
+      })();
+      return ok({ result });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // -------- Logs --------
+
+  handle(
+    "logs:getReceiptLogs",
+    (_, { receiptId }: { receiptId: number }) => {
+      try {
+        const logs = db
+          .select()
+          .from(productLogs)
+          .where(eq(productLogs.receiptId, receiptId))
+          .all();
         return ok({ logs });
       } catch (e) {
         return fail(e);
@@ -883,9 +2373,185 @@ export async function setupHandlers() {
     },
   );
 
+  handle(
+    "logs:getRange",
+    (
+      _,
+      args: {
+        from: string; // ISO
+        to: string; // ISO
+      },
+    ) => {
+      try {
+        const from = new Date(args.from);
+        const to = new Date(args.to);
+
+        const logs = db
+          .select()
+          .from(productLogs)
+          .where(
+            and(gte(productLogs.datetime, from), lte(productLogs.datetime, to)),
+          )
+          .orderBy(desc(productLogs.datetime))
+          .all();
+
+        return ok({ logs });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // -------- Shifts (cash drawer) --------
+
+  // Cashiers handle their own drawer; managers and admins can act on any
+  const assertShiftAccess = (shiftId: number, me: SessionUser) => {
+    const shift = db.select().from(shifts).where(eq(shifts.id, shiftId)).get();
+    if (!shift) throw new Error(`Shift not found: ${shiftId}`);
+    if (shift.openedBy !== me.id && me.role === "staff") {
+      throw new Error("Access denied (not your shift)");
+    }
+    return shift;
+  };
+
+  handle("shifts:getCurrent", (event) => {
+    try {
+      const open = getOpenShift(requireSession(event).id);
+      return ok({ summary: open ? getShiftSummary(open.id) : null });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "shifts:open",
+    (event, args: { openingFloat: number }) => {
+      try {
+        const res = openShift({
+          userId: requireSession(event).id,
+          openingFloat: Number(args.openingFloat || 0),
+          openedAt: new Date(),
+        });
+        return ok({ summary: getShiftSummary(res.shiftId) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "shifts:cashMovement",
+    (
+      event,
+      args: {
+        shiftId: number;
+        type: "in" | "out";
+        amount: number;
+        reason?: string | null;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        assertShiftAccess(args.shiftId, me);
+        recordCashMovement({ ...args, userId: me.id, createdAt: new Date() });
+        return ok({ summary: getShiftSummary(args.shiftId) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "shifts:close",
+    (
+      event,
+      args: {
+        shiftId: number;
+        denominations: Record<string, number>;
+        note?: string | null;
+      },
+    ) => {
+      try {
+        const me = requireSession(event);
+        assertShiftAccess(args.shiftId, me);
+        sqlite.transaction(() => {
+          const closed = closeShift({ ...args, userId: me.id, closedAt: new Date() });
+          audit(event, {
+            action: "update",
+            entity: "shift",
+            entityId: args.shiftId,
+            before: { status: "open" },
+            after: {
+              status: "closed",
+              expectedCash: closed.expectedCash,
+              countedCash: closed.countedCash,
+              variance: closed.variance,
+              note: args.note?.trim() || null,
+            },
+          });
+        })();
+        return ok({ summary: getShiftSummary(args.shiftId) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "shifts:getSummary",
+    (event, args: { shiftId: number }) => {
+      try {
+        assertShiftAccess(args.shiftId, requireSession(event));
+        return ok({ summary: getShiftSummary(args.shiftId) });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "shifts:getRange",
+    (
+      _,
+      args: {
+        from: string; // ISO
+        to: string; // ISO
+      },
+    ) => {
+      try {
+        const rows = db
+          .select({
+            id: shifts.id,
+            status: shifts.status,
+            openedBy: shifts.openedBy,
+            openedByName: users.name,
+            openedAt: shifts.openedAt,
+            closedAt: shifts.closedAt,
+            openingFloat: shifts.openingFloat,
+            expectedCash: shifts.expectedCash,
+            countedCash: shifts.countedCash,
+            variance: shifts.variance,
+          })
+          .from(shifts)
+          .leftJoin(users, eq(users.id, shifts.openedBy))
+          .where(
+            and(
+              gte(shifts.openedAt, new Date(args.from)),
+              lte(shifts.openedAt, new Date(args.to)),
+            ),
+          )
+          .orderBy(desc(shifts.openedAt))
+          .all();
+        return ok({ shifts: rows });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
   // -------- Reports --------
 
-  ipcMain.handle("reports:todayDashboard", () => {
+  handle("reports:todayDashboard", (event) => {
     try {
       const start = new Date();
       start.setHours(0, 0, 0, 0);
@@ -901,29 +2567,36 @@ export async function setupHandlers() {
         .orderBy(desc(receipts.receiptDate))
         .all();
 
-      const totalSales = todayReceipts.reduce(
+      const grossSales = todayReceipts.reduce(
         (acc: number, r: typeof receipts.$inferSelect) =>
           acc + Number(r.totalAmount || 0),
         0,
       );
-      const transactionCount = todayReceipts.length;
-      const avgTransactionValue =
-        transactionCount > 0 ? totalSales / transactionCount : 0;
 
-      const logs = db
+      const todayReturns = db
         .select()
-        .from(productLogs)
+        .from(creditNotes)
         .where(
-          and(gte(productLogs.datetime, start), lte(productLogs.datetime, end)),
+          and(gte(creditNotes.noteDate, start), lte(creditNotes.noteDate, end)),
         )
         .all();
+      const returnsTotal = todayReturns.reduce(
+        (acc, n) => acc + Number(n.totalAmount || 0),
+        0,
+      );
+
+      // Net of refunds issued today (returns may be against older receipts)
+      const totalSales = grossSales - returnsTotal;
+      const transactionCount = todayReceipts.length;
+      const avgTransactionValue =
+        transactionCount > 0 ? totalSales / transactionCount : 0;
 
       const byProduct = new Map<number, number>();
-      for (const l of logs) {
-        if (l.type !== "sale") continue;
+      for (const l of getSalesLines(start, end)) {
+        const sign = l.type === "return" ? -1 : 1;
         byProduct.set(
           l.productId,
-          (byProduct.get(l.productId) ?? 0) + Number(l.quantity || 0),
+          (byProduct.get(l.productId) ?? 0) + sign * Number(l.quantity || 0),
         );
       }
 
@@ -951,21 +2624,26 @@ export async function setupHandlers() {
       return ok({
         metrics: {
           totalSales,
+          grossSales,
+          returnsTotal,
           transactionCount,
           avgTransactionValue,
           topProductName,
         },
         recentReceipts: todayReceipts.slice(0, 10),
+        expiringBatches: getExpiringBatches(getExpiryWarningDays())
+          .slice(0, 10)
+          .map(costVisibleTo(event)),
       });
     } catch (e) {
       return fail(e);
     }
   });
 
-  ipcMain.handle(
+  handle(
     "reports:salesRange",
     (
-      _,
+      event,
       args: {
         from: string; // ISO
         to: string; // ISO
@@ -984,20 +2662,28 @@ export async function setupHandlers() {
           .orderBy(desc(receipts.receiptDate))
           .all();
 
-        const rangeLogs = db
+        // Bill and credit note lines, under the key the report already reads
+        const rangeLogs = getSalesLines(from, to);
+
+        const rangeReturns = db
           .select()
-          .from(productLogs)
+          .from(creditNotes)
           .where(
-            and(gte(productLogs.datetime, from), lte(productLogs.datetime, to)),
+            and(gte(creditNotes.noteDate, from), lte(creditNotes.noteDate, to)),
           )
-          .orderBy(desc(productLogs.datetime))
+          .orderBy(desc(creditNotes.noteDate))
           .all();
 
-        const allProducts = db.select().from(products).all();
+        const allProducts = db
+          .select()
+          .from(products)
+          .all()
+          .map(costVisibleTo(event));
         const allCategories = db.select().from(categories).all();
 
         return ok({
           receipts: rangeReceipts,
+          returns: rangeReturns,
           logs: rangeLogs,
           products: allProducts,
           categories: allCategories,
@@ -1008,9 +2694,58 @@ export async function setupHandlers() {
     },
   );
 
+  handle("reports:gstReturns", (_, { month }: { month: string }) => {
+    try {
+      return ok(getGstReturns(month));
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // Report files are built here so only roles with reports.export get them
+  handle(
+    "reports:exportSales",
+    (_, args: { from: string; to: string; payment?: PaymentFilter }) => {
+      try {
+        const sheet = getSalesExport(
+          new Date(args.from),
+          new Date(args.to),
+          args.payment,
+        );
+        return ok({
+          fileName: `sales-report_${args.from.slice(0, 10)}_${args.to.slice(0, 10)}.csv`,
+          data: Buffer.from(toCsv(sheet), "utf8"),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle(
+    "reports:exportGst",
+    (_, { month, form }: { month: string; form: "gstr1" | "gstr3b" }) => {
+      try {
+        const { gstr1, rateSummary } = getGstReturns(month);
+        if (form === "gstr1") {
+          return ok({
+            fileName: `GSTR1_${gstr1.gstin || "NOGSTIN"}_${gstr1.fp}.json`,
+            data: Buffer.from(JSON.stringify(gstr1, null, 2), "utf8"),
+          });
+        }
+        return ok({
+          fileName: `GSTR3B_${gstr1.fp}.csv`,
+          data: Buffer.from(toCsv(getGstr3bSheet(rateSummary)), "utf8"),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
   // -------- Settings (key/value) --------
 
-  ipcMain.handle("settings:getAll", () => {
+  handle("settings:getAll", () => {
     try {
       const rows = db.select().from(settings).all();
       const map: Record<string, string> = {};
@@ -1021,29 +2756,300 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle(
+  // Pricing mode + store GSTIN, so the POS cart taxes lines like checkout does
+  handle("gst:getConfig", () => {
+    try {
+      return ok({
+        taxInclusive: isTaxInclusive(),
+        storeGstin: getStoreGstin(),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
     "settings:setMany",
     (
-      _,
+      event,
       args: {
-        currentUserId: number;
         values: Record<string, string>;
       },
     ) => {
       try {
-        assertAdmin(args.currentUserId);
+        if (
+          args.values.invoicePrefix != null &&
+          !INVOICE_PREFIX_RE.test(String(args.values.invoicePrefix))
+        ) {
+          return fail("Invoice prefix must be 1-4 letters or digits");
+        }
+        if (args.values.backupIntervalHours != null) {
+          const h = Number(args.values.backupIntervalHours);
+          if (!Number.isFinite(h) || h < 0) {
+            return fail("Backup interval must be 0 (off) or more hours");
+          }
+        }
+        if (args.values.backupKeep != null) {
+          const keep = Number(args.values.backupKeep);
+          if (!Number.isInteger(keep) || keep < 1) {
+            return fail("Keep at least one backup");
+          }
+        }
+        const v = args.values;
+        if (v.printerBackend != null && !["html", "escpos"].includes(v.printerBackend)) {
+          return fail("Unknown printer backend");
+        }
+        if (
+          v.printerInterface != null &&
+          !(PRINTER_INTERFACES as readonly string[]).includes(v.printerInterface)
+        ) {
+          return fail("Unknown printer connection");
+        }
+        if (v.printerPaperWidth != null && !["58", "80"].includes(v.printerPaperWidth)) {
+          return fail("Paper width must be 58 or 80 mm");
+        }
+        if (v.printerCodePage != null && !isCodePage(v.printerCodePage)) {
+          return fail(
+            `Code page must be one of ${Object.keys(CODE_PAGES).join(", ")}`,
+          );
+        }
+        if (
+          v.printerDrawerKick != null &&
+          !(DRAWER_KICK_MODES as readonly string[]).includes(v.printerDrawerKick)
+        ) {
+          return fail("Unknown cash drawer option");
+        }
+        for (const key of [
+          "receiptShowGstin",
+          "receiptShowTaxBreakup",
+          "receiptShowSavings",
+          "receiptShowUpiQr",
+          "labelShowStoreName",
+          "labelShowName",
+          "labelShowMrp",
+          "labelShowUnitPrice",
+        ]) {
+          if (v[key] != null && !["true", "false"].includes(v[key])) {
+            return fail(`${key} must be true or false`);
+          }
+        }
+        if (v.receiptUpiId && !UPI_ID_RE.test(v.receiptUpiId.trim())) {
+          return fail("UPI ID should look like storename@bank");
+        }
+        if (v.receiptShowUpiQr === "true" && !UPI_ID_RE.test(v.receiptUpiId?.trim() ?? "")) {
+          return fail("Enter the store's UPI ID to print a payment QR code");
+        }
+        if (v.receiptLogo && !v.receiptLogo.startsWith("data:image/png;base64,")) {
+          return fail("Logo must be chosen with the Browse button");
+        }
+        if ((v.receiptHeader?.length ?? 0) > 300 || (v.receiptFooter?.length ?? 0) > 300) {
+          return fail("Receipt header and footer are limited to 300 characters");
+        }
+        if (v.barcodePrefix != null && !STORE_BARCODE_PREFIX_RE.test(v.barcodePrefix)) {
+          return fail("Barcode prefix must be 2-7 digits starting with 2");
+        }
+        if (v.labelSheet != null && !isLabelSheet(v.labelSheet)) {
+          return fail("Unknown label sheet");
+        }
+        if (
+          v.labelLanguage != null &&
+          !(LABEL_LANGUAGES as readonly string[]).includes(v.labelLanguage)
+        ) {
+          return fail("Label printer language must be TSPL or ZPL");
+        }
+        if (
+          v.labelPrinterInterface != null &&
+          !(PRINTER_INTERFACES as readonly string[]).includes(v.labelPrinterInterface)
+        ) {
+          return fail("Unknown label printer connection");
+        }
+        for (const [key, label, min] of [
+          ["labelWidthMm", "Label width", 20],
+          ["labelHeightMm", "Label height", 10],
+        ] as const) {
+          const mm = Number(v[key]);
+          if (v[key] != null && (!Number.isFinite(mm) || mm < min || mm > 120)) {
+            return fail(`${label} must be between ${min} and 120 mm`);
+          }
+        }
+        if (v.labelGapMm != null) {
+          const gap = Number(v.labelGapMm);
+          if (!Number.isFinite(gap) || gap < 0 || gap > 10) {
+            return fail("Label gap must be between 0 and 10 mm");
+          }
+        }
+        if (v.labelDpi != null && !["203", "300"].includes(v.labelDpi)) {
+          return fail("Label printer resolution must be 203 or 300 dpi");
+        }
+        if (args.values.discountLimitPct != null) {
+          const pct = Number(args.values.discountLimitPct);
+          if (!Number.isFinite(pct) || pct < 0 || pct > 100) {
+            return fail("Discount limit must be between 0 and 100%");
+          }
+        }
 
         const now = new Date();
-        for (const [key, value] of Object.entries(args.values)) {
-          db.insert(settings)
-            .values({ key, value: String(value), updatedAt: now })
-            .onConflictDoUpdate({
-              target: settings.key,
-              set: { value: String(value), updatedAt: now },
+        const before = Object.fromEntries(
+          db
+            .select()
+            .from(settings)
+            .all()
+            .map((r) => [r.key, r.value]),
+        );
+        const after = Object.fromEntries(
+          Object.entries(args.values).map(([k, v]) => [k, String(v)]),
+        );
+        sqlite.transaction(() => {
+          for (const [key, value] of Object.entries(after)) {
+            db.insert(settings)
+              .values({ key, value, updatedAt: now })
+              .onConflictDoUpdate({
+                target: settings.key,
+                set: { value, updatedAt: now },
+              })
+              .run();
+          }
+          const diff = auditDiff(before, after);
+          if (diff) audit(event, { action: "update", entity: "settings", ...diff });
+        })();
+
+        return ok();
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // -------- Users & Roles (admin-only) --------
+
+  handle(
+    "users:create",
+    async (
+      event,
+      args: {
+        name: string;
+        role: Role;
+        password: string;
+        pin?: string | null;
+      },
+    ) => {
+      try {
+        const password = await bcrypt.hash(args.password, 10);
+        const pinHash = args.pin
+          ? await hashSupervisorPin(args.pin, null)
+          : null;
+        sqlite.transaction(() => {
+          const res = db
+            .insert(users)
+            .values({
+              name: args.name,
+              role: args.role,
+              password,
+              pinHash,
+              createdAt: new Date(),
             })
             .run();
-        }
+          audit(event, {
+            action: "create",
+            entity: "user",
+            entityId: Number(res.lastInsertRowid),
+            after: { name: args.name, role: args.role, hasPin: !!pinHash },
+          });
+        })();
+
+        return ok();
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle("users:getAll", () => {
+    try {
+      // Never hand password / PIN hashes to the renderer
+      const all = db
+        .select({
+          id: users.id,
+          name: users.name,
+          role: users.role,
+          active: users.active,
+          createdAt: users.createdAt,
+          hasPin: sql<number>`${users.pinHash} IS NOT NULL`,
+        })
+        .from(users)
+        .all()
+        .map((u) => ({ ...u, hasPin: Boolean(u.hasPin) }));
+      return ok({ users: all });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "users:update",
+    async (
+      event,
+      args: {
+        id: number;
+        patch: Partial<{
+          name: string;
+          role: Role;
+          password: string;
+          active: boolean;
+          pin: string | null; // "" / null clears the PIN
+        }>;
+      },
+    ) => {
+      try {
+        const { password, pin, ...patch } = args.patch;
+        const current = db
+          .select()
+          .from(users)
+          .where(eq(users.id, args.id))
+          .get();
+        if (!current) return fail("User not found");
+        const secrets = {
+          ...(password ? { password: await bcrypt.hash(password, 10) } : {}),
+          ...(pin !== undefined
+            ? { pinHash: pin ? await hashSupervisorPin(pin, args.id) : null }
+            : {}),
+        };
+
+        sqlite.transaction(() => {
+          db.update(users)
+            .set({ ...patch, ...secrets })
+            .where(eq(users.id, args.id))
+            .run();
+          // Hashes stay out of the log; only the fact that they changed
+          const diff = auditDiff(
+            {
+              name: current.name,
+              role: current.role,
+              active: current.active,
+              passwordChanged: false,
+              pin: current.pinHash ? "set" : "none",
+            },
+            {
+              ...patch,
+              ...(password ? { passwordChanged: true } : {}),
+              ...(pin !== undefined ? { pin: pin ? "changed" : "none" } : {}),
+            },
+          );
+          if (diff) {
+            audit(event, {
+              action: "update",
+              entity: "user",
+              entityId: args.id,
+              ...diff,
+            });
+          }
+        })();
 
+        const u = db.select().from(users).where(eq(users.id, args.id)).get();
+        syncUserSessions(
+          args.id,
+          u ? { name: u.name, role: u.role as Role, active: u.active } : null,
+        );
         return ok();
       } catch (e) {
         return fail(e);
@@ -1051,30 +3057,36 @@ export async function setupHandlers() {
     },
   );
 
-  // -------- Users & Roles (admin-only) --------
-
-  ipcMain.handle(
-    "users:create",
-    (
-      _,
-      args: {
-        currentUserId: number;
-        name: string;
-        role: Role;
-        password: string;
-      },
-    ) => {
+  handle(
+    "users:delete",
+    (event, args: { id: number }) => {
       try {
-        assertAdmin(args.currentUserId);
+        // In your UI you already enforce “don’t delete last admin”.
+        // (You can also enforce here by counting admins if needed.)
 
-        db.insert(users)
-          .values({
-            name: args.name,
-            role: args.role,
-            password: args.password,
-            createdAt: new Date(),
-          })
-          .run();
+        const before = db
+          .select({ name: users.name, role: users.role, active: users.active })
+          .from(users)
+          .where(eq(users.id, args.id))
+          .get();
+        if (!before) return fail("User not found");
+        sqlite.transaction(() => {
+          db.delete(users).where(eq(users.id, args.id)).run();
+          db.delete(userSettings).where(eq(userSettings.userId, args.id)).run();
+          db.delete(storeSettings)
+            .where(eq(storeSettings.userId, args.id))
+            .run();
+          db.delete(notifications)
+            .where(eq(notifications.userId, args.id))
+            .run();
+          audit(event, {
+            action: "delete",
+            entity: "user",
+            entityId: args.id,
+            before,
+          });
+        })();
+        syncUserSessions(args.id, null);
 
         return ok();
       } catch (e) {
@@ -1083,69 +3095,180 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle(
-    "users:getAll",
-    (_, { currentUserId }: { currentUserId: number }) => {
+  // -------- Role permissions --------
+
+  handle("permissions:getMine", (event) => {
+    try {
+      const me = requireSession(event);
+      return ok({
+        permissions: PERMISSIONS.map((p) => p.key).filter((k) =>
+          can(me.role, k),
+        ),
+        discountLimitPct: getDiscountLimitPct(),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("permissions:getMatrix", () => {
+    try {
+      return ok({
+        matrix: getPermissionMatrix(),
+        discountLimitPct: getDiscountLimitPct(),
+      });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle(
+    "permissions:setRole",
+    (event, args: { role: string; permissions: string[] }) => {
       try {
-        assertAdmin(currentUserId);
-        const all = db.select().from(users).all();
-        return ok({ users: all });
+        const before = getPermissionMatrix();
+        sqlite.transaction(() => {
+          setRolePermissions(args.role, args.permissions ?? []);
+          const after = getPermissionMatrix();
+          const diff = auditDiff(before, after);
+          if (diff) {
+            audit(event, {
+              action: "update",
+              entity: "permissions",
+              entityId: args.role,
+              ...diff,
+            });
+          }
+        })();
+        return ok({ matrix: getPermissionMatrix() });
       } catch (e) {
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
-    "users:update",
+  // -------- Audit log --------
+
+  handle(
+    "audit:getRange",
     (
       _,
       args: {
-        currentUserId: number;
-        id: number;
-        patch: Partial<{
-          name: string;
-          role: Role;
-          password: string;
-          active: boolean;
-        }>;
+        from: string; // ISO
+        to: string; // ISO
+        action?: string | null;
+        entity?: string | null;
+        query?: string | null;
       },
     ) => {
       try {
-        assertAdmin(args.currentUserId);
-        db.update(users).set(args.patch).where(eq(users.id, args.id)).run();
-        return ok();
+        const entries = getAuditLog({
+          ...args,
+          from: new Date(args.from),
+          to: new Date(args.to),
+        });
+        return ok({ entries });
       } catch (e) {
         return fail(e);
       }
     },
   );
 
-  ipcMain.handle(
-    "users:delete",
-    (_, args: { currentUserId: number; id: number }) => {
-      try {
-        assertAdmin(args.currentUserId);
+  handle("audit:verify", () => {
+    try {
+      return ok({ result: verifyAuditChain() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
 
-        // In your UI you already enforce “don’t delete last admin”.
-        // (You can also enforce here by counting admins if needed.)
+  // -------- Backup / Restore --------
 
-        db.delete(users).where(eq(users.id, args.id)).run();
-        db.delete(userSettings).where(eq(userSettings.userId, args.id)).run();
-        db.delete(storeSettings).where(eq(storeSettings.userId, args.id)).run();
-        db.delete(notifications).where(eq(notifications.userId, args.id)).run();
+  if (!bootstrapError) startBackupSchedule();
 
-        return ok();
-      } catch (e) {
-        return fail(e);
-      }
-    },
-  );
+  handle("backup:getStatus", () => {
+    try {
+      return ok({ status: getBackupStatus(), backups: listBackups() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("backup:run", async () => {
+    try {
+      const file = await runBackup();
+      return ok({ file });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("backup:chooseFolder", async (event) => {
+    try {
+      const win = BrowserWindow.fromWebContents(event.sender);
+      const opts: Electron.OpenDialogOptions = {
+        title: "Choose backup folder",
+        properties: ["openDirectory", "createDirectory"],
+      };
+      const res = win
+        ? await dialog.showOpenDialog(win, opts)
+        : await dialog.showOpenDialog(opts);
+      return ok({ folder: res.canceled ? null : res.filePaths[0] ?? null });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("backup:chooseFile", async (event) => {
+    try {
+      const win = BrowserWindow.fromWebContents(event.sender);
+      const opts: Electron.OpenDialogOptions = {
+        title: "Choose a backup to restore",
+        defaultPath: getBackupStatus().folder,
+        properties: ["openFile"],
+        filters: [{ name: "Shop backup", extensions: ["db"] }],
+      };
+      const res = win
+        ? await dialog.showOpenDialog(win, opts)
+        : await dialog.showOpenDialog(opts);
+      return ok({ file: res.canceled ? null : res.filePaths[0] ?? null });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("backup:inspect", (_, { file }: { file: string }) => {
+    try {
+      return ok({ summary: inspectBackup(file) });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("backup:restore", async (event, { file }: { file: string }) => {
+    try {
+      const { summary, safetyCopy } = await restoreBackup(file, (backup) =>
+        audit(event, {
+          action: "update",
+          entity: "database",
+          after: {
+            restoredFrom: backup.file,
+            modifiedAt: backup.modifiedAt,
+            counts: backup.counts,
+          },
+        }),
+      );
+      return ok({ summary, safetyCopy });
+    } catch (e) {
+      return fail(e);
+    }
+  });
 
   // -------- User Settings --------
 
-  ipcMain.handle("userSettings:getOne", (_, { userId }: { userId: number }) => {
+  handle("userSettings:getOne", (event) => {
     try {
+      const userId = requireSession(event).id;
       const row = db
         .select()
         .from(userSettings)
@@ -1157,24 +3280,25 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle(
+  handle(
     "userSettings:upsert",
-    (_, args: { userId: number; landingPage: string }) => {
+    (event, args: { landingPage: string }) => {
       try {
+        const userId = requireSession(event).id;
         const existing = db
           .select()
           .from(userSettings)
-          .where(eq(userSettings.userId, args.userId))
+          .where(eq(userSettings.userId, userId))
           .get();
 
         if (!existing) {
           db.insert(userSettings)
-            .values({ userId: args.userId, landingPage: args.landingPage })
+            .values({ userId, landingPage: args.landingPage })
             .run();
         } else {
           db.update(userSettings)
             .set({ landingPage: args.landingPage })
-            .where(eq(userSettings.userId, args.userId))
+            .where(eq(userSettings.userId, userId))
             .run();
         }
 
@@ -1187,10 +3311,11 @@ export async function setupHandlers() {
 
   // -------- Store Settings --------
 
-  ipcMain.handle(
+  handle(
     "storeSettings:getOne",
-    (_, { userId }: { userId: number }) => {
+    (event) => {
       try {
+        const userId = requireSession(event).id;
         const row = db
           .select()
           .from(storeSettings)
@@ -1203,12 +3328,11 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle(
+  handle(
     "storeSettings:upsert",
     (
-      _,
+      event,
       args: {
-        userId: number;
         address?: string | null;
         phone?: string | null;
         gstin?: string | null;
@@ -1219,14 +3343,15 @@ export async function setupHandlers() {
       },
     ) => {
       try {
+        const userId = requireSession(event).id;
         const existing = db
           .select()
           .from(storeSettings)
-          .where(eq(storeSettings.userId, args.userId))
+          .where(eq(storeSettings.userId, userId))
           .get();
 
         const patch = {
-          userId: args.userId,
+          userId,
           address: args.address ?? null,
           phone: args.phone ?? null,
           gstin: args.gstin ?? null,
@@ -1236,14 +3361,25 @@ export async function setupHandlers() {
           expiryWarningIn: args.expiryWarningIn ?? null,
         };
 
-        if (!existing) {
-          db.insert(storeSettings).values(patch).run();
-        } else {
-          db.update(storeSettings)
-            .set(patch)
-            .where(eq(storeSettings.userId, args.userId))
-            .run();
-        }
+        sqlite.transaction(() => {
+          if (!existing) {
+            db.insert(storeSettings).values(patch).run();
+          } else {
+            db.update(storeSettings)
+              .set(patch)
+              .where(eq(storeSettings.userId, userId))
+              .run();
+          }
+          const diff = auditDiff(existing ?? {}, patch);
+          if (diff) {
+            audit(event, {
+              action: existing ? "update" : "create",
+              entity: "storeSettings",
+              entityId: userId,
+              ...diff,
+            });
+          }
+        })();
 
         return ok();
       } catch (e) {
@@ -1254,10 +3390,11 @@ export async function setupHandlers() {
 
   // -------- Notifications --------
 
-  ipcMain.handle(
+  handle(
     "notifications:getOne",
-    (_, { userId }: { userId: number }) => {
+    (event) => {
       try {
+        const userId = requireSession(event).id;
         const row = db
           .select()
           .from(notifications)
@@ -1270,12 +3407,11 @@ export async function setupHandlers() {
     },
   );
 
-  ipcMain.handle(
+  handle(
     "notifications:upsert",
     (
-      _,
+      event,
       args: {
-        userId: number;
         whatsAppNo?: string | null;
         notifyExpiry?: boolean;
         notifyReorder?: boolean;
@@ -1286,14 +3422,15 @@ export async function setupHandlers() {
       },
     ) => {
       try {
+        const userId = requireSession(event).id;
         const existing = db
           .select()
           .from(notifications)
-          .where(eq(notifications.userId, args.userId))
+          .where(eq(notifications.userId, userId))
           .get();
 
         const patch = {
-          userId: args.userId,
+          userId,
           whatsAppNo: args.whatsAppNo ?? null,
           notifyExpiry: args.notifyExpiry ?? true,
           notifyReorder: args.notifyReorder ?? true,
@@ -1308,7 +3445,7 @@ export async function setupHandlers() {
         } else {
           db.update(notifications)
             .set(patch)
-            .where(eq(notifications.userId, args.userId))
+            .where(eq(notifications.userId, userId))
             .run();
         }
 
@@ -1321,35 +3458,119 @@ export async function setupHandlers() {
 
   // -------- Bill Printing --------
 
-  ipcMain.on("print-bill", async (event, payload: BillPayload) => {
+  // Whether a bill should open the cash drawer. Only saved bills do, by their
+  // stored cash tender; a draft never opens it whatever mode the till sends
+  const kicksDrawer = (payload: BillRequest) => {
+    const mode = getPrinterConfig().drawerKick;
+    if (!payload.receiptId || mode === "never") return false;
+    if (mode === "always") return true;
+    const row = db
+      .select({ paymentSplit: receipts.paymentSplit })
+      .from(receipts)
+      .where(eq(receipts.id, payload.receiptId))
+      .get();
     try {
-      const printers = await event.sender.getPrintersAsync();
-      if (!printers || printers.length === 0) {
-        event.reply("print-bill:error", "No printer connected. Please check your printer connection.");
-        return;
-      }
+      return Number(JSON.parse(row?.paymentSplit ?? "{}").cashAmt ?? 0) > 0;
+    } catch {
+      return false;
+    }
+  };
 
-      // Check if any printer is online (status 0 = IDLE/READY)
-      const onlinePrinter = printers.find((p: any) => p.status === 0);
-      if (!onlinePrinter) {
-        event.reply("print-bill:error", "Printer is offline. Please check your printer connection.");
+  // Name, address and phone printed at the top of every bill
+  const storeDetails = () => {
+    const store = Object.fromEntries(
+      db
+        .select()
+        .from(settings)
+        .all()
+        .map((s) => [s.key, s.value]),
+    );
+    const legacy = db
+      .select({ address: storeSettings.address, phone: storeSettings.phone })
+      .from(storeSettings)
+      .orderBy(asc(storeSettings.id))
+      .get();
+    return {
+      storeName: store.storeName || "AVM Store",
+      address: store.storeLocation || legacy?.address || "",
+      phone: store.storePhone || legacy?.phone || "",
+    };
+  };
+
+  // Prints a bill (or a shift's Z-report) on the ESC/POS printer when one is
+  // configured, else on the system printer. Resolves once the job is taken.
+  const printBill = async (sender: WebContents, payload: BillRequest) => {
+    const template = getReceiptTemplate();
+    // Saved bills print the number stored on the receipt
+    const saved = payload.receiptId
+      ? db
+          .select({ id: receipts.id, invoiceNo: receipts.invoiceNo })
+          .from(receipts)
+          .where(eq(receipts.id, payload.receiptId))
+          .get()
+      : undefined;
+    const bill: BillPayload = {
+      ...payload,
+      ...storeDetails(),
+      billNo: saved ? invoiceLabel(saved) : payload.billNo,
+      gstin: payload.gstin ?? getStoreGstin(),
+      taxBreakup: payload.receiptId
+        ? db
+            .select({
+              gstRate: receiptTaxBreakup.gstRate,
+              taxableValue: receiptTaxBreakup.taxableValue,
+              cgst: receiptTaxBreakup.cgst,
+              sgst: receiptTaxBreakup.sgst,
+              igst: receiptTaxBreakup.igst,
+            })
+            .from(receiptTaxBreakup)
+            .where(eq(receiptTaxBreakup.receiptId, payload.receiptId))
+            .orderBy(asc(receiptTaxBreakup.gstRate))
+            .all()
+        : payload.taxBreakup,
+    };
+
+    // Z-reports only have an HTML layout
+    if (!payload.shiftId && getPrinterConfig().backend === "escpos") {
+      try {
+        await printEscPos(buildReceiptData(bill, template), {
+          // Reprints never open the drawer
+          drawerKick: !payload.reprintedAt && kicksDrawer(payload),
+        });
         return;
+      } catch (e) {
+        console.error("❌ ESC/POS print failed, using the system printer:", e);
       }
+    }
 
-      const html = buildReceiptHtml(payload);
-      const printWin = new BrowserWindow({
-        show: false,
-        webPreferences: {
-          sandbox: false,
-          contextIsolation: true,
-          nodeIntegration: false,
-        },
-      });
+    const printers = await sender.getPrintersAsync();
+    if (!printers || printers.length === 0) {
+      throw new Error("No printer connected. Please check your printer connection.");
+    }
 
-      await printWin.loadURL(
-        `data:text/html;charset=utf-8,${encodeURIComponent(html)}`,
-      );
+    // Check if any printer is online (status 0 = IDLE/READY)
+    const onlinePrinter = printers.find((p: any) => p.status === 0);
+    if (!onlinePrinter) {
+      throw new Error("Printer is offline. Please check your printer connection.");
+    }
+
+    const html = payload.shiftId
+      ? buildZReportHtml(bill, getShiftSummary(payload.shiftId))
+      : buildReceiptHtml(bill, template);
+    const printWin = new BrowserWindow({
+      show: false,
+      webPreferences: {
+        sandbox: false,
+        contextIsolation: true,
+        nodeIntegration: false,
+      },
+    });
+
+    await printWin.loadURL(
+      `data:text/html;charset=utf-8,${encodeURIComponent(html)}`,
+    );
 
+    await new Promise<void>((resolve, reject) => {
       printWin.webContents.print(
         {
           silent: true,
@@ -1359,32 +3580,404 @@ export async function setupHandlers() {
         },
         (success, failureReason) => {
           console.log("Print callback called:", success, failureReason);
-          try {
-            if (success) {
-              console.log("Sending print-bill:success");
-              event.reply("print-bill:success");
-            } else {
-              console.log("Sending print-bill:error:", failureReason);
-              event.reply("print-bill:error", failureReason || "PRINT_ERROR");
-            }
-          } finally {
-            printWin.close();
-          }
+          printWin.close();
+          if (success) resolve();
+          else reject(new Error(failureReason || "PRINT_ERROR"));
         },
       );
+    });
+  };
+
+  ipcMain.on("print-bill", async (event, payload: BillRequest) => {
+    const denied = authorize("print-bill", event);
+    if (denied) {
+      event.reply("print-bill:error", denied);
+      return;
+    }
+    try {
+      if (payload.shiftId) assertShiftAccess(payload.shiftId, requireSession(event));
+      await printBill(event.sender, payload);
+      event.reply("print-bill:success");
     } catch (err: any) {
       event.reply("print-bill:error", err?.message || "PRINT_ERROR");
     }
   });
 
+  // Rebuilds a saved bill from the ledger and store settings for a reprint
+  const billFromReceipt = (id: number): BillRequest => {
+    const receipt = db.select().from(receipts).where(eq(receipts.id, id)).get();
+    if (!receipt) throw new Error("Receipt not found");
+
+    const items = db
+      .select({
+        name: products.productName,
+        qty: receiptItems.quantity,
+        price: receiptItems.unitPrice,
+        hsn: receiptItems.hsn,
+      })
+      .from(receiptItems)
+      .innerJoin(products, eq(receiptItems.productId, products.id))
+      .where(eq(receiptItems.receiptId, id))
+      .orderBy(asc(receiptItems.id))
+      .all();
+
+    return {
+      billNo: invoiceLabel(receipt),
+      dateTime: new Date(receipt.receiptDate).toLocaleString("en-IN"),
+      items,
+      total: Number(receipt.totalAmount),
+      paymentMode: paymentModeOf(receipt.paymentSplit),
+      receiptId: receipt.id,
+    };
+  };
+
+  // Reprints a saved bill marked DUPLICATE and logs who reprinted it
+  handle("receipts:reprint", async (event, { id }: { id: number }) => {
+    try {
+      const me = requireSession(event);
+      const receiptId = Number(id);
+      await printBill(event.sender, {
+        ...billFromReceipt(receiptId),
+        reprintedAt: new Date().toLocaleString("en-IN"),
+      });
+
+      db.insert(receiptReprints)
+        .values({ receiptId, printedBy: me.id, printedAt: new Date() })
+        .run();
+      const reprints =
+        db
+          .select({ n: count() })
+          .from(receiptReprints)
+          .where(eq(receiptReprints.receiptId, receiptId))
+          .get()?.n ?? 0;
+
+      return ok({ reprints });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // Prints a sample bill on the ESC/POS printer, whatever the backend setting
+  handle("printer:test", async () => {
+    try {
+      const sample: BillPayload = {
+        storeName: "Printer test",
+        address: "Text, table, code page and cut check",
+        phone: "-",
+        billNo: "TEST",
+        dateTime: new Date().toLocaleString("en-IN"),
+        items: [
+          { name: "Sample item", qty: 2, price: 10 },
+          { name: "A product with a long name that wraps", qty: 1, price: 125.5 },
+        ],
+        total: 145.5,
+        paymentMode: "CASH",
+      };
+      await printEscPos(buildReceiptData(sample, getReceiptTemplate()), {
+        drawerKick: false,
+      });
+      return ok();
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("printer:openDrawer", async () => {
+    try {
+      await openCashDrawer();
+      return ok();
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // Reads a logo for the receipt template, scaled to the widest paper's dots
+  // and returned as a PNG data: URL (stored in settings, not as a path)
+  handle("printer:chooseLogo", async (event) => {
+    try {
+      const win = BrowserWindow.fromWebContents(event.sender);
+      const opts: Electron.OpenDialogOptions = {
+        title: "Choose a receipt logo",
+        properties: ["openFile"],
+        filters: [{ name: "Image", extensions: ["png", "jpg", "jpeg", "bmp"] }],
+      };
+      const res = win
+        ? await dialog.showOpenDialog(win, opts)
+        : await dialog.showOpenDialog(opts);
+      const file = res.canceled ? null : res.filePaths[0] ?? null;
+      if (!file) return ok({ logo: null });
+
+      let img = nativeImage.createFromPath(file);
+      if (img.isEmpty()) return fail("That file is not an image");
+      if (img.getSize().width > PAPER[80].dots) {
+        img = img.resize({ width: PAPER[80].dots });
+      }
+      return ok({ logo: img.toDataURL() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // -------- Barcode labels --------
+
+  // Queued labels with what gets printed on them, oldest first
+  const labelQueueRows = () =>
+    db
+      .select({
+        id: labelQueue.id,
+        productId: labelQueue.productId,
+        copies: labelQueue.copies,
+        source: labelQueue.source,
+        addedAt: labelQueue.addedAt,
+        barcode: products.barcode,
+        name: products.productName,
+        mrp: products.mrp,
+        unit: products.unit,
+      })
+      .from(labelQueue)
+      .innerJoin(products, eq(labelQueue.productId, products.id))
+      .orderBy(asc(labelQueue.id))
+      .all();
+
+  handle("labels:getQueue", () => {
+    try {
+      return ok({ queue: labelQueueRows() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // Queues labels for products picked in Inventory, or for everything on a
+  // GRN: one per unit received (one per line for loose goods). Products
+  // already in the queue get the extra copies.
+  handle(
+    "labels:add",
+    (
+      event,
+      args: { items?: { productId: number; copies?: number }[]; grnId?: number },
+    ) => {
+      try {
+        const me = requireSession(event);
+        let source: string | null = null;
+        let items = (args.items ?? []).map((it) => ({
+          productId: Number(it.productId),
+          copies: Number(it.copies ?? 1),
+        }));
+
+        if (args.grnId != null) {
+          const grn = db
+            .select({ grnNo: goodsReceivedNotes.grnNo })
+            .from(goodsReceivedNotes)
+            .where(eq(goodsReceivedNotes.id, Number(args.grnId)))
+            .get();
+          if (!grn) return fail("GRN not found");
+          source = grn.grnNo;
+          items = db
+            .select({
+              productId: grnItems.productId,
+              quantity: grnItems.quantity,
+              unit: products.unit,
+            })
+            .from(grnItems)
+            .innerJoin(products, eq(grnItems.productId, products.id))
+            .where(eq(grnItems.grnId, Number(args.grnId)))
+            .all()
+            .map((r) => ({
+              productId: r.productId,
+              copies: soldLoose(r.unit)
+                ? 1
+                : Math.min(MAX_LABEL_COPIES, Math.max(1, Math.ceil(r.quantity))),
+            }));
+        }
+        if (items.length === 0) return fail("Nothing to queue");
+
+        const now = new Date();
+        sqlite.transaction(() => {
+          for (const it of items) {
+            if (!Number.isInteger(it.copies) || it.copies < 1) {
+              throw new Error("Copies must be a whole number of 1 or more");
+            }
+            const exists = db
+              .select({ id: products.id })
+              .from(products)
+              .where(eq(products.id, it.productId))
+              .get();
+            if (!exists) throw new Error("Product not found");
+            db.insert(labelQueue)
+              .values({
+                productId: it.productId,
+                copies: Math.min(MAX_LABEL_COPIES, it.copies),
+                source,
+                addedBy: me.id,
+                addedAt: now,
+              })
+              .onConflictDoUpdate({
+                target: labelQueue.productId,
+                set: {
+                  copies: sql`min(${labelQueue.copies} + ${it.copies}, ${MAX_LABEL_COPIES})`,
+                },
+              })
+              .run();
+          }
+        })();
+        return ok({ queue: labelQueueRows() });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // Zero copies takes the product off the queue
+  handle(
+    "labels:setCopies",
+    (_event, { id, copies }: { id: number; copies: number }) => {
+      try {
+        const n = Number(copies);
+        if (!Number.isInteger(n) || n < 0 || n > MAX_LABEL_COPIES) {
+          return fail(`Copies must be a whole number from 0 to ${MAX_LABEL_COPIES}`);
+        }
+        if (n === 0) db.delete(labelQueue).where(eq(labelQueue.id, id)).run();
+        else {
+          db.update(labelQueue)
+            .set({ copies: n })
+            .where(eq(labelQueue.id, id))
+            .run();
+        }
+        return ok({ queue: labelQueueRows() });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  handle("labels:remove", (_event, { id }: { id: number }) => {
+    try {
+      db.delete(labelQueue).where(eq(labelQueue.id, id)).run();
+      return ok({ queue: labelQueueRows() });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  handle("labels:clear", () => {
+    try {
+      db.delete(labelQueue).run();
+      return ok({ queue: [] });
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
+  // Prints the queue (or the chosen rows) on A4 label sheets through the
+  // print dialog, or straight to the thermal label printer. Printed rows
+  // leave the queue.
+  handle(
+    "labels:print",
+    async (
+      _event,
+      args: { target: "sheet" | "printer"; ids?: number[]; skip?: number },
+    ) => {
+      try {
+        const rows = labelQueueRows().filter(
+          (r) => !args.ids || args.ids.includes(r.id),
+        );
+        if (rows.length === 0) return fail("No labels to print");
+        const items: LabelItem[] = rows.map((r) => ({
+          barcode: r.barcode,
+          name: r.name,
+          mrp: Number(r.mrp),
+          unit: r.unit,
+          copies: r.copies,
+        }));
+        const design = getLabelDesign();
+        const { storeName } = storeDetails();
+
+        if (args.target === "printer") {
+          const printer = getLabelPrinter();
+          if (!printer.address) {
+            return fail("Set up the label printer in Settings first");
+          }
+          const data =
+            design.language === "zpl"
+              ? buildZpl(items, design, storeName)
+              : buildTspl(items, design, storeName);
+          await sendToPrinter(printer, new TextEncoder().encode(data));
+        } else {
+          const skip = Math.max(0, Math.floor(Number(args.skip ?? 0)));
+          const html = buildLabelSheetHtml(items, design, { storeName, skip });
+          // Sheets can run to many pages; too big for a data: URL
+          const file = path.join(app.getPath("temp"), `avm-labels-${Date.now()}.html`);
+          fs.writeFileSync(file, html, "utf8");
+          const printWin = new BrowserWindow({
+            show: false,
+            webPreferences: {
+              sandbox: false,
+              contextIsolation: true,
+              nodeIntegration: false,
+            },
+          });
+          try {
+            await printWin.loadFile(file);
+            await new Promise<void>((resolve, reject) => {
+              printWin.webContents.print(
+                {
+                  silent: false,
+                  printBackground: true,
+                  pageSize: "A4",
+                  margins: { marginType: "none" },
+                },
+                (success, failureReason) => {
+                  if (success) resolve();
+                  else reject(new Error(failureReason || "PRINT_ERROR"));
+                },
+              );
+            });
+          } finally {
+            printWin.close();
+            fs.rmSync(file, { force: true });
+          }
+        }
+
+        db.delete(labelQueue)
+          .where(inArray(labelQueue.id, rows.map((r) => r.id)))
+          .run();
+        return ok({
+          printed: items.reduce((a, it) => a + it.copies, 0),
+          queue: labelQueueRows(),
+        });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+  );
+
+  // Prints one sample label on the thermal label printer
+  handle("labels:test", async () => {
+    try {
+      const printer = getLabelPrinter();
+      const design = getLabelDesign();
+      const sample: LabelItem[] = [
+        { barcode: "8901234567890", name: "Label test", mrp: 99, unit: "kg", copies: 1 },
+      ];
+      const data =
+        design.language === "zpl"
+          ? buildZpl(sample, design, storeDetails().storeName)
+          : buildTspl(sample, design, storeDetails().storeName);
+      await sendToPrinter(printer, new TextEncoder().encode(data));
+      return ok();
+    } catch (e) {
+      return fail(e);
+    }
+  });
+
   // -------- Device Status --------
 
-  ipcMain.handle("devices:reportScannerActivity", async () => {
+  handle("devices:reportScannerActivity", async () => {
     lastScannerActivityAt = Date.now();
     return ok();
   });
 
-  ipcMain.handle("devices:checkPrinter", async () => {
+  handle("devices:checkPrinter", async () => {
     try {
       const win = BrowserWindow.getAllWindows()[0];
       if (!win) return ok({ status: "unknown" as DeviceStatus });
@@ -1399,7 +3992,7 @@ export async function setupHandlers() {
     }
   });
 
-  ipcMain.handle("devices:checkScanner", async () => {
+  handle("devices:checkScanner", async () => {
     try {
       if (!lastScannerActivityAt) return ok({ status: "disconnected" as DeviceStatus });
       const active = Date.now() - lastScannerActivityAt < SCANNER_ACTIVE_WINDOW_MS;
@@ -0,0 +1,449 @@
+// Barcode label layouts: A4 sheets of sticky labels (HTML, printed through
+// the system print dialog) and raw TSPL / ZPL for thermal label printers.
+// Pure: no node/electron imports, so Settings can preview a label.
+
+import {
+  barcodeModules,
+  barcodeSvg,
+  symbologyFor,
+  type Symbology,
+} from "./barcode";
+
+export type LabelItem = {
+  barcode: string;
+  name: string;
+  mrp: number;
+  unit: string;
+  copies: number;
+};
+
+// Common A4 label stocks; sizes and margins in mm
+export const LABEL_SHEETS = {
+  "a4-65": { label: "A4, 65 per sheet (38.1 × 21.2 mm)", cols: 5, rows: 13, width: 38.1, height: 21.2, left: 4.75, top: 10.7, gapX: 2.5, gapY: 0 },
+  "a4-40": { label: "A4, 40 per sheet (48.5 × 25.4 mm)", cols: 4, rows: 10, width: 48.5, height: 25.4, left: 8, top: 21.5, gapX: 0, gapY: 0 },
+  "a4-24": { label: "A4, 24 per sheet (64 × 33.9 mm)", cols: 3, rows: 8, width: 64, height: 33.9, left: 6.5, top: 12.9, gapX: 2.5, gapY: 0 },
+  "a4-21": { label: "A4, 21 per sheet (63.5 × 38.1 mm)", cols: 3, rows: 7, width: 63.5, height: 38.1, left: 7.25, top: 15.15, gapX: 2.5, gapY: 0 },
+} as const;
+
+export type LabelSheet = keyof typeof LABEL_SHEETS;
+
+export function isLabelSheet(key: string): key is LabelSheet {
+  return Object.prototype.hasOwnProperty.call(LABEL_SHEETS, key);
+}
+
+export const LABEL_LANGUAGES = ["tspl", "zpl"] as const;
+export type LabelLanguage = (typeof LABEL_LANGUAGES)[number];
+
+export type LabelDesign = {
+  showStoreName: boolean;
+  showName: boolean;
+  showMrp: boolean;
+  showUnitPrice: boolean; // "₹x per kg" for loose goods
+  sheet: LabelSheet; // A4 stock
+  language: LabelLanguage; // thermal label printer
+  widthMm: number;
+  heightMm: number;
+  gapMm: number;
+  dpi: 203 | 300;
+};
+
+export const DEFAULT_LABEL_DESIGN: LabelDesign = {
+  showStoreName: false,
+  showName: true,
+  showMrp: true,
+  showUnitPrice: true,
+  sheet: "a4-40",
+  language: "tspl",
+  widthMm: 50,
+  heightMm: 25,
+  gapMm: 2,
+  dpi: 203,
+};
+
+/** Reads the label design from the settings table's key/value rows. */
+export function labelDesignFrom(
+  values: Record<string, string | null | undefined>,
+): LabelDesign {
+  const d = DEFAULT_LABEL_DESIGN;
+  const flag = (key: string, fallback: boolean) =>
+    values[key] == null ? fallback : values[key] === "true";
+  const mm = (key: string, fallback: number) => {
+    const n = Number(values[key]);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  const sheet = values.labelSheet ?? "";
+  const language = values.labelLanguage ?? "";
+  return {
+    showStoreName: flag("labelShowStoreName", d.showStoreName),
+    showName: flag("labelShowName", d.showName),
+    showMrp: flag("labelShowMrp", d.showMrp),
+    showUnitPrice: flag("labelShowUnitPrice", d.showUnitPrice),
+    sheet: isLabelSheet(sheet) ? sheet : d.sheet,
+    language: (LABEL_LANGUAGES as readonly string[]).includes(language)
+      ? (language as LabelLanguage)
+      : d.language,
+    widthMm: mm("labelWidthMm", d.widthMm),
+    heightMm: mm("labelHeightMm", d.heightMm),
+    gapMm: values.labelGapMm != null ? Math.max(0, Number(values.labelGapMm) || 0) : d.gapMm,
+    dpi: values.labelDpi === "300" ? 300 : d.dpi,
+  };
+}
+
+// Loose goods are priced per kg / litre, or per 100 g / 100 ml
+const UNIT_PRICES: [RegExp, number, string][] = [
+  [/^(kg|kgs|kilo|kilogram|kilograms)$/, 1, "kg"],
+  [/^(g|gm|gms|gram|grams)$/, 100, "100 g"],
+  [/^(l|ltr|litre|litres|liter|liters)$/, 1, "litre"],
+  [/^(ml|millilitre|milliliter)$/, 100, "100 ml"],
+];
+const COUNTED_UNITS = /^(piece|pieces|pc|pcs|nos|no|each|unit|units)$/;
+
+/** Whether the unit is a weight or volume (one label per line, not per unit). */
+export function soldLoose(unit: string) {
+  const u = unit.trim().toLowerCase();
+  return UNIT_PRICES.some(([re]) => re.test(u));
+}
+
+/** Price per unit line, or null for goods sold by the piece. */
+export function unitPriceText(mrp: number, unit: string) {
+  const u = unit.trim().toLowerCase();
+  if (!u || COUNTED_UNITS.test(u)) return null;
+  for (const [re, factor, per] of UNIT_PRICES) {
+    if (re.test(u)) return `₹${(mrp * factor).toFixed(2)} per ${per}`;
+  }
+  return `₹${mrp.toFixed(2)} per ${u}`;
+}
+
+/** Labels one per copy, in queue order. */
+function expand(items: LabelItem[]) {
+  return items.flatMap((it) =>
+    Array.from({ length: Math.max(0, Math.floor(it.copies)) }, () => it),
+  );
+}
+
+function escapeHtml(s: string) {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+// Heights in mm of the text lines around the barcode
+const STORE_MM = 2.6;
+const NAME_MM = 3;
+const PRICE_MM = 3.2;
+const PAD_MM = 1.2;
+
+function labelCellHtml(
+  item: LabelItem,
+  design: LabelDesign,
+  storeName: string,
+  size: { width: number; height: number },
+) {
+  const symbology = symbologyFor(item.barcode);
+  const unitPrice = design.showUnitPrice ? unitPriceText(item.mrp, item.unit) : null;
+  const nameLines = design.showName ? (size.height >= 30 ? 2 : 1) : 0;
+  const barH =
+    size.height -
+    PAD_MM * 2 -
+    (design.showStoreName ? STORE_MM : 0) -
+    nameLines * NAME_MM -
+    (design.showMrp || unitPrice ? PRICE_MM : 0);
+
+  return `<div class="label" style="width:${size.width}mm;height:${size.height}mm;">
+    ${design.showStoreName ? `<div class="store">${escapeHtml(storeName)}</div>` : ""}
+    ${design.showName ? `<div class="name" style="-webkit-line-clamp:${nameLines};max-height:${nameLines * NAME_MM}mm;">${escapeHtml(item.name)}</div>` : ""}
+    <div class="code">${
+      symbology
+        ? barcodeSvg(item.barcode, symbology, {
+            widthMm: size.width - PAD_MM * 2,
+            heightMm: Math.max(4, barH),
+          })
+        : `<span class="bad">${escapeHtml(item.barcode)}</span>`
+    }</div>
+    ${
+      design.showMrp || unitPrice
+        ? `<div class="price"><span>${design.showMrp ? `MRP ₹${item.mrp.toFixed(2)}` : ""}</span><span>${unitPrice ? escapeHtml(unitPrice) : ""}</span></div>`
+        : ""
+    }
+  </div>`;
+}
+
+const LABEL_CSS = `
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { font-family: Arial, sans-serif; color: #000; }
+  .label { padding: ${PAD_MM}mm; overflow: hidden; display: flex; flex-direction: column; align-items: stretch; }
+  .store { font-size: 6.5pt; line-height: ${STORE_MM}mm; text-align: center; white-space: nowrap; overflow: hidden; }
+  .name { font-size: 7.5pt; font-weight: 700; line-height: ${NAME_MM}mm; text-align: center; overflow: hidden; display: -webkit-box; -webkit-box-orient: vertical; }
+  .code { flex: 1; display: flex; align-items: center; justify-content: center; }
+  .code svg { display: block; }
+  .bad { font-size: 7pt; color: #b00; }
+  .price { display: flex; justify-content: space-between; font-size: 7.5pt; font-weight: 700; line-height: ${PRICE_MM}mm; white-space: nowrap; }
+`;
+
+/**
+ * Pages of A4 labels. `skip` leaves the first labels of the first sheet
+ * blank, for reusing a part-used sheet.
+ */
+export function buildLabelSheetHtml(
+  items: LabelItem[],
+  design: LabelDesign,
+  opts: { storeName: string; skip?: number },
+) {
+  const sheet = LABEL_SHEETS[design.sheet];
+  const perPage = sheet.cols * sheet.rows;
+  const slots: (LabelItem | null)[] = [
+    ...Array.from({ length: Math.min(opts.skip ?? 0, perPage - 1) }, () => null),
+    ...expand(items),
+  ];
+
+  const pages: string[] = [];
+  for (let p = 0; p < slots.length; p += perPage) {
+    const cells = slots.slice(p, p + perPage).map((it, i) => {
+      if (!it) return "";
+      const col = i % sheet.cols;
+      const row = Math.floor(i / sheet.cols);
+      const left = sheet.left + col * (sheet.width + sheet.gapX);
+      const top = sheet.top + row * (sheet.height + sheet.gapY);
+      return `<div class="slot" style="left:${left}mm;top:${top}mm;">${labelCellHtml(it, design, opts.storeName, sheet)}</div>`;
+    });
+    pages.push(`<div class="page">${cells.join("")}</div>`);
+  }
+
+  return `<!doctype html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <title>Labels</title>
+      <style>
+        @page { size: A4; margin: 0; }
+        ${LABEL_CSS}
+        .page { position: relative; width: 210mm; height: 297mm; page-break-after: always; }
+        .page:last-child { page-break-after: auto; }
+        .slot { position: absolute; }
+      </style>
+    </head>
+    <body>${pages.join("")}</body>
+  </html>`;
+}
+
+/** One label at the thermal label size, for the Settings preview. */
+export function buildLabelPreviewHtml(
+  item: LabelItem,
+  design: LabelDesign,
+  storeName: string,
+) {
+  return `<!doctype html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <style>
+        ${LABEL_CSS}
+        body { padding: 12px; background: #f1f5f9; }
+        .label { background: #fff; border-radius: 2mm; box-shadow: 0 1px 3px rgba(0,0,0,.2); }
+      </style>
+    </head>
+    <body>${labelCellHtml(item, design, storeName, {
+      width: design.widthMm,
+      height: design.heightMm,
+    })}</body>
+  </html>`;
+}
+
+// Printer fonts have no rupee sign and only speak ASCII
+function ascii(s: string) {
+  return s
+    .replaceAll("₹", "Rs.")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+function wrapText(text: string, width: number, maxLines: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= width) line = next;
+    else {
+      if (line) lines.push(line);
+      line = word.slice(0, width);
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, maxLines);
+}
+
+type ThermalLayout = {
+  dots: number; // per mm
+  width: number;
+  height: number;
+  margin: number;
+  store: string | null;
+  name: string[];
+  nameY: number;
+  lineH: number;
+  charW: number;
+  barcode: {
+    symbology: Symbology;
+    value: string;
+    x: number;
+    y: number;
+    height: number;
+    module: number;
+  };
+  priceY: number;
+  mrp: string | null;
+  unitPrice: string | null;
+};
+
+/** Positions in printer dots; shared by the TSPL and ZPL writers. */
+function thermalLayout(
+  item: LabelItem,
+  design: LabelDesign,
+  storeName: string,
+): ThermalLayout {
+  const symbology = symbologyFor(item.barcode);
+  if (!symbology) {
+    throw new Error(`${item.name}: barcode ${item.barcode} can't be printed`);
+  }
+  const dots = design.dpi === 300 ? 12 : 8;
+  const width = Math.round(design.widthMm * dots);
+  const height = Math.round(design.heightMm * dots);
+  const margin = 2 * dots;
+  const lineH = design.dpi === 300 ? 30 : 20;
+  const charW = design.dpi === 300 ? 18 : 12;
+  const textW = Math.floor((width - margin * 2) / charW);
+
+  const unitPrice = design.showUnitPrice ? unitPriceText(item.mrp, item.unit) : null;
+  const mrp = design.showMrp ? `MRP Rs.${item.mrp.toFixed(2)}` : null;
+  const store = design.showStoreName ? ascii(storeName).slice(0, textW) : null;
+  const name = design.showName
+    ? wrapText(ascii(item.name), textW, design.heightMm >= 30 ? 2 : 1)
+    : [];
+
+  let y = margin;
+  if (store) y += lineH;
+  const nameY = y;
+  y += name.length * lineH + dots; // 1 mm under the name
+  const priceY = height - margin - lineH;
+  const textUnder = lineH + dots; // human-readable digits
+  const barHeight = priceY - y - textUnder - (mrp || unitPrice ? dots : 0);
+  if (barHeight < 5 * dots) {
+    throw new Error(
+      `Labels of ${design.widthMm} × ${design.heightMm} mm are too small for this layout`,
+    );
+  }
+
+  // Widest whole-dot module that fits, centred
+  const modules = barcodeModules(item.barcode, symbology).length;
+  const module = Math.min(4, Math.floor((width - margin * 2) / (modules + 20)));
+  if (module < 1) {
+    throw new Error(`${item.name}: barcode is too long for a ${design.widthMm} mm label`);
+  }
+
+  return {
+    dots,
+    width,
+    height,
+    margin,
+    store,
+    name,
+    nameY,
+    lineH,
+    charW,
+    barcode: {
+      symbology,
+      value: item.barcode,
+      x: Math.round((width - modules * module) / 2),
+      y,
+      height: barHeight,
+      module,
+    },
+    priceY,
+    mrp,
+    unitPrice: unitPrice && ascii(unitPrice),
+  };
+}
+
+/** TSPL (TSC, Xprinter, Gprinter ...) commands for the labels. */
+export function buildTspl(
+  items: LabelItem[],
+  design: LabelDesign,
+  storeName: string,
+) {
+  const font = design.dpi === 300 ? "3" : "2";
+  const q = (s: string) => `"${s.replaceAll('"', "'")}"`;
+  const out: string[] = [
+    `SIZE ${design.widthMm} mm,${design.heightMm} mm`,
+    `GAP ${design.gapMm} mm,0 mm`,
+    "DIRECTION 1",
+    "REFERENCE 0,0",
+  ];
+
+  for (const item of items) {
+    if (item.copies < 1) continue;
+    const l = thermalLayout(item, design, storeName);
+    const centreX = (text: string) =>
+      Math.max(l.margin, Math.round((l.width - text.length * l.charW) / 2));
+    out.push("CLS");
+    if (l.store) out.push(`TEXT ${centreX(l.store)},${l.margin},${q(font)},0,1,1,${q(l.store)}`);
+    l.name.forEach((line, i) => {
+      out.push(`TEXT ${centreX(line)},${l.nameY + i * l.lineH},${q(font)},0,1,1,${q(line)}`);
+    });
+    const b = l.barcode;
+    // EAN-13 is sent without its check digit; the printer adds it
+    out.push(
+      b.symbology === "ean13"
+        ? `BARCODE ${b.x},${b.y},"EAN13",${b.height},2,0,${b.module},${b.module},${q(b.value.slice(0, 12))}`
+        : `BARCODE ${b.x},${b.y},"128",${b.height},2,0,${b.module},${b.module},${q(b.value)}`,
+    );
+    if (l.mrp) out.push(`TEXT ${l.margin},${l.priceY},${q(font)},0,1,1,${q(l.mrp)}`);
+    if (l.unitPrice) {
+      const x = l.width - l.margin - l.unitPrice.length * l.charW;
+      out.push(`TEXT ${Math.max(l.margin, x)},${l.priceY},${q(font)},0,1,1,${q(l.unitPrice)}`);
+    }
+    out.push(`PRINT 1,${Math.floor(item.copies)}`);
+  }
+  return `${out.join("\r\n")}\r\n`;
+}
+
+/** ZPL II (Zebra and compatibles) for the labels. */
+export function buildZpl(
+  items: LabelItem[],
+  design: LabelDesign,
+  storeName: string,
+) {
+  // ^ and ~ start commands; keep them out of field data
+  const fd = (s: string) => `^FD${s.replace(/[\^~]/g, " ")}^FS`;
+  const out: string[] = [];
+
+  for (const item of items) {
+    if (item.copies < 1) continue;
+    const l = thermalLayout(item, design, storeName);
+    const font = `^A0N,${l.lineH},${l.charW}`;
+    const block = (lines: number, align: "L" | "C" | "R") =>
+      `^FB${l.width - l.margin * 2},${lines},0,${align}`;
+    out.push("^XA", `^PW${l.width}`, `^LL${l.height}`, "^LH0,0");
+    if (l.store) out.push(`^FO${l.margin},${l.margin}${font}${block(1, "C")}${fd(l.store)}`);
+    if (l.name.length) {
+      out.push(
+        `^FO${l.margin},${l.nameY}${font}${block(l.name.length, "C")}${fd(l.name.join(" "))}`,
+      );
+    }
+    const b = l.barcode;
+    out.push(
+      `^BY${b.module}`,
+      b.symbology === "ean13"
+        ? `^FO${b.x},${b.y}^BEN,${b.height},Y,N${fd(b.value.slice(0, 12))}`
+        : `^FO${b.x},${b.y}^BCN,${b.height},Y,N,N${fd(b.value)}`,
+    );
+    if (l.mrp) out.push(`^FO${l.margin},${l.priceY}${font}${block(1, "L")}${fd(l.mrp)}`);
+    if (l.unitPrice) {
+      out.push(`^FO${l.margin},${l.priceY}${font}${block(1, "R")}${fd(l.unitPrice)}`);
+    }
+    out.push(`^PQ${Math.floor(item.copies)}`, "^XZ");
+  }
+  return `${out.join("\n")}\n`;
+}
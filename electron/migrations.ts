@@ -0,0 +1,874 @@
+// Numbered schema migrations, applied in order at startup.
+//
+// Each migration runs once, in its own transaction, and is recorded in
+// `schema_migrations`; a database that is already at the latest version is
+// left alone. Before the first pending migration touches an existing
+// database a copy is saved to the local backups folder (see backup.ts).
+//
+// To change the schema: edit schema.ts, then append a migration here with the
+// next version number. `pnpm db:generate` (drizzle.config.json points at the
+// same schema.ts and dev shop.db) prints the SQL drizzle expects, which is a
+// good starting point. Never edit a migration that has shipped.
+
+import type { Database } from "better-sqlite3";
+import { sqlite } from "./db";
+import { runBackup } from "./backup";
+
+type Migration = {
+  version: number;
+  name: string;
+  up: (sqlite: Database) => void;
+};
+
+function hasColumn(sqliteDb: Database, table: string, column: string) {
+  const rows = sqliteDb.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+    name: string;
+  }>;
+  return rows.some((r) => r.name === column);
+}
+
+function ensureColumn(
+  sqliteDb: Database,
+  table: string,
+  column: string,
+  ddl: string
+) {
+  if (hasColumn(sqliteDb, table, column)) return;
+  sqliteDb.exec(`ALTER TABLE ${table} ADD COLUMN ${ddl}`);
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Everything the old ensureDbSchema() built. Written to be idempotent so
+    // databases created before migrations existed are brought in line too.
+    version: 1,
+    name: "baseline",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          password TEXT NOT NULL,
+          role TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS role_permissions (
+          role TEXT NOT NULL,
+          permission TEXT NOT NULL,
+          allowed INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (role, permission)
+        );
+
+        CREATE TABLE IF NOT EXISTS categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category_name TEXT NOT NULL UNIQUE
+        );
+
+        CREATE TABLE IF NOT EXISTS suppliers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          supplier_name TEXT NOT NULL UNIQUE,
+          supplier_phone TEXT,
+          supplier_gstin TEXT,
+          supplier_address TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS products (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          barcode TEXT NOT NULL UNIQUE,
+          product_name TEXT NOT NULL,
+          category_id INTEGER NOT NULL REFERENCES categories(id),
+          supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+          quantity REAL NOT NULL DEFAULT 0,
+          brand TEXT NOT NULL,
+          unit TEXT NOT NULL,
+          mrp REAL NOT NULL,
+          cost REAL NOT NULL,
+          gst REAL NOT NULL,
+          hsn TEXT,
+          reorder_level REAL NOT NULL DEFAULT 0,
+          warehouse TEXT,
+          description TEXT,
+          created_at INTEGER,
+          updated_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS customers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          phone TEXT UNIQUE,
+          email TEXT,
+          address TEXT,
+          gstin TEXT,
+          credit_limit REAL NOT NULL DEFAULT 0,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS shifts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          status TEXT NOT NULL DEFAULT 'open',
+          opened_by INTEGER NOT NULL REFERENCES users(id),
+          opened_at INTEGER NOT NULL,
+          opening_float REAL NOT NULL DEFAULT 0,
+          closed_by INTEGER REFERENCES users(id),
+          closed_at INTEGER,
+          expected_cash REAL,
+          counted_cash REAL,
+          variance REAL,
+          denominations TEXT,
+          closing_note TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS shift_cash_movements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          shift_id INTEGER NOT NULL REFERENCES shifts(id),
+          type TEXT NOT NULL,
+          amount REAL NOT NULL,
+          reason TEXT,
+          created_by INTEGER NOT NULL REFERENCES users(id),
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS held_bills (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          label TEXT NOT NULL,
+          customer_id INTEGER REFERENCES customers(id),
+          bill_discount REAL NOT NULL DEFAULT 0,
+          round_off INTEGER NOT NULL DEFAULT 1,
+          held_by INTEGER NOT NULL REFERENCES users(id),
+          held_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS held_bill_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          held_bill_id INTEGER NOT NULL REFERENCES held_bills(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS receipts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          total_amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          payment_split TEXT NOT NULL,
+          discount REAL DEFAULT 0,
+          receipt_date INTEGER,
+          created_by INTEGER NOT NULL REFERENCES users(id),
+          customer_id INTEGER REFERENCES customers(id),
+          tax_inclusive INTEGER NOT NULL DEFAULT 0,
+          inter_state INTEGER NOT NULL DEFAULT 0,
+          invoice_no TEXT,
+          shift_id INTEGER REFERENCES shifts(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS invoice_series (
+          financial_year TEXT PRIMARY KEY,
+          last_number INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY,
+          prev_hash TEXT NOT NULL,
+          actor_id INTEGER,
+          actor_name TEXT,
+          action TEXT NOT NULL,
+          entity TEXT NOT NULL,
+          entity_id TEXT,
+          before TEXT,
+          after TEXT,
+          created_at INTEGER NOT NULL,
+          hash TEXT NOT NULL
+        );
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+        BEFORE UPDATE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+        BEFORE DELETE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+
+        CREATE TABLE IF NOT EXISTS supervisor_overrides (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL,
+          requested_by INTEGER NOT NULL REFERENCES users(id),
+          approved_by INTEGER NOT NULL REFERENCES users(id),
+          receipt_id INTEGER REFERENCES receipts(id),
+          amount REAL,
+          detail TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          final_amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          payment_split TEXT NOT NULL,
+          discount REAL DEFAULT 0,
+          transaction_date INTEGER NOT NULL,
+          created_by INTEGER NOT NULL REFERENCES users(id),
+          customer_id INTEGER REFERENCES customers(id),
+          tax_inclusive INTEGER NOT NULL DEFAULT 0,
+          inter_state INTEGER NOT NULL DEFAULT 0,
+          invoice_no TEXT,
+          shift_id INTEGER REFERENCES shifts(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS transaction_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL,
+          unit_price REAL NOT NULL,
+          amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          discount REAL NOT NULL DEFAULT 0,
+          hsn TEXT,
+          gst_rate REAL NOT NULL DEFAULT 0,
+          taxable_value REAL NOT NULL DEFAULT 0,
+          cgst REAL NOT NULL DEFAULT 0,
+          sgst REAL NOT NULL DEFAULT 0,
+          igst REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS transaction_tax_breakup (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+          gst_rate REAL NOT NULL,
+          taxable_value REAL NOT NULL,
+          cgst REAL NOT NULL DEFAULT 0,
+          sgst REAL NOT NULL DEFAULT 0,
+          igst REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_transaction_tax_breakup_tx
+          ON transaction_tax_breakup(transaction_id);
+
+        CREATE TABLE IF NOT EXISTS product_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          receipt_id INTEGER REFERENCES receipts(id),
+          type TEXT NOT NULL,
+          quantity REAL NOT NULL DEFAULT 1,
+          amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          discount REAL NOT NULL DEFAULT 0,
+          datetime INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS credit_notes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          credit_note_no TEXT NOT NULL UNIQUE,
+          receipt_id INTEGER NOT NULL REFERENCES receipts(id),
+          total_amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          refund_split TEXT NOT NULL,
+          reason TEXT,
+          note_date INTEGER NOT NULL,
+          created_by INTEGER NOT NULL REFERENCES users(id),
+          shift_id INTEGER REFERENCES shifts(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS credit_note_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          credit_note_id INTEGER NOT NULL REFERENCES credit_notes(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL,
+          unit_price REAL NOT NULL,
+          amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          discount REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS customer_ledger (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id INTEGER NOT NULL REFERENCES customers(id),
+          type TEXT NOT NULL,
+          receipt_id INTEGER REFERENCES receipts(id),
+          credit_note_id INTEGER REFERENCES credit_notes(id),
+          debit REAL NOT NULL DEFAULT 0,
+          credit REAL NOT NULL DEFAULT 0,
+          payment_split TEXT,
+          note TEXT,
+          entry_date INTEGER NOT NULL,
+          created_by INTEGER NOT NULL REFERENCES users(id),
+          shift_id INTEGER REFERENCES shifts(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_customer_ledger_customer
+          ON customer_ledger(customer_id, entry_date);
+
+        CREATE TABLE IF NOT EXISTS loyalty_ledger (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id INTEGER NOT NULL REFERENCES customers(id),
+          type TEXT NOT NULL,
+          receipt_id INTEGER REFERENCES receipts(id),
+          points REAL NOT NULL,
+          value REAL NOT NULL DEFAULT 0,
+          note TEXT,
+          entry_date INTEGER NOT NULL,
+          created_by INTEGER NOT NULL REFERENCES users(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer
+          ON loyalty_ledger(customer_id, entry_date);
+
+        CREATE TABLE IF NOT EXISTS promotions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1,
+          product_id INTEGER REFERENCES products(id),
+          buy_qty REAL,
+          get_qty REAL,
+          category_id INTEGER REFERENCES categories(id),
+          discount_type TEXT,
+          discount_value REAL,
+          combo_price REAL,
+          start_date INTEGER,
+          end_date INTEGER,
+          start_time TEXT,
+          end_time TEXT,
+          days_of_week TEXT,
+          created_by INTEGER REFERENCES users(id),
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS promotion_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          promotion_id INTEGER NOT NULL REFERENCES promotions(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS purchase_orders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          po_no TEXT NOT NULL UNIQUE,
+          supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+          status TEXT NOT NULL DEFAULT 'open',
+          order_date INTEGER NOT NULL,
+          expected_date INTEGER,
+          notes TEXT,
+          created_by INTEGER NOT NULL REFERENCES users(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS purchase_order_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL,
+          unit_cost REAL NOT NULL,
+          received_qty REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS goods_received_notes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          grn_no TEXT NOT NULL UNIQUE,
+          purchase_order_id INTEGER REFERENCES purchase_orders(id),
+          supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+          invoice_no TEXT,
+          total_amount REAL NOT NULL,
+          received_date INTEGER NOT NULL,
+          created_by INTEGER NOT NULL REFERENCES users(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS grn_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          grn_id INTEGER NOT NULL REFERENCES goods_received_notes(id),
+          purchase_order_item_id INTEGER REFERENCES purchase_order_items(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL,
+          unit_cost REAL NOT NULL,
+          amount REAL NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS product_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          batch_no TEXT NOT NULL,
+          expiry_date INTEGER,
+          quantity REAL NOT NULL,
+          cost REAL NOT NULL,
+          grn_id INTEGER REFERENCES goods_received_notes(id),
+          received_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_product_batches_product
+          ON product_batches(product_id, expiry_date);
+
+        CREATE TABLE IF NOT EXISTS user_settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          landing_page TEXT NOT NULL DEFAULT 'dashboard'
+        );
+
+        CREATE TABLE IF NOT EXISTS store_settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER REFERENCES users(id),
+          address TEXT,
+          phone TEXT,
+          gstin TEXT,
+          allow_negative_stock INTEGER NOT NULL DEFAULT 0,
+          default_gst_rate REAL,
+          default_reorder_level REAL,
+          expiry_warning_in INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS notifications (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          whatsapp_no TEXT,
+          notify_expiry INTEGER NOT NULL DEFAULT 1,
+          notify_reorder INTEGER NOT NULL DEFAULT 1,
+          notify_weekly_report INTEGER NOT NULL DEFAULT 1,
+          notify_monthly_report INTEGER NOT NULL DEFAULT 1,
+          notify_daily_revenue INTEGER NOT NULL DEFAULT 1,
+          daily_report_timing INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+
+      ensureColumn(sqlite, "users", "active", "active INTEGER NOT NULL DEFAULT 1");
+      ensureColumn(sqlite, "users", "pin_hash", "pin_hash TEXT");
+
+      ensureColumn(
+        sqlite,
+        "products",
+        "warehouse",
+        "warehouse TEXT"
+      );
+
+      ensureColumn(
+        sqlite,
+        "products",
+        "description",
+        "description TEXT"
+      );
+
+      ensureColumn(
+        sqlite,
+        "receipts",
+        "customer_id",
+        "customer_id INTEGER REFERENCES customers(id)"
+      );
+      ensureColumn(
+        sqlite,
+        "transactions",
+        "customer_id",
+        "customer_id INTEGER REFERENCES customers(id)"
+      );
+
+      ensureColumn(sqlite, "products", "hsn", "hsn TEXT");
+      for (const table of ["receipts", "transactions"]) {
+        ensureColumn(
+          sqlite,
+          table,
+          "tax_inclusive",
+          "tax_inclusive INTEGER NOT NULL DEFAULT 0"
+        );
+        ensureColumn(
+          sqlite,
+          table,
+          "inter_state",
+          "inter_state INTEGER NOT NULL DEFAULT 0"
+        );
+      }
+      for (const col of ["gst_rate", "taxable_value", "cgst", "sgst", "igst"]) {
+        ensureColumn(
+          sqlite,
+          "transaction_items",
+          col,
+          `${col} REAL NOT NULL DEFAULT 0`
+        );
+      }
+      ensureColumn(sqlite, "transaction_items", "hsn", "hsn TEXT");
+
+      // ALTER TABLE can't add a UNIQUE column, so uniqueness comes from an index
+      for (const table of ["receipts", "transactions"]) {
+        ensureColumn(sqlite, table, "invoice_no", "invoice_no TEXT");
+      }
+      sqlite.exec(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_receipts_invoice_no
+          ON receipts(invoice_no);
+      `);
+
+      for (const table of [
+        "receipts",
+        "transactions",
+        "credit_notes",
+        "customer_ledger",
+      ]) {
+        ensureColumn(
+          sqlite,
+          table,
+          "shift_id",
+          "shift_id INTEGER REFERENCES shifts(id)"
+        );
+      }
+
+    },
+  },
+  {
+    version: 2,
+    name: "report date indexes",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE INDEX IF NOT EXISTS idx_receipts_receipt_date
+          ON receipts(receipt_date);
+        CREATE INDEX IF NOT EXISTS idx_transactions_transaction_date
+          ON transactions(transaction_date);
+        CREATE INDEX IF NOT EXISTS idx_product_logs_datetime
+          ON product_logs(datetime);
+        CREATE INDEX IF NOT EXISTS idx_product_logs_product_id
+          ON product_logs(product_id);
+        CREATE INDEX IF NOT EXISTS idx_customer_ledger_customer_id
+          ON customer_ledger(customer_id);
+      `);
+    },
+  },
+  {
+    // receipts used to be written twice, into receipts and transactions (with
+    // the same id), and the lines only into transaction_items. receipts is
+    // now the one sales ledger, with its own item and GST tables.
+    //
+    // receipts wins: it's what every screen and report has shown. A
+    // transaction without a receipt is a bill that was deleted (receipts:delete
+    // never touched transactions), so it is not brought back. Bills saved
+    // before transaction_items existed get their lines from the sale entries
+    // in product_logs. The old tables become read-only views.
+    version: 3,
+    name: "unified sales ledger",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE receipt_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receipt_id INTEGER NOT NULL REFERENCES receipts(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          quantity REAL NOT NULL,
+          unit_price REAL NOT NULL,
+          amount REAL NOT NULL,
+          tax REAL NOT NULL DEFAULT 0,
+          discount REAL NOT NULL DEFAULT 0,
+          hsn TEXT,
+          gst_rate REAL NOT NULL DEFAULT 0,
+          taxable_value REAL NOT NULL DEFAULT 0,
+          cgst REAL NOT NULL DEFAULT 0,
+          sgst REAL NOT NULL DEFAULT 0,
+          igst REAL NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE receipt_tax_breakup (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receipt_id INTEGER NOT NULL REFERENCES receipts(id),
+          gst_rate REAL NOT NULL,
+          taxable_value REAL NOT NULL,
+          cgst REAL NOT NULL DEFAULT 0,
+          sgst REAL NOT NULL DEFAULT 0,
+          igst REAL NOT NULL DEFAULT 0
+        );
+
+        INSERT INTO receipt_items (
+          receipt_id, product_id, quantity, unit_price, amount, tax, discount,
+          hsn, gst_rate, taxable_value, cgst, sgst, igst
+        )
+        SELECT ti.transaction_id, ti.product_id, ti.quantity, ti.unit_price,
+               ti.amount, ti.tax, ti.discount, ti.hsn, ti.gst_rate,
+               ti.taxable_value, ti.cgst, ti.sgst, ti.igst
+          FROM transaction_items ti
+          JOIN receipts r ON r.id = ti.transaction_id
+         ORDER BY ti.id;
+
+        INSERT INTO receipt_tax_breakup (
+          receipt_id, gst_rate, taxable_value, cgst, sgst, igst
+        )
+        SELECT tb.transaction_id, tb.gst_rate, tb.taxable_value, tb.cgst,
+               tb.sgst, tb.igst
+          FROM transaction_tax_breakup tb
+          JOIN receipts r ON r.id = tb.transaction_id
+         ORDER BY tb.id;
+
+        -- Older bills: rebuild the lines (and their GST summary) from the
+        -- sale entries in the stock log
+        INSERT INTO receipt_items (
+          receipt_id, product_id, quantity, unit_price, amount, tax, discount,
+          hsn, gst_rate, taxable_value, cgst, sgst, igst
+        )
+        SELECT l.receipt_id, l.product_id, l.quantity,
+               CASE WHEN l.quantity <> 0 THEN l.amount / l.quantity ELSE l.amount END,
+               l.amount, l.tax, l.discount, p.hsn,
+               CASE WHEN l.tax > 0 THEN COALESCE(p.gst, 0) ELSE 0 END,
+               l.amount - l.discount - CASE WHEN r.tax_inclusive THEN l.tax ELSE 0 END,
+               CASE WHEN r.inter_state THEN 0 ELSE l.tax / 2 END,
+               CASE WHEN r.inter_state THEN 0 ELSE l.tax / 2 END,
+               CASE WHEN r.inter_state THEN l.tax ELSE 0 END
+          FROM product_logs l
+          JOIN receipts r ON r.id = l.receipt_id
+          LEFT JOIN products p ON p.id = l.product_id
+         WHERE l.type = 'sale'
+           AND NOT EXISTS (
+             SELECT 1 FROM receipt_items ri WHERE ri.receipt_id = l.receipt_id
+           )
+         ORDER BY l.id;
+
+        INSERT INTO receipt_tax_breakup (
+          receipt_id, gst_rate, taxable_value, cgst, sgst, igst
+        )
+        SELECT ri.receipt_id, ri.gst_rate, SUM(ri.taxable_value), SUM(ri.cgst),
+               SUM(ri.sgst), SUM(ri.igst)
+          FROM receipt_items ri
+         WHERE NOT EXISTS (
+             SELECT 1 FROM receipt_tax_breakup b WHERE b.receipt_id = ri.receipt_id
+           )
+         GROUP BY ri.receipt_id, ri.gst_rate
+         ORDER BY ri.receipt_id, ri.gst_rate;
+
+        DROP TABLE transaction_tax_breakup;
+        DROP TABLE transaction_items;
+        DROP TABLE transactions;
+
+        CREATE VIEW transactions AS
+          SELECT id, total_amount AS final_amount, tax, payment_split,
+                 discount, receipt_date AS transaction_date, created_by,
+                 customer_id, tax_inclusive, inter_state, invoice_no, shift_id
+            FROM receipts;
+
+        CREATE VIEW transaction_items AS
+          SELECT id, receipt_id AS transaction_id, product_id, quantity,
+                 unit_price, amount, tax, discount, hsn, gst_rate,
+                 taxable_value, cgst, sgst, igst
+            FROM receipt_items;
+
+        CREATE VIEW transaction_tax_breakup AS
+          SELECT id, receipt_id AS transaction_id, gst_rate, taxable_value,
+                 cgst, sgst, igst
+            FROM receipt_tax_breakup;
+
+        CREATE INDEX idx_receipt_items_receipt_id ON receipt_items(receipt_id);
+        CREATE INDEX idx_receipt_items_product_id ON receipt_items(product_id);
+        CREATE INDEX idx_receipt_tax_breakup_receipt_id
+          ON receipt_tax_breakup(receipt_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "stock takes",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE stock_takes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          take_no TEXT NOT NULL UNIQUE,
+          scope_type TEXT NOT NULL,
+          scope_value TEXT,
+          scope_label TEXT NOT NULL,
+          status TEXT NOT NULL,
+          notes TEXT,
+          created_by INTEGER NOT NULL REFERENCES users(id),
+          created_at INTEGER NOT NULL,
+          closed_by INTEGER REFERENCES users(id),
+          closed_at INTEGER
+        );
+
+        CREATE TABLE stock_take_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          stock_take_id INTEGER NOT NULL REFERENCES stock_takes(id),
+          product_id INTEGER NOT NULL REFERENCES products(id),
+          system_qty REAL NOT NULL,
+          counted_qty REAL,
+          unit_cost REAL NOT NULL,
+          counted_at INTEGER,
+          UNIQUE (stock_take_id, product_id)
+        );
+
+        CREATE INDEX idx_stock_take_items_product_id
+          ON stock_take_items(product_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "receipt reprints",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE receipt_reprints (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receipt_id INTEGER NOT NULL REFERENCES receipts(id),
+          printed_by INTEGER REFERENCES users(id),
+          printed_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_receipt_reprints_receipt_id
+          ON receipt_reprints(receipt_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "label queue",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TABLE label_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_id INTEGER NOT NULL UNIQUE REFERENCES products(id),
+          copies INTEGER NOT NULL DEFAULT 1,
+          source TEXT,
+          added_by INTEGER REFERENCES users(id),
+          added_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    // Migration 3 copied lines saved before GST was tracked per line with
+    // their rate, taxable value and CGST/SGST/IGST all 0, so reprints and
+    // GST summaries of those bills were wrong. Fill them in the way it did
+    // for bills rebuilt from the stock log, and redo those bills' summaries.
+    version: 7,
+    name: "backfill GST on old bill lines",
+    up(sqlite) {
+      sqlite.exec(`
+        CREATE TEMP TABLE legacy_lines AS
+          SELECT id, receipt_id FROM receipt_items
+           WHERE gst_rate = 0 AND taxable_value = 0
+             AND cgst = 0 AND sgst = 0 AND igst = 0
+             AND amount - discount <> 0;
+
+        UPDATE receipt_items
+           SET gst_rate = CASE WHEN tax > 0 THEN COALESCE(
+                 (SELECT p.gst FROM products p WHERE p.id = receipt_items.product_id), 0
+               ) ELSE 0 END,
+               taxable_value = amount - discount - CASE WHEN
+                 (SELECT r.tax_inclusive FROM receipts r WHERE r.id = receipt_items.receipt_id)
+                 THEN tax ELSE 0 END,
+               cgst = CASE WHEN
+                 (SELECT r.inter_state FROM receipts r WHERE r.id = receipt_items.receipt_id)
+                 THEN 0 ELSE tax / 2 END,
+               sgst = CASE WHEN
+                 (SELECT r.inter_state FROM receipts r WHERE r.id = receipt_items.receipt_id)
+                 THEN 0 ELSE tax / 2 END,
+               igst = CASE WHEN
+                 (SELECT r.inter_state FROM receipts r WHERE r.id = receipt_items.receipt_id)
+                 THEN tax ELSE 0 END
+         WHERE id IN (SELECT id FROM legacy_lines);
+
+        DELETE FROM receipt_tax_breakup
+         WHERE receipt_id IN (SELECT receipt_id FROM legacy_lines);
+
+        INSERT INTO receipt_tax_breakup (
+          receipt_id, gst_rate, taxable_value, cgst, sgst, igst
+        )
+        SELECT ri.receipt_id, ri.gst_rate, SUM(ri.taxable_value), SUM(ri.cgst),
+               SUM(ri.sgst), SUM(ri.igst)
+          FROM receipt_items ri
+         WHERE ri.receipt_id IN (SELECT receipt_id FROM legacy_lines)
+         GROUP BY ri.receipt_id, ri.gst_rate
+         ORDER BY ri.receipt_id, ri.gst_rate;
+
+        DROP TABLE legacy_lines;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** A migration that failed and was rolled back; shown on the Auth screen. */
+export class MigrationError extends Error {
+  constructor(
+    public version: number,
+    public migration: string,
+    error: unknown,
+    public backup: string | null,
+  ) {
+    super(
+      `Database upgrade failed at migration ${version} (${migration}): ` +
+        (error instanceof Error ? error.message : String(error)),
+    );
+    this.name = "MigrationError";
+  }
+}
+
+function appliedVersions() {
+  const rows = sqlite
+    .prepare("SELECT version FROM schema_migrations")
+    .all() as { version: number }[];
+  return new Set(rows.map((r) => r.version));
+}
+
+// True when the file already holds app tables, i.e. there is data to protect
+function hasExistingTables() {
+  const row = sqlite
+    .prepare(
+      `SELECT COUNT(*) AS n FROM sqlite_master
+        WHERE type = 'table'
+          AND name NOT LIKE 'sqlite_%'
+          AND name <> 'schema_migrations'`,
+    )
+    .get() as { n: number };
+  return row.n > 0;
+}
+
+/**
+ * Applies every pending migration in order. Stops at the first failure,
+ * leaving that migration rolled back and the ones before it applied.
+ */
+export async function runMigrations() {
+  // Has no effect inside a transaction, so set it up front
+  sqlite.pragma("foreign_keys = ON");
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const applied = appliedVersions();
+  const pending = MIGRATIONS.filter((m) => !applied.has(m.version));
+  if (pending.length === 0) return { applied: [], backup: null };
+
+  let backup: string | null = null;
+  if (hasExistingTables()) {
+    try {
+      backup = await runBackup("pre-migration");
+    } catch (e) {
+      throw new MigrationError(
+        pending[0].version,
+        pending[0].name,
+        new Error(`could not back up the database first (${String(e)})`),
+        null,
+      );
+    }
+  }
+
+  for (const m of pending) {
+    try {
+      sqlite.transaction(() => {
+        m.up(sqlite);
+        sqlite
+          .prepare(
+            "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+          )
+          .run(m.version, m.name, Math.floor(Date.now() / 1000));
+      })();
+      console.log(`📊 Applied migration ${m.version} (${m.name})`);
+    } catch (e) {
+      throw new MigrationError(m.version, m.name, e, backup);
+    }
+  }
+
+  return { applied: pending.map((m) => m.version), backup };
+}
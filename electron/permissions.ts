@@ -0,0 +1,78 @@
+// Role permission matrix shared by the route guards (renderer) and the IPC
+// access table (main). Keep this module free of node/electron imports.
+
+export type Role = "admin" | "staff" | "manager";
+
+export const PERMISSIONS = [
+  { key: "discount.aboveLimit", label: "Give a bill discount above the limit" },
+  { key: "sale.voidLine", label: "Void a line or clear a bill" },
+  { key: "sale.return", label: "Process returns" },
+  { key: "sale.belowCost", label: "Sell below cost" },
+  { key: "price.edit", label: "Edit product price / cost" },
+  { key: "cost.view", label: "View cost prices" },
+  { key: "credit.manage", label: "Set customer credit limits, block accounts" },
+  { key: "records.delete", label: "Delete products, categories, suppliers" },
+  { key: "purchases.manage", label: "Purchase orders & goods receipts" },
+  { key: "stock.adjust", label: "Approve stock-take adjustments" },
+  { key: "promotions.manage", label: "Manage promotions" },
+  { key: "reports.view", label: "View sales, GST & shift reports" },
+  { key: "reports.export", label: "Export reports" },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+/** Roles whose permissions can be edited; admins always have everything. */
+export const EDITABLE_ROLES = ["manager", "staff"] as const;
+export type EditableRole = (typeof EDITABLE_ROLES)[number];
+
+export type PermissionMatrix = Record<EditableRole, Permission[]>;
+
+// Out-of-the-box grants, close to what each role could do before the matrix
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  manager: [
+    "sale.voidLine",
+    "sale.return",
+    "sale.belowCost",
+    "price.edit",
+    "cost.view",
+    "credit.manage",
+    "records.delete",
+    "purchases.manage",
+    "stock.adjust",
+    "promotions.manage",
+  ],
+  staff: ["sale.voidLine", "sale.return", "price.edit", "cost.view"],
+};
+
+export function isPermission(key: string): key is Permission {
+  return PERMISSIONS.some((p) => p.key === key);
+}
+
+export function roleCan(
+  matrix: PermissionMatrix,
+  role: Role,
+  permission: Permission,
+) {
+  if (role === "admin") return true;
+  return matrix[role]?.includes(permission) ?? false;
+}
+
+// Restricted till actions a supervisor can approve with their PIN, and the
+// permission the approver's role must hold
+export const OVERRIDE_ACTIONS = {
+  discount: { permission: "discount.aboveLimit", label: "Discount above limit" },
+  voidLine: { permission: "sale.voidLine", label: "Remove an item" },
+  cancelBill: { permission: "sale.voidLine", label: "Cancel a bill with items" },
+  belowCost: { permission: "sale.belowCost", label: "Sell below cost" },
+} as const satisfies Record<string, { permission: Permission; label: string }>;
+
+export type OverrideAction = keyof typeof OVERRIDE_ACTIONS;
+
+export function isOverrideAction(key: string): key is OverrideAction {
+  return Object.prototype.hasOwnProperty.call(OVERRIDE_ACTIONS, key);
+}
+
+/** Bill discount as a percentage of the bill value after promotions. */
+export function discountPct(discount: number, billValue: number) {
+  return billValue > 0 ? (Math.max(0, discount) / billValue) * 100 : 0;
+}
@@ -1,16 +1,16 @@
 // preload.ts
 import { contextBridge, ipcRenderer } from "electron";
 
-type BillItem = { name: string; qty: number; price: number };
+type BillItem = { name: string; qty: number; price: number; hsn?: string | null };
+// Store name, address and phone are filled in from Settings when printing
 type BillPayload = {
-  storeName: string;
-  address: string;
-  phone: string;
   billNo: string;
   dateTime: string;
   items: BillItem[];
   total: number;
   paymentMode: string;
+  receiptId?: number | null;
+  shiftId?: number | null;
 };
 
 const api = {
@@ -19,7 +19,7 @@ const api = {
   setupAdmin: (data: any) => ipcRenderer.invoke("auth:setup-admin", data),
   login: (data: any) => ipcRenderer.invoke("auth:login", data),
   logout: () => ipcRenderer.invoke("auth:logout"),
-  checkSession: () => ipcRenderer.invoke("auth:check-session"),
+  checkSession: () => ipcRenderer.invoke("auth:checkSession"),
 
   // Master data
   getCategories: () => ipcRenderer.invoke("categories:getAll"),
@@ -32,7 +32,6 @@ const api = {
   getReceipts: () => ipcRenderer.invoke("receipts:getAll"),
   getReceiptsRange: (from: string, to: string) =>
     ipcRenderer.invoke("receipts:getRange", { from, to }),
-  createReceipt: (data: any) => ipcRenderer.invoke("receipts:add", data),
   checkout: (data: any) => ipcRenderer.invoke("pos:checkout", data),
 
   // Logs
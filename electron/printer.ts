@@ -0,0 +1,197 @@
+// Raw ESC/POS printing to a thermal printer, bypassing the OS print dialog
+// and driver. Network printers are reached on their raw port (9100); USB and
+// serial printers through their device path (/dev/usb/lp0, /dev/ttyUSB0,
+// COM3) or, on Windows, a shared printer (\\localhost\Receipt) whose driver
+// passes raw data through.
+//
+// Everything is configured in Settings (keys below); bills fall back to the
+// HTML renderer when the backend is "html" or raw printing fails. What goes on
+// the bill (logo, header, footer, QR) is the receipt template, see ./receipt.
+// Barcode labels go to a separate label printer, see ./labels.
+
+import { nativeImage } from "electron";
+import { eq } from "drizzle-orm";
+import * as fs from "fs";
+import * as net from "net";
+import { db } from "./db";
+import {
+  drawerKick,
+  encodeEscPos,
+  isCodePage,
+  PAPER,
+  type CodePage,
+  type MonoImage,
+  type PaperWidth,
+  type PosPrintData,
+} from "./escpos";
+import { labelDesignFrom } from "./labels";
+import { receiptTemplateFrom } from "./receipt";
+import { settings } from "./schema";
+
+const NETWORK_TIMEOUT_MS = 5000;
+const LOGO_MAX_HEIGHT = 160;
+
+export const PRINTER_INTERFACES = ["network", "usb", "serial"] as const;
+export type PrinterInterface = (typeof PRINTER_INTERFACES)[number];
+
+export const DRAWER_KICK_MODES = ["never", "cash", "always"] as const;
+export type DrawerKickMode = (typeof DRAWER_KICK_MODES)[number];
+
+export type PrinterConfig = {
+  backend: "html" | "escpos";
+  interface: PrinterInterface;
+  address: string; // host[:port] or device path
+  paperWidth: PaperWidth;
+  codePage: CodePage;
+  cut: boolean;
+  drawerKick: DrawerKickMode;
+};
+
+function readSetting(key: string) {
+  return db
+    .select({ value: settings.value })
+    .from(settings)
+    .where(eq(settings.key, key))
+    .get()?.value;
+}
+
+export function getPrinterConfig(): PrinterConfig {
+  const iface = readSetting("printerInterface") ?? "";
+  const codePage = readSetting("printerCodePage") ?? "";
+  const kick = readSetting("printerDrawerKick") ?? "";
+  return {
+    backend: readSetting("printerBackend") === "escpos" ? "escpos" : "html",
+    interface: (PRINTER_INTERFACES as readonly string[]).includes(iface)
+      ? (iface as PrinterInterface)
+      : "network",
+    address: readSetting("printerAddress")?.trim() ?? "",
+    paperWidth: readSetting("printerPaperWidth") === "58" ? 58 : 80,
+    codePage: isCodePage(codePage) ? codePage : "pc437",
+    cut: readSetting("printerCut") !== "false",
+    drawerKick: (DRAWER_KICK_MODES as readonly string[]).includes(kick)
+      ? (kick as DrawerKickMode)
+      : "cash",
+  };
+}
+
+/** The barcode label printer (TSPL / ZPL), configured like the receipt one. */
+export function getLabelPrinter(): Pick<PrinterConfig, "interface" | "address"> {
+  const iface = readSetting("labelPrinterInterface") ?? "";
+  return {
+    interface: (PRINTER_INTERFACES as readonly string[]).includes(iface)
+      ? (iface as PrinterInterface)
+      : "network",
+    address: readSetting("labelPrinterAddress")?.trim() ?? "",
+  };
+}
+
+function allSettings() {
+  return Object.fromEntries(
+    db
+      .select()
+      .from(settings)
+      .all()
+      .map((s) => [s.key, s.value]),
+  );
+}
+
+export function getReceiptTemplate() {
+  return receiptTemplateFrom(allSettings());
+}
+
+export function getLabelDesign() {
+  return labelDesignFrom(allSettings());
+}
+
+function sendToNetwork(address: string, data: Uint8Array) {
+  const [host, port] = address.split(":");
+  return new Promise<void>((resolve, reject) => {
+    const socket = net.createConnection({
+      host,
+      port: Number(port || 9100),
+    });
+    socket.setTimeout(NETWORK_TIMEOUT_MS, () => {
+      socket.destroy(new Error(`Printer at ${address} did not respond`));
+    });
+    socket.once("error", reject);
+    socket.once("connect", () => socket.end(data));
+    socket.once("close", (hadError) => {
+      if (!hadError) resolve();
+    });
+  });
+}
+
+// COM ports above 9 need the device namespace prefix on Windows
+function devicePath(address: string) {
+  return /^COM\d+$/i.test(address) ? `\\\\.\\${address.toUpperCase()}` : address;
+}
+
+export async function sendToPrinter(
+  config: Pick<PrinterConfig, "interface" | "address">,
+  data: Uint8Array,
+) {
+  if (!config.address) throw new Error("Printer address is not set");
+  if (config.interface === "network") {
+    await sendToNetwork(config.address, data);
+  } else {
+    await fs.promises.writeFile(devicePath(config.address), data);
+  }
+}
+
+/**
+ * Loads the logo (a data: URL), scales it to fit the paper and thresholds it
+ * to black and white. Returns null when it isn't a readable image.
+ */
+export function loadLogo(dataUrl: string, paperWidth: PaperWidth): MonoImage | null {
+  let img = nativeImage.createFromDataURL(dataUrl);
+  if (img.isEmpty()) return null;
+
+  const maxWidth = PAPER[paperWidth].dots;
+  const size = img.getSize();
+  const scale = Math.min(1, maxWidth / size.width, LOGO_MAX_HEIGHT / size.height);
+  if (scale < 1) {
+    img = img.resize({
+      width: Math.max(1, Math.floor(size.width * scale)),
+      height: Math.max(1, Math.floor(size.height * scale)),
+    });
+  }
+
+  const { width, height } = img.getSize();
+  const bgra = img.toBitmap();
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const b = bgra[i * 4];
+    const g = bgra[i * 4 + 1];
+    const r = bgra[i * 4 + 2];
+    const a = bgra[i * 4 + 3];
+    pixels[i] = a > 127 && 0.299 * r + 0.587 * g + 0.114 * b < 128 ? 1 : 0;
+  }
+  return { width, height, pixels };
+}
+
+/** Prints a receipt layout on the configured ESC/POS printer. */
+export async function printEscPos(
+  blocks: PosPrintData[],
+  opts: { drawerKick: boolean },
+) {
+  const config = getPrinterConfig();
+  const images: Record<string, MonoImage> = {};
+  for (const block of blocks) {
+    if (block.type !== "image" || !block.url || images[block.url]) continue;
+    const img = loadLogo(block.url, config.paperWidth);
+    if (img) images[block.url] = img;
+  }
+
+  const data = encodeEscPos(blocks, {
+    paperWidth: config.paperWidth,
+    codePage: config.codePage,
+    cut: config.cut,
+    drawerKick: opts.drawerKick,
+    images,
+  });
+  await sendToPrinter(config, data);
+}
+
+export async function openCashDrawer() {
+  await sendToPrinter(getPrinterConfig(), drawerKick());
+}
@@ -0,0 +1,194 @@
+// Promotion rules shared by the POS cart (renderer) and computeReceiptTotals
+// (main), so both sides always arrive at the same line discounts.
+// Keep this module free of node/electron imports.
+
+export type PromotionType = "bogo" | "category" | "combo";
+
+export type Promotion = {
+  id: number;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+
+  // bogo: buy `buyQty` of productId, get `getQty` more of it free
+  productId: number | null;
+  buyQty: number | null;
+  getQty: number | null;
+
+  // category: flat (₹ off per unit) or percent off every unit in the category
+  categoryId: number | null;
+  discountType: "flat" | "percent" | null;
+  discountValue: number | null;
+
+  // combo: the listed items together sell for comboPrice
+  comboPrice: number | null;
+  items: Array<{ productId: number; quantity: number }>;
+
+  // Validity window; times are "HH:MM" (happy hour), days 0=Sun..6=Sat
+  startDate: Date | string | null;
+  endDate: Date | string | null;
+  startTime: string | null;
+  endTime: string | null;
+  daysOfWeek: string | null; // comma separated, null = every day
+};
+
+export type PromoLine = {
+  productId: number;
+  categoryId: number;
+  unitPrice: number;
+  qty: number;
+};
+
+export type AppliedPromotion = {
+  promotionId: number;
+  name: string;
+  amount: number;
+};
+
+function minutesOf(hhmm: string) {
+  const [h, m] = hhmm.split(":").map((x) => Number(x));
+  return (Number(h) || 0) * 60 + (Number(m) || 0);
+}
+
+export function isPromotionLive(p: Promotion, at: Date) {
+  if (!p.active) return false;
+  if (p.startDate && at < new Date(p.startDate)) return false;
+  if (p.endDate && at > new Date(p.endDate)) return false;
+
+  if (p.daysOfWeek && p.daysOfWeek.trim()) {
+    const days = p.daysOfWeek.split(",").map((d) => Number(d.trim()));
+    if (!days.includes(at.getDay())) return false;
+  }
+
+  if (p.startTime && p.endTime) {
+    const now = at.getHours() * 60 + at.getMinutes();
+    const from = minutesOf(p.startTime);
+    const to = minutesOf(p.endTime);
+    // Windows may wrap past midnight (e.g. 22:00-02:00)
+    const inside = from <= to ? now >= from && now < to : now >= from || now < to;
+    if (!inside) return false;
+  }
+
+  return true;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Works out promotion discounts for a cart. Every unit is claimed by at most
+ * one promotion: combos first, then buy-X-get-Y, then the best category
+ * discount on whatever is left. Returns the discount per product id.
+ */
+export function applyPromotions(
+  lines: PromoLine[],
+  promotions: Promotion[],
+  at: Date,
+) {
+  const live = promotions
+    .filter((p) => isPromotionLive(p, at))
+    .sort((a, b) => a.id - b.id);
+
+  const byProduct = new Map<number, PromoLine>();
+  const remaining = new Map<number, number>();
+  for (const l of lines) {
+    byProduct.set(l.productId, l);
+    remaining.set(l.productId, (remaining.get(l.productId) ?? 0) + l.qty);
+  }
+
+  const lineDiscounts = new Map<number, number>();
+  const applied: AppliedPromotion[] = [];
+  const addDiscount = (productId: number, amount: number) => {
+    lineDiscounts.set(productId, (lineDiscounts.get(productId) ?? 0) + amount);
+  };
+
+  for (const p of live.filter((x) => x.type === "combo")) {
+    const items = p.items.filter((i) => i.quantity > 0);
+    if (items.length === 0 || p.comboPrice == null) continue;
+
+    const sets = Math.min(
+      ...items.map((i) =>
+        byProduct.has(i.productId)
+          ? Math.floor((remaining.get(i.productId) ?? 0) / i.quantity)
+          : 0,
+      ),
+    );
+    if (sets <= 0) continue;
+
+    const regular = items.reduce(
+      (acc, i) => acc + byProduct.get(i.productId)!.unitPrice * i.quantity,
+      0,
+    );
+    const saving = Math.max(0, regular - Number(p.comboPrice)) * sets;
+    if (saving <= 0) continue;
+
+    for (const i of items) {
+      const value = byProduct.get(i.productId)!.unitPrice * i.quantity;
+      addDiscount(i.productId, regular > 0 ? (saving * value) / regular : 0);
+      remaining.set(
+        i.productId,
+        (remaining.get(i.productId) ?? 0) - i.quantity * sets,
+      );
+    }
+    applied.push({ promotionId: p.id, name: p.name, amount: saving });
+  }
+
+  for (const p of live.filter((x) => x.type === "bogo")) {
+    if (p.productId == null) continue;
+    const line = byProduct.get(p.productId);
+    const buy = Math.floor(Number(p.buyQty || 0));
+    const get = Math.floor(Number(p.getQty || 0));
+    if (!line || buy <= 0 || get <= 0) continue;
+
+    const left = remaining.get(p.productId) ?? 0;
+    const groups = Math.floor(left / (buy + get));
+    if (groups <= 0) continue;
+
+    const saving = groups * get * line.unitPrice;
+    addDiscount(p.productId, saving);
+    remaining.set(p.productId, left - groups * (buy + get));
+    applied.push({ promotionId: p.id, name: p.name, amount: saving });
+  }
+
+  const categoryPromos = live.filter((x) => x.type === "category");
+  const categoryTotals = new Map<number, AppliedPromotion>();
+  for (const line of byProduct.values()) {
+    const left = remaining.get(line.productId) ?? 0;
+    if (left <= 0) continue;
+
+    let best: { promo: Promotion; amount: number } | null = null;
+    for (const p of categoryPromos) {
+      if (p.categoryId !== line.categoryId) continue;
+      const value = Number(p.discountValue || 0);
+      const perUnit =
+        p.discountType === "percent"
+          ? (line.unitPrice * Math.min(100, value)) / 100
+          : Math.min(value, line.unitPrice);
+      const amount = perUnit * left;
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { promo: p, amount };
+      }
+    }
+    if (!best) continue;
+
+    addDiscount(line.productId, best.amount);
+    const prev = categoryTotals.get(best.promo.id);
+    categoryTotals.set(best.promo.id, {
+      promotionId: best.promo.id,
+      name: best.promo.name,
+      amount: (prev?.amount ?? 0) + best.amount,
+    });
+  }
+  applied.push(...categoryTotals.values());
+
+  for (const [productId, amount] of lineDiscounts) {
+    lineDiscounts.set(productId, round2(amount));
+  }
+
+  return {
+    lineDiscounts,
+    applied: applied.map((a) => ({ ...a, amount: round2(a.amount) })),
+    total: round2(
+      Array.from(lineDiscounts.values()).reduce((acc, v) => acc + v, 0),
+    ),
+  };
+}
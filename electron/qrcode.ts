@@ -0,0 +1,302 @@
+// Minimal QR code encoder (byte mode, error correction level M, versions
+// 1-10: up to 213 bytes, plenty for a UPI payment link). Used to draw the UPI
+// QR on HTML receipts and in the Settings preview; thermal printers render
+// their own QR from the text. Pure: no node/electron imports.
+
+// Per version: data codewords per block, grouped as [blocks, codewords][],
+// and EC codewords per block (ISO/IEC 18004 table 9, level M)
+const VERSIONS: { ec: number; groups: [number, number][]; align: number[] }[] = [
+  { ec: 10, groups: [[1, 16]], align: [] },
+  { ec: 16, groups: [[1, 28]], align: [6, 18] },
+  { ec: 26, groups: [[1, 44]], align: [6, 22] },
+  { ec: 18, groups: [[2, 32]], align: [6, 26] },
+  { ec: 24, groups: [[2, 43]], align: [6, 30] },
+  { ec: 16, groups: [[4, 27]], align: [6, 34] },
+  { ec: 18, groups: [[4, 31]], align: [6, 22, 38] },
+  { ec: 22, groups: [[2, 38], [2, 39]], align: [6, 24, 42] },
+  { ec: 22, groups: [[3, 36], [2, 37]], align: [6, 26, 46] },
+  { ec: 26, groups: [[4, 43], [1, 44]], align: [6, 28, 50] },
+];
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) x ^= 0x11d;
+}
+for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+
+const gfMul = (a: number, b: number) =>
+  a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+
+function ecCodewords(data: number[], n: number) {
+  // Generator polynomial (x - a^0)(x - a^1)...(x - a^(n-1)), highest power first
+  let gen = [1];
+  for (let i = 0; i < n; i++) {
+    const next = new Array(gen.length + 1).fill(0);
+    gen.forEach((g, j) => {
+      next[j] ^= g;
+      next[j + 1] ^= gfMul(g, EXP[i]);
+    });
+    gen = next;
+  }
+  const rem = new Array(n).fill(0);
+  for (const d of data) {
+    const factor = d ^ rem.shift()!;
+    rem.push(0);
+    for (let j = 0; j < n; j++) rem[j] ^= gfMul(gen[j + 1], factor);
+  }
+  return rem;
+}
+
+function bchBits(value: number, poly: number, bits: number) {
+  const polyLen = 32 - Math.clz32(poly);
+  let rem = value << (polyLen - 1);
+  while (32 - Math.clz32(rem) >= polyLen) {
+    rem ^= poly << (32 - Math.clz32(rem) - polyLen);
+  }
+  return ((value << (polyLen - 1)) | rem) & ((1 << bits) - 1);
+}
+
+const MASKS: ((r: number, c: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+function encodeData(bytes: Uint8Array) {
+  const version = VERSIONS.findIndex((v, i) => {
+    const capacity = v.groups.reduce((a, [n, k]) => a + n * k, 0);
+    const countBits = i + 1 < 10 ? 8 : 16;
+    return 4 + countBits + bytes.length * 8 <= capacity * 8;
+  });
+  if (version < 0) throw new Error("Text too long for a QR code");
+  const { ec, groups } = VERSIONS[version];
+  const capacity = groups.reduce((a, [n, k]) => a + n * k, 0);
+
+  const bits: number[] = [];
+  const put = (value: number, len: number) => {
+    for (let i = len - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  put(0b0100, 4); // byte mode
+  put(bytes.length, version + 1 < 10 ? 8 : 16);
+  bytes.forEach((b) => put(b, 8));
+  put(0, Math.min(4, capacity * 8 - bits.length)); // terminator
+  while (bits.length % 8) bits.push(0);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((a, b) => (a << 1) | b, 0));
+  }
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) {
+    data.push(pad);
+  }
+
+  // Split into blocks, then interleave data and EC codewords
+  const blocks: { data: number[]; ec: number[] }[] = [];
+  let offset = 0;
+  for (const [n, k] of groups) {
+    for (let i = 0; i < n; i++) {
+      const d = data.slice(offset, offset + k);
+      offset += k;
+      blocks.push({ data: d, ec: ecCodewords(d, ec) });
+    }
+  }
+  const out: number[] = [];
+  const longest = Math.max(...blocks.map((b) => b.data.length));
+  for (let i = 0; i < longest; i++) {
+    for (const b of blocks) if (i < b.data.length) out.push(b.data[i]);
+  }
+  for (let i = 0; i < ec; i++) for (const b of blocks) out.push(b.ec[i]);
+  return { version: version + 1, codewords: out };
+}
+
+function penalty(m: boolean[][]) {
+  const size = m.length;
+  let score = 0;
+
+  // Runs of five or more same-coloured modules, in rows and columns
+  for (let pass = 0; pass < 2; pass++) {
+    for (let i = 0; i < size; i++) {
+      let run = 1;
+      for (let j = 1; j < size; j++) {
+        const same = pass ? m[j][i] === m[j - 1][i] : m[i][j] === m[i][j - 1];
+        if (same) run++;
+        else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+      if (run >= 5) score += run - 2;
+    }
+  }
+
+  // 2x2 blocks
+  for (let r = 0; r < size - 1; r++) {
+    for (let c = 0; c < size - 1; c++) {
+      const v = m[r][c];
+      if (v === m[r][c + 1] && v === m[r + 1][c] && v === m[r + 1][c + 1]) {
+        score += 3;
+      }
+    }
+  }
+
+  // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+  const FINDER_A = [1, 0, 1, 1, 1, 0, 1, 0, 0, 0, 0];
+  const FINDER_B = [0, 0, 0, 0, 1, 0, 1, 1, 1, 0, 1];
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= size - 11; j++) {
+      for (const pattern of [FINDER_A, FINDER_B]) {
+        if (pattern.every((p, k) => Number(m[i][j + k]) === p)) score += 40;
+        if (pattern.every((p, k) => Number(m[j + k][i]) === p)) score += 40;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = m.reduce((a, row) => a + row.filter(Boolean).length, 0);
+  score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+}
+
+/** QR code modules for the text, row by row (true = dark). */
+export function qrMatrix(text: string): boolean[][] {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text));
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false),
+  );
+  const reserved = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false),
+  );
+  const set = (r: number, c: number, dark: boolean) => {
+    modules[r][c] = dark;
+    reserved[r][c] = true;
+  };
+
+  // Finder patterns with their separators
+  for (const [fr, fc] of [
+    [0, 0],
+    [0, size - 7],
+    [size - 7, 0],
+  ]) {
+    for (let r = -1; r <= 7; r++) {
+      for (let c = -1; c <= 7; c++) {
+        const rr = fr + r;
+        const cc = fc + c;
+        if (rr < 0 || rr >= size || cc < 0 || cc >= size) continue;
+        const ring = Math.max(Math.abs(r - 3), Math.abs(c - 3));
+        set(rr, cc, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+
+  // Alignment patterns, skipping those that overlap a finder
+  const align = VERSIONS[version - 1].align;
+  for (const ar of align) {
+    for (const ac of align) {
+      if (reserved[ar][ac]) continue;
+      for (let r = -2; r <= 2; r++) {
+        for (let c = -2; c <= 2; c++) {
+          set(ar + r, ac + c, Math.max(Math.abs(r), Math.abs(c)) !== 1);
+        }
+      }
+    }
+  }
+
+  // Timing patterns
+  for (let i = 8; i < size - 8; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // Reserve the format and version areas; filled in after masking
+  for (let i = 0; i < 9; i++) {
+    reserved[8][i] = reserved[i][8] = true;
+    if (i < 8) reserved[8][size - 1 - i] = reserved[size - 1 - i][8] = true;
+  }
+  set(size - 8, 8, true); // dark module
+  if (version >= 7) {
+    for (let i = 0; i < 6; i++) {
+      for (let j = 0; j < 3; j++) {
+        reserved[i][size - 11 + j] = reserved[size - 11 + j][i] = true;
+      }
+    }
+  }
+
+  // Data, in two-column strips zigzagging up and down from the bottom right
+  let bit = 0;
+  const totalBits = codewords.length * 8;
+  for (let right = size - 1, upward = true; right >= 1; right -= 2, upward = !upward) {
+    if (right === 6) right = 5; // skip the vertical timing pattern
+    for (let i = 0; i < size; i++) {
+      const r = upward ? size - 1 - i : i;
+      for (const c of [right, right - 1]) {
+        if (reserved[r][c]) continue;
+        modules[r][c] =
+          bit < totalBits && ((codewords[bit >> 3] >> (7 - (bit & 7))) & 1) === 1;
+        bit++;
+      }
+    }
+  }
+
+  const withMask = (mask: number) => {
+    const m = modules.map((row, r) =>
+      row.map((v, c) => (reserved[r][c] ? v : v !== MASKS[mask](r, c))),
+    );
+    // Level M is 00; the 15 format bits are BCH-protected and masked
+    const format = bchBits(mask, 0x537, 15) ^ 0x5412;
+    for (let i = 0; i < 15; i++) {
+      const dark = ((format >> i) & 1) === 1;
+      // Around the top-left finder
+      if (i < 6) m[i][8] = dark;
+      else if (i < 8) m[i + 1][8] = dark;
+      else m[8][i === 8 ? 7 : 14 - i] = dark;
+      // Split between the other two finders
+      if (i < 8) m[8][size - 1 - i] = dark;
+      else m[size - 15 + i][8] = dark;
+    }
+    if (version >= 7) {
+      const info = bchBits(version, 0x1f25, 18);
+      for (let i = 0; i < 18; i++) {
+        const dark = ((info >> i) & 1) === 1;
+        const a = Math.floor(i / 3);
+        const b = size - 11 + (i % 3);
+        m[a][b] = m[b][a] = dark;
+      }
+    }
+    return m;
+  };
+
+  let best = withMask(0);
+  let bestScore = penalty(best);
+  for (let mask = 1; mask < 8; mask++) {
+    const m = withMask(mask);
+    const score = penalty(m);
+    if (score < bestScore) {
+      best = m;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** The QR code as an inline SVG, `size` pixels square with a quiet zone. */
+export function qrSvg(text: string, size: number) {
+  const m = qrMatrix(text);
+  const n = m.length + 8;
+  const path = m
+    .flatMap((row, r) =>
+      row.map((dark, c) => (dark ? `M${c + 4} ${r + 4}h1v1h-1z` : "")),
+    )
+    .join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${n} ${n}" shape-rendering="crispEdges"><rect width="${n}" height="${n}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
@@ -0,0 +1,431 @@
+// Bill layouts: HTML for the system printer and PosPrintData blocks for the
+// ESC/POS backend, both shaped by the receipt template from Settings.
+// Pure: no node/electron imports, so Settings can render the live preview.
+
+import type { PaperWidth, PosPrintData } from "./escpos";
+import { qrSvg } from "./qrcode";
+
+export type BillItem = {
+  name: string;
+  qty: number;
+  price: number; // MRP
+  hsn?: string | null;
+};
+export type TaxBreakupRow = {
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+};
+export type BillPayload = {
+  storeName: string;
+  address: string;
+  phone: string;
+  billNo: string;
+  dateTime: string;
+  items: BillItem[];
+  total: number;
+  paymentMode: string;
+  receiptId?: number | null; // saved bill: GST breakup is read from the DB
+  gstin?: string | null;
+  taxBreakup?: TaxBreakupRow[];
+  shiftId?: number | null; // prints the shift's Z-report instead of a bill
+  reprintedAt?: string | null; // reprints are marked DUPLICATE
+};
+
+export type ReceiptTemplate = {
+  header: string; // extra lines under the store's contact details
+  footer: string;
+  logo: string | null; // PNG data: URL
+  showGstin: boolean;
+  showTaxBreakup: boolean;
+  showSavings: boolean; // "You saved ₹x" against MRP
+  showUpiQr: boolean;
+  upiId: string;
+  paperWidth: PaperWidth;
+};
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  header: "",
+  footer: "Thank you! Visit again.",
+  logo: null,
+  showGstin: true,
+  showTaxBreakup: true,
+  showSavings: true,
+  showUpiQr: false,
+  upiId: "",
+  paperWidth: 80,
+};
+
+// name@handle, as issued by UPI apps and banks
+export const UPI_ID_RE = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,63}$/;
+
+/** Reads the template from the settings table's key/value rows. */
+export function receiptTemplateFrom(
+  values: Record<string, string | null | undefined>,
+): ReceiptTemplate {
+  const d = DEFAULT_RECEIPT_TEMPLATE;
+  const flag = (key: string, fallback: boolean) =>
+    values[key] == null ? fallback : values[key] === "true";
+  return {
+    header: values.receiptHeader ?? d.header,
+    footer: values.receiptFooter ?? d.footer,
+    logo: values.receiptLogo || null,
+    showGstin: flag("receiptShowGstin", d.showGstin),
+    showTaxBreakup: flag("receiptShowTaxBreakup", d.showTaxBreakup),
+    showSavings: flag("receiptShowSavings", d.showSavings),
+    showUpiQr: flag("receiptShowUpiQr", d.showUpiQr),
+    upiId: values.receiptUpiId?.trim() ?? d.upiId,
+    paperWidth: values.printerPaperWidth === "58" ? 58 : d.paperWidth,
+  };
+}
+
+/** Amount saved against MRP: the bill's lines at MRP less what was charged. */
+export function billSavings(payload: BillPayload) {
+  const atMrp = payload.items.reduce(
+    (a, it) => a + Number(it.qty) * Number(it.price),
+    0,
+  );
+  const saved = Math.round((atMrp - Number(payload.total || 0)) * 100) / 100;
+  return saved > 0 ? saved : 0;
+}
+
+/** UPI deep link that asks the customer's app to pay this bill. */
+export function upiPaymentUri(template: ReceiptTemplate, payload: BillPayload) {
+  const enc = (s: string) => encodeURIComponent(s).replaceAll("%40", "@");
+  return (
+    `upi://pay?pa=${enc(template.upiId)}&pn=${enc(payload.storeName)}` +
+    `&am=${Number(payload.total || 0).toFixed(2)}&cu=INR&tn=${enc(`Bill ${payload.billNo}`)}`
+  );
+}
+
+const showsUpiQr = (template: ReceiptTemplate) =>
+  template.showUpiQr && UPI_ID_RE.test(template.upiId);
+
+const lines = (text: string) =>
+  text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+export function escapeHtml(s: string) {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+export function buildReceiptHtml(
+  payload: BillPayload,
+  template: ReceiptTemplate,
+) {
+  const itemRows = payload.items
+    .map((it) => {
+      const amt = Number(it.qty) * Number(it.price);
+      return `<tr>
+        <td class="name">${escapeHtml(it.name)}${
+          it.hsn ? `<div class="muted">HSN ${escapeHtml(it.hsn)}</div>` : ""
+        }</td>
+        <td class="qty">${Number(it.qty)}</td>
+        <td class="rate">${Number(it.price).toFixed(2)}</td>
+        <td class="amt">${amt.toFixed(2)}</td>
+      </tr>`;
+    })
+    .join("\n");
+
+  const total = Number(payload.total || 0).toFixed(2);
+  const savings = template.showSavings ? billSavings(payload) : 0;
+  const header = lines(template.header);
+  const footer = lines(template.footer);
+
+  const breakup = payload.taxBreakup ?? [];
+  const interState = breakup.some((b) => Number(b.igst) > 0);
+  const taxRows = breakup
+    .map(
+      (b) => `<tr>
+        <td>${Number(b.gstRate)}%</td>
+        <td class="amt">${Number(b.taxableValue).toFixed(2)}</td>
+        ${
+          interState
+            ? `<td class="amt">${Number(b.igst).toFixed(2)}</td>`
+            : `<td class="amt">${Number(b.cgst).toFixed(2)}</td>
+        <td class="amt">${Number(b.sgst).toFixed(2)}</td>`
+        }
+      </tr>`,
+    )
+    .join("\n");
+  const taxTable =
+    breakup.length && template.showTaxBreakup
+      ? `<div class="hr"></div>
+        <table>
+          <thead>
+            <tr>
+              <th>GST</th>
+              <th style="text-align:right;">Taxable</th>
+              ${
+                interState
+                  ? `<th style="text-align:right;">IGST</th>`
+                  : `<th style="text-align:right;">CGST</th>
+              <th style="text-align:right;">SGST</th>`
+              }
+            </tr>
+          </thead>
+          <tbody>
+            ${taxRows}
+          </tbody>
+        </table>`
+      : "";
+
+  return `<!doctype html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>Receipt</title>
+      <style>
+        * { box-sizing: border-box; }
+        body { margin: 0; padding: 10px; font-family: Arial, sans-serif; }
+        .receipt { width: ${template.paperWidth === 58 ? "48mm" : "72mm"}; }
+        .center { text-align: center; }
+        .logo { display: block; max-width: 70%; max-height: 80px; margin: 0 auto 4px; }
+        .muted { color: #444; font-size: 11px; }
+        .meta { margin-top: 6px; font-size: 11px; }
+        .hr { border-top: 1px dashed #111; margin: 8px 0; }
+        table { width: 100%; border-collapse: collapse; font-size: 11px; }
+        th { text-align: left; padding: 2px 0; border-bottom: 1px solid #ddd; }
+        td { padding: 2px 0; vertical-align: top; }
+        td.qty, td.rate, td.amt { text-align: right; width: 52px; }
+        td.name { width: auto; }
+        .totalRow { display: flex; justify-content: space-between; font-size: 12px; font-weight: 700; }
+        .savings { margin-top: 4px; font-size: 12px; font-weight: 700; text-align: center; }
+        .qr { margin-top: 8px; }
+        .foot { margin-top: 8px; font-size: 11px; }
+        .duplicate { margin-top: 4px; padding: 2px 0; border: 1px solid #111; font-size: 12px; font-weight: 800; letter-spacing: 2px; }
+      </style>
+    </head>
+    <body>
+      <div class="receipt">
+        <div class="center">
+          ${template.logo ? `<img class="logo" src="${escapeHtml(template.logo)}" alt="" />` : ""}
+          <div style="font-size:14px; font-weight:700;">${escapeHtml(payload.storeName)}</div>
+          <div class="muted">${escapeHtml(payload.address)}</div>
+          <div class="muted">Phone: ${escapeHtml(payload.phone)}</div>
+          ${payload.gstin && template.showGstin ? `<div class="muted">GSTIN: ${escapeHtml(payload.gstin)}</div>` : ""}
+          ${header.map((l) => `<div class="muted">${escapeHtml(l)}</div>`).join("")}
+          ${breakup.length ? `<div style="font-size:12px; font-weight:700; margin-top:4px;">TAX INVOICE</div>` : ""}
+          ${payload.reprintedAt ? `<div class="duplicate">DUPLICATE</div>` : ""}
+        </div>
+
+        <div class="hr"></div>
+
+        <div class="meta">
+          <div>Bill: ${escapeHtml(payload.billNo)}</div>
+          <div>${escapeHtml(payload.dateTime)}</div>
+          ${payload.reprintedAt ? `<div>Reprinted: ${escapeHtml(payload.reprintedAt)}</div>` : ""}
+        </div>
+
+        <div class="hr"></div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th style="text-align:right;">Qty</th>
+              <th style="text-align:right;">Rate</th>
+              <th style="text-align:right;">Amt</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${itemRows}
+          </tbody>
+        </table>
+
+        <div class="hr"></div>
+
+        <div class="totalRow">
+          <span>Total</span>
+          <span>${total}</span>
+        </div>
+        ${savings ? `<div class="savings">You saved ₹${savings.toFixed(2)} on MRP</div>` : ""}
+        ${taxTable}
+        <div class="foot">
+          <div>Payment: ${escapeHtml(payload.paymentMode)}</div>
+          ${
+            showsUpiQr(template)
+              ? `<div class="center qr">
+            ${qrSvg(upiPaymentUri(template, payload), 120)}
+            <div class="muted">Scan to pay with any UPI app</div>
+          </div>`
+              : ""
+          }
+          ${footer
+            .map((l, i) => `<div class="center"${i === 0 ? ` style="margin-top:6px;"` : ""}>${escapeHtml(l)}</div>`)
+            .join("")}
+        </div>
+      </div>
+    </body>
+  </html>`;
+}
+
+/**
+ * Receipt layout for the ESC/POS backend (see escpos.ts). The same bill as
+ * buildReceiptHtml renders for the system printer. The logo is an image block
+ * keyed by its data: URL; the caller rasterises it.
+ */
+export function buildReceiptData(
+  payload: BillPayload,
+  template: ReceiptTemplate,
+): PosPrintData[] {
+  const {
+    storeName,
+    address,
+    phone,
+    billNo,
+    dateTime,
+    items,
+    total,
+    paymentMode,
+    gstin,
+    taxBreakup = [],
+    reprintedAt,
+  } = payload;
+
+  const itemRows = items.map((item) => [
+    item.hsn ? `${item.name} (${item.hsn})` : item.name,
+    String(item.qty),
+    item.price.toFixed(2),
+    (item.qty * item.price).toFixed(2),
+  ]);
+  const taxRows = template.showTaxBreakup
+    ? taxBreakup.map((b) => [
+        `${b.gstRate}%`,
+        b.taxableValue.toFixed(2),
+        (b.cgst + b.sgst + b.igst).toFixed(2),
+      ])
+    : [];
+  const savings = template.showSavings ? billSavings(payload) : 0;
+  const centered = (value: string): PosPrintData => ({
+    type: "text",
+    value,
+    style: { textAlign: "center", fontSize: "10px" },
+  });
+
+  return [
+    ...(template.logo
+      ? [{ type: "image" as const, url: template.logo }]
+      : []),
+    {
+      type: "text",
+      value: storeName,
+      style: {
+        fontWeight: "700",
+        textAlign: "center",
+        fontSize: "18px",
+      },
+    },
+    centered(address),
+    centered(`Phone: ${phone}`),
+    ...(gstin && template.showGstin ? [centered(`GSTIN: ${gstin}`)] : []),
+    ...lines(template.header).map(centered),
+    ...(reprintedAt
+      ? [
+          {
+            type: "text" as const,
+            value: "*** DUPLICATE ***",
+            style: { fontWeight: "700", textAlign: "center", fontSize: "12px" },
+          },
+        ]
+      : []),
+    {
+      type: "text",
+      value: `Bill No: ${billNo}   Date: ${dateTime}`,
+      style: { fontSize: "10px", margin: "4px 0" },
+    },
+    ...(reprintedAt
+      ? [
+          {
+            type: "text" as const,
+            value: `Reprinted: ${reprintedAt}`,
+            style: { fontSize: "10px" },
+          },
+        ]
+      : []),
+    {
+      type: "text",
+      value: "--------------------------------",
+      style: { textAlign: "center" },
+    },
+    {
+      type: "table",
+      style: { border: "0px solid #fff" },
+      tableHeader: ["Item", "Qty", "Rate", "Amt"],
+      tableBody: itemRows,
+      tableHeaderStyle: { fontSize: "10px", fontWeight: "700" },
+      tableBodyStyle: { fontSize: "10px" },
+    },
+    {
+      type: "text",
+      value: "--------------------------------",
+      style: { textAlign: "center" },
+    },
+    {
+      type: "text",
+      value: `Total: ${total.toFixed(2)}`,
+      style: {
+        fontSize: "12px",
+        fontWeight: "700",
+        textAlign: "right",
+      },
+    },
+    ...(savings
+      ? [
+          {
+            type: "text" as const,
+            value: `You saved ₹${savings.toFixed(2)} on MRP`,
+            style: { fontWeight: "700", textAlign: "center" },
+          },
+        ]
+      : []),
+    ...(taxRows.length
+      ? [
+          {
+            type: "table" as const,
+            style: { border: "0px solid #fff" },
+            tableHeader: ["GST", "Taxable", "Tax"],
+            tableBody: taxRows,
+            tableHeaderStyle: { fontSize: "10px", fontWeight: "700" },
+            tableBodyStyle: { fontSize: "10px" },
+          },
+        ]
+      : []),
+    {
+      type: "text",
+      value: `Payment: ${paymentMode}`,
+      style: {
+        fontSize: "10px",
+        textAlign: "right",
+        margin: "4px 0 0 0",
+      },
+    },
+    ...(showsUpiQr(template)
+      ? [
+          {
+            type: "qrCode" as const,
+            value: upiPaymentUri(template, payload),
+            width: 6,
+          },
+          centered("Scan to pay with any UPI app"),
+        ]
+      : []),
+    ...lines(template.footer).map(
+      (value): PosPrintData => ({
+        type: "text",
+        value,
+        style: { textAlign: "center", margin: "6px 0 0 0" },
+      }),
+    ),
+  ];
+}
@@ -1,4 +1,12 @@
-import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+  integer,
+  primaryKey,
+  real,
+  sqliteTable,
+  sqliteView,
+  text,
+  unique,
+} from "drizzle-orm/sqlite-core";
 
 // USERS
 
@@ -8,6 +16,39 @@ export const users = sqliteTable("users", {
   password: text("password").notNull(),
   role: text("role").notNull(), // 'admin' | 'staff' | 'manager'
   active: integer("active", { mode: "boolean" }).notNull().default(true),
+  pinHash: text("pin_hash"), // supervisor PIN (bcrypt), optional
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+// ROLE PERMISSIONS (admin-edited matrix; missing rows fall back to the
+// defaults in permissions.ts, admins are never restricted)
+
+export const rolePermissions = sqliteTable(
+  "role_permissions",
+  {
+    role: text("role").notNull(), // 'manager' | 'staff'
+    permission: text("permission").notNull(),
+    allowed: integer("allowed", { mode: "boolean" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.role, t.permission] })],
+);
+
+// SUPERVISOR OVERRIDES (PIN approvals at the till; receiptId is set once an
+// approval is used by a checkout, void/cancel approvals stand on their own)
+
+export const supervisorOverrides = sqliteTable("supervisor_overrides", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  action: text("action").notNull(), // 'discount' | 'voidLine' | 'cancelBill' | 'belowCost'
+  requestedBy: integer("requested_by")
+    .references(() => users.id)
+    .notNull(),
+  approvedBy: integer("approved_by")
+    .references(() => users.id)
+    .notNull(),
+  receiptId: integer("receipt_id").references(() => receipts.id),
+  amount: real("amount"), // approved discount %
+  detail: text("detail"),
   createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
 });
 
@@ -46,6 +87,7 @@ export const products = sqliteTable("products", {
   mrp: real("mrp").notNull(),
   cost: real("cost").notNull(),
   gst: real("gst").notNull(),
+  hsn: text("hsn"), // HSN/SAC code printed on GST invoices
   reorderLevel: real("reorder_level").notNull().default(0),
   warehouse: text("warehouse"),
   description: text("description"),
@@ -53,38 +95,180 @@ export const products = sqliteTable("products", {
   updatedAt: integer("updated_at", { mode: "timestamp" }),
 });
 
-// RECEIPTS (TRANSACTIONS)
+// PROMOTIONS (BOGO / CATEGORY / COMBO, optional time windows)
 
-export const receipts = sqliteTable("receipts", {
+export const promotions = sqliteTable("promotions", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  totalAmount: real("total_amount").notNull(),
-  tax: real("tax").notNull().default(0),
-  paymentSplit: text("payment_split").notNull(), // JSON string
-  discount: real("discount").default(0),
-  receiptDate: integer("receipt_date", { mode: "timestamp" }).notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // 'bogo' | 'category' | 'combo'
+  active: integer("active", { mode: "boolean" }).notNull().default(true),
+
+  productId: integer("product_id").references(() => products.id), // bogo
+  buyQty: real("buy_qty"),
+  getQty: real("get_qty"),
+
+  categoryId: integer("category_id").references(() => categories.id),
+  discountType: text("discount_type"), // 'flat' | 'percent' (category)
+  discountValue: real("discount_value"),
+
+  comboPrice: real("combo_price"),
+
+  startDate: integer("start_date", { mode: "timestamp" }),
+  endDate: integer("end_date", { mode: "timestamp" }),
+  startTime: text("start_time"), // "HH:MM" happy hour window
+  endTime: text("end_time"),
+  daysOfWeek: text("days_of_week"), // "0,6" = Sun + Sat, null = every day
+
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const promotionItems = sqliteTable("promotion_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  promotionId: integer("promotion_id")
+    .references(() => promotions.id)
+    .notNull(),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull(),
+  quantity: real("quantity").notNull(),
+});
+
+// CUSTOMERS + CREDIT (KHATA) LEDGER
+
+export const customers = sqliteTable("customers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  phone: text("phone").unique(),
+  email: text("email"),
+  address: text("address"),
+  gstin: text("gstin"),
+  creditLimit: real("credit_limit").notNull().default(0), // 0 = no limit
+  active: integer("active", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const customerLedger = sqliteTable("customer_ledger", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customerId: integer("customer_id")
+    .references(() => customers.id)
+    .notNull(),
+  type: text("type").notNull(), // 'sale' | 'payment' | 'return' | 'adjustment'
+  receiptId: integer("receipt_id").references(() => receipts.id),
+  creditNoteId: integer("credit_note_id").references(() => creditNotes.id),
+  debit: real("debit").notNull().default(0), // customer owes more
+  credit: real("credit").notNull().default(0), // customer owes less
+  paymentSplit: text("payment_split"), // JSON string, for collections
+  note: text("note"),
+  entryDate: integer("entry_date", { mode: "timestamp" }).notNull(),
   createdBy: integer("created_by")
     .references(() => users.id)
     .notNull(),
+  shiftId: integer("shift_id").references(() => shifts.id), // drawer a collection went into
 });
 
-// TRANSACTIONS + TRANSACTION ITEMS (requested table names)
+export const loyaltyLedger = sqliteTable("loyalty_ledger", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customerId: integer("customer_id")
+    .references(() => customers.id)
+    .notNull(),
+  type: text("type").notNull(), // 'earn' | 'redeem' | 'reverse' | 'refund' | 'adjust'
+  receiptId: integer("receipt_id").references(() => receipts.id),
+  points: real("points").notNull(), // signed: earn > 0, redeem < 0
+  value: real("value").notNull().default(0), // rupee value of redeemed or refunded points
+  note: text("note"),
+  entryDate: integer("entry_date", { mode: "timestamp" }).notNull(),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+});
+
+// CASH DRAWER SHIFTS (opening float, cash in/out, denomination count at close)
+
+export const shifts = sqliteTable("shifts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  status: text("status").notNull().default("open"), // 'open' | 'closed'
+  openedBy: integer("opened_by")
+    .references(() => users.id)
+    .notNull(),
+  openedAt: integer("opened_at", { mode: "timestamp" }).notNull(),
+  openingFloat: real("opening_float").notNull().default(0),
+  closedBy: integer("closed_by").references(() => users.id),
+  closedAt: integer("closed_at", { mode: "timestamp" }),
+  expectedCash: real("expected_cash"),
+  countedCash: real("counted_cash"),
+  variance: real("variance"), // counted - expected
+  denominations: text("denominations"), // JSON string, { "500": 3, "10": 7 }
+  closingNote: text("closing_note"),
+});
+
+export const shiftCashMovements = sqliteTable("shift_cash_movements", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  shiftId: integer("shift_id")
+    .references(() => shifts.id)
+    .notNull(),
+  type: text("type").notNull(), // 'in' | 'out' (petty expense)
+  amount: real("amount").notNull(),
+  reason: text("reason"),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+// HELD (PARKED) BILLS — carts saved for later; they don't touch stock
+
+export const heldBills = sqliteTable("held_bills", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  label: text("label").notNull(), // customer name or counter note
+  customerId: integer("customer_id").references(() => customers.id),
+  billDiscount: real("bill_discount").notNull().default(0),
+  roundOff: integer("round_off", { mode: "boolean" }).notNull().default(true),
+  heldBy: integer("held_by")
+    .references(() => users.id)
+    .notNull(),
+  heldAt: integer("held_at", { mode: "timestamp" }).notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+});
+
+export const heldBillItems = sqliteTable("held_bill_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  heldBillId: integer("held_bill_id")
+    .references(() => heldBills.id)
+    .notNull(),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull(),
+  quantity: real("quantity").notNull(),
+});
 
-export const transactions = sqliteTable("transactions", {
+// RECEIPTS (the sales ledger: one row per bill, its lines and GST summary)
+
+export const receipts = sqliteTable("receipts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  finalAmount: real("final_amount").notNull(),
+  totalAmount: real("total_amount").notNull(),
   tax: real("tax").notNull().default(0),
-  paymentSplit: text("payment_split").notNull(),
+  paymentSplit: text("payment_split").notNull(), // JSON string
   discount: real("discount").default(0),
-  transactionDate: integer("transaction_date", { mode: "timestamp" }).notNull(),
+  receiptDate: integer("receipt_date", { mode: "timestamp" }).notNull(),
   createdBy: integer("created_by")
     .references(() => users.id)
     .notNull(),
+  customerId: integer("customer_id").references(() => customers.id),
+  taxInclusive: integer("tax_inclusive", { mode: "boolean" })
+    .notNull()
+    .default(false),
+  interState: integer("inter_state", { mode: "boolean" })
+    .notNull()
+    .default(false), // IGST instead of CGST + SGST
+  invoiceNo: text("invoice_no").unique(), // e.g. INV/25-26/00042, null on legacy bills
+  shiftId: integer("shift_id").references(() => shifts.id),
 });
 
-export const transactionItems = sqliteTable("transaction_items", {
+export const receiptItems = sqliteTable("receipt_items", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  transactionId: integer("transaction_id")
-    .references(() => transactions.id)
+  receiptId: integer("receipt_id")
+    .references(() => receipts.id)
     .notNull(),
   productId: integer("product_id")
     .references(() => products.id)
@@ -94,9 +278,92 @@ export const transactionItems = sqliteTable("transaction_items", {
   amount: real("amount").notNull(),
   tax: real("tax").notNull().default(0),
   discount: real("discount").notNull().default(0),
+  // GST breakup; amount - discount + tax is always what the customer paid
+  hsn: text("hsn"),
+  gstRate: real("gst_rate").notNull().default(0),
+  taxableValue: real("taxable_value").notNull().default(0),
+  cgst: real("cgst").notNull().default(0),
+  sgst: real("sgst").notNull().default(0),
+  igst: real("igst").notNull().default(0),
+});
+
+// Per-rate GST summary of each bill (as printed on the invoice)
+export const receiptTaxBreakup = sqliteTable("receipt_tax_breakup", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  receiptId: integer("receipt_id")
+    .references(() => receipts.id)
+    .notNull(),
+  gstRate: real("gst_rate").notNull(),
+  taxableValue: real("taxable_value").notNull(),
+  cgst: real("cgst").notNull().default(0),
+  sgst: real("sgst").notNull().default(0),
+  igst: real("igst").notNull().default(0),
+});
+
+// Every reprint of a saved bill (printed marked DUPLICATE)
+export const receiptReprints = sqliteTable("receipt_reprints", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  receiptId: integer("receipt_id")
+    .references(() => receipts.id)
+    .notNull(),
+  printedBy: integer("printed_by").references(() => users.id),
+  printedAt: integer("printed_at", { mode: "timestamp" }).notNull(),
+});
+
+// transactions / transaction_items / transaction_tax_breakup are now read-only
+// views over the tables above (see migration 3), kept for external reports.
+// Declared so drizzle-kit leaves them alone; app code never reads them.
+
+export const transactionsView = sqliteView("transactions", {
+  id: integer("id"),
+  finalAmount: real("final_amount"),
+  tax: real("tax"),
+  paymentSplit: text("payment_split"),
+  discount: real("discount"),
+  transactionDate: integer("transaction_date", { mode: "timestamp" }),
+  createdBy: integer("created_by"),
+  customerId: integer("customer_id"),
+  taxInclusive: integer("tax_inclusive", { mode: "boolean" }),
+  interState: integer("inter_state", { mode: "boolean" }),
+  invoiceNo: text("invoice_no"),
+  shiftId: integer("shift_id"),
+}).existing();
+
+export const transactionItemsView = sqliteView("transaction_items", {
+  id: integer("id"),
+  transactionId: integer("transaction_id"),
+  productId: integer("product_id"),
+  quantity: real("quantity"),
+  unitPrice: real("unit_price"),
+  amount: real("amount"),
+  tax: real("tax"),
+  discount: real("discount"),
+  hsn: text("hsn"),
+  gstRate: real("gst_rate"),
+  taxableValue: real("taxable_value"),
+  cgst: real("cgst"),
+  sgst: real("sgst"),
+  igst: real("igst"),
+}).existing();
+
+export const transactionTaxBreakupView = sqliteView("transaction_tax_breakup", {
+  id: integer("id"),
+  transactionId: integer("transaction_id"),
+  gstRate: real("gst_rate"),
+  taxableValue: real("taxable_value"),
+  cgst: real("cgst"),
+  sgst: real("sgst"),
+  igst: real("igst"),
+}).existing();
+
+// Last invoice number used per financial year ("25-26"), so the series is
+// gap-free and restarts every April
+export const invoiceSeries = sqliteTable("invoice_series", {
+  financialYear: text("financial_year").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
 });
 
-// PRODUCT LOGS (transaction items / stock movements)
+// PRODUCT LOGS (stock movements: sales, returns, purchases, adjustments)
 
 export const productLogs = sqliteTable("product_logs", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -104,7 +371,7 @@ export const productLogs = sqliteTable("product_logs", {
     .references(() => products.id)
     .notNull(),
   receiptId: integer("receipt_id").references(() => receipts.id),
-  type: text("type").notNull(), // 'sale', 'adjustment', etc.
+  type: text("type").notNull(), // 'sale', 'return', 'purchase', 'adjustment', etc.
   quantity: real("quantity").notNull().default(1),
   amount: real("amount").notNull(),
   tax: real("tax").notNull().default(0),
@@ -112,6 +379,169 @@ export const productLogs = sqliteTable("product_logs", {
   datetime: integer("datetime", { mode: "timestamp" }).notNull(),
 });
 
+// CREDIT NOTES (sales returns against a receipt)
+
+export const creditNotes = sqliteTable("credit_notes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  creditNoteNo: text("credit_note_no").notNull().unique(),
+  receiptId: integer("receipt_id")
+    .references(() => receipts.id)
+    .notNull(),
+  totalAmount: real("total_amount").notNull(),
+  tax: real("tax").notNull().default(0),
+  refundSplit: text("refund_split").notNull(), // JSON string
+  reason: text("reason"),
+  noteDate: integer("note_date", { mode: "timestamp" }).notNull(),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+  shiftId: integer("shift_id").references(() => shifts.id), // drawer the refund came out of
+});
+
+export const creditNoteItems = sqliteTable("credit_note_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  creditNoteId: integer("credit_note_id")
+    .references(() => creditNotes.id)
+    .notNull(),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull(),
+  quantity: real("quantity").notNull(),
+  unitPrice: real("unit_price").notNull(),
+  amount: real("amount").notNull(),
+  tax: real("tax").notNull().default(0),
+  discount: real("discount").notNull().default(0),
+});
+
+// PURCHASE ORDERS + GOODS RECEIVED NOTES
+
+export const purchaseOrders = sqliteTable("purchase_orders", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  poNo: text("po_no").notNull().unique(),
+  supplierId: integer("supplier_id")
+    .references(() => suppliers.id)
+    .notNull(),
+  status: text("status").notNull().default("open"), // 'open' | 'partial' | 'received' | 'cancelled'
+  orderDate: integer("order_date", { mode: "timestamp" }).notNull(),
+  expectedDate: integer("expected_date", { mode: "timestamp" }),
+  notes: text("notes"),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+});
+
+export const purchaseOrderItems = sqliteTable("purchase_order_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  purchaseOrderId: integer("purchase_order_id")
+    .references(() => purchaseOrders.id)
+    .notNull(),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull(),
+  quantity: real("quantity").notNull(),
+  unitCost: real("unit_cost").notNull(),
+  receivedQty: real("received_qty").notNull().default(0),
+});
+
+export const goodsReceivedNotes = sqliteTable("goods_received_notes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  grnNo: text("grn_no").notNull().unique(),
+  purchaseOrderId: integer("purchase_order_id").references(
+    () => purchaseOrders.id,
+  ),
+  supplierId: integer("supplier_id")
+    .references(() => suppliers.id)
+    .notNull(),
+  invoiceNo: text("invoice_no"),
+  totalAmount: real("total_amount").notNull(),
+  receivedDate: integer("received_date", { mode: "timestamp" }).notNull(),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+});
+
+export const grnItems = sqliteTable("grn_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  grnId: integer("grn_id")
+    .references(() => goodsReceivedNotes.id)
+    .notNull(),
+  purchaseOrderItemId: integer("purchase_order_item_id").references(
+    () => purchaseOrderItems.id,
+  ),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull(),
+  quantity: real("quantity").notNull(),
+  unitCost: real("unit_cost").notNull(),
+  amount: real("amount").notNull(),
+});
+
+// PRODUCT BATCHES (expiry tracking)
+
+export const productBatches = sqliteTable("product_batches", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull(),
+  batchNo: text("batch_no").notNull(),
+  expiryDate: integer("expiry_date", { mode: "timestamp" }),
+  quantity: real("quantity").notNull(), // remaining in this batch
+  cost: real("cost").notNull(),
+  grnId: integer("grn_id").references(() => goodsReceivedNotes.id),
+  receivedAt: integer("received_at", { mode: "timestamp" }).notNull(),
+});
+
+// STOCK TAKES (cycle counts). Each line snapshots the system quantity and cost
+// when the count starts; approval posts the variance as adjustment logs.
+
+export const stockTakes = sqliteTable("stock_takes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  takeNo: text("take_no").notNull().unique(),
+  scopeType: text("scope_type").notNull(), // 'all' | 'category' | 'warehouse'
+  scopeValue: text("scope_value"), // category id or warehouse name
+  scopeLabel: text("scope_label").notNull(),
+  status: text("status").notNull(), // 'counting' | 'approved' | 'cancelled'
+  notes: text("notes"),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  closedBy: integer("closed_by").references(() => users.id),
+  closedAt: integer("closed_at", { mode: "timestamp" }),
+});
+
+export const stockTakeItems = sqliteTable(
+  "stock_take_items",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    stockTakeId: integer("stock_take_id")
+      .references(() => stockTakes.id)
+      .notNull(),
+    productId: integer("product_id")
+      .references(() => products.id)
+      .notNull(),
+    systemQty: real("system_qty").notNull(),
+    countedQty: real("counted_qty"), // null until the product is counted
+    unitCost: real("unit_cost").notNull(),
+    countedAt: integer("counted_at", { mode: "timestamp" }),
+  },
+  (t) => [unique().on(t.stockTakeId, t.productId)],
+);
+
+// LABEL QUEUE (barcode labels waiting to be printed, one row per product)
+
+export const labelQueue = sqliteTable("label_queue", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  productId: integer("product_id")
+    .references(() => products.id)
+    .notNull()
+    .unique(),
+  copies: integer("copies").notNull().default(1),
+  source: text("source"), // e.g. "GRN-000012", null when added by hand
+  addedBy: integer("added_by").references(() => users.id),
+  addedAt: integer("added_at", { mode: "timestamp" }).notNull(),
+});
+
 // USER SETTINGS
 
 export const userSettings = sqliteTable("user_settings", {
@@ -166,6 +596,23 @@ export const notifications = sqliteTable("notifications", {
   dailyReportTiming: integer("daily_report_timing", { mode: "timestamp" }),
 });
 
+// AUDIT LOG (append-only, hash-chained; see audit.ts). actorId has no FK so
+// entries outlive deleted users.
+
+export const auditLog = sqliteTable("audit_log", {
+  id: integer("id").primaryKey(),
+  prevHash: text("prev_hash").notNull(),
+  actorId: integer("actor_id"),
+  actorName: text("actor_name"),
+  action: text("action").notNull(), // 'create' | 'update' | 'delete'
+  entity: text("entity").notNull(),
+  entityId: text("entity_id"),
+  before: text("before"), // JSON
+  after: text("after"), // JSON
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  hash: text("hash").notNull(),
+});
+
 // KEY/VALUE APP SETTINGS (used by Settings page + system thresholds)
 
 export const settings = sqliteTable("settings", {
@@ -173,3 +620,12 @@ export const settings = sqliteTable("settings", {
   value: text("value").notNull(),
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
 });
+
+// SCHEMA MIGRATIONS (one row per applied migration; see migrations.ts). Kept
+// here so drizzle-kit sees the table and never proposes dropping it.
+
+export const schemaMigrations = sqliteTable("schema_migrations", {
+  version: integer("version").primaryKey(),
+  name: text("name").notNull(),
+  appliedAt: integer("applied_at", { mode: "timestamp" }).notNull(),
+});
@@ -0,0 +1,226 @@
+// Main-process sessions and the IPC access table.
+//
+// The renderer never tells main who it is: the signed-in user is bound to the
+// webContents that logged in, and every channel is checked against
+// CHANNEL_ACCESS before its handler runs. Ids sent by the renderer
+// (currentUserId, createdBy, userId) are ignored in favour of the session.
+// Permissions come from the admin-edited role matrix (see permissions.ts).
+
+import type { IpcMainEvent, IpcMainInvokeEvent, WebContents } from "electron";
+import { can } from "./bootstrap";
+import type { Permission, Role } from "./permissions";
+
+export type { Role };
+export type SessionUser = { id: number; name: string; role: Role };
+
+type IpcEvent = IpcMainEvent | IpcMainInvokeEvent;
+
+// "public": callable before login; "session": any signed-in user;
+// "admin": admins only (users, settings, the matrix itself)
+type Access = "public" | "session" | "admin" | Permission;
+
+const sessions = new Map<number, SessionUser>();
+
+export function startSession(sender: WebContents, user: SessionUser) {
+  if (!sessions.has(sender.id)) {
+    const id = sender.id;
+    sender.once("destroyed", () => sessions.delete(id));
+  }
+  sessions.set(sender.id, user);
+}
+
+export function endSession(sender: WebContents) {
+  sessions.delete(sender.id);
+}
+
+export function sessionOf(event: IpcEvent) {
+  return sessions.get(event.sender.id) ?? null;
+}
+
+/** The caller's session user; throws when the renderer isn't signed in. */
+export function requireSession(event: IpcEvent) {
+  const user = sessionOf(event);
+  if (!user) throw new Error("Not signed in");
+  return user;
+}
+
+/**
+ * Applies an admin's change to a user to every renderer signed in as them:
+ * new name/role take effect at once, disabled or deleted users are signed out.
+ */
+export function syncUserSessions(
+  userId: number,
+  user: { name: string; role: Role; active: boolean } | null,
+) {
+  for (const [senderId, s] of sessions) {
+    if (s.id !== userId) continue;
+    if (!user || !user.active) sessions.delete(senderId);
+    else sessions.set(senderId, { id: userId, name: user.name, role: user.role });
+  }
+}
+
+export const CHANNEL_ACCESS: Record<string, Access> = {
+  "auth:check-init": "public",
+  "auth:setup-admin": "public", // refuses once any user exists
+  "auth:login": "public",
+  "auth:logout": "public",
+  "auth:checkSession": "public",
+  "auth:change-password": "session",
+
+  "products:getAll": "session",
+  "products:getOne": "session",
+  "products:barcodeExists": "session",
+  "products:generateBarcode": "session",
+  "products:add": "session",
+  "products:update": "session",
+  "products:delete": "records.delete",
+  "products:importParse": "session",
+  "products:importPreview": "session",
+  "products:importCommit": "session",
+  "products:export": "reports.export",
+
+  "categories:getAll": "session",
+  "categories:add": "session",
+  "categories:update": "session",
+  "categories:delete": "records.delete",
+
+  "suppliers:getAll": "session",
+  "suppliers:add": "session",
+  "suppliers:update": "session",
+  "suppliers:delete": "records.delete",
+
+  "receipts:getAll": "session",
+  "receipts:getRange": "reports.view",
+  "receipts:delete": "admin",
+  "receipts:reprint": "session",
+  "pos:checkout": "session",
+
+  "overrides:approve": "session",
+
+  "holds:getAll": "session",
+  "holds:save": "session",
+  "holds:recall": "session",
+  "holds:delete": "session",
+
+  "receipts:getReturnable": "sale.return",
+  "receipts:return": "sale.return",
+  "creditNotes:getRange": "reports.view",
+
+  "customers:getAll": "session",
+  "customers:create": "session",
+  "customers:update": "session",
+  "customers:collectPayment": "session",
+  "customers:statement": "session",
+  "customers:aging": "session",
+
+  "loyalty:getBalance": "session",
+  "loyalty:getLedger": "admin",
+
+  "promotions:getAll": "session",
+  "promotions:save": "promotions.manage",
+  "promotions:setActive": "promotions.manage",
+  "promotions:delete": "promotions.manage",
+
+  "purchases:getAll": "purchases.manage",
+  "purchases:create": "purchases.manage",
+  "purchases:cancel": "purchases.manage",
+  "grn:create": "purchases.manage",
+  "grn:getAll": "purchases.manage",
+  "stockTake:getAll": "session",
+  "stockTake:get": "session",
+  "stockTake:start": "session",
+  "stockTake:count": "session",
+  "stockTake:approve": "stock.adjust",
+  "stockTake:cancel": "stock.adjust",
+
+  "batches:getExpiring": "session",
+  "batches:getByProduct": "session",
+
+  "logs:getReceiptLogs": "session",
+  "logs:getRange": "reports.view",
+
+  "shifts:getCurrent": "session",
+  "shifts:open": "session",
+  "shifts:cashMovement": "session",
+  "shifts:close": "session",
+  "shifts:getSummary": "session",
+  "shifts:getRange": "reports.view",
+
+  "reports:todayDashboard": "session",
+  "reports:salesRange": "reports.view",
+  "reports:gstReturns": "reports.view",
+  "reports:exportSales": "reports.export",
+  "reports:exportGst": "reports.export",
+
+  "settings:getAll": "session",
+  "settings:setMany": "admin",
+  "gst:getConfig": "session",
+
+  "users:create": "admin",
+  "users:getAll": "admin",
+  "users:update": "admin",
+  "users:delete": "admin",
+
+  "permissions:getMine": "session",
+  "permissions:getMatrix": "admin",
+  "permissions:setRole": "admin",
+
+  "audit:getRange": "admin",
+  "audit:verify": "admin",
+
+  "backup:getStatus": "admin",
+  "backup:run": "admin",
+  "backup:chooseFolder": "admin",
+  "backup:chooseFile": "admin",
+  "backup:inspect": "admin",
+  "backup:restore": "admin",
+
+  "userSettings:getOne": "session",
+  "userSettings:upsert": "session",
+  "storeSettings:getOne": "session",
+  "storeSettings:upsert": "admin",
+  "notifications:getOne": "session",
+  "notifications:upsert": "session",
+
+  "print-bill": "session",
+  "printer:test": "admin",
+  "printer:openDrawer": "admin",
+  "printer:chooseLogo": "admin",
+  "labels:getQueue": "session",
+  "labels:add": "session",
+  "labels:setCopies": "session",
+  "labels:remove": "session",
+  "labels:clear": "session",
+  "labels:print": "session",
+  "labels:test": "admin",
+  "devices:reportScannerActivity": "session",
+  "devices:checkPrinter": "session",
+  "devices:checkScanner": "session",
+};
+
+/**
+ * Checks a call against CHANNEL_ACCESS. Returns the reason it was refused,
+ * or null when it may proceed. Channels missing from the table are refused.
+ */
+export function authorize(channel: string, event: IpcEvent) {
+  const access = CHANNEL_ACCESS[channel];
+  if (!access) return `Channel not allowed: ${channel}`;
+  if (access === "public") return null;
+
+  const user = sessionOf(event);
+  if (!user) return "Not signed in";
+  if (access === "session") return null;
+  if (access === "admin") {
+    return user.role === "admin" ? null : "Access denied (admin only)";
+  }
+  return can(user.role, access) ? null : `Access denied (needs ${access})`;
+}
+
+/** Throws unless the caller's role has the permission in the matrix. */
+export function requirePermission(event: IpcEvent, permission: Permission) {
+  const user = requireSession(event);
+  if (!can(user.role, permission)) {
+    throw new Error(`Access denied (needs ${permission})`);
+  }
+  return user;
+}
@@ -0,0 +1,356 @@
+// Minimal CSV and XLSX reading/writing for catalogue import and export.
+//
+// XLSX is a zip of XML parts. Reading handles what Excel, LibreOffice and
+// Google Sheets write (shared or inline strings, stored or deflated entries)
+// from the first sheet only; writing produces a single uncompressed sheet of
+// inline strings. Formulas come through as their cached values.
+
+import { inflateRawSync } from "node:zlib";
+
+export type Sheet = string[][];
+
+// ---------- CSV ----------
+
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => ({
+    d,
+    n: firstLine.split(d).length,
+  }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+export function parseCsv(text: string): Sheet {
+  text = text.replace(/^\uFEFF/, "");
+  const delim = detectDelimiter(text);
+  const rows: Sheet = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function toCsv(rows: Sheet) {
+  const cell = (v: string) =>
+    /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  // BOM so Excel opens it as UTF-8
+  return "\uFEFF" + rows.map((r) => r.map(cell).join(",")).join("\r\n");
+}
+
+// ---------- ZIP ----------
+
+function unzip(buf: Buffer) {
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not an Excel (.xlsx) file");
+
+  const entries = new Map<string, Buffer>();
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) break;
+    const method = buf.readUInt16LE(p + 10);
+    const size = buf.readUInt32LE(p + 20);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const local = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLen);
+
+    const dataStart =
+      local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+    const raw = buf.subarray(dataStart, dataStart + size);
+    if (method === 0) entries.set(name, raw);
+    else if (method === 8) entries.set(name, inflateRawSync(raw));
+
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Buffer) {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Stored (uncompressed) entries only; plenty for a catalogue export
+function zip(files: Array<{ name: string; data: Buffer }>) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const f of files) {
+    const name = Buffer.from(f.name, "utf8");
+    const crc = crc32(f.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(f.data.length, 18);
+    local.writeUInt32LE(f.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(f.data.length, 20);
+    central.writeUInt32LE(f.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, f.data);
+    centrals.push(central, name);
+    offset += local.length + name.length + f.data.length;
+  }
+
+  const centralSize = centrals.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+// ---------- XLSX ----------
+
+function xmlDecode(s: string) {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function xmlEncode(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters aren't allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+// Concatenated text of every <t> run (rich text splits a string into runs)
+function textRuns(xml: string) {
+  let out = "";
+  for (const m of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    out += xmlDecode(m[1]);
+  }
+  return out;
+}
+
+function columnIndex(ref: string) {
+  const letters = ref.replace(/\d+$/, "");
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function columnName(i: number) {
+  let s = "";
+  for (i += 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    s = String.fromCharCode(65 + ((i - 1) % 26)) + s;
+  }
+  return s;
+}
+
+function firstSheetPath(files: Map<string, Buffer>) {
+  const workbook = files.get("xl/workbook.xml")?.toString("utf8") ?? "";
+  const rels = files.get("xl/_rels/workbook.xml.rels")?.toString("utf8") ?? "";
+  const rid = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = rid
+    ? rels.match(
+        new RegExp(`<Relationship\\b[^>]*Id="${rid}"[^>]*Target="([^"]+)"`),
+      )?.[1] ??
+      rels.match(
+        new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${rid}"`),
+      )?.[1]
+    : undefined;
+  if (!target) return "xl/worksheets/sheet1.xml";
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+export function parseXlsx(buf: Buffer): Sheet {
+  const files = unzip(buf);
+
+  const shared: string[] = [];
+  const sst = files.get("xl/sharedStrings.xml")?.toString("utf8");
+  if (sst) {
+    for (const m of sst.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+      shared.push(textRuns(m[1]));
+    }
+  }
+
+  const sheet = files.get(firstSheetPath(files))?.toString("utf8");
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  const rows: Sheet = [];
+  for (const r of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const c of (r[1] ?? "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const attrs = c[1];
+      const body = c[2] ?? "";
+      const ref = attrs.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const v = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s") value = shared[Number(v)] ?? "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (v != null) value = xmlDecode(v);
+
+      const col = ref ? columnIndex(ref) : row.length;
+      while (row.length < col) row.push("");
+      row[col] = value;
+    }
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Numeric-looking cells are written as numbers, except in `textColumns`
+ * (codes such as barcodes, which Excel would otherwise show as 8.9E+12).
+ */
+export function toXlsx(
+  rows: Sheet,
+  sheetName = "Sheet1",
+  textColumns: number[] = [],
+) {
+  const isNumber = (v: string) => /^-?\d+(\.\d+)?$/.test(v) && v.length < 15;
+
+  const sheetRows = rows
+    .map((r, ri) => {
+      const cells = r
+        .map((v, ci) => {
+          const ref = `${columnName(ci)}${ri + 1}`;
+          // Leading zeros (barcodes) must stay text
+          return isNumber(v) && !/^-?0\d/.test(v) && !textColumns.includes(ci)
+            ? `<c r="${ref}"><v>${v}</v></c>`
+            : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEncode(v)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${ri + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  const xml = (s: string) =>
+    Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${s}`, "utf8");
+
+  return zip([
+    {
+      name: "[Content_Types].xml",
+      data: xml(
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+          `<Default Extension="xml" ContentType="application/xml"/>` +
+          `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+          `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+          `</Types>`,
+      ),
+    },
+    {
+      name: "_rels/.rels",
+      data: xml(
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+          `</Relationships>`,
+      ),
+    },
+    {
+      name: "xl/workbook.xml",
+      data: xml(
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+          `<sheets><sheet name="${xmlEncode(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+          `</workbook>`,
+      ),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: xml(
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+          `</Relationships>`,
+      ),
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data: xml(
+        `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+          `<sheetData>${sheetRows}</sheetData>` +
+          `</worksheet>`,
+      ),
+    },
+  ]);
+}
+
+/** Rows of a .csv or .xlsx file, picked by extension. */
+export function readSpreadsheet(fileName: string, data: Buffer): Sheet {
+  if (/\.xlsx$/i.test(fileName)) return parseXlsx(data);
+  if (/\.(csv|txt)$/i.test(fileName)) return parseCsv(data.toString("utf8"));
+  throw new Error("Choose a .csv or .xlsx file");
+}
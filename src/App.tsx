@@ -12,8 +12,19 @@ import DashboardPage from "./pages/Dashboard";
 import AdminSalesReportPage from "./pages/SalesReport";
 import SettingsPage, { SettingsUser } from "./pages/Settings";
 import CreateProductPage from "./pages/CreatProd";
+import PurchasesPage from "./pages/Purchases";
+import CustomersPage from "./pages/Customers";
+import PromotionsPage from "./pages/Promotions";
+import StockTakePage from "./pages/StockTake";
+import LabelsPage from "./pages/Labels";
 import AppLayout from "./AppLayout";
 import { USER } from "./lib/User";
+import {
+  NO_PERMISSIONS,
+  PermissionsContext,
+  type MyPermissions,
+} from "./lib/Permissions";
+import type { Permission } from "../electron/permissions";
 
 interface User {
   id: number;
@@ -24,26 +35,61 @@ interface User {
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  // null until permissions:getMine answers for the current user
+  const [perms, setPerms] = useState<MyPermissions | null>(null);
 
   useEffect(() => {
+    // Main keeps the real session; the saved user is only trusted while main
+    // still has it (sessions don't survive an app restart).
     const savedUser = USER.read<User>();
-    if (savedUser) setUser(savedUser);
-    setLoading(false);
+    if (!savedUser) {
+      setLoading(false);
+      return;
+    }
+    window.api
+      .checkSession()
+      .then((res) => {
+        const u: User | null = res?.success ? res.user ?? null : null;
+        if (u && u.id === savedUser.id) setUser(u);
+        else USER.clear();
+      })
+      .catch(() => USER.clear())
+      .finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    setPerms(null);
+    if (!user) return;
+    window.api
+      ?.invoke("permissions:getMine")
+      .then((res) =>
+        setPerms(
+          res?.success
+            ? {
+                permissions: res.permissions ?? [],
+                discountLimitPct: Number(res.discountLimitPct ?? 0),
+              }
+            : NO_PERMISSIONS,
+        ),
+      )
+      .catch(() => setPerms(NO_PERMISSIONS));
+  }, [user]);
+
   const handleLogout = () => {
+    window.api.logout().catch(() => {});
     setUser(null);
     USER.clear();
   };
 
+  // Pages without a permission are open to every signed-in user
   const ProtectedRoute = ({
     children,
-    allowedRoles,
+    permission,
   }: {
     children: React.ReactNode;
-    allowedRoles: string[];
+    permission?: Permission;
   }) => {
-    if (loading) {
+    if (loading || (user && !perms)) {
       return (
         <div className="h-screen flex items-center justify-center">
           Loading...
@@ -51,7 +97,7 @@ function App() {
       );
     }
     if (!user) return <Navigate to="/" replace />;
-    if (!allowedRoles.includes(user.role)) {
+    if (permission && !perms?.permissions.includes(permission)) {
       return (
         <div className="h-screen flex items-center justify-center bg-red-50">
           <div className="text-center">
@@ -80,85 +126,132 @@ function App() {
     );
 
   return (
-    <Router>
-      <Routes>
-        {/* Auth */}
-        <Route
-          path="/"
-          element={
-            user ? (
-              <Navigate to="/dashboard" replace />
-            ) : (
-              <AuthPage
-                onLogin={(u) => {
-                  setUser(u);
-                  USER.write(u);
-                }}
-              />
-            )
-          }
-        />
-
-        {/* All app pages (global navbar) */}
-        <Route element={<AppLayout user={user} onLogout={handleLogout} />}>
+    <PermissionsContext.Provider value={perms ?? NO_PERMISSIONS}>
+      <Router>
+        <Routes>
+          {/* Auth */}
           <Route
-            path="/pos"
+            path="/"
             element={
-              <ProtectedRoute allowedRoles={["admin", "staff", "manager"]}>
-                <POSPage user={user} onLogout={handleLogout} />
-              </ProtectedRoute>
+              user ? (
+                <Navigate to="/dashboard" replace />
+              ) : (
+                <AuthPage
+                  onLogin={(u) => {
+                    setUser(u);
+                    USER.write(u);
+                  }}
+                />
+              )
             }
           />
 
-          <Route
-            path="/inventory"
-            element={
-              <ProtectedRoute allowedRoles={["admin", "staff", "manager"]}>
-                <InventoryPage />
-              </ProtectedRoute>
-            }
-          />
+          {/* All app pages (global navbar) */}
+          <Route element={<AppLayout user={user} onLogout={handleLogout} />}>
+            <Route
+              path="/pos"
+              element={
+                <ProtectedRoute>
+                  <POSPage user={user} onLogout={handleLogout} />
+                </ProtectedRoute>
+              }
+            />
 
-          <Route
-            path="/dashboard"
-            element={
-              <ProtectedRoute allowedRoles={["admin", "staff", "manager"]}>
-                <DashboardPage />
-              </ProtectedRoute>
-            }
-          />
+            <Route
+              path="/inventory"
+              element={
+                <ProtectedRoute>
+                  <InventoryPage />
+                </ProtectedRoute>
+              }
+            />
 
-          <Route
-            path="/sales-report"
-            element={
-              <ProtectedRoute allowedRoles={["admin"]}>
-                <AdminSalesReportPage />
-              </ProtectedRoute>
-            }
-          />
+            <Route
+              path="/dashboard"
+              element={
+                <ProtectedRoute>
+                  <DashboardPage />
+                </ProtectedRoute>
+              }
+            />
 
-          <Route
-            path="/create-product"
-            element={
-              <ProtectedRoute allowedRoles={["admin", "staff", "manager"]}>
-                <CreateProductPage />
-              </ProtectedRoute>
-            }
-          />
+            <Route
+              path="/sales-report"
+              element={
+                <ProtectedRoute permission="reports.view">
+                  <AdminSalesReportPage />
+                </ProtectedRoute>
+              }
+            />
 
-          <Route
-            path="/settings"
-            element={
-              <ProtectedRoute allowedRoles={["admin", "staff", "manager"]}>
-                <SettingsPage user={user as SettingsUser} />
-              </ProtectedRoute>
-            }
-          />
-        </Route>
+            <Route
+              path="/create-product"
+              element={
+                <ProtectedRoute>
+                  <CreateProductPage />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/stock-take"
+              element={
+                <ProtectedRoute>
+                  <StockTakePage />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/labels"
+              element={
+                <ProtectedRoute>
+                  <LabelsPage />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/customers"
+              element={
+                <ProtectedRoute>
+                  <CustomersPage user={user} />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/purchases"
+              element={
+                <ProtectedRoute permission="purchases.manage">
+                  <PurchasesPage user={user} />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/promotions"
+              element={
+                <ProtectedRoute permission="promotions.manage">
+                  <PromotionsPage user={user} />
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/settings"
+              element={
+                <ProtectedRoute>
+                  <SettingsPage user={user as SettingsUser} />
+                </ProtectedRoute>
+              }
+            />
+          </Route>
 
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
-    </Router>
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </Router>
+    </PermissionsContext.Provider>
   );
 }
 
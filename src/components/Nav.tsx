@@ -8,8 +8,14 @@ import {
   Printer,
   Barcode,
   LogOut,
+  Truck,
+  BookUser,
+  BadgePercent,
+  ClipboardCheck,
+  Tags,
 } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePermissions } from "../lib/Permissions";
 type ReceiptRow = {
   id: number;
   totalAmount: number;
@@ -18,9 +24,39 @@ type ReceiptRow = {
   paymentSplit: string; // JSON string
   receiptDate: string | null; // if you serialize timestamp
   createdBy: number;
+  customerId?: number | null;
+  invoiceNo?: string | null;
+  reprints?: number;
 };
 
-type PaymentSplit = { cashAmt: number; upiAmt: number; cardAmt: number };
+type PaymentSplit = {
+  cashAmt: number;
+  upiAmt: number;
+  cardAmt: number;
+  creditAmt: number;
+};
+
+type RefundMode = "cash" | "upi" | "card" | "credit";
+
+type ReturnableLine = {
+  productId: number;
+  productName: string;
+  soldQty: number;
+  returnedQty: number;
+  returnableQty: number;
+  unitRefund: number;
+};
+
+type CreditNoteRow = {
+  id: number;
+  creditNoteNo: string;
+  totalAmount: number;
+  reason: string | null;
+  noteDate: string | null;
+};
+
+// Part of a bill paid with points that a return hasn't given back yet
+type PointsRefundable = { value: number; points: number; billLeft: number };
 
 type DeviceStatus = "connected" | "disconnected" | "unknown";
 type User = { id: number; name: string; role: "admin" | "staff" | "manager" };
@@ -35,8 +71,9 @@ function StatusDot({ status }: { status: DeviceStatus }) {
   return <span className={`inline-block h-2.5 w-2.5 rounded-full ${color}`} />;
 }
 
-function RouteDropdown({ user }: { user: User | null }) {
+function RouteDropdown() {
   const [open, setOpen] = useState(false);
+  const { can } = usePermissions();
 
   const items = [
     { to: "/dashboard", label: "Dashboard", icon: LayoutDashboard, show: true },
@@ -48,11 +85,31 @@ function RouteDropdown({ user }: { user: User | null }) {
       icon: ShoppingCart,
       show: true,
     },
+    {
+      to: "/stock-take",
+      label: "Stock Take",
+      icon: ClipboardCheck,
+      show: true,
+    },
+    { to: "/labels", label: "Barcode Labels", icon: Tags, show: true },
+    { to: "/customers", label: "Customers", icon: BookUser, show: true },
+    {
+      to: "/purchases",
+      label: "Purchases",
+      icon: Truck,
+      show: can("purchases.manage"),
+    },
+    {
+      to: "/promotions",
+      label: "Promotions",
+      icon: BadgePercent,
+      show: can("promotions.manage"),
+    },
     {
       to: "/sales-report",
       label: "Sales Report",
       icon: ReceiptText,
-      show: user?.role === "admin",
+      show: can("reports.view"),
     },
     { to: "/settings", label: "Settings", icon: Settings, show: true },
   ].filter((x) => x.show);
@@ -116,21 +173,311 @@ function NavPill({
   );
 }
 
+function ReturnModal({
+  receiptId,
+  user,
+  onClose,
+}: {
+  receiptId: number;
+  user: User | null;
+  onClose: () => void;
+}) {
+  const [lines, setLines] = useState<ReturnableLine[]>([]);
+  const [notes, setNotes] = useState<CreditNoteRow[]>([]);
+  const [hasCustomer, setHasCustomer] = useState(false);
+  const [invoiceNo, setInvoiceNo] = useState<string | null>(null);
+  const [pointsRefundable, setPointsRefundable] = useState<PointsRefundable | null>(null);
+  const [qtyByProduct, setQtyByProduct] = useState<Record<number, number>>({});
+  const [modes, setModes] = useState<Set<RefundMode>>(new Set(["cash"]));
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("receipts:getReturnable", {
+        receiptId,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load receipt");
+      setLines((res.lines ?? []) as ReturnableLine[]);
+      setNotes((res.creditNotes ?? []) as CreditNoteRow[]);
+      setHasCustomer(res.receipt?.customerId != null);
+      setInvoiceNo(res.receipt?.invoiceNo ?? null);
+      setPointsRefundable(res.pointsRefundable ?? null);
+      setQtyByProduct({});
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [receiptId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const refundTotal = useMemo(
+    () =>
+      lines.reduce(
+        (acc, l) => acc + l.unitRefund * (qtyByProduct[l.productId] ?? 0),
+        0
+      ),
+    [lines, qtyByProduct]
+  );
+
+  // Same share of the points tender as the server gives back on the credit note
+  const pointsBack = useMemo(() => {
+    const p = pointsRefundable;
+    if (!p || p.value <= 0 || p.billLeft <= 0) return { value: 0, points: 0 };
+    const share = Math.min(1, refundTotal / p.billLeft);
+    return {
+      value: Math.round(p.value * share * 100) / 100,
+      points: Math.round(p.points * share),
+    };
+  }, [pointsRefundable, refundTotal]);
+  const moneyRefund = refundTotal - pointsBack.value;
+
+  const toggleMode = (m: RefundMode) =>
+    setModes((prev) => {
+      const next = new Set(prev);
+      if (next.has(m)) {
+        if (next.size > 1) next.delete(m);
+      } else next.add(m);
+      return next;
+    });
+
+  const submit = async () => {
+    if (!user) {
+      setError("User not logged in");
+      return;
+    }
+    const items = lines
+      .map((l) => ({ productId: l.productId, qty: qtyByProduct[l.productId] ?? 0 }))
+      .filter((it) => it.qty > 0);
+    if (items.length === 0) {
+      setError("Select at least one item to return");
+      return;
+    }
+
+    const perMode = moneyRefund / modes.size;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await window.api?.invoke("receipts:return", {
+        receiptId,
+        createdBy: user.id,
+        reason: reason.trim() || null,
+        refundSplit: {
+          cashAmt: modes.has("cash") ? perMode : 0,
+          upiAmt: modes.has("upi") ? perMode : 0,
+          cardAmt: modes.has("card") ? perMode : 0,
+          creditAmt: modes.has("credit") ? perMode : 0,
+        },
+        items,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to record return");
+      setSuccess(
+        `Credit note ${res.creditNoteNo} recorded · Refund ₹${Number(
+          res.totalAmount
+        ).toFixed(2)}`
+      );
+      setReason("");
+      await load();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="flex items-start justify-between gap-4 border-b border-slate-100 p-4">
+          <div>
+            <div className="text-sm font-semibold text-slate-900">
+              Return items · {invoiceNo ?? `Receipt #${receiptId}`}
+            </div>
+            <div className="mt-0.5 text-xs text-slate-500">
+              Returned items are restocked and refunded against a credit note.
+            </div>
+          </div>
+          <button className={BtnSecondary} onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-auto p-4">
+          {error ? (
+            <div className="mb-3 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+          {success ? (
+            <div className="mb-3 rounded-xl border border-emerald-100 bg-emerald-50 p-3 text-sm text-emerald-700">
+              {success}
+            </div>
+          ) : null}
+
+          {loading ? (
+            <div className="text-sm text-slate-600">Loading items…</div>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-xs font-semibold">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold">Sold</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold">Returned</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold">Refund/unit</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold">Return qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {lines.map((l) => (
+                  <tr key={l.productId}>
+                    <td className="px-3 py-2 text-slate-900">{l.productName}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{l.soldQty}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{l.returnedQty}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      ₹{l.unitRefund.toFixed(2)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        max={l.returnableQty}
+                        value={qtyByProduct[l.productId] ?? 0}
+                        disabled={l.returnableQty <= 0 || saving}
+                        onChange={(e) => {
+                          const v = Math.max(
+                            0,
+                            Math.min(l.returnableQty, Number(e.target.value || 0))
+                          );
+                          setQtyByProduct((p) => ({ ...p, [l.productId]: v }));
+                        }}
+                        className="w-20 rounded-md border border-slate-200 px-2 py-1 text-right font-mono text-sm outline-none focus:border-slate-300 disabled:bg-slate-50"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="mt-4 grid grid-cols-2 gap-3">
+            <div>
+              <div className="text-xs font-medium text-slate-600">Refund via</div>
+              <div className="mt-2 flex gap-2">
+                {(hasCustomer
+                  ? (["cash", "upi", "card", "credit"] as const)
+                  : (["cash", "upi", "card"] as const)
+                ).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => toggleMode(m)}
+                    className={[
+                      "rounded-lg border px-3 py-1.5 text-xs font-semibold uppercase transition",
+                      modes.has(m)
+                        ? "border-orange/40 bg-orange/10 text-orange"
+                        : "border-slate-200 bg-white text-slate-700",
+                    ].join(" ")}
+                  >
+                    {m}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-slate-600">Reason</div>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Damaged, expired, wrong item…"
+                className="mt-2 w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm outline-none focus:border-slate-300"
+              />
+            </div>
+          </div>
+
+          {notes.length > 0 ? (
+            <div className="mt-4">
+              <div className="text-xs font-medium text-slate-600">Previous credit notes</div>
+              <div className="mt-2 space-y-1">
+                {notes.map((n) => (
+                  <div
+                    key={n.id}
+                    className="flex items-center justify-between rounded-lg border border-slate-200 px-3 py-1.5 text-xs text-slate-700"
+                  >
+                    <span className="font-semibold">{n.creditNoteNo}</span>
+                    <span>
+                      {n.noteDate ? new Date(n.noteDate).toLocaleString() : "—"}
+                    </span>
+                    <span className="tabular-nums">₹{Number(n.totalAmount).toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-900">
+            Refund: ₹{moneyRefund.toFixed(2)}
+            {pointsBack.points > 0 ? (
+              <span className="ml-2 text-xs font-medium text-slate-500">
+                + {pointsBack.points} pts back (₹{pointsBack.value.toFixed(2)})
+              </span>
+            ) : null}
+          </div>
+          <button
+            className={BtnPrimary}
+            onClick={submit}
+            disabled={saving || loading || refundTotal <= 0}
+          >
+            {saving ? "Saving…" : "Record return"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function ReceiptsModal({
   isOpen,
   onClose,
+  user,
 }: {
   isOpen: boolean;
   onClose: () => void;
+  user: User | null;
 }) {
   const [rows, setRows] = useState<ReceiptRow[]>([]);
+  const [returnFor, setReturnFor] = useState<number | null>(null);
+  const { can } = usePermissions();
+  const [query, setQuery] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reprinting, setReprinting] = useState<number | null>(null);
+  const [reprintError, setReprintError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isOpen) return;
 
-    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    const onKey = (e: KeyboardEvent) =>
+      e.key === "Escape" && returnFor == null && onClose();
     document.addEventListener("keydown", onKey);
 
     setLoading(true);
@@ -146,10 +493,33 @@ function ReceiptsModal({
       .finally(() => setLoading(false));
 
     return () => document.removeEventListener("keydown", onKey);
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, returnFor]);
 
   if (!isOpen) return null;
 
+  const reprint = async (id: number) => {
+    setReprinting(id);
+    setReprintError(null);
+    try {
+      const res = await window.api.invoke("receipts:reprint", { id });
+      if (!res?.success) throw new Error(res?.error ?? "Reprint failed");
+      setRows((prev) =>
+        prev.map((r) => (r.id === id ? { ...r, reprints: res.reprints } : r)),
+      );
+    } catch (e) {
+      setReprintError(e instanceof Error ? e.message : "Reprint failed");
+    } finally {
+      setReprinting(null);
+    }
+  };
+
+  const q = query.trim().toLowerCase();
+  const visible = q
+    ? rows.filter((r) =>
+        (r.invoiceNo ?? `#${r.id}`).toLowerCase().includes(q)
+      )
+    : rows;
+
   const parsePayment = (s: string): PaymentSplit => {
     try {
       const p = JSON.parse(s ?? "{}");
@@ -157,9 +527,10 @@ function ReceiptsModal({
         cashAmt: Number(p.cashAmt ?? 0),
         upiAmt: Number(p.upiAmt ?? 0),
         cardAmt: Number(p.cardAmt ?? 0),
+        creditAmt: Number(p.creditAmt ?? 0),
       };
     } catch {
-      return { cashAmt: 0, upiAmt: 0, cardAmt: 0 };
+      return { cashAmt: 0, upiAmt: 0, cardAmt: 0, creditAmt: 0 };
     }
   };
 
@@ -183,9 +554,15 @@ function ReceiptsModal({
                 Receipts
               </div>
               <div className="mt-0.5 text-xs text-slate-500">
-                {loading ? "Loading…" : `${rows.length} receipt(s)`}
+                {loading ? "Loading…" : `${visible.length} receipt(s)`}
               </div>
             </div>
+            <input
+              className="h-9 flex-1 rounded-xl border border-slate-200 px-3 text-sm outline-none focus:border-slate-400"
+              placeholder="Search invoice no…"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
             <button className={BtnPrimary} onClick={onClose}>
               Close
             </button>
@@ -198,13 +575,18 @@ function ReceiptsModal({
               </div>
             ) : loading ? (
               <div className="text-sm text-slate-600">Fetching receipts…</div>
-            ) : rows.length === 0 ? (
+            ) : visible.length === 0 ? (
               <div className="rounded-xl border border-slate-200 bg-slate-50 p-6 text-sm text-slate-600">
                 No receipts found.
               </div>
             ) : (
               <div className="space-y-3">
-                {rows.map((r) => {
+                {reprintError ? (
+                  <div className="rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+                    {reprintError}
+                  </div>
+                ) : null}
+                {visible.map((r) => {
                   const pay = parsePayment(r.paymentSplit);
                   return (
                     <div
@@ -214,24 +596,43 @@ function ReceiptsModal({
                       <div className="flex items-start justify-between gap-3">
                         <div>
                           <div className="text-sm font-semibold text-slate-900">
-                            Receipt #{r.id}
+                            {r.invoiceNo ?? `Receipt #${r.id}`}
                           </div>
                           <div className="mt-0.5 text-xs text-slate-500">
                             Tax: ₹{r.tax} · Discount: ₹{r.discount ?? 0}
+                            {r.reprints ? ` · Reprinted ${r.reprints}×` : ""}
                           </div>
                         </div>
-                        <div className="text-right">
-                          <div className="text-xs text-slate-500">Total</div>
-                          <div className="text-sm font-semibold text-slate-900">
-                            ₹{r.totalAmount}
+                        <div className="flex items-start gap-3">
+                          <div className="text-right">
+                            <div className="text-xs text-slate-500">Total</div>
+                            <div className="text-sm font-semibold text-slate-900">
+                              ₹{r.totalAmount}
+                            </div>
                           </div>
+                          <button
+                            className={BtnSecondary}
+                            onClick={() => reprint(r.id)}
+                            disabled={reprinting != null}
+                          >
+                            {reprinting === r.id ? "Printing…" : "Reprint"}
+                          </button>
+                          {can("sale.return") ? (
+                            <button
+                              className={BtnSecondary}
+                              onClick={() => setReturnFor(r.id)}
+                            >
+                              Return
+                            </button>
+                          ) : null}
                         </div>
                       </div>
 
-                      <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-3">
+                      <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-4">
                         <MiniKV label="Cash" value={`₹${pay.cashAmt}`} />
                         <MiniKV label="UPI" value={`₹${pay.upiAmt}`} />
                         <MiniKV label="Card" value={`₹${pay.cardAmt}`} />
+                        <MiniKV label="Credit" value={`₹${pay.creditAmt}`} />
                       </div>
                     </div>
                   );
@@ -248,6 +649,14 @@ function ReceiptsModal({
           </div>
         </div>
       </div>
+
+      {returnFor != null ? (
+        <ReturnModal
+          receiptId={returnFor}
+          user={user}
+          onClose={() => setReturnFor(null)}
+        />
+      ) : null}
     </div>
   );
 }
@@ -263,9 +672,9 @@ function MiniKV({ label, value }: { label: string; value: string }) {
 
 // reuse your button classes
 const BtnPrimary =
-  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800";
-// const BtnSecondary =
-//   "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50";
+  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50";
+const BtnSecondary =
+  "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50";
 
 export default function Navbar({
   mode = "pos",
@@ -304,6 +713,7 @@ export default function Navbar({
           <ReceiptsModal
             isOpen={isReceipts}
             onClose={() => setIsReceipts(false)}
+            user={user}
           />
         )}
         <div className="flex items-center gap-3">
@@ -318,7 +728,7 @@ export default function Navbar({
 
         {/* Center: Nav */}
         <nav className="hidden md:flex items-center gap-2">
-          <RouteDropdown user={user} />
+          <RouteDropdown />
           <NavPill to="/pos" label="POS" icon={Calculator} />
           <button
             className={[
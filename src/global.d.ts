@@ -1,22 +1,50 @@
 // Global type definitions for electron API
-type BillItem = { name: string; qty: number; price: number };
+type BillItem = { name: string; qty: number; price: number; hsn?: string | null };
+// Store name, address and phone are filled in from Settings when printing
 type BillPayload = {
-  storeName: string;
-  address: string;
-  phone: string;
   billNo: string;
   dateTime: string;
   items: BillItem[];
   total: number;
   paymentMode: string;
+  receiptId?: number | null;
+  shiftId?: number | null;
 };
 
+// The signed-in user main keeps for this window
+type SessionUser = { id: number; name: string; role: "admin" | "staff" | "manager" };
+
+// Answers of the invoke channels that have typed results. Rows stay unknown
+// until the page casts them to its own view type.
+type ApiResult<T> = { success: boolean; error?: string } & T;
+interface InvokeResults {
+  "receipts:getReturnable": {
+    receipt?: { customerId: number | null; invoiceNo: string | null };
+    lines?: unknown[];
+    creditNotes?: unknown[];
+    pointsRefundable?: { value: number; points: number; billLeft: number } | null;
+  };
+  "receipts:return": { creditNoteNo?: string; totalAmount?: number };
+  "customers:getAll": { customers?: unknown[] };
+  "promotions:getAll": { promotions?: unknown[] };
+  "gst:getConfig": { taxInclusive?: boolean; storeGstin?: string | null };
+  "shifts:getCurrent": { summary?: unknown };
+  "shifts:getRange": { shifts?: unknown[] };
+  "holds:getAll": { holds?: unknown[] };
+}
+
 interface Window {
   api: {
     // Auth
     checkInit: () => Promise<any>;
     setupAdmin: (data: any) => Promise<any>;
     login: (data: any) => Promise<any>;
+    logout: () => Promise<{ success: boolean; error?: string }>;
+    checkSession: () => Promise<{
+      success: boolean;
+      user?: SessionUser | null;
+      error?: string;
+    }>;
 
     // Master data
     getCategories: () => Promise<any>;
@@ -27,7 +55,6 @@ interface Window {
     // Receipts / POS
     getReceipts: () => Promise<any>;
     getReceiptsRange: (from: string, to: string) => Promise<any>;
-    createReceipt: (data: any) => Promise<any>;
     checkout: (data: any) => Promise<any>;
 
     // Logs
@@ -45,7 +72,13 @@ interface Window {
     ) => Promise<any>;
 
     // Generic invoke
-    invoke: (channel: string, ...args: any[]) => Promise<any>;
+    invoke: {
+      <C extends keyof InvokeResults>(
+        channel: C,
+        ...args: unknown[]
+      ): Promise<ApiResult<InvokeResults[C]>>;
+      (channel: string, ...args: any[]): Promise<any>;
+    };
 
     // Bill printing
     printBill: (payload: BillPayload) => void;
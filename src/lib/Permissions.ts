@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { Permission } from "../../electron/permissions";
+
+export type MyPermissions = {
+  permissions: Permission[];
+  discountLimitPct: number;
+};
+
+export const NO_PERMISSIONS: MyPermissions = {
+  permissions: [],
+  discountLimitPct: 0,
+};
+
+// Filled by App from permissions:getMine for the signed-in user. Main enforces
+// the same matrix; this only decides what the UI offers.
+export const PermissionsContext = createContext<MyPermissions>(NO_PERMISSIONS);
+
+export function usePermissions() {
+  const mine = useContext(PermissionsContext);
+  return {
+    ...mine,
+    can: (p: Permission) => mine.permissions.includes(p),
+  };
+}
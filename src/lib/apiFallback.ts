@@ -1,3 +1,16 @@
+import {
+  DEFAULT_PERMISSIONS,
+  PERMISSIONS,
+  roleCan,
+} from "../../electron/permissions";
+import {
+  DEFAULT_STORE_BARCODE_PREFIX,
+  nextStoreBarcode,
+  retailBarcodeError,
+  STORE_BARCODE_PREFIX_RE,
+} from "../../electron/barcode";
+import { USER } from "./User";
+
 type Role = "admin" | "staff" | "manager";
 
 type PaymentSplit = { cashAmt: number; upiAmt: number; cardAmt: number };
@@ -802,6 +815,20 @@ function createMockApi() {
       }
     },
 
+    logout: async () => ok(),
+
+    // No main process here: the browser session is the stored user
+    checkSession: async () => {
+      try {
+        const db = loadDb();
+        const saved = USER.read<{ id: number }>();
+        const u = saved ? db.users.find((x) => x.id === saved.id && x.active) : null;
+        return ok({ user: u ? { id: u.id, name: u.name, role: u.role } : null });
+      } catch (e) {
+        return fail(e);
+      }
+    },
+
     // Master data
     getCategories: async () => {
       try {
@@ -850,38 +877,6 @@ function createMockApi() {
       }
     },
 
-    createReceipt: async (data: {
-      totalAmount: number;
-      tax: number;
-      paymentSplit: string;
-      discount?: number;
-      receiptDate?: string;
-      createdBy: number;
-    }) => {
-      try {
-        const db = loadDb();
-        const createdBy = Number(data.createdBy);
-        const u = db.users.find((x) => x.id === createdBy);
-        if (!u) throw new Error("User not found");
-
-        const receiptId = db.nextIds.receipt++;
-        db.receipts.push({
-          id: receiptId,
-          totalAmount: Number(data.totalAmount || 0),
-          tax: Number(data.tax || 0),
-          paymentSplit: String(data.paymentSplit ?? "{}"),
-          discount: Number(data.discount || 0),
-          receiptDate: data.receiptDate ? String(data.receiptDate) : toIso(new Date()),
-          createdBy,
-        });
-
-        saveDb(db);
-        return ok({ receiptId });
-      } catch (e) {
-        return fail(e);
-      }
-    },
-
     getReceiptsRange: async (from: string, to: string) => {
       try {
         const db = loadDb();
@@ -1075,10 +1070,22 @@ function createMockApi() {
       try {
         const db = loadDb();
 
+        if (channel === "products:generateBarcode") {
+          const prefix = String(db.settings.barcodePrefix ?? "");
+          return ok({
+            barcode: nextStoreBarcode(
+              STORE_BARCODE_PREFIX_RE.test(prefix) ? prefix : DEFAULT_STORE_BARCODE_PREFIX,
+              db.products.map((p) => p.barcode),
+            ),
+          });
+        }
+
         if (channel === "products:add") {
           const payload = asRecord(args[0]);
           const barcode = String(payload.barcode ?? "");
           if (!barcode) throw new Error("barcode required");
+          const badCode = retailBarcodeError(barcode);
+          if (badCode) throw new Error(badCode);
           if (db.products.some((p) => p.barcode === barcode))
             throw new Error("SKU already exists");
 
@@ -1123,8 +1130,14 @@ function createMockApi() {
         if (channel === "products:delete") {
           const payload = asRecord(args[0]);
           const id = Number(payload.id);
+          const product = db.products.find((p) => p.id === id);
+          if (!product) return fail("Product not found");
+          if (db.logs.some((l) => l.productId === id)) {
+            return fail(
+              `${product.productName} has sales, purchase or stock history and can't be deleted`,
+            );
+          }
           db.products = db.products.filter((p) => p.id !== id);
-          db.logs = db.logs.filter((l) => l.productId !== id);
           saveDb(db);
           return ok();
         }
@@ -1194,6 +1207,71 @@ function createMockApi() {
           return ok();
         }
 
+        // The browser preview has no editable matrix; roles get the defaults
+        if (channel === "permissions:getMine") {
+          const saved = USER.read<{ role: Role }>();
+          const role = saved?.role ?? "staff";
+          return ok({
+            permissions: PERMISSIONS.map((p) => p.key).filter((k) =>
+              roleCan(DEFAULT_PERMISSIONS, role, k),
+            ),
+            discountLimitPct: Number(db.settings.discountLimitPct ?? 10),
+          });
+        }
+
+        if (channel === "permissions:getMatrix") {
+          return ok({
+            matrix: DEFAULT_PERMISSIONS,
+            discountLimitPct: Number(db.settings.discountLimitPct ?? 10),
+          });
+        }
+
+        // The browser preview keeps its data in localStorage; nothing to back up
+        if (channel.startsWith("backup:")) {
+          return fail("Backups are only available in the desktop app");
+        }
+
+        if (channel === "stockTake:getAll") {
+          return ok({ takes: [] });
+        }
+
+        if (channel.startsWith("stockTake:")) {
+          return fail("Stock takes are only available in the desktop app");
+        }
+
+        // No raw device access from the browser preview
+        if (channel.startsWith("printer:")) {
+          return fail("Thermal printing is only available in the desktop app");
+        }
+
+        if (channel === "receipts:reprint") {
+          return fail("Reprinting is only available in the desktop app");
+        }
+
+        if (channel.startsWith("labels:")) {
+          return fail("Barcode labels are only available in the desktop app");
+        }
+
+        // Spreadsheets are read and written by the main process
+        if (
+          channel.startsWith("products:import") ||
+          channel === "products:export" ||
+          channel.startsWith("reports:export")
+        ) {
+          return fail("Import and export are only available in the desktop app");
+        }
+
+        // Nothing in the browser preview writes to the audit trail
+        if (channel === "audit:getRange") {
+          return ok({ entries: [] });
+        }
+
+        if (channel === "audit:verify") {
+          return ok({
+            result: { ok: true, checked: 0, brokenAt: null, reason: null },
+          });
+        }
+
         return fail(`Unknown channel: ${channel}`);
       } catch (e) {
         return fail(e);
@@ -1,6 +1,12 @@
 import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { User, Lock, ArrowRight, ShieldCheck } from "lucide-react";
+import { User, Lock, ArrowRight, ShieldCheck, DatabaseZap } from "lucide-react";
+
+type MigrationFailure = {
+  version: number;
+  name: string;
+  backup: string | null;
+};
 
 interface AuthPageProps {
   onLogin: (user: {
@@ -16,6 +22,7 @@ export default function AuthPage({ onLogin }: AuthPageProps) {
   const [isSetup, setIsSetup] = useState(false); // means: needs setup
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [migration, setMigration] = useState<MigrationFailure | null>(null);
   const [formData, setFormData] = useState({ name: "", password: "" });
   const navigate = useNavigate();
 
@@ -30,6 +37,7 @@ export default function AuthPage({ onLogin }: AuthPageProps) {
 
         if (!res?.success) {
           setError(res?.error ?? "Failed to check system status");
+          setMigration(res?.migration ?? null);
           setIsSetup(false);
         } else {
           const isInit = !!res.isInit; // handler meaning: initialized? (has users)
@@ -102,6 +110,42 @@ export default function AuthPage({ onLogin }: AuthPageProps) {
     );
   }
 
+  // The database couldn't be upgraded; nothing else will work, so say what to do
+  if (migration) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-orange-50 p-4">
+        <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg border border-gray-100">
+          <div className="text-center mb-6">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-red-50 text-red-600 mb-4">
+              <DatabaseZap size={32} />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Database upgrade failed</h1>
+            <p className="text-gray-500 text-sm mt-2">
+              Step {migration.version} ({migration.name}) could not be applied and was rolled back.
+            </p>
+          </div>
+
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm break-words">
+            {error}
+          </div>
+
+          <div className="p-3 bg-blue-50 rounded-lg text-xs text-gray-600 border border-blue-100 space-y-1">
+            {migration.backup ? (
+              <p>
+                Your data was backed up before the upgrade to:{" "}
+                <span className="font-mono break-all">{migration.backup}</span>
+              </p>
+            ) : null}
+            <p>
+              Don't delete or edit the database. Note the message above and contact support, or
+              reinstall the previous version of the app to keep working.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen w-full flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-orange-50 p-4">
       <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-md border border-gray-100">
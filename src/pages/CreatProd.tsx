@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { retailBarcodeError } from "../../electron/barcode";
 
 type CategoryRow = { id: number; categoryName: string };
 
@@ -18,6 +19,7 @@ type FormState = {
   brand: string;
   cost: string;
   gst: string;
+  hsn: string;
 };
 
 type FormErrors = Partial<Record<keyof FormState, string>>;
@@ -46,6 +48,7 @@ export default function CreateProductPage() {
     brand: "",
     cost: "",
     gst: "5",
+    hsn: "",
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
@@ -80,6 +83,10 @@ export default function CreateProductPage() {
 
     if (!state.name.trim()) next.name = "Name is required";
     if (!state.sku.trim()) next.sku = "SKU is required";
+    else {
+      const badCode = retailBarcodeError(state.sku.trim());
+      if (badCode) next.sku = badCode;
+    }
     if (!state.categoryId) next.categoryId = "Category is required";
 
     const price = Number(state.price);
@@ -93,6 +100,9 @@ export default function CreateProductPage() {
     const gst = Number(state.gst);
     if (Number.isNaN(gst) || gst < 0) next.gst = "GST must be a valid number";
 
+    const hsn = state.hsn.trim();
+    if (hsn && !/^(\d{4}|\d{6}|\d{8})$/.test(hsn)) next.hsn = "HSN must be 4, 6 or 8 digits";
+
     // SKU uniqueness (only if basic validation passed)
     if (!next.sku && state.sku.trim()) {
       const existsRes = await window.api?.barcodeExists(state.sku.trim());
@@ -103,6 +113,23 @@ export default function CreateProductPage() {
     return next;
   };
 
+  const [generating, setGenerating] = useState(false);
+
+  // For loose and store-packed goods that come without a barcode
+  const generateSku = async () => {
+    setGenerating(true);
+    setErrors((p) => ({ ...p, sku: undefined }));
+    try {
+      const res = await window.api?.invoke("products:generateBarcode");
+      if (!res?.success) throw new Error(res?.error ?? "Failed to generate a barcode");
+      setState((p) => ({ ...p, sku: res.barcode }));
+    } catch (e) {
+      setErrors((p) => ({ ...p, sku: String(e) }));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
   const canSubmit = useMemo(() => {
     return Boolean(state.name.trim() && state.sku.trim() && state.categoryId && state.price && state.quantity);
   }, [state]);
@@ -137,6 +164,7 @@ export default function CreateProductPage() {
         mrp: price,
         cost,
         gst: Number(state.gst || 0),
+        hsn: state.hsn.trim() || null,
         warehouse: state.warehouse.trim() || "Main",
         description: state.description.trim() || null,
       });
@@ -207,13 +235,30 @@ export default function CreateProductPage() {
               error={errors.name}
             />
 
-            <Field
-              className="col-span-12 sm:col-span-6"
-              label="SKU / Barcode"
-              value={state.sku}
-              onChange={(v) => setState((p) => ({ ...p, sku: v }))}
-              error={errors.sku}
-            />
+            <div className="col-span-12 sm:col-span-6 grid gap-2">
+              <Label>SKU / Barcode</Label>
+              <div className="flex gap-2">
+                <input
+                  className={`${InputCls} min-w-0 flex-1`}
+                  value={state.sku}
+                  onChange={(e) => setState((p) => ({ ...p, sku: e.target.value }))}
+                  placeholder="Scan, type or generate"
+                />
+                <button
+                  className={BtnSecondary}
+                  type="button"
+                  onClick={generateSku}
+                  disabled={generating}
+                >
+                  Generate
+                </button>
+              </div>
+              {errors.sku ? (
+                <Err>{errors.sku}</Err>
+              ) : (
+                <Help>Generate makes an in-store EAN-13 for items without a barcode.</Help>
+              )}
+            </div>
 
             <div className="col-span-12 sm:col-span-6 grid gap-2">
               <Label>Category</Label>
@@ -301,6 +346,14 @@ export default function CreateProductPage() {
               error={errors.gst}
             />
 
+            <Field
+              className="col-span-12 sm:col-span-4"
+              label="HSN code"
+              value={state.hsn}
+              onChange={(v) => setState((p) => ({ ...p, hsn: v }))}
+              error={errors.hsn}
+            />
+
             <Field
               className="col-span-12 sm:col-span-6"
               label="Brand"
@@ -0,0 +1,922 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { GSTIN_RE } from "../../electron/gst";
+import { usePermissions } from "../lib/Permissions";
+import { useDebouncedValue } from "../lib/useDebouncedValue";
+
+type User = { id: number; name: string; role: "admin" | "staff" | "manager" };
+
+type CustomerRow = {
+  id: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  gstin: string | null;
+  creditLimit: number;
+  active: boolean;
+  balance: number;
+  points: number;
+};
+
+type LedgerEntry = {
+  id: number;
+  type: "sale" | "payment" | "return" | "adjustment";
+  receiptId: number | null;
+  debit: number;
+  credit: number;
+  note: string | null;
+  entryDate: string | null;
+  balance: number;
+};
+
+type Statement = {
+  openingBalance: number;
+  entries: LedgerEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  currentBalance: number;
+};
+
+type AgingRow = {
+  customerId: number;
+  name: string;
+  phone: string | null;
+  creditLimit: number;
+  outstanding: number;
+  advance: number;
+  oldestDue: string | null;
+  d0_30: number;
+  d31_60: number;
+  d61_90: number;
+  d90_plus: number;
+};
+
+type Tab = "accounts" | "aging";
+
+type CustomerDraft = {
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  gstin: string;
+  creditLimit: string;
+  active: boolean;
+};
+
+const emptyDraft: CustomerDraft = {
+  name: "",
+  phone: "",
+  email: "",
+  address: "",
+  gstin: "",
+  creditLimit: "0",
+  active: true,
+};
+
+function fmtINR(n: number) {
+  return `₹${Number(n || 0).toFixed(2)}`;
+}
+
+function toDateInput(d: Date) {
+  const x = new Date(d.getTime() - d.getTimezoneOffset() * 60000);
+  return x.toISOString().slice(0, 10);
+}
+
+export default function CustomersPage({ user }: { user: User | null }) {
+  const { can } = usePermissions();
+  const [tab, setTab] = useState<Tab>("accounts");
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [customers, setCustomers] = useState<CustomerRow[]>([]);
+  const [aging, setAging] = useState<AgingRow[]>([]);
+
+  const [q, setQ] = useState("");
+  const dq = useDebouncedValue(q, 250);
+  const [onlyDue, setOnlyDue] = useState(false);
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [from, setFrom] = useState(() => {
+    const d = new Date();
+    return toDateInput(new Date(d.getFullYear(), d.getMonth(), 1));
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [statement, setStatement] = useState<Statement | null>(null);
+
+  const [editing, setEditing] = useState<CustomerRow | "new" | null>(null);
+  const [draft, setDraft] = useState<CustomerDraft>(emptyDraft);
+
+  const [collecting, setCollecting] = useState<CustomerRow | null>(null);
+  const [payAmount, setPayAmount] = useState("");
+  const [payMode, setPayMode] = useState<"cash" | "upi" | "card">("cash");
+  const [payNote, setPayNote] = useState("");
+
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [custRes, agingRes] = await Promise.all([
+        window.api?.invoke("customers:getAll"),
+        window.api?.invoke("customers:aging"),
+      ]);
+
+      if (!custRes?.success)
+        throw new Error(custRes?.error ?? "Failed to load customers");
+      if (!agingRes?.success)
+        throw new Error(agingRes?.error ?? "Failed to load aging");
+
+      setCustomers((custRes.customers ?? []) as CustomerRow[]);
+      setAging((agingRes.rows ?? []) as AgingRow[]);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadStatement = useCallback(async (customerId: number) => {
+    try {
+      const res = await window.api?.invoke("customers:statement", {
+        customerId,
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59.999`).toISOString(),
+      });
+      if (!res?.success)
+        throw new Error(res?.error ?? "Failed to load statement");
+      setStatement(res as Statement);
+    } catch (e) {
+      setError(String(e));
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId == null) {
+      setStatement(null);
+      return;
+    }
+    void loadStatement(selectedId);
+  }, [selectedId, loadStatement]);
+
+  const selected = useMemo(
+    () => customers.find((c) => c.id === selectedId) ?? null,
+    [customers, selectedId],
+  );
+
+  const filtered = useMemo(() => {
+    const query = dq.trim().toLowerCase();
+    return customers.filter((c) => {
+      const matchesQ =
+        !query ||
+        c.name.toLowerCase().includes(query) ||
+        (c.phone ?? "").includes(query);
+      return matchesQ && (!onlyDue || c.balance > 0.005);
+    });
+  }, [customers, dq, onlyDue]);
+
+  const totalOutstanding = useMemo(
+    () => customers.reduce((acc, c) => acc + Math.max(0, c.balance), 0),
+    [customers],
+  );
+
+  const agingTotals = useMemo(
+    () =>
+      aging.reduce(
+        (acc, r) => ({
+          d0_30: acc.d0_30 + r.d0_30,
+          d31_60: acc.d31_60 + r.d31_60,
+          d61_90: acc.d61_90 + r.d61_90,
+          d90_plus: acc.d90_plus + r.d90_plus,
+          outstanding: acc.outstanding + r.outstanding,
+        }),
+        { d0_30: 0, d31_60: 0, d61_90: 0, d90_plus: 0, outstanding: 0 },
+      ),
+    [aging],
+  );
+
+  const openCreate = () => {
+    setEditing("new");
+    setDraft(emptyDraft);
+    setError(null);
+  };
+
+  const openEdit = (c: CustomerRow) => {
+    setEditing(c);
+    setDraft({
+      name: c.name,
+      phone: c.phone ?? "",
+      email: c.email ?? "",
+      address: c.address ?? "",
+      gstin: c.gstin ?? "",
+      creditLimit: String(c.creditLimit ?? 0),
+      active: c.active,
+    });
+    setError(null);
+  };
+
+  const saveCustomer = async () => {
+    if (!editing) return;
+
+    const creditLimit = Number(draft.creditLimit || 0);
+    if (!draft.name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    if (Number.isNaN(creditLimit) || creditLimit < 0) {
+      setError("Credit limit must be a valid amount");
+      return;
+    }
+    const gstin = draft.gstin.trim().toUpperCase();
+    if (gstin && !GSTIN_RE.test(gstin)) {
+      setError("GSTIN must be 15 characters, e.g. 33ABCDE1234F1Z5");
+      return;
+    }
+
+    const values = {
+      name: draft.name.trim(),
+      phone: draft.phone.trim() || null,
+      email: draft.email.trim() || null,
+      address: draft.address.trim() || null,
+      gstin: gstin || null,
+      creditLimit,
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res =
+        editing === "new"
+          ? await window.api?.invoke("customers:create", values)
+          : await window.api?.invoke("customers:update", {
+              id: editing.id,
+              args: { ...values, active: draft.active },
+            });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+
+      setEditing(null);
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openCollect = (c: CustomerRow) => {
+    setCollecting(c);
+    setPayAmount(c.balance > 0 ? c.balance.toFixed(2) : "");
+    setPayMode("cash");
+    setPayNote("");
+    setError(null);
+  };
+
+  const savePayment = async () => {
+    if (!user || !collecting) return;
+
+    const amount = Number(payAmount);
+    if (!(amount > 0)) {
+      setError("Enter an amount");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("customers:collectPayment", {
+        customerId: collecting.id,
+        createdBy: user.id,
+        paymentSplit: {
+          cashAmt: payMode === "cash" ? amount : 0,
+          upiAmt: payMode === "upi" ? amount : 0,
+          cardAmt: payMode === "card" ? amount : 0,
+        },
+        note: payNote,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to record payment");
+
+      setCollecting(null);
+      await refresh();
+      if (selectedId != null) await loadStatement(selectedId);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">Customers</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Credit (khata) accounts, payments, statements and aging.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button className={BtnSecondary} onClick={refresh} disabled={loading}>
+            Refresh
+          </button>
+          <button className={BtnPrimary} onClick={openCreate}>
+            Add Customer
+          </button>
+        </div>
+      </div>
+
+      {error && !editing && !collecting ? (
+        <div className="mt-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-5 grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <Kpi label="Customers" value={String(customers.length)} />
+        <Kpi
+          label="With dues"
+          value={String(customers.filter((c) => c.balance > 0.005).length)}
+        />
+        <Kpi label="Total outstanding" value={fmtINR(totalOutstanding)} />
+      </div>
+
+      <div className="mt-5 flex gap-2">
+        <TabBtn active={tab === "accounts"} onClick={() => setTab("accounts")}>
+          Accounts
+        </TabBtn>
+        <TabBtn active={tab === "aging"} onClick={() => setTab("aging")}>
+          Aging report
+        </TabBtn>
+      </div>
+
+      {tab === "accounts" ? (
+        <div className="mt-3 grid grid-cols-12 gap-4">
+          <div className="col-span-12 lg:col-span-5 rounded-2xl border border-slate-200 bg-white shadow-sm">
+            <div className="flex items-center gap-2 border-b border-slate-100 p-4">
+              <input
+                value={q}
+                onChange={(e) => setQ(e.target.value)}
+                placeholder="Search by name or phone"
+                className={`${InputCls} flex-1`}
+              />
+              <label className="inline-flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={onlyDue}
+                  onChange={(e) => setOnlyDue(e.target.checked)}
+                />
+                Dues only
+              </label>
+            </div>
+
+            <div className="max-h-[60vh] overflow-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-600">
+                  <tr>
+                    <Th>Customer</Th>
+                    <Th className="text-right">Balance</Th>
+                    <Th className="text-right">Actions</Th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {loading ? (
+                    <tr>
+                      <td className="p-10 text-center text-slate-500" colSpan={3}>
+                        Loading…
+                      </td>
+                    </tr>
+                  ) : filtered.length === 0 ? (
+                    <tr>
+                      <td className="p-10 text-center text-slate-500" colSpan={3}>
+                        No customers found.
+                      </td>
+                    </tr>
+                  ) : (
+                    filtered.map((c) => (
+                      <tr
+                        key={c.id}
+                        className={
+                          c.id === selectedId
+                            ? "bg-amber-50/60"
+                            : "cursor-pointer hover:bg-slate-50/60"
+                        }
+                        onClick={() => setSelectedId(c.id)}
+                      >
+                        <Td>
+                          <div className="font-medium text-slate-900">
+                            {c.name}
+                            {!c.active ? (
+                              <span className="ml-2 text-xs text-slate-400">
+                                (inactive)
+                              </span>
+                            ) : null}
+                          </div>
+                          <div className="font-mono text-xs text-slate-500">
+                            {c.phone ?? "—"}
+                          </div>
+                        </Td>
+                        <Td
+                          className={`text-right tabular-nums ${
+                            c.balance > 0.005
+                              ? "font-semibold text-rose-700"
+                              : "text-slate-700"
+                          }`}
+                        >
+                          {fmtINR(c.balance)}
+                        </Td>
+                        <Td className="text-right">
+                          <div
+                            className="inline-flex gap-2"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <button
+                              className={BtnSecondary}
+                              onClick={() => openEdit(c)}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              className={BtnPrimary}
+                              onClick={() => openCollect(c)}
+                            >
+                              Collect
+                            </button>
+                          </div>
+                        </Td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="col-span-12 lg:col-span-7 rounded-2xl border border-slate-200 bg-white shadow-sm">
+            {!selected ? (
+              <div className="p-10 text-center text-sm text-slate-500">
+                Select a customer to view their statement.
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-col gap-3 border-b border-slate-100 p-4 sm:flex-row sm:items-end sm:justify-between">
+                  <div>
+                    <div className="text-sm font-semibold text-slate-900">
+                      Statement · {selected.name}
+                    </div>
+                    <div className="mt-0.5 text-xs text-slate-500">
+                      Limit:{" "}
+                      {selected.creditLimit > 0
+                        ? fmtINR(selected.creditLimit)
+                        : "No limit"}{" "}
+                      · Current balance: {fmtINR(selected.balance)} ·
+                      Points: {Math.floor(selected.points ?? 0)}
+                    </div>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div className="grid gap-1">
+                      <Label>From</Label>
+                      <input
+                        type="date"
+                        className={InputCls}
+                        value={from}
+                        onChange={(e) => setFrom(e.target.value)}
+                      />
+                    </div>
+                    <div className="grid gap-1">
+                      <Label>To</Label>
+                      <input
+                        type="date"
+                        className={InputCls}
+                        value={to}
+                        onChange={(e) => setTo(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="max-h-[55vh] overflow-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <Th>Date</Th>
+                        <Th>Particulars</Th>
+                        <Th className="text-right">Debit</Th>
+                        <Th className="text-right">Credit</Th>
+                        <Th className="text-right">Balance</Th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      <tr className="bg-slate-50/60">
+                        <Td className="text-slate-600">{from}</Td>
+                        <Td className="font-medium text-slate-700">
+                          Opening balance
+                        </Td>
+                        <Td />
+                        <Td />
+                        <Td className="text-right tabular-nums font-semibold text-slate-900">
+                          {fmtINR(statement?.openingBalance ?? 0)}
+                        </Td>
+                      </tr>
+                      {(statement?.entries ?? []).map((e) => (
+                        <tr key={e.id}>
+                          <Td className="text-slate-600">
+                            {e.entryDate
+                              ? new Date(e.entryDate).toLocaleDateString()
+                              : "—"}
+                          </Td>
+                          <Td className="text-slate-800">
+                            <span className="capitalize">{e.type}</span>
+                            {e.note ? (
+                              <span className="text-slate-500"> · {e.note}</span>
+                            ) : null}
+                          </Td>
+                          <Td className="text-right tabular-nums text-slate-800">
+                            {e.debit > 0 ? fmtINR(e.debit) : ""}
+                          </Td>
+                          <Td className="text-right tabular-nums text-emerald-700">
+                            {e.credit > 0 ? fmtINR(e.credit) : ""}
+                          </Td>
+                          <Td className="text-right tabular-nums text-slate-900">
+                            {fmtINR(e.balance)}
+                          </Td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    {statement ? (
+                      <tfoot className="border-t border-slate-200 bg-slate-50 font-semibold text-slate-900">
+                        <tr>
+                          <Td />
+                          <Td>Closing balance</Td>
+                          <Td className="text-right tabular-nums">
+                            {fmtINR(statement.totalDebit)}
+                          </Td>
+                          <Td className="text-right tabular-nums">
+                            {fmtINR(statement.totalCredit)}
+                          </Td>
+                          <Td className="text-right tabular-nums">
+                            {fmtINR(statement.closingBalance)}
+                          </Td>
+                        </tr>
+                      </tfoot>
+                    ) : null}
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="mt-3 rounded-2xl border border-slate-200 bg-white shadow-sm">
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[900px] text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>Customer</Th>
+                  <Th>Oldest due</Th>
+                  <Th className="text-right">0–30 days</Th>
+                  <Th className="text-right">31–60 days</Th>
+                  <Th className="text-right">61–90 days</Th>
+                  <Th className="text-right">90+ days</Th>
+                  <Th className="text-right">Outstanding</Th>
+                  <Th className="text-right">Advance</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {loading ? (
+                  <tr>
+                    <td className="p-10 text-center text-slate-500" colSpan={8}>
+                      Loading…
+                    </td>
+                  </tr>
+                ) : aging.length === 0 ? (
+                  <tr>
+                    <td className="p-10 text-center text-slate-500" colSpan={8}>
+                      No outstanding balances.
+                    </td>
+                  </tr>
+                ) : (
+                  aging.map((r) => (
+                    <tr key={r.customerId} className="hover:bg-slate-50/60">
+                      <Td>
+                        <div className="font-medium text-slate-900">{r.name}</div>
+                        <div className="font-mono text-xs text-slate-500">
+                          {r.phone ?? "—"}
+                        </div>
+                      </Td>
+                      <Td className="text-slate-600">
+                        {r.oldestDue
+                          ? new Date(r.oldestDue).toLocaleDateString()
+                          : "—"}
+                      </Td>
+                      <Td className="text-right tabular-nums">{fmtINR(r.d0_30)}</Td>
+                      <Td className="text-right tabular-nums">{fmtINR(r.d31_60)}</Td>
+                      <Td className="text-right tabular-nums text-amber-700">
+                        {fmtINR(r.d61_90)}
+                      </Td>
+                      <Td className="text-right tabular-nums text-rose-700">
+                        {fmtINR(r.d90_plus)}
+                      </Td>
+                      <Td className="text-right tabular-nums font-semibold text-slate-900">
+                        {fmtINR(r.outstanding)}
+                      </Td>
+                      <Td className="text-right tabular-nums text-emerald-700">
+                        {r.advance > 0.005 ? fmtINR(r.advance) : "—"}
+                      </Td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              {aging.length > 0 ? (
+                <tfoot className="border-t border-slate-200 bg-slate-50 font-semibold text-slate-900">
+                  <tr>
+                    <Td>Total</Td>
+                    <Td />
+                    <Td className="text-right tabular-nums">
+                      {fmtINR(agingTotals.d0_30)}
+                    </Td>
+                    <Td className="text-right tabular-nums">
+                      {fmtINR(agingTotals.d31_60)}
+                    </Td>
+                    <Td className="text-right tabular-nums">
+                      {fmtINR(agingTotals.d61_90)}
+                    </Td>
+                    <Td className="text-right tabular-nums">
+                      {fmtINR(agingTotals.d90_plus)}
+                    </Td>
+                    <Td className="text-right tabular-nums">
+                      {fmtINR(agingTotals.outstanding)}
+                    </Td>
+                    <Td />
+                  </tr>
+                </tfoot>
+              ) : null}
+            </table>
+          </div>
+        </div>
+      )}
+
+      {editing ? (
+        <Modal
+          title={editing === "new" ? "New customer" : `Edit: ${editing.name}`}
+          onClose={() => setEditing(null)}
+        >
+          {error ? (
+            <div className="mb-3 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+
+          <div className="grid grid-cols-12 gap-3">
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="Name"
+              value={draft.name}
+              onChange={(v) => setDraft((d) => ({ ...d, name: v }))}
+            />
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="Phone"
+              value={draft.phone}
+              onChange={(v) => setDraft((d) => ({ ...d, phone: v }))}
+            />
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="Email"
+              value={draft.email}
+              onChange={(v) => setDraft((d) => ({ ...d, email: v }))}
+            />
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="GSTIN"
+              value={draft.gstin}
+              onChange={(v) => setDraft((d) => ({ ...d, gstin: v }))}
+            />
+            <Field
+              className="col-span-12"
+              label="Address"
+              value={draft.address}
+              onChange={(v) => setDraft((d) => ({ ...d, address: v }))}
+            />
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="Credit limit (0 = no limit)"
+              type="number"
+              value={draft.creditLimit}
+              onChange={(v) => setDraft((d) => ({ ...d, creditLimit: v }))}
+              disabled={editing !== "new" && !can("credit.manage")}
+            />
+            {editing !== "new" ? (
+              <label className="col-span-12 sm:col-span-6 mt-6 inline-flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.active}
+                  disabled={!can("credit.manage")}
+                  onChange={(e) =>
+                    setDraft((d) => ({ ...d, active: e.target.checked }))
+                  }
+                />
+                Active
+              </label>
+            ) : null}
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              className={BtnSecondary}
+              onClick={() => setEditing(null)}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button className={BtnPrimary} onClick={saveCustomer} disabled={saving}>
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </Modal>
+      ) : null}
+
+      {collecting ? (
+        <Modal
+          title={`Collect payment: ${collecting.name}`}
+          onClose={() => setCollecting(null)}
+        >
+          {error ? (
+            <div className="mb-3 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+
+          <div className="text-sm text-slate-600">
+            Outstanding:{" "}
+            <span className="font-semibold text-slate-900">
+              {fmtINR(collecting.balance)}
+            </span>
+          </div>
+
+          <div className="mt-3 grid grid-cols-12 gap-3">
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="Amount"
+              type="number"
+              value={payAmount}
+              onChange={setPayAmount}
+            />
+            <div className="col-span-12 sm:col-span-6 grid gap-2">
+              <Label>Received via</Label>
+              <div className="flex gap-2">
+                {(["cash", "upi", "card"] as const).map((m) => (
+                  <TabBtn key={m} active={payMode === m} onClick={() => setPayMode(m)}>
+                    {m.toUpperCase()}
+                  </TabBtn>
+                ))}
+              </div>
+            </div>
+            <Field
+              className="col-span-12"
+              label="Note"
+              value={payNote}
+              onChange={setPayNote}
+            />
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              className={BtnSecondary}
+              onClick={() => setCollecting(null)}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button className={BtnPrimary} onClick={savePayment} disabled={saving}>
+              {saving ? "Saving…" : "Record payment"}
+            </button>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
+
+function Kpi({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className="mt-1 text-lg font-semibold text-slate-900">{value}</div>
+    </div>
+  );
+}
+
+function TabBtn({
+  active,
+  children,
+  onClick,
+}: React.PropsWithChildren<{ active: boolean; onClick: () => void }>) {
+  return (
+    <button
+      className={`rounded-lg px-3 py-2 text-sm font-medium ${
+        active
+          ? "bg-slate-900 text-white"
+          : "border border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+      }`}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Modal({
+  title,
+  children,
+  onClose,
+}: React.PropsWithChildren<{ title: string; onClose: () => void }>) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3 border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-900">{title}</div>
+          <button className={BtnSecondary} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="p-4">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+function Th({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <th
+      className={`px-4 py-3 text-xs font-semibold uppercase tracking-wide ${className}`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function Td({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return <td className={`px-4 py-3 ${className}`}>{children}</td>;
+}
+
+function Label({ children }: React.PropsWithChildren) {
+  return <div className="text-xs font-medium text-slate-600">{children}</div>;
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  placeholder,
+  className = "",
+  type = "text",
+  disabled = false,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  type?: string;
+  disabled?: boolean;
+}) {
+  return (
+    <div className={`${className} grid gap-2`}>
+      <Label>{label}</Label>
+      <input
+        className={InputCls}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        type={type}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+const InputCls =
+  "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-slate-300 disabled:bg-slate-50";
+const BtnPrimary =
+  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50";
+const BtnSecondary =
+  "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50";
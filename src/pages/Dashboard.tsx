@@ -8,16 +8,29 @@ type ReceiptRow = {
   discount: number | null;
   paymentSplit: string;
   receiptDate: string | Date | null;
+  invoiceNo?: string | null;
   createdBy: number;
 };
 
 type DashboardMetrics = {
   totalSales: number;
+  grossSales: number;
+  returnsTotal: number;
   transactionCount: number;
   avgTransactionValue: number;
   topProductName: string | null;
 };
 
+type ExpiringBatch = {
+  id: number;
+  productName: string;
+  batchNo: string;
+  expiryDate: string | Date | null;
+  quantity: number;
+  daysLeft: number | null;
+  status: "expired" | "near";
+};
+
 function formatINR(n: number) {
   return new Intl.NumberFormat("en-IN", {
     style: "currency",
@@ -32,6 +45,7 @@ export default function DashboardPage() {
   const [error, setError] = useState<string | null>(null);
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [recent, setRecent] = useState<ReceiptRow[]>([]);
+  const [expiring, setExpiring] = useState<ExpiringBatch[]>([]);
 
   const fetchToday = async () => {
     setLoading(true);
@@ -41,6 +55,7 @@ export default function DashboardPage() {
       if (!res?.success) throw new Error(res?.error ?? "Failed to load dashboard");
       setMetrics(res.metrics as DashboardMetrics);
       setRecent((res.recentReceipts ?? []) as ReceiptRow[]);
+      setExpiring((res.expiringBatches ?? []) as ExpiringBatch[]);
     } catch (e) {
       setError(String(e));
     } finally {
@@ -55,7 +70,8 @@ export default function DashboardPage() {
   const cards = useMemo(() => {
     const m = metrics;
     return [
-      { label: "Today's total sales", value: m ? formatINR(m.totalSales) : "—" },
+      { label: "Today's net sales", value: m ? formatINR(m.totalSales) : "—" },
+      { label: "Returns", value: m ? formatINR(m.returnsTotal ?? 0) : "—" },
       { label: "Transactions", value: m ? String(m.transactionCount) : "—" },
       {
         label: "Average transaction",
@@ -95,7 +111,7 @@ export default function DashboardPage() {
       ) : null}
 
       {/* KPI row */}
-      <div className="mt-5 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="mt-5 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5">
         {cards.map((c) => (
           <div
             key={c.label}
@@ -132,7 +148,7 @@ export default function DashboardPage() {
           <table className="w-full min-w-[720px] text-left text-sm">
             <thead className="bg-slate-50 text-slate-600">
               <tr>
-                <Th>ID</Th>
+                <Th>Invoice</Th>
                 <Th>Date</Th>
                 <Th className="text-right">Discount</Th>
                 <Th className="text-right">Tax</Th>
@@ -155,7 +171,9 @@ export default function DashboardPage() {
               ) : (
                 recent.map((r) => (
                   <tr key={r.id} className="hover:bg-slate-50/60">
-                    <Td className="font-medium text-slate-900">#{r.id}</Td>
+                    <Td className="font-medium text-slate-900">
+                      {r.invoiceNo ?? `#${r.id}`}
+                    </Td>
                     <Td className="text-slate-600">
                       {r.receiptDate
                         ? new Date(r.receiptDate).toLocaleString()
@@ -177,6 +195,70 @@ export default function DashboardPage() {
           </table>
         </div>
       </div>
+
+      {/* Near expiry */}
+      {!loading && expiring.length > 0 ? (
+        <div className="mt-6 rounded-2xl border border-amber-200 bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 border-b border-slate-100 p-4">
+            <div>
+              <div className="text-sm font-semibold text-slate-900">
+                Expiring batches
+              </div>
+              <div className="mt-0.5 text-xs text-slate-500">
+                Expired or within the expiry warning window
+              </div>
+            </div>
+            <button
+              className={BtnSecondary}
+              onClick={() => navigate("/inventory")}
+            >
+              View all
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[720px] text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>Product</Th>
+                  <Th>Batch</Th>
+                  <Th>Expiry</Th>
+                  <Th className="text-right">Qty left</Th>
+                  <Th>Status</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {expiring.map((b) => (
+                  <tr
+                    key={b.id}
+                    className={
+                      b.status === "expired" ? "bg-rose-50/60" : "bg-amber-50/60"
+                    }
+                  >
+                    <Td className="font-medium text-slate-900">
+                      {b.productName}
+                    </Td>
+                    <Td className="font-mono text-slate-700">{b.batchNo}</Td>
+                    <Td className="text-slate-600">
+                      {b.expiryDate
+                        ? new Date(b.expiryDate).toLocaleDateString()
+                        : "—"}
+                    </Td>
+                    <Td className="text-right tabular-nums text-slate-800">
+                      {b.quantity}
+                    </Td>
+                    <Td className="text-slate-700">
+                      {b.status === "expired"
+                        ? "Expired"
+                        : `${b.daysLeft ?? 0} day(s) left`}
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -1,6 +1,13 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { usePermissions } from "../lib/Permissions";
 import { useDebouncedValue } from "../lib/useDebouncedValue";
+import {
+  applyMapping,
+  CATALOGUE_COLUMNS,
+  guessMapping,
+  type ColumnMapping,
+} from "../../electron/catalogue";
 
 type CategoryRow = { id: number; categoryName: string };
 
@@ -13,6 +20,7 @@ type ProductRow = {
   reorderLevel: number;
   mrp: number;
   gst: number;
+  hsn: string | null;
   unit: string;
   brand: string;
   warehouse: string | null;
@@ -20,12 +28,26 @@ type ProductRow = {
   description: string | null;
 };
 
+type ExpiringBatch = {
+  id: number;
+  productId: number;
+  productName: string;
+  barcode: string;
+  batchNo: string;
+  expiryDate: string | Date | null;
+  quantity: number;
+  cost: number;
+  daysLeft: number | null;
+  status: "expired" | "near";
+};
+
 type SortKey = "productName" | "barcode" | "quantity" | "mrp" | "updatedAt";
 
 type StockStatus = "All" | "In Stock" | "Low" | "Out";
 
 export default function InventoryPage() {
   const navigate = useNavigate();
+  const { can } = usePermissions();
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -35,6 +57,9 @@ export default function InventoryPage() {
 
   const [lowStockThreshold, setLowStockThreshold] = useState<number>(10);
 
+  const [expiring, setExpiring] = useState<ExpiringBatch[]>([]);
+  const [expiryWarningDays, setExpiryWarningDays] = useState<number>(30);
+
   const [q, setQ] = useState("");
   const dq = useDebouncedValue(q, 250);
   const [categoryId, setCategoryId] = useState<number | "all">("all");
@@ -50,15 +75,23 @@ export default function InventoryPage() {
   const [editDraft, setEditDraft] = useState<Partial<ProductRow>>({});
   const [saving, setSaving] = useState(false);
 
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Products ticked for barcode labels
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [queueing, setQueueing] = useState(false);
+
   const refresh = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const [prodRes, catRes, settingsRes] = await Promise.all([
+      const [prodRes, catRes, settingsRes, expiryRes] = await Promise.all([
         window.api?.getProducts(),
         window.api?.getCategories(),
         window.api?.getSettings(),
+        window.api?.invoke("batches:getExpiring"),
       ]);
 
       if (!prodRes?.success)
@@ -71,6 +104,11 @@ export default function InventoryPage() {
 
       const threshold = Number(settingsRes?.settings?.lowStockThreshold ?? 10);
       if (!Number.isNaN(threshold)) setLowStockThreshold(threshold);
+
+      if (expiryRes?.success) {
+        setExpiring((expiryRes.batches ?? []) as ExpiringBatch[]);
+        setExpiryWarningDays(Number(expiryRes.warningDays ?? 30));
+      }
     } catch (e) {
       setError(String(e));
     } finally {
@@ -165,6 +203,7 @@ export default function InventoryPage() {
       reorderLevel: p.reorderLevel,
       mrp: p.mrp,
       gst: p.gst,
+      hsn: p.hsn,
       unit: p.unit,
       brand: p.brand,
       warehouse: p.warehouse,
@@ -196,6 +235,7 @@ export default function InventoryPage() {
           reorderLevel: Number(editDraft.reorderLevel),
           mrp: Number(editDraft.mrp),
           gst: Number(editDraft.gst),
+          hsn: String(editDraft.hsn ?? "").trim() || null,
           unit: String(editDraft.unit ?? "piece"),
           brand: String(editDraft.brand ?? ""),
           warehouse: String(editDraft.warehouse ?? ""),
@@ -228,6 +268,59 @@ export default function InventoryPage() {
     }
   };
 
+  const toggleSelected = (ids: number[], on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (on) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+
+  // One label per ticked product; copies are set on the Labels page
+  const queueLabels = async () => {
+    setQueueing(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("labels:add", {
+        items: [...selected].map((productId) => ({ productId, copies: 1 })),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to queue labels");
+      setSelected(new Set());
+      navigate("/labels");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const exportCatalogue = async (format: "csv" | "xlsx") => {
+    setExporting(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("products:export", { format });
+      if (!res?.success) throw new Error(res?.error ?? "Export failed");
+      const blob = new Blob([res.data], {
+        type:
+          format === "xlsx"
+            ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            : "text/csv;charset=utf-8",
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = res.fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <div className="p-6">
       <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
@@ -242,6 +335,27 @@ export default function InventoryPage() {
           <button className={BtnSecondary} onClick={refresh} disabled={loading}>
             Refresh
           </button>
+          {can("reports.export") ? (
+            <>
+              <button
+                className={BtnSecondary}
+                onClick={() => exportCatalogue("csv")}
+                disabled={exporting || products.length === 0}
+              >
+                Export CSV
+              </button>
+              <button
+                className={BtnSecondary}
+                onClick={() => exportCatalogue("xlsx")}
+                disabled={exporting || products.length === 0}
+              >
+                Export Excel
+              </button>
+            </>
+          ) : null}
+          <button className={BtnSecondary} onClick={() => setImporting(true)}>
+            Import
+          </button>
           <button className={BtnPrimary} onClick={() => navigate("/create-product")}> 
             Add New Product
           </button>
@@ -254,6 +368,69 @@ export default function InventoryPage() {
         </div>
       ) : null}
 
+      {expiring.length > 0 ? (
+        <div className="mt-5 rounded-2xl border border-amber-200 bg-white shadow-sm">
+          <div className="border-b border-slate-100 p-4">
+            <div className="text-sm font-semibold text-slate-900">
+              Near expiry / expired batches
+            </div>
+            <div className="mt-0.5 text-xs text-slate-500">
+              Batches expiring within {expiryWarningDays} day(s). Checkout
+              sells the earliest-expiring batch first.
+            </div>
+          </div>
+          <div className="max-h-72 overflow-auto">
+            <table className="w-full min-w-[800px] text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>SKU</Th>
+                  <Th>Product</Th>
+                  <Th>Batch</Th>
+                  <Th>Expiry</Th>
+                  <Th className="text-right">Qty left</Th>
+                  {can("cost.view") ? (
+                    <Th className="text-right">Value at cost</Th>
+                  ) : null}
+                  <Th>Status</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {expiring.map((b) => (
+                  <tr
+                    key={b.id}
+                    className={b.status === "expired" ? "bg-rose-50/60" : "bg-amber-50/60"}
+                  >
+                    <Td className="font-mono text-slate-800">{b.barcode}</Td>
+                    <Td className="font-medium text-slate-900">{b.productName}</Td>
+                    <Td className="font-mono text-slate-700">{b.batchNo}</Td>
+                    <Td className="text-slate-600">
+                      {b.expiryDate ? new Date(b.expiryDate).toLocaleDateString() : "—"}
+                    </Td>
+                    <Td className="text-right tabular-nums text-slate-800">{b.quantity}</Td>
+                    {can("cost.view") ? (
+                      <Td className="text-right tabular-nums text-slate-800">
+                        ₹{(Number(b.quantity) * Number(b.cost)).toFixed(2)}
+                      </Td>
+                    ) : null}
+                    <Td>
+                      <span
+                        className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${
+                          b.status === "expired"
+                            ? "border-rose-100 bg-rose-50 text-rose-700"
+                            : "border-amber-100 bg-amber-50 text-amber-700"
+                        }`}
+                      >
+                        {b.status === "expired" ? "Expired" : `${b.daysLeft ?? 0}d left`}
+                      </span>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
       <div className="mt-5 rounded-2xl border border-slate-200 bg-white shadow-sm">
         <div className="flex flex-col gap-3 border-b border-slate-100 p-4 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex flex-1 items-center gap-2">
@@ -291,6 +468,14 @@ export default function InventoryPage() {
               <option value="Low">Low</option>
               <option value="Out">Out</option>
             </select>
+
+            <button
+              className={BtnSecondary}
+              onClick={queueLabels}
+              disabled={queueing || selected.size === 0}
+            >
+              Queue Labels{selected.size ? ` (${selected.size})` : ""}
+            </button>
           </div>
         </div>
 
@@ -298,6 +483,19 @@ export default function InventoryPage() {
           <table className="w-full min-w-[1000px] text-left text-sm">
             <thead className="bg-slate-50 text-slate-600">
               <tr>
+                <Th>
+                  <input
+                    type="checkbox"
+                    aria-label="Select page"
+                    checked={paged.length > 0 && paged.every((p) => selected.has(p.id))}
+                    onChange={(e) =>
+                      toggleSelected(
+                        paged.map((p) => p.id),
+                        e.target.checked,
+                      )
+                    }
+                  />
+                </Th>
                 <Th sortable onClick={() => toggleSort("barcode")}>SKU</Th>
                 <Th sortable onClick={() => toggleSort("productName")}>Product</Th>
                 <Th>Category</Th>
@@ -317,13 +515,13 @@ export default function InventoryPage() {
             <tbody className="divide-y divide-slate-100">
               {loading ? (
                 <tr>
-                  <td className="p-10 text-center text-slate-500" colSpan={10}>
+                  <td className="p-10 text-center text-slate-500" colSpan={11}>
                     Loading…
                   </td>
                 </tr>
               ) : paged.length === 0 ? (
                 <tr>
-                  <td className="p-10 text-center text-slate-500" colSpan={10}>
+                  <td className="p-10 text-center text-slate-500" colSpan={11}>
                     No products found.
                   </td>
                 </tr>
@@ -343,6 +541,14 @@ export default function InventoryPage() {
                             : "hover:bg-slate-50/60"
                       }
                     >
+                      <Td>
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${p.productName}`}
+                          checked={selected.has(p.id)}
+                          onChange={(e) => toggleSelected([p.id], e.target.checked)}
+                        />
+                      </Td>
                       <Td className="font-mono text-slate-800">{p.barcode}</Td>
                       <Td className="font-medium text-slate-900">{p.productName}</Td>
                       <Td className="text-slate-600">
@@ -363,9 +569,11 @@ export default function InventoryPage() {
                           <button className={BtnSecondary} onClick={() => openEdit(p)}>
                             Edit
                           </button>
-                          <button className={BtnDanger} onClick={() => deleteProduct(p)}>
-                            Delete
-                          </button>
+                          {can("records.delete") ? (
+                            <button className={BtnDanger} onClick={() => deleteProduct(p)}>
+                              Delete
+                            </button>
+                          ) : null}
                         </div>
                       </Td>
                     </tr>
@@ -438,6 +646,7 @@ export default function InventoryPage() {
               type="number"
               value={String(editDraft.quantity ?? editing.quantity)}
               onChange={(v) => setEditDraft((p) => ({ ...p, quantity: Number(v) }))}
+              disabled={!can("stock.adjust")}
             />
             <Field
               className="col-span-12 sm:col-span-3"
@@ -455,6 +664,7 @@ export default function InventoryPage() {
               type="number"
               value={String(editDraft.mrp ?? editing.mrp)}
               onChange={(v) => setEditDraft((p) => ({ ...p, mrp: Number(v) }))}
+              disabled={!can("price.edit")}
             />
             <Field
               className="col-span-12 sm:col-span-4"
@@ -463,6 +673,12 @@ export default function InventoryPage() {
               value={String(editDraft.gst ?? editing.gst)}
               onChange={(v) => setEditDraft((p) => ({ ...p, gst: Number(v) }))}
             />
+            <Field
+              className="col-span-12 sm:col-span-4"
+              label="HSN code"
+              value={String(editDraft.hsn ?? editing.hsn ?? "")}
+              onChange={(v) => setEditDraft((p) => ({ ...p, hsn: v }))}
+            />
             <Field
               className="col-span-12 sm:col-span-4"
               label="Unit"
@@ -501,10 +717,322 @@ export default function InventoryPage() {
           </div>
         </Modal>
       ) : null}
+
+      {importing ? (
+        <ImportWizard onClose={() => setImporting(false)} onImported={refresh} />
+      ) : null}
     </div>
   );
 }
 
+type ImportPreviewLine = {
+  line: number;
+  barcode: string;
+  productName: string;
+  action: "insert" | "update" | "unchanged" | "error";
+  errors: string[];
+  changes: string[];
+};
+
+type ImportPreview = {
+  lines: ImportPreviewLine[];
+  counts: Record<ImportPreviewLine["action"], number>;
+  newCategories: string[];
+  newSuppliers: string[];
+  newBrands: string[];
+};
+
+const ACTION_STYLES: Record<ImportPreviewLine["action"], string> = {
+  insert: "border-emerald-100 bg-emerald-50 text-emerald-700",
+  update: "border-sky-100 bg-sky-50 text-sky-700",
+  unchanged: "border-slate-200 bg-slate-50 text-slate-600",
+  error: "border-rose-100 bg-rose-50 text-rose-700",
+};
+
+function ImportWizard({
+  onClose,
+  onImported,
+}: {
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [step, setStep] = useState<"file" | "map" | "preview" | "done">("file");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [showOnly, setShowOnly] = useState<"all" | "error">("all");
+  const [result, setResult] = useState<{
+    insert: number;
+    update: number;
+    error: number;
+    newCategories: string[];
+    newSuppliers: string[];
+  } | null>(null);
+
+  const mapped = useMemo(() => applyMapping(rows, mapping), [rows, mapping]);
+
+  const missingRequired = CATALOGUE_COLUMNS.filter(
+    (c) => "required" in c && c.required === "always" && mapping[c.key] == null,
+  );
+
+  const chooseFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("products:importParse", {
+        fileName: file.name,
+        data: await file.arrayBuffer(),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Could not read the file");
+      setFileName(file.name);
+      setHeaders(res.headers as string[]);
+      setRows(res.rows as string[][]);
+      setMapping(guessMapping(res.headers as string[]));
+      setStep("map");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runPreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("products:importPreview", {
+        rows: mapped,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Preview failed");
+      setPreview(res as unknown as ImportPreview);
+      setShowOnly(res.counts?.error > 0 ? "error" : "all");
+      setStep("preview");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("products:importCommit", {
+        rows: mapped,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Import failed");
+      setResult(res.result);
+      setStep("done");
+      onImported();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const visibleLines =
+    preview?.lines.filter((l) => showOnly === "all" || l.action === "error") ??
+    [];
+
+  return (
+    <Modal title="Import products" onClose={onClose}>
+      {error ? (
+        <div className="mb-4 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      {step === "file" ? (
+        <div className="grid gap-3">
+          <div className="text-sm text-slate-600">
+            Choose a .csv or .xlsx file with one product per row and a header
+            row. Rows whose barcode already exists update that product; blank
+            cells leave the current value unchanged. Exporting the catalogue
+            gives a file in the expected layout.
+          </div>
+          <input
+            type="file"
+            accept=".csv,.xlsx,.txt"
+            disabled={busy}
+            className="text-sm"
+            onChange={(e) => void chooseFile(e.target.files?.[0])}
+          />
+        </div>
+      ) : null}
+
+      {step === "map" ? (
+        <div className="grid gap-4">
+          <div className="text-sm text-slate-600">
+            {fileName}: {rows.length} row(s). Match each field to a column in
+            the file. Name, category and MRP are needed for new products.
+          </div>
+          <div className="grid max-h-[50vh] gap-2 overflow-auto sm:grid-cols-2">
+            {CATALOGUE_COLUMNS.map((c) => (
+              <div key={c.key} className="grid gap-1">
+                <Label>
+                  {c.label}
+                  {"required" in c && c.required === "always" ? " *" : ""}
+                </Label>
+                <select
+                  className={InputCls}
+                  value={mapping[c.key] ?? ""}
+                  onChange={(e) =>
+                    setMapping((m) => ({
+                      ...m,
+                      [c.key]: e.target.value === "" ? undefined : Number(e.target.value),
+                    }))
+                  }
+                >
+                  <option value="">— Not in file —</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `Column ${i + 1}`}
+                      {rows[0]?.[i] ? ` (e.g. ${rows[0][i]})` : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button className={BtnSecondary} onClick={() => setStep("file")} disabled={busy}>
+              Back
+            </button>
+            <button
+              className={BtnPrimary}
+              onClick={runPreview}
+              disabled={busy || missingRequired.length > 0}
+            >
+              {busy ? "Checking..." : "Preview"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {step === "preview" && preview ? (
+        <div className="grid gap-4">
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(["insert", "update", "unchanged", "error"] as const).map((a) => (
+              <span key={a} className={`rounded-full border px-2.5 py-1 font-medium ${ACTION_STYLES[a]}`}>
+                {preview.counts[a]} {a === "insert" ? "new" : a === "error" ? "with errors" : a}
+              </span>
+            ))}
+          </div>
+
+          {preview.newCategories.length + preview.newSuppliers.length + preview.newBrands.length > 0 ? (
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-600">
+              {preview.newCategories.length > 0 ? (
+                <div>New categories: {preview.newCategories.join(", ")}</div>
+              ) : null}
+              {preview.newSuppliers.length > 0 ? (
+                <div>New suppliers: {preview.newSuppliers.join(", ")}</div>
+              ) : null}
+              {preview.newBrands.length > 0 ? (
+                <div>New brands: {preview.newBrands.join(", ")}</div>
+              ) : null}
+            </div>
+          ) : null}
+
+          <div className="flex items-center gap-2 text-sm">
+            <select
+              className={InputCls}
+              value={showOnly}
+              onChange={(e) => setShowOnly(e.target.value as "all" | "error")}
+            >
+              <option value="all">All rows</option>
+              <option value="error">Rows with errors</option>
+            </select>
+            {preview.counts.error > 0 ? (
+              <span className="text-xs text-slate-500">
+                Rows with errors are skipped. Fix them in the file and import
+                again, or import the rest now.
+              </span>
+            ) : null}
+          </div>
+
+          <div className="max-h-[45vh] overflow-auto rounded-xl border border-slate-200">
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>Row</Th>
+                  <Th>Barcode</Th>
+                  <Th>Product</Th>
+                  <Th>Result</Th>
+                  <Th>Details</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleLines.map((l) => (
+                  <tr key={l.line}>
+                    <Td className="text-slate-500">{l.line}</Td>
+                    <Td className="font-mono text-xs">{l.barcode || "—"}</Td>
+                    <Td>{l.productName || "—"}</Td>
+                    <Td>
+                      <span className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[l.action]}`}>
+                        {l.action === "insert" ? "new" : l.action}
+                      </span>
+                    </Td>
+                    <Td className="text-xs text-slate-600">
+                      {l.action === "error" ? (
+                        <span className="text-rose-700">{l.errors.join("; ")}</span>
+                      ) : (
+                        l.changes.join("; ")
+                      )}
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button className={BtnSecondary} onClick={() => setStep("map")} disabled={busy}>
+              Back
+            </button>
+            <button
+              className={BtnPrimary}
+              onClick={commit}
+              disabled={busy || preview.counts.insert + preview.counts.update === 0}
+            >
+              {busy
+                ? "Importing..."
+                : `Import ${preview.counts.insert + preview.counts.update} product(s)`}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {step === "done" && result ? (
+        <div className="grid gap-3 text-sm text-slate-700">
+          <div className="rounded-xl border border-emerald-100 bg-emerald-50 p-3 text-emerald-700">
+            Added {result.insert} and updated {result.update} product(s).
+            {result.error > 0 ? ` ${result.error} row(s) with errors were skipped.` : ""}
+          </div>
+          {result.newCategories.length > 0 ? (
+            <div>Created categories: {result.newCategories.join(", ")}</div>
+          ) : null}
+          {result.newSuppliers.length > 0 ? (
+            <div>Created suppliers: {result.newSuppliers.join(", ")}</div>
+          ) : null}
+          <div className="flex justify-end">
+            <button className={BtnPrimary} onClick={onClose}>
+              Done
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </Modal>
+  );
+}
+
 function StatusBadge({ out, low }: { out: boolean; low: boolean }) {
   const cls = out
     ? "border-rose-100 bg-rose-50 text-rose-700"
@@ -583,6 +1111,7 @@ function Field({
   placeholder,
   className = "",
   type = "text",
+  disabled,
 }: {
   label: string;
   value: string;
@@ -590,6 +1119,7 @@ function Field({
   placeholder?: string;
   className?: string;
   type?: string;
+  disabled?: boolean;
 }) {
   return (
     <div className={`${className} grid gap-2`}>
@@ -600,6 +1130,7 @@ function Field({
         onChange={(e) => onChange(e.target.value)}
         placeholder={placeholder}
         type={type}
+        disabled={disabled}
       />
     </div>
   );
@@ -0,0 +1,415 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { symbologyFor } from "../../electron/barcode";
+import {
+  DEFAULT_LABEL_DESIGN,
+  LABEL_SHEETS,
+  labelDesignFrom,
+  unitPriceText,
+  type LabelDesign,
+} from "../../electron/labels";
+
+type QueueRow = {
+  id: number;
+  productId: number;
+  copies: number;
+  source: string | null;
+  addedAt: string | null;
+  barcode: string;
+  name: string;
+  mrp: number;
+  unit: string;
+};
+
+type ProductRow = {
+  id: number;
+  barcode: string | null;
+  productName: string | null;
+};
+
+type ProductOption = {
+  id: number;
+  barcode: string;
+  productName: string;
+};
+
+type Target = "sheet" | "printer";
+
+function fmtINR(n: number) {
+  return `₹${Number(n || 0).toFixed(2)}`;
+}
+
+export default function LabelsPage() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [queue, setQueue] = useState<QueueRow[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [design, setDesign] = useState<LabelDesign>(DEFAULT_LABEL_DESIGN);
+  const [printerSet, setPrinterSet] = useState(false);
+
+  const [scan, setScan] = useState("");
+  const [scanCopies, setScanCopies] = useState("1");
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const [target, setTarget] = useState<Target>("sheet");
+  const [skip, setSkip] = useState("0");
+
+  const refresh = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [queueRes, prodRes, settingsRes] = await Promise.all([
+        window.api?.invoke("labels:getQueue"),
+        window.api?.getProducts(),
+        window.api?.getSettings(),
+      ]);
+      if (!queueRes?.success)
+        throw new Error(queueRes?.error ?? "Failed to load the label queue");
+
+      setQueue((queueRes.queue ?? []) as QueueRow[]);
+      if (prodRes?.success) {
+        setProducts(
+          (prodRes.products ?? []).map((p: ProductRow) => ({
+            id: p.id,
+            barcode: String(p.barcode ?? ""),
+            productName: String(p.productName ?? ""),
+          })),
+        );
+      }
+      if (settingsRes?.success) {
+        const values = settingsRes.settings ?? {};
+        setDesign(labelDesignFrom(values));
+        setPrinterSet(Boolean(values.labelPrinterAddress?.trim()));
+      }
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  // Every call below answers with the updated queue
+  const run = async (channel: string, payload?: unknown) => {
+    setError(null);
+    const res = await window.api?.invoke(channel, payload);
+    if (!res?.success) throw new Error(res?.error ?? "Something went wrong");
+    setQueue((res.queue ?? []) as QueueRow[]);
+    return res;
+  };
+
+  // Scanned barcode, or a pick from the product list ("barcode — name")
+  const submitScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = scan.trim();
+    if (!text) return;
+
+    const code = text.split(" — ")[0].trim().toLowerCase();
+    const product =
+      products.find((p) => p.barcode.toLowerCase() === code) ??
+      products.find((p) => p.productName.toLowerCase() === text.toLowerCase());
+    if (!product) {
+      setNotice(null);
+      setError(`No product with barcode or name "${text}"`);
+      return;
+    }
+
+    setScan("");
+    try {
+      await run("labels:add", {
+        items: [{ productId: product.id, copies: Number(scanCopies || 1) }],
+      });
+      setNotice(`${product.productName}: queued`);
+    } catch (err) {
+      setNotice(null);
+      setError(String(err));
+    } finally {
+      scanRef.current?.focus();
+    }
+  };
+
+  const setCopies = async (row: QueueRow, value: string) => {
+    if (value.trim() === "") return;
+    const copies = Number(value);
+    if (copies === row.copies) return;
+    try {
+      await run("labels:setCopies", { id: row.id, copies });
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const remove = async (row: QueueRow) => {
+    try {
+      await run("labels:remove", { id: row.id });
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const clear = async () => {
+    if (!confirm("Remove every label from the queue?")) return;
+    try {
+      await run("labels:clear");
+      setNotice(null);
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const print = async () => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const res = await run("labels:print", {
+        target,
+        skip: target === "sheet" ? Number(skip || 0) : 0,
+      });
+      setNotice(`Printed ${res.printed} label(s).`);
+      setSkip("0");
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sheet = LABEL_SHEETS[design.sheet];
+  const perSheet = sheet.cols * sheet.rows;
+  const total = useMemo(
+    () => queue.reduce((a, r) => a + r.copies, 0),
+    [queue],
+  );
+  const unprintable = queue.filter((r) => !symbologyFor(r.barcode));
+  const sheets = Math.ceil((total + Math.min(Number(skip) || 0, perSheet - 1)) / perSheet);
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">Barcode Labels</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Queue labels from Inventory, a goods receipt or by scanning, then
+            print them on A4 sheets or the label printer. Layout is set in
+            Settings → Barcode Labels.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button className={BtnSecondary} onClick={refresh} disabled={loading}>
+            Refresh
+          </button>
+          <button
+            className={BtnSecondary}
+            onClick={clear}
+            disabled={busy || queue.length === 0}
+          >
+            Clear Queue
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+      {notice && !error ? (
+        <div className="mt-4 rounded-xl border border-emerald-100 bg-emerald-50 p-4 text-sm text-emerald-700">
+          {notice}
+        </div>
+      ) : null}
+      {unprintable.length > 0 ? (
+        <div className="mt-4 rounded-xl border border-amber-100 bg-amber-50 p-4 text-sm text-amber-800">
+          {unprintable.map((r) => r.name).join(", ")}: barcode can't be
+          printed. Fix it in Inventory or remove it from the queue.
+        </div>
+      ) : null}
+
+      <form
+        className="mt-5 flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:flex-row sm:items-end"
+        onSubmit={submitScan}
+      >
+        <div className="grid flex-1 gap-2">
+          <Label>Scan a barcode or pick a product</Label>
+          <input
+            ref={scanRef}
+            className={InputCls}
+            value={scan}
+            onChange={(e) => setScan(e.target.value)}
+            placeholder="Barcode or product name"
+            list="label-products"
+          />
+          <datalist id="label-products">
+            {products.map((p) => (
+              <option key={p.id} value={`${p.barcode} — ${p.productName}`} />
+            ))}
+          </datalist>
+        </div>
+        <div className="grid w-28 gap-2">
+          <Label>Copies</Label>
+          <input
+            className={InputCls}
+            value={scanCopies}
+            onChange={(e) => setScanCopies(e.target.value)}
+            type="number"
+            min={1}
+          />
+        </div>
+        <button className={BtnPrimary} type="submit">
+          Add
+        </button>
+      </form>
+
+      <div className="mt-5 rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[800px] text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>Barcode</Th>
+                <Th>Product</Th>
+                <Th className="text-right">MRP</Th>
+                <Th>Unit price</Th>
+                <Th>From</Th>
+                <Th className="text-right">Copies</Th>
+                <Th className="text-right">Actions</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <Td className="text-slate-500">Loading...</Td>
+                </tr>
+              ) : queue.length === 0 ? (
+                <tr>
+                  <Td className="text-slate-500">No labels queued.</Td>
+                </tr>
+              ) : (
+                queue.map((r) => (
+                  <tr key={r.id} className="hover:bg-slate-50">
+                    <Td className="font-mono text-xs">
+                      {r.barcode}
+                      <span className="ml-2 text-slate-400">
+                        {symbologyFor(r.barcode) === "ean13" ? "EAN-13" : "Code 128"}
+                      </span>
+                    </Td>
+                    <Td>{r.name}</Td>
+                    <Td className="text-right">{fmtINR(r.mrp)}</Td>
+                    <Td className="text-slate-500">
+                      {unitPriceText(r.mrp, r.unit) ?? "—"}
+                    </Td>
+                    <Td className="text-slate-500">{r.source ?? "—"}</Td>
+                    <Td className="text-right">
+                      <input
+                        key={`${r.id}:${r.copies}`}
+                        className={`${InputCls} w-20 text-right`}
+                        type="number"
+                        min={0}
+                        defaultValue={r.copies}
+                        onBlur={(e) => void setCopies(r, e.target.value)}
+                      />
+                    </Td>
+                    <Td className="text-right">
+                      <button
+                        className="text-xs font-medium text-rose-600 hover:underline"
+                        onClick={() => remove(r)}
+                      >
+                        Remove
+                      </button>
+                    </Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-5 flex flex-col gap-4 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:flex-row sm:items-end sm:justify-between">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+          <div className="grid gap-2">
+            <Label>Print on</Label>
+            <select
+              className={InputCls}
+              value={target}
+              onChange={(e) => setTarget(e.target.value as Target)}
+            >
+              <option value="sheet">A4 label sheets</option>
+              <option value="printer">
+                Label printer ({design.language.toUpperCase()})
+              </option>
+            </select>
+          </div>
+
+          {target === "sheet" ? (
+            <div className="grid w-40 gap-2">
+              <Label>Skip used labels</Label>
+              <input
+                className={InputCls}
+                value={skip}
+                onChange={(e) => setSkip(e.target.value)}
+                type="number"
+                min={0}
+                max={perSheet - 1}
+              />
+            </div>
+          ) : null}
+
+          <div className="text-xs text-slate-500">
+            {target === "sheet"
+              ? `${sheet.label} · ${total} label(s) on ${sheets} sheet(s)`
+              : printerSet
+                ? `${design.widthMm} × ${design.heightMm} mm labels · ${total} label(s)`
+                : "No label printer set up in Settings → Barcode Labels"}
+          </div>
+        </div>
+
+        <button
+          className={BtnPrimary}
+          onClick={print}
+          disabled={
+            busy || total === 0 || (target === "printer" && !printerSet)
+          }
+        >
+          {busy ? "Printing..." : "Print Labels"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function Th({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <th
+      className={`px-4 py-3 text-xs font-semibold uppercase tracking-wide ${className}`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function Td({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return <td className={`px-4 py-3 ${className}`}>{children}</td>;
+}
+
+function Label({ children }: React.PropsWithChildren) {
+  return <div className="text-xs font-medium text-slate-600">{children}</div>;
+}
+
+const InputCls =
+  "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-slate-300";
+const BtnPrimary =
+  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50";
+const BtnSecondary =
+  "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50";
@@ -9,7 +9,19 @@ import {
   Banknote,
   QrCode,
   Search,
+  BookUser,
+  UserPlus,
+  BadgePercent,
+  PauseCircle,
 } from "lucide-react";
+import { gstForLine, isInterStateSupply } from "../../electron/gst";
+import { applyPromotions, type Promotion } from "../../electron/promotions";
+import {
+  discountPct,
+  OVERRIDE_ACTIONS,
+  type OverrideAction,
+} from "../../electron/permissions";
+import { usePermissions } from "../lib/Permissions";
 
 // ============= TYPES =============
 type Category = { id: number; categoryName: string };
@@ -19,6 +31,7 @@ type Product = {
   productName: string;
   mrp: number;
   gst: number;
+  hsn?: string | null;
   categoryId: number;
   supplierId: number;
   quantity: number;
@@ -33,6 +46,25 @@ type Product = {
 };
 type CartItem = { product: Product; qty: number };
 
+type Customer = {
+  id: number;
+  name: string;
+  phone: string | null;
+  creditLimit: number;
+  gstin: string | null;
+  active: boolean;
+  balance: number;
+  points: number;
+};
+
+type LoyaltyRules = {
+  enabled: boolean;
+  pointsPerRupee: number;
+  redeemValue: number;
+};
+
+type PayMode = "cash" | "upi" | "card" | "credit";
+
 type Bill = {
   id: number;
   items: CartItem[];
@@ -41,9 +73,62 @@ type Bill = {
   cashAmt: number;
   upiAmt: number;
   cardAmt: number;
+  creditAmt: number;
+  customer: Customer | null;
+  redeemPoints: number;
 };
 
 type User = { id: number; name: string; role: "admin" | "staff" | "manager" };
+
+type ShiftSummary = {
+  shift: {
+    id: number;
+    status: "open" | "closed";
+    openedAt: string | Date;
+    openedByName: string | null;
+    openingFloat: number;
+    countedCash: number | null;
+    variance: number | null;
+  };
+  sales: { count: number; total: number; cash: number };
+  refunds: { count: number; cash: number };
+  collectionsCash: number;
+  cashIn: number;
+  cashOut: number;
+  movements: Array<{
+    id: number;
+    type: "in" | "out";
+    amount: number;
+    reason: string | null;
+  }>;
+  expectedCash: number;
+};
+
+type HeldBill = {
+  id: number;
+  label: string;
+  customerId: number | null;
+  customerName: string | null;
+  heldAt: string | Date;
+  expiresAt: string | Date;
+  heldByName: string | null;
+  items: Array<{
+    productId: number;
+    productName: string;
+    mrp: number;
+    qty: number;
+  }>;
+};
+
+type RecalledBill = {
+  id: number;
+  label: string;
+  customerId: number | null;
+  billDiscount: number;
+  roundOff: boolean;
+  items: Array<{ productId: number; qty: number }>;
+};
+
 type POSPageProps = { user: User | null; onLogout: () => void };
 
 // ============= DATA =============
@@ -314,6 +399,821 @@ function ManualAddModal({
   );
 }
 
+// Modal for attaching a customer (khata) to the bill
+function CustomerPickerModal({
+  isOpen,
+  onClose,
+  onPick,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onPick: (customer: Customer) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [newName, setNewName] = useState("");
+  const [newPhone, setNewPhone] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery("");
+    setError(null);
+    window.api
+      ?.invoke("customers:getAll")
+      .then((res) => setCustomers((res?.customers ?? []) as Customer[]));
+  }, [isOpen]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return customers.filter(
+      (c) =>
+        c.active &&
+        (!q ||
+          c.name.toLowerCase().includes(q) ||
+          (c.phone ?? "").includes(q)),
+    );
+  }, [customers, query]);
+
+  async function quickAdd() {
+    setError(null);
+    if (!newName.trim()) {
+      setError("Name is required");
+      return;
+    }
+    const res = await window.api?.invoke("customers:create", {
+      name: newName.trim(),
+      phone: newPhone.trim() || null,
+    });
+    if (!res?.success) {
+      setError(res?.error ?? "Failed to add customer");
+      return;
+    }
+    setNewName("");
+    setNewPhone("");
+    onPick(res.customer as Customer);
+    onClose();
+  }
+
+  if (!isOpen) return null;
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl max-h-[80vh] bg-white rounded-xl shadow-xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-lg font-bold text-gray-900">
+              Select Customer
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="relative">
+            <Search
+              className="absolute left-3 top-2.5 text-gray-400"
+              size={18}
+            />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or phone..."
+              className="w-full rounded-lg border border-gray-200 bg-white pl-10 pr-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-orange/40"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {filtered.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-500">
+              No customers found
+            </div>
+          ) : (
+            filtered.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => {
+                  onPick(c);
+                  onClose();
+                }}
+                className="w-full flex items-center justify-between text-left p-3 rounded-lg border border-gray-200 bg-white hover:border-orange/40 transition"
+              >
+                <div>
+                  <div className="text-sm font-semibold text-gray-900">
+                    {c.name}
+                  </div>
+                  <div className="text-[11px] font-mono text-gray-500">
+                    {c.phone ?? "—"}
+                  </div>
+                </div>
+                <div
+                  className={[
+                    "font-mono text-sm font-bold",
+                    c.balance > 0 ? "text-red-600" : "text-gray-700",
+                  ].join(" ")}
+                >
+                  {formatINR(c.balance)}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50">
+          <div className="text-xs font-bold text-gray-600 mb-2">
+            New customer
+          </div>
+          {error ? (
+            <div className="mb-2 text-xs text-red-600">{error}</div>
+          ) : null}
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name"
+              className="flex-1 rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-orange/40"
+            />
+            <input
+              value={newPhone}
+              onChange={(e) => setNewPhone(e.target.value)}
+              placeholder="Phone"
+              className="w-36 rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-orange/40"
+            />
+            <button
+              type="button"
+              onClick={quickAdd}
+              className="inline-flex items-center gap-1 rounded-lg bg-blue px-3 py-2 text-sm font-semibold text-white hover:opacity-95"
+            >
+              <UserPlus size={14} />
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Recall drawer: park the current cart in the database or resume a held one
+function HeldBillsDrawer({
+  isOpen,
+  onClose,
+  user,
+  bill,
+  onHeld,
+  onResume,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User | null;
+  bill: Bill;
+  onHeld: () => void;
+  onResume: (hold: RecalledBill) => void;
+}) {
+  const [holds, setHolds] = useState<HeldBill[]>([]);
+  const [label, setLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function load() {
+    window.api?.invoke("holds:getAll").then((res) => {
+      if (res?.success) setHolds((res.holds ?? []) as HeldBill[]);
+      else setError(res?.error ?? "Failed to load held bills");
+    });
+  }
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setLabel(bill.customer?.name ?? "");
+    load();
+    // Only prefill the label on open; a customer change must not wipe what
+    // the cashier typed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  async function hold() {
+    if (!user) return;
+    setBusy(true);
+    setError(null);
+    const res = await window.api?.invoke("holds:save", {
+      userId: user.id,
+      label: label.trim(),
+      customerId: bill.customer?.id ?? null,
+      billDiscount: bill.billDiscount,
+      roundOff: bill.roundOff,
+      items: bill.items.map((it) => ({
+        productId: it.product.id,
+        qty: it.qty,
+      })),
+    });
+    setBusy(false);
+    if (!res?.success) {
+      setError(res?.error ?? "Failed to hold bill");
+      return;
+    }
+    setLabel("");
+    onHeld();
+    load();
+  }
+
+  async function resume(id: number) {
+    setBusy(true);
+    setError(null);
+    const res = await window.api?.invoke("holds:recall", { id });
+    setBusy(false);
+    if (!res?.success) {
+      setError(res?.error ?? "Failed to recall bill");
+      load();
+      return;
+    }
+    onResume(res.hold as RecalledBill);
+    onClose();
+  }
+
+  async function discard(h: HeldBill) {
+    if (!confirm(`Discard held bill "${h.label}"?`)) return;
+    const res = await window.api?.invoke("holds:delete", { id: h.id });
+    if (!res?.success) setError(res?.error ?? "Failed to discard bill");
+    load();
+  }
+
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="text-lg font-bold text-gray-900">Held bills</div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 bg-gray-50">
+          <div className="text-xs font-bold text-gray-600 mb-2">
+            Hold current bill ({bill.items.length} item
+            {bill.items.length === 1 ? "" : "s"})
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Customer name or counter note"
+              className="flex-1 rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-orange/40"
+            />
+            <button
+              type="button"
+              onClick={hold}
+              disabled={busy || bill.items.length === 0 || !label.trim()}
+              className="inline-flex items-center gap-1 rounded-lg bg-blue px-3 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-50"
+            >
+              <PauseCircle size={14} />
+              Hold
+            </button>
+          </div>
+          {error ? (
+            <div className="mt-2 text-xs text-red-600">{error}</div>
+          ) : null}
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {holds.length === 0 ? (
+            <div className="text-center py-6 text-sm text-gray-500">
+              No held bills
+            </div>
+          ) : (
+            holds.map((h) => {
+              const estimate = h.items.reduce(
+                (acc, it) => acc + it.mrp * it.qty,
+                0,
+              );
+              const hoursLeft = Math.max(
+                0,
+                (new Date(h.expiresAt).getTime() - Date.now()) / 3_600_000,
+              );
+              return (
+                <div
+                  key={h.id}
+                  className="rounded-lg border border-gray-200 p-3 hover:border-orange/40 transition"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="text-sm font-semibold text-gray-900">
+                        {h.label}
+                      </div>
+                      <div className="text-[11px] text-gray-500">
+                        {new Date(h.heldAt).toLocaleTimeString("en-IN")} ·{" "}
+                        {h.heldByName ?? "—"} · expires in{" "}
+                        {hoursLeft < 1
+                          ? `${Math.ceil(hoursLeft * 60)} min`
+                          : `${Math.floor(hoursLeft)} h`}
+                      </div>
+                    </div>
+                    <div className="font-mono text-sm font-bold text-gray-700">
+                      {formatINR(estimate)}
+                    </div>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-600 line-clamp-2">
+                    {h.items
+                      .map((it) => `${it.productName} × ${it.qty}`)
+                      .join(", ")}
+                  </div>
+                  <div className="mt-2 flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => discard(h)}
+                      className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-semibold text-red-600 hover:border-red-300"
+                    >
+                      Discard
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => resume(h.id)}
+                      disabled={busy}
+                      className="rounded-lg bg-blue px-3 py-1.5 text-xs font-semibold text-white hover:opacity-95 disabled:opacity-50"
+                    >
+                      Resume
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type PinRequest = {
+  action: OverrideAction;
+  reason: string;
+  amount?: number | null;
+  resolve: (overrideId: number | null) => void;
+};
+
+// Supervisor approval for an action the cashier's role can't do alone. Main
+// checks the PIN against the approver's permissions and records the approval.
+function SupervisorPinModal({
+  request,
+  onDone,
+}: {
+  request: PinRequest;
+  onDone: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function finish(overrideId: number | null) {
+    request.resolve(overrideId);
+    onDone();
+  }
+
+  async function approve() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("overrides:approve", {
+        action: request.action,
+        pin,
+        amount: request.amount ?? null,
+        detail: request.reason,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Approval failed");
+      finish(res.overrideId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setPin("");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40"
+      onClick={() => finish(null)}
+    >
+      <div
+        className="w-full max-w-sm bg-white rounded-xl shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <div className="text-lg font-bold text-gray-900">
+              Supervisor approval
+            </div>
+            <div className="text-xs text-gray-500">
+              {OVERRIDE_ACTIONS[request.action].label}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => finish(null)}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form
+          className="p-4 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void approve();
+          }}
+        >
+          <div className="text-sm text-gray-700">{request.reason}</div>
+          {error ? (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          ) : null}
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            placeholder="Supervisor PIN"
+            className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-center font-mono text-lg tracking-widest outline-none focus:ring-2 focus:ring-orange/40"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => finish(null)}
+              className="rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:border-orange hover:text-orange"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || pin.length < 4}
+              className="rounded-lg bg-blue px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-50"
+            >
+              Approve
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// Notes and coins counted at shift close
+const DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+// Cash drawer shift: open with a float, cash in/out, denomination close
+function ShiftModal({
+  isOpen,
+  onClose,
+  user,
+  summary,
+  onChange,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User | null;
+  summary: ShiftSummary | null;
+  onChange: (summary: ShiftSummary | null) => void;
+}) {
+  const [openingFloat, setOpeningFloat] = useState("0");
+  const [moveType, setMoveType] = useState<"in" | "out">("out");
+  const [moveAmount, setMoveAmount] = useState("");
+  const [moveReason, setMoveReason] = useState("");
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    setError(null);
+    setCounts({});
+    setNote("");
+    // Refresh expected cash with bills made since the drawer was last opened
+    window.api
+      ?.invoke("shifts:getCurrent", { userId: user.id })
+      .then(
+        (res) =>
+          res?.success && onChange((res.summary ?? null) as ShiftSummary | null),
+      );
+  }, [isOpen, user, onChange]);
+
+  const counted = DENOMINATIONS.reduce(
+    (acc, d) => acc + d * (Number(counts[d]) || 0),
+    0,
+  );
+
+  async function run(channel: string, payload: Record<string, unknown>) {
+    if (!user) return null;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke(channel, {
+        userId: user.id,
+        ...payload,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed");
+      return res.summary as ShiftSummary;
+    } catch (e) {
+      setError(String(e));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function openShift() {
+    const res = await run("shifts:open", {
+      openingFloat: Number(openingFloat) || 0,
+    });
+    if (res) onChange(res);
+  }
+
+  async function recordMovement() {
+    if (!summary) return;
+    const res = await run("shifts:cashMovement", {
+      shiftId: summary.shift.id,
+      type: moveType,
+      amount: Number(moveAmount) || 0,
+      reason: moveReason.trim() || null,
+    });
+    if (res) {
+      onChange(res);
+      setMoveAmount("");
+      setMoveReason("");
+    }
+  }
+
+  async function closeShift() {
+    if (!summary) return;
+    const variance = counted - summary.expectedCash;
+    const isOk = confirm(
+      `Close shift #${summary.shift.id}?\nExpected: ${formatINR(
+        summary.expectedCash,
+      )}\nCounted: ${formatINR(counted)}\nVariance: ${formatINR(variance)}`,
+    );
+    if (!isOk) return;
+
+    const res = await run("shifts:close", {
+      shiftId: summary.shift.id,
+      denominations: Object.fromEntries(
+        DENOMINATIONS.map((d) => [String(d), Number(counts[d]) || 0]),
+      ),
+      note: note.trim() || null,
+    });
+    if (!res) return;
+
+    // Z-report goes through the same print pipeline as bills
+    window.api?.printBill?.({
+      billNo: `SHIFT-${res.shift.id}`,
+      dateTime: new Date().toLocaleString("en-IN"),
+      items: [],
+      total: Number(res.shift.countedCash ?? 0),
+      paymentMode: "Z-REPORT",
+      shiftId: res.shift.id,
+    } satisfies BillPayload);
+    onChange(null);
+    onClose();
+  }
+
+  if (!isOpen) return null;
+
+  const inputCls =
+    "rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-orange/40";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-white rounded-xl shadow-xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <div className="text-lg font-bold text-gray-900">
+              {summary ? `Shift #${summary.shift.id}` : "Open shift"}
+            </div>
+            <div className="text-xs text-gray-500">
+              {summary
+                ? `Opened ${new Date(summary.shift.openedAt).toLocaleString("en-IN")} by ${summary.shift.openedByName ?? "—"}`
+                : "Count the opening float into the drawer to start billing."}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {error ? (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          ) : null}
+
+          {!summary ? (
+            <div className="flex items-end gap-2">
+              <label className="flex-1 text-xs font-bold text-gray-600">
+                Opening float (₹)
+                <input
+                  type="number"
+                  min={0}
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  className={`${inputCls} mt-1 w-full`}
+                  autoFocus
+                />
+              </label>
+              <button
+                type="button"
+                onClick={openShift}
+                disabled={busy}
+                className="rounded-lg bg-blue px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-50"
+              >
+                Open shift
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                {(
+                  [
+                    ["Opening float", summary.shift.openingFloat],
+                    [`Cash sales (${summary.sales.count} bills)`, summary.sales.cash],
+                    ["Khata collections", summary.collectionsCash],
+                    ["Cash in", summary.cashIn],
+                    ["Cash out", -summary.cashOut],
+                    ["Cash refunds", -summary.refunds.cash],
+                  ] as Array<[string, number]>
+                ).map(([label, value]) => (
+                  <div key={label} className="flex justify-between">
+                    <span className="text-gray-600">{label}</span>
+                    <span className="font-mono">{formatINR(value)}</span>
+                  </div>
+                ))}
+                <div className="col-span-2 mt-1 flex justify-between border-t border-gray-200 pt-2 font-bold">
+                  <span>Expected in drawer</span>
+                  <span className="font-mono">
+                    {formatINR(summary.expectedCash)}
+                  </span>
+                </div>
+              </div>
+
+              <div>
+                <div className="text-xs font-bold text-gray-600 mb-2">
+                  Cash in / out
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={moveType}
+                    onChange={(e) => setMoveType(e.target.value as "in" | "out")}
+                    className={inputCls}
+                  >
+                    <option value="out">Cash out</option>
+                    <option value="in">Cash in</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={moveAmount}
+                    onChange={(e) => setMoveAmount(e.target.value)}
+                    placeholder="Amount"
+                    className={`${inputCls} w-28`}
+                  />
+                  <input
+                    value={moveReason}
+                    onChange={(e) => setMoveReason(e.target.value)}
+                    placeholder="Reason (e.g. tea, courier)"
+                    className={`${inputCls} flex-1`}
+                  />
+                  <button
+                    type="button"
+                    onClick={recordMovement}
+                    disabled={busy || !(Number(moveAmount) > 0)}
+                    className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:border-orange hover:text-orange disabled:opacity-50"
+                  >
+                    Record
+                  </button>
+                </div>
+                {summary.movements.length > 0 ? (
+                  <div className="mt-2 space-y-1 text-xs text-gray-600">
+                    {summary.movements.map((m) => (
+                      <div key={m.id} className="flex justify-between">
+                        <span>
+                          {m.type === "in" ? "In" : "Out"} · {m.reason ?? "—"}
+                        </span>
+                        <span className="font-mono">
+                          {formatINR(m.type === "in" ? m.amount : -m.amount)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+
+              <div>
+                <div className="text-xs font-bold text-gray-600 mb-2">
+                  Close shift · cash count
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {DENOMINATIONS.map((d) => (
+                    <label
+                      key={d}
+                      className="flex items-center gap-2 text-sm text-gray-700"
+                    >
+                      <span className="w-12 text-right font-mono">₹{d}</span>
+                      <span className="text-gray-400">×</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={counts[d] ?? ""}
+                        onChange={(e) =>
+                          setCounts((prev) => ({ ...prev, [d]: e.target.value }))
+                        }
+                        className={`${inputCls} w-20`}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Closing note (optional)"
+                  className={`${inputCls} mt-2 w-full`}
+                />
+                <div className="mt-3 grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Counted</span>
+                    <span className="font-mono">{formatINR(counted)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold">
+                    <span>Variance</span>
+                    <span
+                      className={[
+                        "font-mono",
+                        Math.abs(counted - summary.expectedCash) < 0.01
+                          ? "text-green-600"
+                          : "text-red-600",
+                      ].join(" ")}
+                    >
+                      {formatINR(counted - summary.expectedCash)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {summary ? (
+          <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-end">
+            <button
+              type="button"
+              onClick={closeShift}
+              disabled={busy}
+              className="inline-flex items-center gap-2 rounded-lg bg-blue px-4 py-2 text-sm font-semibold text-white hover:opacity-95 disabled:opacity-50"
+            >
+              <Printer size={14} />
+              Close shift & print Z-report
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
 // ============= MAIN COMPONENT =============
 export default function POSPage({ user }: POSPageProps) {
   const [products, setProducts] = useState<Product[]>([]);
@@ -326,9 +1226,14 @@ export default function POSPage({ user }: POSPageProps) {
       cashAmt: 0,
       upiAmt: 0,
       cardAmt: 0,
+      creditAmt: 0,
+      customer: null,
+      redeemPoints: 0,
     },
   ]);
   const [activeBillId, setActiveBillId] = useState(1);
+  const { can, discountLimitPct } = usePermissions();
+  const [pinRequest, setPinRequest] = useState<PinRequest | null>(null);
 
   let activeBill = bills.find((b) => b.id === activeBillId) || bills[0];
 
@@ -339,15 +1244,80 @@ export default function POSPage({ user }: POSPageProps) {
       .then((res: any) => setProducts(res?.products ?? []));
   }, [user]);
   const [showManualAdd, setShowManualAdd] = useState(false);
+  const [showCustomerPicker, setShowCustomerPicker] = useState(false);
+  const [showShift, setShowShift] = useState(false);
+  const [showHolds, setShowHolds] = useState(false);
+  const [shift, setShift] = useState<ShiftSummary | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    window.api
+      ?.invoke("shifts:getCurrent", { userId: user.id })
+      .then((res) => {
+        setShift((res?.summary ?? null) as ShiftSummary | null);
+        // Nothing can be billed until the drawer is opened
+        if (res?.success && !res.summary) setShowShift(true);
+      });
+  }, [user]);
+
+  const [loyalty, setLoyalty] = useState<LoyaltyRules>({
+    enabled: false,
+    pointsPerRupee: 0,
+    redeemValue: 0,
+  });
+
+  useEffect(() => {
+    window.api?.getSettings().then((res) => {
+      const st = res?.settings ?? {};
+      setLoyalty({
+        enabled: st.loyaltyEnabled === "true",
+        pointsPerRupee: Number(st.loyaltyPointsPerRupee ?? 0) || 0,
+        redeemValue: Number(st.loyaltyRedeemValue ?? 0) || 0,
+      });
+    });
+  }, [user]);
+
+  const [gstConfig, setGstConfig] = useState<{
+    taxInclusive: boolean;
+    storeGstin: string | null;
+  }>({ taxInclusive: false, storeGstin: null });
+
+  useEffect(() => {
+    window.api?.invoke("gst:getConfig").then((res) => {
+      if (res?.success) {
+        setGstConfig({
+          taxInclusive: Boolean(res.taxInclusive),
+          storeGstin: res.storeGstin ?? null,
+        });
+      }
+    });
+  }, [user]);
+
+  // Promotions are priced here with the same rules main re-checks at checkout.
+  // `promoClock` re-evaluates time windows (happy hours) once a minute.
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [promoClock, setPromoClock] = useState(() => new Date());
+
+  function loadPromotions() {
+    window.api
+      ?.invoke("promotions:getAll")
+      .then((res) => setPromotions((res?.promotions ?? []) as Promotion[]));
+  }
+
+  useEffect(() => {
+    loadPromotions();
+    const t = setInterval(() => setPromoClock(new Date()), 60_000);
+    return () => clearInterval(t);
+  }, [user]);
 
   // Hidden barcode scanner buffer (global keydown capture) [web:120][web:123]
   const [scanBuffer, setScanBuffer] = useState("");
   const scanTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Auto-balance split amounts when user changes one [file:119]
-  const [selectedPayments, setSelectedPayments] = useState<
-    Set<"cash" | "upi" | "card">
-  >(new Set(["cash"]));
+  const [selectedPayments, setSelectedPayments] = useState<Set<PayMode>>(
+    new Set(["cash"]),
+  );
 
   // Global keydown to capture scanner without focus [web:120][web:123]
   useEffect(() => {
@@ -448,7 +1418,36 @@ export default function POSPage({ user }: POSPageProps) {
     }));
   }
 
-  function dec(productId: number) {
+  // Resolves with the approval's id, or null when the supervisor step is cancelled
+  function requestOverride(
+    action: OverrideAction,
+    reason: string,
+    amount: number | null = null,
+  ) {
+    return new Promise<number | null>((resolve) =>
+      setPinRequest({ action, reason, amount, resolve }),
+    );
+  }
+
+  // Taking items off a bill needs sale.voidLine or a supervisor's PIN
+  async function allowVoid(action: "voidLine" | "cancelBill", reason: string) {
+    if (can("sale.voidLine")) return true;
+    return (await requestOverride(action, reason)) != null;
+  }
+
+  function billSummary(bill: Bill) {
+    const value = bill.items.reduce((acc, it) => acc + it.product.mrp * it.qty, 0);
+    return `Bill #${bill.id}: ${bill.items.length} item(s), ${formatINR(value)}`;
+  }
+
+  async function dec(productId: number) {
+    const line = activeBill.items.find((x) => x.product.id === productId);
+    if (
+      line &&
+      line.qty <= 1 &&
+      !(await allowVoid("voidLine", `Remove ${line.product.productName}`))
+    )
+      return;
     updateBill(activeBillId, (bill) => ({
       ...bill,
       items: bill.items
@@ -457,14 +1456,28 @@ export default function POSPage({ user }: POSPageProps) {
     }));
   }
 
-  function remove(productId: number) {
+  async function remove(productId: number) {
+    const line = activeBill.items.find((x) => x.product.id === productId);
+    if (!line) return;
+    if (
+      !(await allowVoid(
+        "voidLine",
+        `Remove ${line.product.productName} × ${line.qty}`,
+      ))
+    )
+      return;
     updateBill(activeBillId, (bill) => ({
       ...bill,
       items: bill.items.filter((x) => x.product.id !== productId),
     }));
   }
 
-  function clearCurrentBill() {
+  async function clearCurrentBill() {
+    if (
+      activeBill.items.length > 0 &&
+      !(await allowVoid("cancelBill", `Clear ${billSummary(activeBill)}`))
+    )
+      return;
     updateBill(activeBillId, () => ({
       id: activeBillId,
       items: [],
@@ -473,6 +1486,9 @@ export default function POSPage({ user }: POSPageProps) {
       cashAmt: 0,
       upiAmt: 0,
       cardAmt: 0,
+      creditAmt: 0,
+      customer: null,
+      redeemPoints: 0,
     }));
     setSelectedPayments(new Set(["cash"]));
   }
@@ -500,12 +1516,61 @@ export default function POSPage({ user }: POSPageProps) {
         cashAmt: 0,
         upiAmt: 0,
         cardAmt: 0,
+        creditAmt: 0,
+        customer: null,
+        redeemPoints: 0,
       },
     ]);
     setActiveBillId(newId);
     setSelectedPayments(new Set(["cash"]));
   }
 
+  // Resumes a held bill into the current tab if it's empty, else a new tab
+  async function resumeHeldBill(hold: RecalledBill) {
+    const missing: number[] = [];
+    const items: CartItem[] = hold.items.flatMap((it) => {
+      const product = products.find((p) => p.id === it.productId);
+      if (!product) {
+        missing.push(it.productId);
+        return [];
+      }
+      return [{ product, qty: it.qty }];
+    });
+
+    let customer: Customer | null = null;
+    if (hold.customerId != null) {
+      const res = await window.api?.invoke("customers:getAll");
+      customer =
+        ((res?.customers ?? []) as Customer[]).find(
+          (c) => c.id === hold.customerId,
+        ) ?? null;
+    }
+
+    const bill = {
+      items,
+      billDiscount: Number(hold.billDiscount || 0),
+      roundOff: Boolean(hold.roundOff),
+      cashAmt: 0,
+      upiAmt: 0,
+      cardAmt: 0,
+      creditAmt: 0,
+      customer,
+      redeemPoints: 0,
+    };
+    if (activeBill.items.length === 0) {
+      updateBill(activeBillId, () => ({ ...bill, id: activeBillId }));
+    } else {
+      const newId = Math.max(...bills.map((b) => b.id)) + 1;
+      setBills((prev) => [...prev, { ...bill, id: newId }]);
+      setActiveBillId(newId);
+    }
+    setSelectedPayments(new Set(["cash"]));
+
+    if (missing.length > 0) {
+      alert(`⚠️ ${missing.length} item(s) on "${hold.label}" are no longer sold`);
+    }
+  }
+
   // Calculations
   const subtotal = useMemo(
     () =>
@@ -513,22 +1578,80 @@ export default function POSPage({ user }: POSPageProps) {
     [activeBill.items],
   );
 
-  const tax = useMemo(() => {
-    return activeBill.items.reduce((acc, it) => {
-      const lineGross = it.product.mrp * it.qty;
-      return acc + (lineGross * (it.product.gst || 0)) / 100;
-    }, 0);
-  }, [activeBill.items]);
+  const promo = useMemo(
+    () =>
+      applyPromotions(
+        activeBill.items.map((it) => ({
+          productId: it.product.id,
+          categoryId: it.product.categoryId,
+          unitPrice: it.product.mrp,
+          qty: it.qty,
+        })),
+        promotions,
+        promoClock,
+      ),
+    [activeBill.items, promotions, promoClock],
+  );
 
-  const taxableBase = Math.max(0, subtotal - activeBill.billDiscount);
+  const afterPromo = Math.max(0, subtotal - promo.total);
+  const billDiscount = Math.min(
+    Math.max(0, activeBill.billDiscount),
+    afterPromo,
+  );
+  const taxableBase = Math.max(0, afterPromo - billDiscount);
+  const discountOverLimit =
+    !can("discount.aboveLimit") &&
+    discountPct(billDiscount, afterPromo) > discountLimitPct + 0.001;
+  const interState = isInterStateSupply(
+    gstConfig.storeGstin,
+    activeBill.customer?.gstin,
+  );
+
+  // Same per-line GST as computeReceiptTotals: on the net value after
+  // promotions and the pro-rata bill discount
+  const lineTaxes = useMemo(() => {
+    const m = new Map<number, number>();
+    for (const it of activeBill.items) {
+      const afterPromoLine =
+        it.product.mrp * it.qty - (promo.lineDiscounts.get(it.product.id) ?? 0);
+      const lineNet =
+        afterPromoLine -
+        (afterPromo > 0 ? (billDiscount * afterPromoLine) / afterPromo : 0);
+      const gst = gstForLine(
+        lineNet,
+        it.product.gst || 0,
+        gstConfig.taxInclusive,
+        interState,
+      );
+      m.set(it.product.id, gst.tax);
+    }
+    return m;
+  }, [activeBill.items, promo, afterPromo, billDiscount, gstConfig, interState]);
+
+  const tax = Array.from(lineTaxes.values()).reduce((acc, t) => acc + t, 0);
+  const billTotal = taxableBase + (gstConfig.taxInclusive ? 0 : tax);
 
   const roundValue = useMemo(() => {
     if (!activeBill.roundOff) return 0;
-    const total = taxableBase + tax;
-    return Math.round(total) - total;
-  }, [taxableBase, tax, activeBill.roundOff]);
-
-  const totalPayable = Math.max(0, taxableBase + tax + roundValue);
+    return Math.round(billTotal) - billTotal;
+  }, [billTotal, activeBill.roundOff]);
+
+  const totalPayable = Math.max(0, billTotal + roundValue);
+
+  // Loyalty redemption acts as a tender; capped by balance and the bill value
+  const maxRedeemPoints =
+    loyalty.enabled && loyalty.redeemValue > 0 && activeBill.customer
+      ? Math.max(
+          0,
+          Math.min(
+            Math.floor(activeBill.customer.points),
+            Math.floor(billTotal / loyalty.redeemValue),
+          ),
+        )
+      : 0;
+  const redeemPoints = Math.min(activeBill.redeemPoints, maxRedeemPoints);
+  const pointsAmt = redeemPoints * loyalty.redeemValue;
+  const payableAfterPoints = Math.max(0, totalPayable - pointsAmt);
 
   // Auto-balance split [file:119]
   useEffect(() => {
@@ -537,15 +1660,30 @@ export default function POSPage({ user }: POSPageProps) {
     const selected = Array.from(selectedPayments);
     if (selected.length === 0) return;
 
-    const perMode = totalPayable / selected.length;
+    const perMode = payableAfterPoints / selected.length;
 
     updateBill(activeBillId, (bill) => ({
       ...bill,
       cashAmt: selected.includes("cash") ? perMode : 0,
       upiAmt: selected.includes("upi") ? perMode : 0,
       cardAmt: selected.includes("card") ? perMode : 0,
+      creditAmt: selected.includes("credit") ? perMode : 0,
     }));
-  }, [totalPayable, selectedPayments, activeBillId]);
+  }, [totalPayable, payableAfterPoints, selectedPayments, activeBillId]);
+
+  function attachCustomer(customer: Customer | null) {
+    updateBill(activeBillId, (b) => ({ ...b, customer, redeemPoints: 0 }));
+    // Credit tender only makes sense with a customer on the bill
+    if (!customer) {
+      setSelectedPayments((prev) => {
+        if (!prev.has("credit")) return prev;
+        const next = new Set(prev);
+        next.delete("credit");
+        if (next.size === 0) next.add("cash");
+        return next;
+      });
+    }
+  }
 
   // Manual split change: auto-adjust others [file:119]
   // function handleSplitChange(mode: "cash" | "upi" | "card", value: number) {
@@ -588,7 +1726,11 @@ export default function POSPage({ user }: POSPageProps) {
   //   });
   // }
 
-  function togglePaymentMode(mode: "cash" | "upi" | "card") {
+  function togglePaymentMode(mode: PayMode) {
+    if (mode === "credit" && !activeBill.customer) {
+      setShowCustomerPicker(true);
+      return;
+    }
     setSelectedPayments((prev) => {
       const next = new Set(prev);
       if (next.has(mode)) {
@@ -601,11 +1743,17 @@ export default function POSPage({ user }: POSPageProps) {
   }
 
   const splitTotal =
-    activeBill.cashAmt + activeBill.upiAmt + activeBill.cardAmt;
+    activeBill.cashAmt +
+    activeBill.upiAmt +
+    activeBill.cardAmt +
+    activeBill.creditAmt +
+    pointsAmt;
   const remaining = Math.max(0, totalPayable - splitTotal);
 
   // Helper to determine payment mode
   function getPaymentMode(): string {
+    if (activeBill.creditAmt > 0.01)
+      return activeBill.creditAmt >= totalPayable - 0.01 ? "CREDIT" : "MIXED";
     if (
       activeBill.cashAmt > 0.01 &&
       activeBill.upiAmt < 0.01 &&
@@ -634,23 +1782,23 @@ export default function POSPage({ user }: POSPageProps) {
   }
 
   // Print bill using electron-pos-printer
-  function handlePrintBill() {
+  // Saved bills print their invoice number; an unsaved cart prints as a draft
+  function handlePrintBill(saved?: { receiptId: number; invoiceNo: string }) {
     console.log("Printing bill...");
     const billItems: BillItem[] = activeBill.items.map((it) => ({
       name: it.product.productName,
       qty: it.qty,
       price: it.product.mrp,
+      hsn: it.product.hsn ?? null,
     }));
 
     const payload: BillPayload = {
-      storeName: "AVM Store",
-      address: "Madurai, TN",
-      phone: "98765 43210",
-      billNo: "BILL-" + activeBillId,
+      billNo: saved?.invoiceNo ?? `DRAFT-${activeBillId}`,
       dateTime: new Date().toLocaleString("en-IN"),
       items: billItems,
       total: totalPayable,
       paymentMode: getPaymentMode(),
+      receiptId: saved?.receiptId ?? null,
     };
     console.log(payload);
     (window.api as any)?.printBill?.(payload);
@@ -667,37 +1815,68 @@ export default function POSPage({ user }: POSPageProps) {
       return;
     }
 
+    if (!shift) {
+      alert("❌ Open a shift before billing");
+      setShowShift(true);
+      return;
+    }
+
     const isOk = confirm(
       `Bill #${activeBillId} saved\nTotal: ${formatINR(
         totalPayable,
       )}\nCash: ${formatINR(activeBill.cashAmt)}, UPI: ${formatINR(
         activeBill.upiAmt,
-      )}, Card: ${formatINR(activeBill.cardAmt)}`,
+      )}, Card: ${formatINR(activeBill.cardAmt)}` +
+        (activeBill.creditAmt > 0
+          ? `, Credit: ${formatINR(activeBill.creditAmt)}`
+          : "") +
+        (pointsAmt > 0
+          ? `, Points: ${formatINR(pointsAmt)} (${redeemPoints} pts)`
+          : "") +
+        (activeBill.customer ? `\nCustomer: ${activeBill.customer.name}` : ""),
     );
     if (!isOk) return;
+    submitCheckout([]);
+  }
 
+  // Main refuses a sale past the cashier's limits with the override it needs;
+  // a supervisor's PIN approval is then sent along with the retry
+  function submitCheckout(overrideIds: number[]) {
     // Call the checkout handler with proper data
     // @ts-ignore
     (window.api as any)
       ?.checkout({
-        createdBy: user.id,
         discount: activeBill.billDiscount,
         paymentSplit: {
           cashAmt: activeBill.cashAmt,
           upiAmt: activeBill.upiAmt,
           cardAmt: activeBill.cardAmt,
+          creditAmt: activeBill.creditAmt,
+          pointsAmt,
         },
         items: activeBill.items.map((it) => ({
           productId: it.product.id,
           qty: it.qty,
         })),
+        customerId: activeBill.customer?.id ?? null,
+        redeemPoints,
+        promoDiscount: promo.total,
+        overrideIds,
       })
-      .then((res: any) => {
+      .then(async (res: any) => {
         if (res?.success) {
-          alert(`✅ Receipt #${res.receiptId} saved successfully!`);
+          alert(
+            `✅ Invoice ${res.invoiceNo} saved successfully!` +
+              (res.pointsEarned > 0
+                ? `\n${res.pointsEarned} loyalty point(s) earned`
+                : ""),
+          );
 
           // Print bill automatically
-          handlePrintBill();
+          handlePrintBill({
+            receiptId: res.receiptId,
+            invoiceNo: res.invoiceNo,
+          });
 
           // Remove bill after save
           setBills((prev) => prev.filter((b) => b.id !== activeBillId));
@@ -706,8 +1885,16 @@ export default function POSPage({ user }: POSPageProps) {
             setActiveBillId(
               bills[0].id === activeBillId ? bills[1].id : bills[0].id,
             );
+        } else if (res?.override) {
+          const overrideId = await requestOverride(
+            res.override.action,
+            res.override.reason,
+            res.override.amount ?? null,
+          );
+          if (overrideId != null) submitCheckout([...overrideIds, overrideId]);
         } else {
           alert(`❌ Error: ${res?.error || "Failed to save receipt"}`);
+          loadPromotions();
         }
       })
       .catch((err: any) => {
@@ -743,10 +1930,33 @@ export default function POSPage({ user }: POSPageProps) {
               </div>
             </div>
             <div className="flex gap-2 items-center">
+              <button
+                type="button"
+                onClick={() => setShowShift(true)}
+                title="Cash drawer shift"
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold border border-gray-200 bg-white text-gray-700 hover:border-orange hover:text-orange transition"
+              >
+                <span
+                  className={[
+                    "h-2 w-2 rounded-full",
+                    shift ? "bg-green-500" : "bg-red-500",
+                  ].join(" ")}
+                />
+                {shift ? `Shift #${shift.shift.id}` : "No shift"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowHolds(true)}
+                title="Hold this bill or recall a held one"
+                className="inline-flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-semibold border border-gray-200 bg-white text-gray-700 hover:border-orange hover:text-orange transition"
+              >
+                <PauseCircle size={14} />
+                Hold / Recall
+              </button>
               <button
                 type="button"
                 onClick={createNewBill}
-                title="New bill (hold)"
+                title="New bill"
                 className="inline-flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-semibold border border-gray-200 bg-white text-gray-700 hover:border-orange hover:text-orange transition"
               >
                 <Plus size={14} />
@@ -811,8 +2021,13 @@ export default function POSPage({ user }: POSPageProps) {
                 <div>
                   {activeBill.items.map((it, idx) => {
                     const lineGross = it.product.mrp * it.qty;
-                    const lineTax = (lineGross * (it.product.gst || 0)) / 100;
-                    const lineAmount = lineGross + lineTax;
+                    const linePromo =
+                      promo.lineDiscounts.get(it.product.id) ?? 0;
+                    const lineTax = lineTaxes.get(it.product.id) ?? 0;
+                    const lineAmount =
+                      lineGross -
+                      linePromo +
+                      (gstConfig.taxInclusive ? 0 : lineTax);
 
                     return (
                       <div
@@ -870,6 +2085,11 @@ export default function POSPage({ user }: POSPageProps) {
                             <div className="text-[10px] text-gray-500 font-mono">
                               Tax: {formatINR(lineTax)}
                             </div>
+                            {linePromo > 0 ? (
+                              <div className="text-[10px] text-green-700 font-mono">
+                                Offer: -{formatINR(linePromo)}
+                              </div>
+                            ) : null}
                           </div>
 
                           <IconBtn
@@ -906,12 +2126,69 @@ export default function POSPage({ user }: POSPageProps) {
               </div>
             </div>
 
+            {/* Customer (khata) */}
+            <div className="p-4 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-semibold text-gray-500">
+                  Customer
+                </div>
+                <div className="flex items-center gap-2">
+                  {activeBill.customer ? (
+                    <button
+                      type="button"
+                      onClick={() => attachCustomer(null)}
+                      className="text-xs font-semibold text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => setShowCustomerPicker(true)}
+                    className="inline-flex items-center gap-1 text-xs font-semibold text-blue hover:underline"
+                  >
+                    <BookUser size={14} />
+                    {activeBill.customer ? "Change" : "Attach"}
+                  </button>
+                </div>
+              </div>
+              {activeBill.customer ? (
+                <div className="mt-2 flex items-center justify-between rounded-lg border border-blue/20 bg-blue/5 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-semibold text-gray-900 truncate">
+                      {activeBill.customer.name}
+                    </div>
+                    <div className="text-[11px] font-mono text-gray-500">
+                      {activeBill.customer.phone ?? "—"}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-[10px] font-semibold text-gray-500">
+                      Due
+                    </div>
+                    <div
+                      className={[
+                        "font-mono text-sm font-bold",
+                        activeBill.customer.balance > 0
+                          ? "text-red-600"
+                          : "text-gray-700",
+                      ].join(" ")}
+                    >
+                      {formatINR(activeBill.customer.balance)}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-1 text-xs text-gray-400">Walk-in</div>
+              )}
+            </div>
+
             {/* Split cards */}
             <div className="p-4 border-b border-gray-200">
               <div className="text-xs font-semibold text-gray-500 mb-2">
                 Split
               </div>
-              <div className="grid grid-cols-3 gap-2">
+              <div className="grid grid-cols-4 gap-2">
                 {[
                   {
                     key: "cash" as const,
@@ -931,6 +2208,12 @@ export default function POSPage({ user }: POSPageProps) {
                     icon: <CreditCard size={14} />,
                     val: activeBill.cardAmt,
                   },
+                  {
+                    key: "credit" as const,
+                    label: "Credit",
+                    icon: <BookUser size={14} />,
+                    val: activeBill.creditAmt,
+                  },
                 ].map((m) => {
                   const active = selectedPayments.has(m.key);
                   return (
@@ -971,6 +2254,21 @@ export default function POSPage({ user }: POSPageProps) {
                   </span>
                 </div>
 
+                {promo.applied.map((a) => (
+                  <div
+                    key={a.promotionId}
+                    className="flex items-center justify-between"
+                  >
+                    <span className="inline-flex items-center gap-1 text-green-700">
+                      <BadgePercent size={14} />
+                      {a.name}
+                    </span>
+                    <span className="font-mono font-semibold text-green-700">
+                      -{formatINR(a.amount)}
+                    </span>
+                  </div>
+                ))}
+
                 <div className="flex items-center justify-between">
                   <span className="text-gray-600">Discount</span>
 
@@ -992,12 +2290,67 @@ export default function POSPage({ user }: POSPageProps) {
                     </span>
                   </div>
                 </div>
+                {discountOverLimit ? (
+                  <div className="text-right text-[11px] font-semibold text-red-600">
+                    Above your {discountLimitPct}% limit, needs supervisor approval
+                  </div>
+                ) : null}
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-600">Tax (GST)</span>
+                  <span className="text-gray-600">
+                    {interState ? "IGST" : "CGST + SGST"}
+                    {gstConfig.taxInclusive ? (
+                      <span className="ml-1 text-[10px] text-gray-400">
+                        (incl.)
+                      </span>
+                    ) : null}
+                  </span>
                   <span className="font-mono font-semibold text-gray-900">
                     {formatINR(tax)}
                   </span>
                 </div>
+                {loyalty.enabled && activeBill.customer ? (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">
+                      Redeem points
+                      <span className="ml-1 text-[10px] text-gray-400">
+                        ({Math.floor(activeBill.customer.points)} avail.)
+                      </span>
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={maxRedeemPoints}
+                        value={redeemPoints}
+                        onChange={(e) =>
+                          updateBill(activeBillId, (b) => ({
+                            ...b,
+                            redeemPoints: Math.max(
+                              0,
+                              Math.floor(Number(e.target.value || 0)),
+                            ),
+                          }))
+                        }
+                        className="w-20 rounded-md border border-gray-200 bg-white px-2 py-1 text-right font-mono text-sm outline-none focus:ring-2 focus:ring-orange/40"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateBill(activeBillId, (b) => ({
+                            ...b,
+                            redeemPoints: maxRedeemPoints,
+                          }))
+                        }
+                        className="text-[11px] font-semibold text-blue hover:underline"
+                      >
+                        Max
+                      </button>
+                      <span className="font-mono font-semibold text-green-700">
+                        -{formatINR(pointsAmt)}
+                      </span>
+                    </div>
+                  </div>
+                ) : null}
                 <div className="flex items-center justify-between">
                   <span className="text-gray-600">Roundoff</span>
                   <div className="flex items-center gap-2">
@@ -1092,7 +2445,7 @@ export default function POSPage({ user }: POSPageProps) {
                 Payment mode
               </div>
 
-              <div className="grid grid-cols-3 gap-2 mb-3">
+              <div className="grid grid-cols-4 gap-2 mb-3">
                 {[
                   {
                     key: "cash" as const,
@@ -1109,6 +2462,11 @@ export default function POSPage({ user }: POSPageProps) {
                     label: "Card",
                     icon: <CreditCard size={14} />,
                   },
+                  {
+                    key: "credit" as const,
+                    label: "Credit",
+                    icon: <BookUser size={14} />,
+                  },
                 ].map((m) => {
                   const active = selectedPayments.has(m.key);
                   return (
@@ -1133,14 +2491,24 @@ export default function POSPage({ user }: POSPageProps) {
               <div className="grid grid-cols-2 gap-2 mb-2">
                 <button
                   type="button"
-                  onClick={cancelCurrentBill}
+                  onClick={async () => {
+                    if (
+                      activeBill.items.length > 0 &&
+                      !(await allowVoid(
+                        "cancelBill",
+                        `Cancel ${billSummary(activeBill)}`,
+                      ))
+                    )
+                      return;
+                    cancelCurrentBill();
+                  }}
                   className="rounded-lg border border-gray-200 bg-white py-2.5 text-sm font-semibold text-gray-800 hover:border-red-300 hover:text-red-600 transition"
                 >
                   Cancel
                 </button>
                 <button
                   type="button"
-                  onClick={handlePrintBill}
+                  onClick={() => handlePrintBill()}
                   className="rounded-lg border border-gray-200 bg-white py-2.5 text-sm font-semibold text-gray-800 hover:border-blue/40 hover:text-blue transition inline-flex items-center justify-center gap-2"
                 >
                   <Printer size={16} />
@@ -1169,6 +2537,36 @@ export default function POSPage({ user }: POSPageProps) {
         onClose={() => setShowManualAdd(false)}
         onAdd={(p) => addOrInc(p, 1)}
       />
+
+      <CustomerPickerModal
+        isOpen={showCustomerPicker}
+        onClose={() => setShowCustomerPicker(false)}
+        onPick={(c) => attachCustomer(c)}
+      />
+
+      <HeldBillsDrawer
+        isOpen={showHolds}
+        onClose={() => setShowHolds(false)}
+        user={user}
+        bill={activeBill}
+        onHeld={cancelCurrentBill}
+        onResume={(hold) => void resumeHeldBill(hold)}
+      />
+
+      <ShiftModal
+        isOpen={showShift}
+        onClose={() => setShowShift(false)}
+        user={user}
+        summary={shift}
+        onChange={setShift}
+      />
+
+      {pinRequest ? (
+        <SupervisorPinModal
+          request={pinRequest}
+          onDone={() => setPinRequest(null)}
+        />
+      ) : null}
     </div>
   );
 }
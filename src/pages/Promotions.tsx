@@ -0,0 +1,765 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Promotion, PromotionType } from "../../electron/promotions";
+
+type User = { id: number; name: string; role: "admin" | "staff" | "manager" };
+
+type CategoryRow = { id: number; categoryName: string };
+
+type ProductRow = {
+  id: number;
+  barcode: string;
+  productName: string;
+  mrp: number;
+};
+
+type ComboLine = { productId: number | ""; quantity: string };
+
+type Draft = {
+  id: number | null;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  productId: number | "";
+  buyQty: string;
+  getQty: string;
+  categoryId: number | "";
+  discountType: "flat" | "percent";
+  discountValue: string;
+  comboPrice: string;
+  items: ComboLine[];
+  startDate: string; // yyyy-mm-dd
+  endDate: string; // yyyy-mm-dd
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  days: number[];
+};
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const TYPE_LABEL: Record<PromotionType, string> = {
+  bogo: "Buy X get Y",
+  category: "Category discount",
+  combo: "Combo price",
+};
+
+function fmtINR(n: number) {
+  return `₹${Number(n || 0).toFixed(2)}`;
+}
+
+function toDateInput(v: Date | string | null) {
+  if (!v) return "";
+  const d = new Date(v);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+const emptyDraft = (): Draft => ({
+  id: null,
+  name: "",
+  type: "bogo",
+  active: true,
+  productId: "",
+  buyQty: "1",
+  getQty: "1",
+  categoryId: "",
+  discountType: "percent",
+  discountValue: "",
+  comboPrice: "",
+  items: [
+    { productId: "", quantity: "1" },
+    { productId: "", quantity: "1" },
+  ],
+  startDate: "",
+  endDate: "",
+  startTime: "",
+  endTime: "",
+  days: [],
+});
+
+export default function PromotionsPage({ user }: { user: User | null }) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [products, setProducts] = useState<ProductRow[]>([]);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [promoRes, catRes, prodRes] = await Promise.all([
+        window.api?.invoke("promotions:getAll"),
+        window.api?.getCategories(),
+        window.api?.getProducts(),
+      ]);
+
+      if (!promoRes?.success)
+        throw new Error(promoRes?.error ?? "Failed to load promotions");
+      if (!catRes?.success)
+        throw new Error(catRes?.error ?? "Failed to load categories");
+      if (!prodRes?.success)
+        throw new Error(prodRes?.error ?? "Failed to load products");
+
+      setPromotions((promoRes.promotions ?? []) as Promotion[]);
+      setCategories((catRes.categories ?? []) as CategoryRow[]);
+      setProducts((prodRes.products ?? []) as ProductRow[]);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const productById = useMemo(() => {
+    const m = new Map<number, ProductRow>();
+    for (const p of products) m.set(p.id, p);
+    return m;
+  }, [products]);
+
+  const categoryById = useMemo(() => {
+    const m = new Map<number, CategoryRow>();
+    for (const c of categories) m.set(c.id, c);
+    return m;
+  }, [categories]);
+
+  const productName = (id: number | null) =>
+    id == null ? "—" : (productById.get(id)?.productName ?? `#${id}`);
+
+  const describeRule = (p: Promotion) => {
+    if (p.type === "bogo") {
+      return `Buy ${p.buyQty} ${productName(p.productId)}, get ${p.getQty} free`;
+    }
+    if (p.type === "category") {
+      const cat =
+        p.categoryId != null
+          ? (categoryById.get(p.categoryId)?.categoryName ?? `#${p.categoryId}`)
+          : "—";
+      return p.discountType === "percent"
+        ? `${p.discountValue}% off ${cat}`
+        : `${fmtINR(Number(p.discountValue))} off each item in ${cat}`;
+    }
+    return `${p.items
+      .map((i) => `${i.quantity} × ${productName(i.productId)}`)
+      .join(" + ")} for ${fmtINR(Number(p.comboPrice))}`;
+  };
+
+  const describeWindow = (p: Promotion) => {
+    const parts: string[] = [];
+    if (p.startDate || p.endDate) {
+      parts.push(
+        `${p.startDate ? new Date(p.startDate).toLocaleDateString() : "…"} – ${
+          p.endDate ? new Date(p.endDate).toLocaleDateString() : "…"
+        }`,
+      );
+    }
+    if (p.daysOfWeek) {
+      parts.push(
+        p.daysOfWeek
+          .split(",")
+          .map((d) => DAYS[Number(d)] ?? d)
+          .join(", "),
+      );
+    }
+    if (p.startTime && p.endTime) parts.push(`${p.startTime}–${p.endTime}`);
+    return parts.length ? parts.join(" · ") : "Always";
+  };
+
+  const openEdit = (p: Promotion) => {
+    setError(null);
+    setDraft({
+      id: p.id,
+      name: p.name,
+      type: p.type,
+      active: p.active,
+      productId: p.productId ?? "",
+      buyQty: String(p.buyQty ?? 1),
+      getQty: String(p.getQty ?? 1),
+      categoryId: p.categoryId ?? "",
+      discountType: p.discountType ?? "percent",
+      discountValue: p.discountValue != null ? String(p.discountValue) : "",
+      comboPrice: p.comboPrice != null ? String(p.comboPrice) : "",
+      items:
+        p.items.length > 0
+          ? p.items.map((i) => ({
+              productId: i.productId,
+              quantity: String(i.quantity),
+            }))
+          : emptyDraft().items,
+      startDate: toDateInput(p.startDate),
+      endDate: toDateInput(p.endDate),
+      startTime: p.startTime ?? "",
+      endTime: p.endTime ?? "",
+      days: p.daysOfWeek
+        ? p.daysOfWeek.split(",").map((d) => Number(d))
+        : [],
+    });
+  };
+
+  const patchDraft = (patch: Partial<Draft>) =>
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const updateComboLine = (idx: number, patch: Partial<ComboLine>) =>
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((l, i) =>
+              i === idx ? { ...l, ...patch } : l,
+            ),
+          }
+        : prev,
+    );
+
+  const comboRegular = useMemo(() => {
+    if (!draft) return 0;
+    return draft.items.reduce((acc, l) => {
+      const p = l.productId === "" ? null : productById.get(l.productId);
+      return acc + (p ? Number(p.mrp) * Number(l.quantity || 0) : 0);
+    }, 0);
+  }, [draft, productById]);
+
+  const save = async () => {
+    if (!user || !draft) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("promotions:save", {
+        id: draft.id,
+        name: draft.name,
+        type: draft.type,
+        active: draft.active,
+        productId: draft.productId === "" ? null : draft.productId,
+        buyQty: Number(draft.buyQty || 0),
+        getQty: Number(draft.getQty || 0),
+        categoryId: draft.categoryId === "" ? null : draft.categoryId,
+        discountType: draft.discountType,
+        discountValue: Number(draft.discountValue || 0),
+        comboPrice: draft.comboPrice === "" ? null : Number(draft.comboPrice),
+        items: draft.items
+          .filter((l) => l.productId !== "")
+          .map((l) => ({
+            productId: Number(l.productId),
+            quantity: Number(l.quantity || 0),
+          })),
+        startDate: draft.startDate
+          ? new Date(`${draft.startDate}T00:00:00`).toISOString()
+          : null,
+        endDate: draft.endDate
+          ? new Date(`${draft.endDate}T23:59:59.999`).toISOString()
+          : null,
+        startTime: draft.startTime || null,
+        endTime: draft.endTime || null,
+        daysOfWeek: draft.days.length
+          ? [...draft.days].sort((a, b) => a - b).join(",")
+          : null,
+        createdBy: user.id,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+
+      setDraft(null);
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (p: Promotion) => {
+    setError(null);
+    try {
+      const res = await window.api?.invoke("promotions:setActive", {
+        id: p.id,
+        active: !p.active,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to update");
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    }
+  };
+
+  const remove = async (p: Promotion) => {
+    if (!confirm(`Delete promotion "${p.name}"?`)) return;
+
+    setError(null);
+    try {
+      const res = await window.api?.invoke("promotions:delete", { id: p.id });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to delete");
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">Promotions</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Buy X get Y, category discounts, combos and happy-hour windows.
+            Live promotions apply automatically at the till.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button className={BtnSecondary} onClick={refresh} disabled={loading}>
+            Refresh
+          </button>
+          <button
+            className={BtnPrimary}
+            onClick={() => {
+              setError(null);
+              setDraft(emptyDraft());
+            }}
+          >
+            New Promotion
+          </button>
+        </div>
+      </div>
+
+      {error && !draft ? (
+        <div className="mt-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-5 overflow-x-auto rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <table className="w-full min-w-[900px] text-left text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <Th>Name</Th>
+              <Th>Type</Th>
+              <Th>Rule</Th>
+              <Th>When</Th>
+              <Th>Status</Th>
+              <Th className="text-right">Actions</Th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {loading ? (
+              <tr>
+                <td className="p-10 text-center text-slate-500" colSpan={6}>
+                  Loading…
+                </td>
+              </tr>
+            ) : promotions.length === 0 ? (
+              <tr>
+                <td className="p-10 text-center text-slate-500" colSpan={6}>
+                  No promotions yet.
+                </td>
+              </tr>
+            ) : (
+              promotions.map((p) => (
+                <tr key={p.id} className="hover:bg-slate-50/60">
+                  <Td className="font-medium text-slate-900">{p.name}</Td>
+                  <Td className="text-slate-600">{TYPE_LABEL[p.type]}</Td>
+                  <Td className="text-slate-700">{describeRule(p)}</Td>
+                  <Td className="text-slate-600">{describeWindow(p)}</Td>
+                  <Td>
+                    <button
+                      className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${
+                        p.active
+                          ? "border-emerald-100 bg-emerald-50 text-emerald-700"
+                          : "border-slate-200 bg-slate-50 text-slate-500"
+                      }`}
+                      onClick={() => toggleActive(p)}
+                      title="Toggle active"
+                    >
+                      {p.active ? "Active" : "Paused"}
+                    </button>
+                  </Td>
+                  <Td className="text-right">
+                    <div className="inline-flex gap-2">
+                      <button
+                        className={BtnSecondary}
+                        onClick={() => openEdit(p)}
+                      >
+                        Edit
+                      </button>
+                      <button className={BtnDanger} onClick={() => remove(p)}>
+                        Delete
+                      </button>
+                    </div>
+                  </Td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {draft ? (
+        <Modal
+          title={draft.id ? "Edit promotion" : "New promotion"}
+          onClose={() => setDraft(null)}
+        >
+          {error ? (
+            <div className="mb-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+
+          <div className="grid grid-cols-12 gap-3">
+            <Field
+              className="col-span-12 sm:col-span-6"
+              label="Name"
+              value={draft.name}
+              onChange={(v) => patchDraft({ name: v })}
+              placeholder="e.g. Weekend biscuit BOGO"
+            />
+            <div className="col-span-12 sm:col-span-4 grid gap-2">
+              <Label>Type</Label>
+              <select
+                className={InputCls}
+                value={draft.type}
+                onChange={(e) =>
+                  patchDraft({ type: e.target.value as PromotionType })
+                }
+                disabled={Boolean(draft.id)}
+              >
+                <option value="bogo">{TYPE_LABEL.bogo}</option>
+                <option value="category">{TYPE_LABEL.category}</option>
+                <option value="combo">{TYPE_LABEL.combo}</option>
+              </select>
+            </div>
+            <div className="col-span-12 sm:col-span-2 grid gap-2">
+              <Label>Active</Label>
+              <label className="flex items-center gap-2 py-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.active}
+                  onChange={(e) => patchDraft({ active: e.target.checked })}
+                />
+                On
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4 rounded-xl border border-slate-200 p-4">
+            {draft.type === "bogo" ? (
+              <div className="grid grid-cols-12 gap-3">
+                <div className="col-span-12 sm:col-span-6 grid gap-2">
+                  <Label>Product</Label>
+                  <select
+                    className={InputCls}
+                    value={draft.productId}
+                    onChange={(e) =>
+                      patchDraft({
+                        productId: e.target.value ? Number(e.target.value) : "",
+                      })
+                    }
+                  >
+                    <option value="">Select product…</option>
+                    {products.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.productName} ({p.barcode})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Field
+                  className="col-span-6 sm:col-span-3"
+                  label="Buy qty"
+                  type="number"
+                  value={draft.buyQty}
+                  onChange={(v) => patchDraft({ buyQty: v })}
+                />
+                <Field
+                  className="col-span-6 sm:col-span-3"
+                  label="Get free qty"
+                  type="number"
+                  value={draft.getQty}
+                  onChange={(v) => patchDraft({ getQty: v })}
+                />
+              </div>
+            ) : draft.type === "category" ? (
+              <div className="grid grid-cols-12 gap-3">
+                <div className="col-span-12 sm:col-span-6 grid gap-2">
+                  <Label>Category</Label>
+                  <select
+                    className={InputCls}
+                    value={draft.categoryId}
+                    onChange={(e) =>
+                      patchDraft({
+                        categoryId: e.target.value
+                          ? Number(e.target.value)
+                          : "",
+                      })
+                    }
+                  >
+                    <option value="">Select category…</option>
+                    {categories.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.categoryName}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-6 sm:col-span-3 grid gap-2">
+                  <Label>Discount</Label>
+                  <select
+                    className={InputCls}
+                    value={draft.discountType}
+                    onChange={(e) =>
+                      patchDraft({
+                        discountType: e.target.value as "flat" | "percent",
+                      })
+                    }
+                  >
+                    <option value="percent">Percent off</option>
+                    <option value="flat">₹ off per item</option>
+                  </select>
+                </div>
+                <Field
+                  className="col-span-6 sm:col-span-3"
+                  label={draft.discountType === "percent" ? "Percent" : "Amount"}
+                  type="number"
+                  value={draft.discountValue}
+                  onChange={(v) => patchDraft({ discountValue: v })}
+                />
+              </div>
+            ) : (
+              <div className="grid gap-3">
+                {draft.items.map((l, idx) => (
+                  <div key={idx} className="grid grid-cols-12 items-end gap-3">
+                    <div className="col-span-8 grid gap-2">
+                      <Label>Product {idx + 1}</Label>
+                      <select
+                        className={InputCls}
+                        value={l.productId}
+                        onChange={(e) =>
+                          updateComboLine(idx, {
+                            productId: e.target.value
+                              ? Number(e.target.value)
+                              : "",
+                          })
+                        }
+                      >
+                        <option value="">Select product…</option>
+                        {products.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.productName} · {fmtINR(p.mrp)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Field
+                      className="col-span-2"
+                      label="Qty"
+                      type="number"
+                      value={l.quantity}
+                      onChange={(v) => updateComboLine(idx, { quantity: v })}
+                    />
+                    <div className="col-span-2">
+                      <button
+                        className={BtnSecondary}
+                        onClick={() =>
+                          patchDraft({
+                            items: draft.items.filter((_, i) => i !== idx),
+                          })
+                        }
+                        disabled={draft.items.length <= 2}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-end justify-between gap-3">
+                  <button
+                    className={BtnSecondary}
+                    onClick={() =>
+                      patchDraft({
+                        items: [
+                          ...draft.items,
+                          { productId: "", quantity: "1" },
+                        ],
+                      })
+                    }
+                  >
+                    Add product
+                  </button>
+                  <div className="flex items-end gap-3">
+                    <div className="pb-2 text-xs text-slate-500">
+                      Regular price {fmtINR(comboRegular)}
+                    </div>
+                    <Field
+                      label="Combo price"
+                      type="number"
+                      value={draft.comboPrice}
+                      onChange={(v) => patchDraft({ comboPrice: v })}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-4 grid grid-cols-12 gap-3">
+            <Field
+              className="col-span-6 sm:col-span-3"
+              label="From date"
+              type="date"
+              value={draft.startDate}
+              onChange={(v) => patchDraft({ startDate: v })}
+            />
+            <Field
+              className="col-span-6 sm:col-span-3"
+              label="To date"
+              type="date"
+              value={draft.endDate}
+              onChange={(v) => patchDraft({ endDate: v })}
+            />
+            <Field
+              className="col-span-6 sm:col-span-3"
+              label="Happy hour from"
+              type="time"
+              value={draft.startTime}
+              onChange={(v) => patchDraft({ startTime: v })}
+            />
+            <Field
+              className="col-span-6 sm:col-span-3"
+              label="Happy hour to"
+              type="time"
+              value={draft.endTime}
+              onChange={(v) => patchDraft({ endTime: v })}
+            />
+            <div className="col-span-12 grid gap-2">
+              <Label>Days (none selected = every day)</Label>
+              <div className="flex flex-wrap gap-2">
+                {DAYS.map((d, i) => (
+                  <label
+                    key={d}
+                    className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={draft.days.includes(i)}
+                      onChange={(e) =>
+                        patchDraft({
+                          days: e.target.checked
+                            ? [...draft.days, i]
+                            : draft.days.filter((x) => x !== i),
+                        })
+                      }
+                    />
+                    {d}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button className={BtnSecondary} onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+            <button className={BtnPrimary} onClick={save} disabled={saving}>
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
+
+function Modal({
+  title,
+  children,
+  onClose,
+}: React.PropsWithChildren<{ title: string; onClose: () => void }>) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3 border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-900">{title}</div>
+          <button className={BtnSecondary} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="p-4">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+function Th({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <th
+      className={`px-4 py-3 text-xs font-semibold uppercase tracking-wide ${className}`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function Td({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return <td className={`px-4 py-3 ${className}`}>{children}</td>;
+}
+
+function Label({ children }: React.PropsWithChildren) {
+  return <div className="text-xs font-medium text-slate-600">{children}</div>;
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  placeholder,
+  className = "",
+  type = "text",
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  type?: string;
+}) {
+  return (
+    <div className={`${className} grid gap-2`}>
+      <Label>{label}</Label>
+      <input
+        className={InputCls}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        type={type}
+      />
+    </div>
+  );
+}
+
+const InputCls =
+  "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-slate-300";
+const BtnPrimary =
+  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50";
+const BtnSecondary =
+  "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50";
+const BtnDanger =
+  "rounded-lg bg-rose-600 px-4 py-2 text-sm font-medium text-white hover:bg-rose-700";
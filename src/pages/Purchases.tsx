@@ -0,0 +1,1044 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+type User = { id: number; name: string; role: "admin" | "staff" | "manager" };
+
+type SupplierRow = { id: number; supplierName: string };
+
+type ProductRow = {
+  id: number;
+  barcode: string;
+  productName: string;
+  quantity: number;
+  cost: number;
+  unit: string;
+};
+
+type PurchaseOrderLine = {
+  id: number;
+  purchaseOrderId: number;
+  productId: number;
+  productName: string | null;
+  barcode: string | null;
+  quantity: number;
+  unitCost: number;
+  receivedQty: number;
+};
+
+type PurchaseOrderStatus = "open" | "partial" | "received" | "cancelled";
+
+type PurchaseOrderRow = {
+  id: number;
+  poNo: string;
+  supplierId: number;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  orderDate: string | null;
+  expectedDate: string | null;
+  notes: string | null;
+  items: PurchaseOrderLine[];
+  totalAmount: number;
+};
+
+type GrnRow = {
+  id: number;
+  grnNo: string;
+  purchaseOrderId: number | null;
+  poNo: string | null;
+  supplierName: string;
+  invoiceNo: string | null;
+  totalAmount: number;
+  receivedDate: string | null;
+  items: Array<{
+    id: number;
+    productName: string | null;
+    quantity: number;
+    unitCost: number;
+    amount: number;
+  }>;
+};
+
+type DraftLine = {
+  productId: number | "";
+  qty: string;
+  unitCost: string;
+  batchNo: string;
+  expiryDate: string; // yyyy-mm-dd
+};
+
+type ReceiveLine = {
+  purchaseOrderItemId: number;
+  productId: number;
+  productName: string;
+  pending: number;
+  qty: string;
+  unitCost: string;
+  batchNo: string;
+  expiryDate: string; // yyyy-mm-dd
+};
+
+type Tab = "orders" | "grns";
+
+function fmtINR(n: number) {
+  return `₹${Number(n || 0).toFixed(2)}`;
+}
+
+function fmtDate(v: string | null) {
+  return v ? new Date(v).toLocaleDateString() : "—";
+}
+
+const emptyLine = (): DraftLine => ({
+  productId: "",
+  qty: "1",
+  unitCost: "",
+  batchNo: "",
+  expiryDate: "",
+});
+
+function isoOrNull(date: string) {
+  return date ? new Date(date).toISOString() : null;
+}
+
+export default function PurchasesPage({ user }: { user: User | null }) {
+  const navigate = useNavigate();
+  const [tab, setTab] = useState<Tab>("orders");
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [orders, setOrders] = useState<PurchaseOrderRow[]>([]);
+  const [grns, setGrns] = useState<GrnRow[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierRow[]>([]);
+  const [products, setProducts] = useState<ProductRow[]>([]);
+
+  const [statusFilter, setStatusFilter] = useState<
+    PurchaseOrderStatus | "all"
+  >("all");
+
+  // New PO / direct GRN (same line editor)
+  const [draftMode, setDraftMode] = useState<"po" | "grn" | null>(null);
+  const [draftSupplierId, setDraftSupplierId] = useState<number | "">("");
+  const [draftExpected, setDraftExpected] = useState("");
+  const [draftNotes, setDraftNotes] = useState("");
+  const [draftInvoiceNo, setDraftInvoiceNo] = useState("");
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([emptyLine()]);
+
+  // Receive against PO
+  const [receiving, setReceiving] = useState<PurchaseOrderRow | null>(null);
+  const [receiveLines, setReceiveLines] = useState<ReceiveLine[]>([]);
+  const [receiveInvoiceNo, setReceiveInvoiceNo] = useState("");
+
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [poRes, grnRes, supRes, prodRes] = await Promise.all([
+        window.api?.invoke("purchases:getAll"),
+        window.api?.invoke("grn:getAll"),
+        window.api?.getSuppliers(),
+        window.api?.getProducts(),
+      ]);
+
+      if (!poRes?.success)
+        throw new Error(poRes?.error ?? "Failed to load purchase orders");
+      if (!grnRes?.success)
+        throw new Error(grnRes?.error ?? "Failed to load goods received");
+      if (!supRes?.success)
+        throw new Error(supRes?.error ?? "Failed to load suppliers");
+      if (!prodRes?.success)
+        throw new Error(prodRes?.error ?? "Failed to load products");
+
+      setOrders((poRes.orders ?? []) as PurchaseOrderRow[]);
+      setGrns((grnRes.notes ?? []) as GrnRow[]);
+      setSuppliers((supRes.suppliers ?? []) as SupplierRow[]);
+      setProducts((prodRes.products ?? []) as ProductRow[]);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const productById = useMemo(() => {
+    const m = new Map<number, ProductRow>();
+    for (const p of products) m.set(p.id, p);
+    return m;
+  }, [products]);
+
+  const filteredOrders = useMemo(
+    () =>
+      statusFilter === "all"
+        ? orders
+        : orders.filter((o) => o.status === statusFilter),
+    [orders, statusFilter],
+  );
+
+  const draftTotal = useMemo(
+    () =>
+      draftLines.reduce(
+        (acc, l) => acc + Number(l.qty || 0) * Number(l.unitCost || 0),
+        0,
+      ),
+    [draftLines],
+  );
+
+  const receiveTotal = useMemo(
+    () =>
+      receiveLines.reduce(
+        (acc, l) => acc + Number(l.qty || 0) * Number(l.unitCost || 0),
+        0,
+      ),
+    [receiveLines],
+  );
+
+  const openDraft = (mode: "po" | "grn") => {
+    setDraftMode(mode);
+    setDraftSupplierId("");
+    setDraftExpected("");
+    setDraftNotes("");
+    setDraftInvoiceNo("");
+    setDraftLines([emptyLine()]);
+    setError(null);
+  };
+
+  const updateDraftLine = (idx: number, patch: Partial<DraftLine>) => {
+    setDraftLines((prev) =>
+      prev.map((l, i) => (i === idx ? { ...l, ...patch } : l)),
+    );
+  };
+
+  const pickDraftProduct = (idx: number, productId: number | "") => {
+    const p = productId === "" ? null : productById.get(productId);
+    updateDraftLine(idx, {
+      productId,
+      unitCost: p ? String(p.cost ?? 0) : "",
+    });
+  };
+
+  const saveDraft = async () => {
+    if (!user || !draftMode) return;
+    if (draftSupplierId === "") {
+      setError("Select a supplier");
+      return;
+    }
+
+    const items = draftLines
+      .filter((l) => l.productId !== "" && Number(l.qty) > 0)
+      .map((l) => ({
+        productId: Number(l.productId),
+        qty: Number(l.qty),
+        unitCost: Number(l.unitCost || 0),
+        batchNo: l.batchNo.trim() || null,
+        expiryDate: isoOrNull(l.expiryDate),
+      }));
+    if (items.length === 0) {
+      setError("Add at least one product");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res =
+        draftMode === "po"
+          ? await window.api?.invoke("purchases:create", {
+              supplierId: draftSupplierId,
+              createdBy: user.id,
+              expectedDate: isoOrNull(draftExpected),
+              notes: draftNotes,
+              items,
+            })
+          : await window.api?.invoke("grn:create", {
+              supplierId: draftSupplierId,
+              createdBy: user.id,
+              invoiceNo: draftInvoiceNo,
+              items,
+            });
+
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+
+      setDraftMode(null);
+      if (draftMode === "grn") setTab("grns");
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReceive = (po: PurchaseOrderRow) => {
+    setReceiving(po);
+    setReceiveInvoiceNo("");
+    setReceiveLines(
+      po.items
+        .map((it) => {
+          const pending = Number(it.quantity) - Number(it.receivedQty);
+          return {
+            purchaseOrderItemId: it.id,
+            productId: it.productId,
+            productName: it.productName ?? `#${it.productId}`,
+            pending,
+            qty: String(Math.max(0, pending)),
+            unitCost: String(it.unitCost),
+            batchNo: "",
+            expiryDate: "",
+          };
+        })
+        .filter((l) => l.pending > 0),
+    );
+    setError(null);
+  };
+
+  const saveReceive = async () => {
+    if (!user || !receiving) return;
+
+    const items = receiveLines
+      .filter((l) => Number(l.qty) > 0)
+      .map((l) => ({
+        purchaseOrderItemId: l.purchaseOrderItemId,
+        productId: l.productId,
+        qty: Number(l.qty),
+        unitCost: Number(l.unitCost || 0),
+        batchNo: l.batchNo.trim() || null,
+        expiryDate: isoOrNull(l.expiryDate),
+      }));
+    if (items.length === 0) {
+      setError("Enter a quantity for at least one line");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("grn:create", {
+        purchaseOrderId: receiving.id,
+        createdBy: user.id,
+        invoiceNo: receiveInvoiceNo,
+        items,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to receive");
+
+      setReceiving(null);
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Queues a label per unit received (per line for loose goods)
+  const queueLabels = async (g: GrnRow) => {
+    setError(null);
+    try {
+      const res = await window.api?.invoke("labels:add", { grnId: g.id });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to queue labels");
+      navigate("/labels");
+    } catch (e) {
+      setError(String(e));
+    }
+  };
+
+  const cancelOrder = async (po: PurchaseOrderRow) => {
+    if (!confirm(`Cancel ${po.poNo}?`)) return;
+
+    setError(null);
+    try {
+      const res = await window.api?.invoke("purchases:cancel", { id: po.id });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to cancel");
+      await refresh();
+    } catch (e) {
+      setError(String(e));
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">Purchases</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Raise purchase orders and receive stock from suppliers.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button className={BtnSecondary} onClick={refresh} disabled={loading}>
+            Refresh
+          </button>
+          <button className={BtnSecondary} onClick={() => openDraft("grn")}>
+            Receive without PO
+          </button>
+          <button className={BtnPrimary} onClick={() => openDraft("po")}>
+            New Purchase Order
+          </button>
+        </div>
+      </div>
+
+      {error && !draftMode && !receiving ? (
+        <div className="mt-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-5 rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="flex flex-col gap-3 border-b border-slate-100 p-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex gap-2">
+            <TabBtn active={tab === "orders"} onClick={() => setTab("orders")}>
+              Purchase orders ({orders.length})
+            </TabBtn>
+            <TabBtn active={tab === "grns"} onClick={() => setTab("grns")}>
+              Goods received ({grns.length})
+            </TabBtn>
+          </div>
+
+          {tab === "orders" ? (
+            <select
+              className={InputCls}
+              value={statusFilter}
+              onChange={(e) =>
+                setStatusFilter(e.target.value as PurchaseOrderStatus | "all")
+              }
+            >
+              <option value="all">All statuses</option>
+              <option value="open">Open</option>
+              <option value="partial">Partially received</option>
+              <option value="received">Received</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          ) : null}
+        </div>
+
+        <div className="overflow-x-auto">
+          {tab === "orders" ? (
+            <table className="w-full min-w-[900px] text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>PO #</Th>
+                  <Th>Supplier</Th>
+                  <Th>Ordered</Th>
+                  <Th>Expected</Th>
+                  <Th>Items</Th>
+                  <Th className="text-right">Value</Th>
+                  <Th>Status</Th>
+                  <Th className="text-right">Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {loading ? (
+                  <tr>
+                    <td className="p-10 text-center text-slate-500" colSpan={8}>
+                      Loading…
+                    </td>
+                  </tr>
+                ) : filteredOrders.length === 0 ? (
+                  <tr>
+                    <td className="p-10 text-center text-slate-500" colSpan={8}>
+                      No purchase orders.
+                    </td>
+                  </tr>
+                ) : (
+                  filteredOrders.map((po) => {
+                    const canReceive =
+                      po.status === "open" || po.status === "partial";
+                    return (
+                      <tr key={po.id} className="hover:bg-slate-50/60">
+                        <Td className="font-mono text-slate-800">{po.poNo}</Td>
+                        <Td className="font-medium text-slate-900">
+                          {po.supplierName}
+                        </Td>
+                        <Td className="text-slate-600">
+                          {fmtDate(po.orderDate)}
+                        </Td>
+                        <Td className="text-slate-600">
+                          {fmtDate(po.expectedDate)}
+                        </Td>
+                        <Td className="text-slate-600">
+                          {po.items.map((it) => (
+                            <div key={it.id}>
+                              {it.productName ?? `#${it.productId}`} ·{" "}
+                              <span className="tabular-nums">
+                                {it.receivedQty}/{it.quantity}
+                              </span>
+                            </div>
+                          ))}
+                        </Td>
+                        <Td className="text-right tabular-nums text-slate-800">
+                          {fmtINR(po.totalAmount)}
+                        </Td>
+                        <Td>
+                          <PoStatusBadge status={po.status} />
+                        </Td>
+                        <Td className="text-right">
+                          <div className="inline-flex gap-2">
+                            <button
+                              className={BtnPrimary}
+                              onClick={() => openReceive(po)}
+                              disabled={!canReceive}
+                            >
+                              Receive
+                            </button>
+                            {po.status === "open" ? (
+                              <button
+                                className={BtnDanger}
+                                onClick={() => cancelOrder(po)}
+                              >
+                                Cancel
+                              </button>
+                            ) : null}
+                          </div>
+                        </Td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full min-w-[900px] text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>GRN #</Th>
+                  <Th>Received</Th>
+                  <Th>Supplier</Th>
+                  <Th>PO #</Th>
+                  <Th>Invoice #</Th>
+                  <Th>Items</Th>
+                  <Th className="text-right">Value</Th>
+                  <Th className="text-right">Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {loading ? (
+                  <tr>
+                    <td className="p-10 text-center text-slate-500" colSpan={8}>
+                      Loading…
+                    </td>
+                  </tr>
+                ) : grns.length === 0 ? (
+                  <tr>
+                    <td className="p-10 text-center text-slate-500" colSpan={8}>
+                      No goods received yet.
+                    </td>
+                  </tr>
+                ) : (
+                  grns.map((g) => (
+                    <tr key={g.id} className="hover:bg-slate-50/60">
+                      <Td className="font-mono text-slate-800">{g.grnNo}</Td>
+                      <Td className="text-slate-600">
+                        {fmtDate(g.receivedDate)}
+                      </Td>
+                      <Td className="font-medium text-slate-900">
+                        {g.supplierName}
+                      </Td>
+                      <Td className="font-mono text-slate-600">
+                        {g.poNo ?? "—"}
+                      </Td>
+                      <Td className="text-slate-600">{g.invoiceNo ?? "—"}</Td>
+                      <Td className="text-slate-600">
+                        {g.items.map((it) => (
+                          <div key={it.id}>
+                            {it.productName ?? "—"} ·{" "}
+                            <span className="tabular-nums">
+                              {it.quantity} × {fmtINR(it.unitCost)}
+                            </span>
+                          </div>
+                        ))}
+                      </Td>
+                      <Td className="text-right tabular-nums text-slate-800">
+                        {fmtINR(g.totalAmount)}
+                      </Td>
+                      <Td className="text-right">
+                        <button
+                          className={BtnSecondary}
+                          onClick={() => queueLabels(g)}
+                        >
+                          Labels
+                        </button>
+                      </Td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {draftMode ? (
+        <Modal
+          title={
+            draftMode === "po" ? "New purchase order" : "Receive without PO"
+          }
+          onClose={() => setDraftMode(null)}
+        >
+          {error ? (
+            <div className="mb-3 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+
+          <div className="grid grid-cols-12 gap-3">
+            <div className="col-span-12 sm:col-span-6 grid gap-2">
+              <Label>Supplier</Label>
+              <select
+                className={InputCls}
+                value={draftSupplierId === "" ? "" : String(draftSupplierId)}
+                onChange={(e) =>
+                  setDraftSupplierId(
+                    e.target.value === "" ? "" : Number(e.target.value),
+                  )
+                }
+              >
+                <option value="">Select supplier</option>
+                {suppliers.map((s) => (
+                  <option key={s.id} value={String(s.id)}>
+                    {s.supplierName}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {draftMode === "po" ? (
+              <>
+                <Field
+                  className="col-span-12 sm:col-span-6"
+                  label="Expected delivery"
+                  type="date"
+                  value={draftExpected}
+                  onChange={setDraftExpected}
+                />
+                <Field
+                  className="col-span-12"
+                  label="Notes"
+                  value={draftNotes}
+                  onChange={setDraftNotes}
+                />
+              </>
+            ) : (
+              <Field
+                className="col-span-12 sm:col-span-6"
+                label="Supplier invoice #"
+                value={draftInvoiceNo}
+                onChange={setDraftInvoiceNo}
+              />
+            )}
+          </div>
+
+          <div className="mt-4 overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>Product</Th>
+                  <Th className="text-right">Qty</Th>
+                  <Th className="text-right">Unit cost</Th>
+                  {draftMode === "grn" ? (
+                    <>
+                      <Th>Batch</Th>
+                      <Th>Expiry</Th>
+                    </>
+                  ) : null}
+                  <Th className="text-right">Amount</Th>
+                  <Th />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {draftLines.map((l, idx) => (
+                  <tr key={idx}>
+                    <Td>
+                      <select
+                        className={`${InputCls} w-full`}
+                        value={l.productId === "" ? "" : String(l.productId)}
+                        onChange={(e) =>
+                          pickDraftProduct(
+                            idx,
+                            e.target.value === "" ? "" : Number(e.target.value),
+                          )
+                        }
+                      >
+                        <option value="">Select product</option>
+                        {products.map((p) => (
+                          <option key={p.id} value={String(p.id)}>
+                            {p.productName} ({p.barcode})
+                          </option>
+                        ))}
+                      </select>
+                    </Td>
+                    <Td className="text-right">
+                      <input
+                        className={`${InputCls} w-24 text-right`}
+                        type="number"
+                        min={0}
+                        value={l.qty}
+                        onChange={(e) =>
+                          updateDraftLine(idx, { qty: e.target.value })
+                        }
+                      />
+                    </Td>
+                    <Td className="text-right">
+                      <input
+                        className={`${InputCls} w-28 text-right`}
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={l.unitCost}
+                        onChange={(e) =>
+                          updateDraftLine(idx, { unitCost: e.target.value })
+                        }
+                      />
+                    </Td>
+                    {draftMode === "grn" ? (
+                      <>
+                        <Td>
+                          <input
+                            className={`${InputCls} w-28`}
+                            value={l.batchNo}
+                            placeholder="Optional"
+                            onChange={(e) =>
+                              updateDraftLine(idx, { batchNo: e.target.value })
+                            }
+                          />
+                        </Td>
+                        <Td>
+                          <input
+                            className={InputCls}
+                            type="date"
+                            value={l.expiryDate}
+                            onChange={(e) =>
+                              updateDraftLine(idx, {
+                                expiryDate: e.target.value,
+                              })
+                            }
+                          />
+                        </Td>
+                      </>
+                    ) : null}
+                    <Td className="text-right tabular-nums text-slate-800">
+                      {fmtINR(Number(l.qty || 0) * Number(l.unitCost || 0))}
+                    </Td>
+                    <Td className="text-right">
+                      <button
+                        className={BtnSecondary}
+                        onClick={() =>
+                          setDraftLines((prev) =>
+                            prev.length === 1
+                              ? [emptyLine()]
+                              : prev.filter((_, i) => i !== idx),
+                          )
+                        }
+                      >
+                        Remove
+                      </button>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 flex items-center justify-between">
+            <button
+              className={BtnSecondary}
+              onClick={() => setDraftLines((prev) => [...prev, emptyLine()])}
+            >
+              Add line
+            </button>
+            <div className="text-sm font-semibold text-slate-900">
+              Total: {fmtINR(draftTotal)}
+            </div>
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              className={BtnSecondary}
+              onClick={() => setDraftMode(null)}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button className={BtnPrimary} onClick={saveDraft} disabled={saving}>
+              {saving
+                ? "Saving…"
+                : draftMode === "po"
+                  ? "Create PO"
+                  : "Receive stock"}
+            </button>
+          </div>
+        </Modal>
+      ) : null}
+
+      {receiving ? (
+        <Modal
+          title={`Receive: ${receiving.poNo} · ${receiving.supplierName}`}
+          onClose={() => setReceiving(null)}
+        >
+          {error ? (
+            <div className="mb-3 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+
+          <Field
+            label="Supplier invoice #"
+            value={receiveInvoiceNo}
+            onChange={setReceiveInvoiceNo}
+          />
+
+          <div className="mt-4 overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <Th>Product</Th>
+                  <Th className="text-right">Pending</Th>
+                  <Th className="text-right">Receiving</Th>
+                  <Th className="text-right">Unit cost</Th>
+                  <Th>Batch</Th>
+                  <Th>Expiry</Th>
+                  <Th className="text-right">Amount</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {receiveLines.map((l, idx) => (
+                  <tr key={l.purchaseOrderItemId}>
+                    <Td className="font-medium text-slate-900">
+                      {l.productName}
+                    </Td>
+                    <Td className="text-right tabular-nums text-slate-600">
+                      {l.pending}
+                    </Td>
+                    <Td className="text-right">
+                      <input
+                        className={`${InputCls} w-24 text-right`}
+                        type="number"
+                        min={0}
+                        max={l.pending}
+                        value={l.qty}
+                        onChange={(e) =>
+                          setReceiveLines((prev) =>
+                            prev.map((x, i) =>
+                              i === idx ? { ...x, qty: e.target.value } : x,
+                            ),
+                          )
+                        }
+                      />
+                    </Td>
+                    <Td className="text-right">
+                      <input
+                        className={`${InputCls} w-28 text-right`}
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={l.unitCost}
+                        onChange={(e) =>
+                          setReceiveLines((prev) =>
+                            prev.map((x, i) =>
+                              i === idx
+                                ? { ...x, unitCost: e.target.value }
+                                : x,
+                            ),
+                          )
+                        }
+                      />
+                    </Td>
+                    <Td>
+                      <input
+                        className={`${InputCls} w-28`}
+                        value={l.batchNo}
+                        placeholder="Optional"
+                        onChange={(e) =>
+                          setReceiveLines((prev) =>
+                            prev.map((x, i) =>
+                              i === idx ? { ...x, batchNo: e.target.value } : x,
+                            ),
+                          )
+                        }
+                      />
+                    </Td>
+                    <Td>
+                      <input
+                        className={InputCls}
+                        type="date"
+                        value={l.expiryDate}
+                        onChange={(e) =>
+                          setReceiveLines((prev) =>
+                            prev.map((x, i) =>
+                              i === idx
+                                ? { ...x, expiryDate: e.target.value }
+                                : x,
+                            ),
+                          )
+                        }
+                      />
+                    </Td>
+                    <Td className="text-right tabular-nums text-slate-800">
+                      {fmtINR(Number(l.qty || 0) * Number(l.unitCost || 0))}
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 text-right text-sm font-semibold text-slate-900">
+            Total: {fmtINR(receiveTotal)}
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              className={BtnSecondary}
+              onClick={() => setReceiving(null)}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              className={BtnPrimary}
+              onClick={saveReceive}
+              disabled={saving}
+            >
+              {saving ? "Saving…" : "Post GRN"}
+            </button>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
+
+function PoStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const cls =
+    status === "received"
+      ? "border-emerald-100 bg-emerald-50 text-emerald-700"
+      : status === "partial"
+        ? "border-amber-100 bg-amber-50 text-amber-700"
+        : status === "cancelled"
+          ? "border-slate-200 bg-slate-50 text-slate-500"
+          : "border-sky-100 bg-sky-50 text-sky-700";
+  const label =
+    status === "partial"
+      ? "Partial"
+      : status.charAt(0).toUpperCase() + status.slice(1);
+
+  return (
+    <span
+      className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}
+    >
+      {label}
+    </span>
+  );
+}
+
+function TabBtn({
+  active,
+  children,
+  onClick,
+}: React.PropsWithChildren<{ active: boolean; onClick: () => void }>) {
+  return (
+    <button
+      className={`rounded-lg px-3 py-2 text-sm font-medium ${
+        active
+          ? "bg-slate-900 text-white"
+          : "border border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+      }`}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Modal({
+  title,
+  children,
+  onClose,
+}: React.PropsWithChildren<{ title: string; onClose: () => void }>) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="max-h-[90vh] w-full max-w-4xl overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3 border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-900">{title}</div>
+          <button className={BtnSecondary} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="p-4">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+function Th({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <th
+      className={`px-4 py-3 text-xs font-semibold uppercase tracking-wide ${className}`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function Td({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return <td className={`px-4 py-3 ${className}`}>{children}</td>;
+}
+
+function Label({ children }: React.PropsWithChildren) {
+  return <div className="text-xs font-medium text-slate-600">{children}</div>;
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  placeholder,
+  className = "",
+  type = "text",
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  type?: string;
+}) {
+  return (
+    <div className={`${className} grid gap-2`}>
+      <Label>{label}</Label>
+      <input
+        className={InputCls}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        type={type}
+      />
+    </div>
+  );
+}
+
+const InputCls =
+  "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-slate-300";
+const BtnPrimary =
+  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50";
+const BtnSecondary =
+  "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50";
+const BtnDanger =
+  "rounded-lg bg-rose-600 px-4 py-2 text-sm font-medium text-white hover:bg-rose-700";
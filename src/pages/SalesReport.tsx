@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { usePermissions } from "../lib/Permissions";
 
 type CategoryRow = { id: number; categoryName: string };
 
@@ -15,6 +16,17 @@ type ReceiptRow = {
   discount: number | null;
   paymentSplit: string;
   receiptDate: string | Date | null;
+  invoiceNo?: string | null;
+};
+
+type CreditNoteRow = {
+  id: number;
+  creditNoteNo: string;
+  receiptId: number;
+  totalAmount: number;
+  tax: number;
+  refundSplit: string;
+  noteDate: string | Date | null;
 };
 
 type LogRow = {
@@ -29,9 +41,42 @@ type LogRow = {
   datetime: string | Date;
 };
 
+type ShiftRow = {
+  id: number;
+  status: "open" | "closed";
+  openedByName: string | null;
+  openedAt: string | Date;
+  closedAt: string | Date | null;
+  expectedCash: number | null;
+  countedCash: number | null;
+  variance: number | null;
+};
+
+type GstRateRow = {
+  rate: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+};
+
+type GstReturns = {
+  month: string;
+  storeGstin: string | null;
+  rateSummary: GstRateRow[];
+  hsnSummary: Array<
+    GstRateRow & { hsn: string; desc: string; uqc: string; qty: number; val: number }
+  >;
+  b2bInvoiceCount: number;
+  invoiceCount: number;
+  creditNoteCount: number;
+  gstr1: { gstin: string; fp: string } & Record<string, unknown>;
+  warnings: string[];
+};
+
 type Preset = "today" | "week" | "month" | "custom";
 
-type PaymentFilter = "all" | "cash" | "upi" | "card";
+type PaymentFilter = "all" | "cash" | "upi" | "card" | "credit";
 
 function fmtINR(n: number) {
   return new Intl.NumberFormat("en-IN", {
@@ -57,6 +102,7 @@ function parsePaymentSplit(raw: string): {
   cashAmt: number;
   upiAmt: number;
   cardAmt: number;
+  creditAmt: number;
 } {
   try {
     const p = JSON.parse(raw ?? "{}");
@@ -64,13 +110,15 @@ function parsePaymentSplit(raw: string): {
       cashAmt: Number(p.cashAmt ?? 0),
       upiAmt: Number(p.upiAmt ?? 0),
       cardAmt: Number(p.cardAmt ?? 0),
+      creditAmt: Number(p.creditAmt ?? 0),
     };
   } catch {
-    return { cashAmt: 0, upiAmt: 0, cardAmt: 0 };
+    return { cashAmt: 0, upiAmt: 0, cardAmt: 0, creditAmt: 0 };
   }
 }
 
 export default function SalesReportPage() {
+  const { can } = usePermissions();
   const [preset, setPreset] = useState<Preset>("week");
   const [from, setFrom] = useState<string>("");
   const [to, setTo] = useState<string>("");
@@ -80,8 +128,10 @@ export default function SalesReportPage() {
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reprinting, setReprinting] = useState<number | null>(null);
 
   const [receipts, setReceipts] = useState<ReceiptRow[]>([]);
+  const [returns, setReturns] = useState<CreditNoteRow[]>([]);
   const [logs, setLogs] = useState<LogRow[]>([]);
   const [products, setProducts] = useState<ProductRow[]>([]);
   const [categories, setCategories] = useState<CategoryRow[]>([]);
@@ -129,6 +179,7 @@ export default function SalesReportPage() {
       if (!res?.success) throw new Error(res?.error ?? "Failed to load report");
 
       setReceipts((res.receipts ?? []) as ReceiptRow[]);
+      setReturns((res.returns ?? []) as CreditNoteRow[]);
       setLogs((res.logs ?? []) as LogRow[]);
       setProducts((res.products ?? []) as ProductRow[]);
       setCategories((res.categories ?? []) as CategoryRow[]);
@@ -162,14 +213,29 @@ export default function SalesReportPage() {
       const p = parsePaymentSplit(r.paymentSplit);
       if (paymentFilter === "cash") return p.cashAmt > 0;
       if (paymentFilter === "upi") return p.upiAmt > 0;
+      if (paymentFilter === "credit") return p.creditAmt > 0;
       return p.cardAmt > 0;
     });
   }, [receipts, paymentFilter]);
 
+  const filteredReturns = useMemo(() => {
+    if (paymentFilter === "all") return returns;
+
+    return returns.filter((n) => {
+      const p = parsePaymentSplit(n.refundSplit);
+      if (paymentFilter === "cash") return p.cashAmt > 0;
+      if (paymentFilter === "upi") return p.upiAmt > 0;
+      if (paymentFilter === "credit") return p.creditAmt > 0;
+      return p.cardAmt > 0;
+    });
+  }, [returns, paymentFilter]);
+
   const receiptIdSet = useMemo(() => new Set(filteredReceipts.map((r) => r.id)), [filteredReceipts]);
 
   const filteredLogs = useMemo(() => {
-    const base = logs.filter((l) => l.type === "sale" && l.receiptId != null);
+    const base = logs.filter(
+      (l) => (l.type === "sale" || l.type === "return") && l.receiptId != null
+    );
 
     const byPayment = paymentFilter === "all" ? base : base.filter((l) => receiptIdSet.has(Number(l.receiptId)));
 
@@ -179,24 +245,35 @@ export default function SalesReportPage() {
   }, [logs, paymentFilter, receiptIdSet, categoryFilter, productById]);
 
   const metrics = useMemo(() => {
-    const totalSales =
+    const saleLogs = filteredLogs.filter((l) => l.type === "sale");
+    const returnLogs = filteredLogs.filter((l) => l.type === "return");
+
+    const grossSales =
       categoryFilter === "all"
         ? filteredReceipts.reduce((acc, r) => acc + Number(r.totalAmount || 0), 0)
-        : filteredLogs.reduce(
-            (acc, l) => acc + Number(l.amount || 0) - Number(l.discount || 0) + Number(l.tax || 0),
-            0
-          );
+        : saleLogs.reduce((acc, l) => acc + logNetAmount(l), 0);
+
+    const returnsTotal =
+      categoryFilter === "all"
+        ? filteredReturns.reduce((acc, n) => acc + Number(n.totalAmount || 0), 0)
+        : returnLogs.reduce((acc, l) => acc + logNetAmount(l), 0);
+
+    const totalSales = grossSales - returnsTotal;
 
     const transactionCount =
       categoryFilter === "all"
         ? filteredReceipts.length
-        : new Set(filteredLogs.map((l) => Number(l.receiptId))).size;
+        : new Set(saleLogs.map((l) => Number(l.receiptId))).size;
 
     const avgTransactionValue = transactionCount > 0 ? totalSales / transactionCount : 0;
 
     const qtyByProduct = new Map<number, number>();
     for (const l of filteredLogs) {
-      qtyByProduct.set(l.productId, (qtyByProduct.get(l.productId) ?? 0) + Number(l.quantity || 0));
+      const sign = l.type === "return" ? -1 : 1;
+      qtyByProduct.set(
+        l.productId,
+        (qtyByProduct.get(l.productId) ?? 0) + sign * Number(l.quantity || 0)
+      );
     }
 
     const topProducts = Array.from(qtyByProduct.entries())
@@ -214,13 +291,29 @@ export default function SalesReportPage() {
         acc.cash += p.cashAmt;
         acc.upi += p.upiAmt;
         acc.card += p.cardAmt;
+        acc.credit += p.creditAmt;
         return acc;
       },
-      { cash: 0, upi: 0, card: 0 }
+      { cash: 0, upi: 0, card: 0, credit: 0 }
     );
+    for (const n of filteredReturns) {
+      const p = parsePaymentSplit(n.refundSplit);
+      payments.cash -= p.cashAmt;
+      payments.upi -= p.upiAmt;
+      payments.card -= p.cardAmt;
+      payments.credit -= p.creditAmt;
+    }
 
-    return { totalSales, transactionCount, avgTransactionValue, topProducts, payments };
-  }, [categoryFilter, filteredReceipts, filteredLogs, productById]);
+    return {
+      totalSales,
+      grossSales,
+      returnsTotal,
+      transactionCount,
+      avgTransactionValue,
+      topProducts,
+      payments,
+    };
+  }, [categoryFilter, filteredReceipts, filteredReturns, filteredLogs, productById]);
 
   const salesOverTime = useMemo(() => {
     const bucket = new Map<string, number>();
@@ -235,14 +328,21 @@ export default function SalesReportPage() {
           : dt.toISOString().slice(0, 10);
         bucket.set(key, (bucket.get(key) ?? 0) + Number(r.totalAmount || 0));
       }
+      for (const n of filteredReturns) {
+        const dt = n.noteDate ? new Date(n.noteDate) : new Date();
+        const key = isHourly
+          ? `${String(dt.getHours()).padStart(2, "0")}:00`
+          : dt.toISOString().slice(0, 10);
+        bucket.set(key, (bucket.get(key) ?? 0) - Number(n.totalAmount || 0));
+      }
     } else {
       for (const l of filteredLogs) {
         const dt = new Date(l.datetime);
         const key = isHourly
           ? `${String(dt.getHours()).padStart(2, "0")}:00`
           : dt.toISOString().slice(0, 10);
-        const amount = Number(l.amount || 0) - Number(l.discount || 0) + Number(l.tax || 0);
-        bucket.set(key, (bucket.get(key) ?? 0) + amount);
+        const sign = l.type === "return" ? -1 : 1;
+        bucket.set(key, (bucket.get(key) ?? 0) + sign * logNetAmount(l));
       }
     }
 
@@ -251,65 +351,54 @@ export default function SalesReportPage() {
       : Array.from(bucket.keys()).sort();
 
     return keys.map((k) => ({ day: k, value: bucket.get(k) ?? 0 }));
-  }, [categoryFilter, filteredReceipts, filteredLogs, preset]);
+  }, [categoryFilter, filteredReceipts, filteredReturns, filteredLogs, preset]);
 
   const pieStyle = useMemo(() => {
-    const total = metrics.payments.cash + metrics.payments.upi + metrics.payments.card;
+    const cash = Math.max(0, metrics.payments.cash);
+    const upi = Math.max(0, metrics.payments.upi);
+    const card = Math.max(0, metrics.payments.card);
+    const credit = Math.max(0, metrics.payments.credit);
+    const total = cash + upi + card + credit;
     if (total <= 0) return { background: "conic-gradient(#e2e8f0 0 100%)" } as React.CSSProperties;
 
-    const cashPct = (metrics.payments.cash / total) * 100;
-    const upiPct = (metrics.payments.upi / total) * 100;
+    const cashPct = (cash / total) * 100;
+    const upiPct = (upi / total) * 100;
+    const cardPct = (card / total) * 100;
 
     const a = cashPct;
     const b = cashPct + upiPct;
+    const c = b + cardPct;
 
     return {
-      background: `conic-gradient(#0ea5e9 0 ${a}%, #22c55e ${a}% ${b}%, #f97316 ${b}% 100%)`,
+      background: `conic-gradient(#0ea5e9 0 ${a}%, #22c55e ${a}% ${b}%, #f97316 ${b}% ${c}%, #a855f7 ${c}% 100%)`,
     } as React.CSSProperties;
   }, [metrics.payments]);
 
-  const exportCsv = () => {
-    const rows = filteredReceipts.map((r) => {
-      const p = parsePaymentSplit(r.paymentSplit);
-      return {
-        id: r.id,
-        receiptDate: r.receiptDate ? new Date(r.receiptDate).toISOString() : "",
-        totalAmount: Number(r.totalAmount || 0),
-        tax: Number(r.tax || 0),
-        discount: Number(r.discount || 0),
-        cash: p.cashAmt,
-        upi: p.upiAmt,
-        card: p.cardAmt,
-      };
-    });
+  const reprint = async (id: number) => {
+    setReprinting(id);
+    try {
+      const res = await window.api.invoke("receipts:reprint", { id });
+      if (!res?.success) setError(res?.error ?? "Reprint failed");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setReprinting(null);
+    }
+  };
 
-    const header = Object.keys(rows[0] ?? { id: "" }).join(",");
-    const body = rows
-      .map((r) =>
-        [
-          r.id,
-          r.receiptDate,
-          r.totalAmount,
-          r.tax,
-          r.discount,
-          r.cash,
-          r.upi,
-          r.card,
-        ].join(",")
-      )
-      .join("\n");
-
-    const csv = header + "\n" + body;
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `sales-report_${resolvedRange.from.toISOString().slice(0, 10)}_${resolvedRange.to
-      .toISOString()
-      .slice(0, 10)}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportCsv = async () => {
+    setError(null);
+    try {
+      const res = await window.api?.invoke("reports:exportSales", {
+        from: resolvedRange.from.toISOString(),
+        to: resolvedRange.to.toISOString(),
+        payment: paymentFilter,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Export failed");
+      downloadFile(res.fileName, res.data, "text/csv;charset=utf-8");
+    } catch (e) {
+      setError(String(e));
+    }
   };
 
   return (
@@ -346,6 +435,7 @@ export default function SalesReportPage() {
             <option value="cash">Cash</option>
             <option value="upi">UPI</option>
             <option value="card">Card</option>
+            <option value="credit">Credit (khata)</option>
           </select>
 
           <select
@@ -366,9 +456,11 @@ export default function SalesReportPage() {
           <button className={BtnSecondary} onClick={fetchData} disabled={loading}>
             Refresh
           </button>
-          <button className={BtnPrimary} onClick={exportCsv} disabled={loading || filteredReceipts.length === 0}>
-            Export CSV
-          </button>
+          {can("reports.export") ? (
+            <button className={BtnPrimary} onClick={exportCsv} disabled={loading || filteredReceipts.length === 0}>
+              Export CSV
+            </button>
+          ) : null}
         </div>
       </div>
 
@@ -379,8 +471,12 @@ export default function SalesReportPage() {
       ) : null}
 
       {/* Metrics */}
-      <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
-        <Kpi title="Total sales" value={loading ? "…" : fmtINR(metrics.totalSales)} />
+      <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5">
+        <Kpi title="Net sales" value={loading ? "…" : fmtINR(metrics.totalSales)} />
+        <Kpi
+          title={`Returns (gross ${fmtINR(metrics.grossSales)})`}
+          value={loading ? "…" : fmtINR(metrics.returnsTotal)}
+        />
         <Kpi title="Transactions" value={loading ? "…" : String(metrics.transactionCount)} />
         <Kpi title="Avg transaction" value={loading ? "…" : fmtINR(metrics.avgTransactionValue)} />
         <Kpi title="Top product" value={loading ? "…" : metrics.topProducts[0]?.name ?? "—"} />
@@ -409,6 +505,7 @@ export default function SalesReportPage() {
               <LegendRow color="#0ea5e9" label="Cash" value={fmtINR(metrics.payments.cash)} />
               <LegendRow color="#22c55e" label="UPI" value={fmtINR(metrics.payments.upi)} />
               <LegendRow color="#f97316" label="Card" value={fmtINR(metrics.payments.card)} />
+              <LegendRow color="#a855f7" label="Credit" value={fmtINR(metrics.payments.credit)} />
             </div>
           </div>
         </div>
@@ -443,30 +540,40 @@ export default function SalesReportPage() {
             <table className="w-full min-w-[520px] text-left text-sm">
               <thead className="bg-slate-50 text-slate-600">
                 <tr>
-                  <Th>ID</Th>
+                  <Th>Invoice</Th>
                   <Th>Date</Th>
                   <Th className="text-right">Total</Th>
+                  <Th />
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
                 {loading ? (
                   <tr>
-                    <td colSpan={3} className="p-6 text-slate-600">Loading…</td>
+                    <td colSpan={4} className="p-6 text-slate-600">Loading…</td>
                   </tr>
                 ) : filteredReceipts.length === 0 ? (
                   <tr>
-                    <td colSpan={3} className="p-6 text-slate-600">No receipts.</td>
+                    <td colSpan={4} className="p-6 text-slate-600">No receipts.</td>
                   </tr>
                 ) : (
                   filteredReceipts.slice(0, 10).map((r) => (
                     <tr key={r.id} className="hover:bg-slate-50/60">
-                      <Td className="font-medium text-slate-900">#{r.id}</Td>
+                      <Td className="font-medium text-slate-900">{r.invoiceNo ?? `#${r.id}`}</Td>
                       <Td className="text-slate-600">
                         {r.receiptDate ? new Date(r.receiptDate).toLocaleString() : "—"}
                       </Td>
                       <Td className="text-right tabular-nums font-semibold text-slate-900">
                         {fmtINR(Number(r.totalAmount || 0))}
                       </Td>
+                      <Td className="text-right">
+                        <button
+                          className={BtnSecondary}
+                          onClick={() => reprint(r.id)}
+                          disabled={reprinting != null}
+                        >
+                          {reprinting === r.id ? "Printing…" : "Reprint"}
+                        </button>
+                      </Td>
                     </tr>
                   ))
                 )}
@@ -476,6 +583,10 @@ export default function SalesReportPage() {
         </div>
       </div>
 
+      <ShiftsPanel from={resolvedRange.from} to={resolvedRange.to} />
+
+      <GstReturnsPanel />
+
       {categoryFilter !== "all" ? (
         <div className="mt-2 text-xs text-slate-500">
           Note: category-filtered totals are computed from item logs.
@@ -483,12 +594,319 @@ export default function SalesReportPage() {
       ) : null}
 
       <div className="mt-2 text-xs text-slate-500">
-        Loaded products: {products.length} · Categories: {categories.length} · Receipts: {receipts.length}
+        Loaded products: {products.length} · Categories: {categories.length} · Receipts: {receipts.length} · Credit notes: {returns.length}
+      </div>
+    </div>
+  );
+}
+
+function ShiftsPanel({ from, to }: { from: Date; to: Date }) {
+  const [rows, setRows] = useState<ShiftRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    window.api
+      ?.invoke("shifts:getRange", { from: from.toISOString(), to: to.toISOString() })
+      .then((res) => {
+        if (!res?.success) throw new Error(res?.error ?? "Failed to load shifts");
+        setRows((res.shifts ?? []) as ShiftRow[]);
+      })
+      .catch((e: unknown) => setError(String(e)))
+      .finally(() => setLoading(false));
+  }, [from, to]);
+
+  const printZ = (s: ShiftRow) => {
+    window.api?.printBill?.({
+      billNo: `SHIFT-${s.id}`,
+      dateTime: new Date().toLocaleString("en-IN"),
+      items: [],
+      total: Number(s.countedCash ?? 0),
+      paymentMode: "Z-REPORT",
+      shiftId: s.id,
+    } satisfies BillPayload);
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="border-b border-slate-100 p-4">
+        <div className="text-sm font-semibold text-slate-900">Cash drawer shifts</div>
+        <div className="mt-0.5 text-xs text-slate-500">Expected vs counted cash per shift</div>
+      </div>
+      {error ? (
+        <div className="m-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">{error}</div>
+      ) : null}
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[720px] text-left text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <Th>Shift</Th>
+              <Th>Cashier</Th>
+              <Th>Opened</Th>
+              <Th>Closed</Th>
+              <Th className="text-right">Expected</Th>
+              <Th className="text-right">Counted</Th>
+              <Th className="text-right">Variance</Th>
+              <Th className="text-right">Z-report</Th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-slate-600">Loading…</td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-slate-600">No shifts in this range.</td>
+              </tr>
+            ) : (
+              rows.map((s) => (
+                <tr key={s.id} className="hover:bg-slate-50/60">
+                  <Td className="font-medium text-slate-900">#{s.id}</Td>
+                  <Td className="text-slate-600">{s.openedByName ?? "—"}</Td>
+                  <Td className="text-slate-600">{new Date(s.openedAt).toLocaleString()}</Td>
+                  <Td className="text-slate-600">
+                    {s.closedAt ? new Date(s.closedAt).toLocaleString() : "Open"}
+                  </Td>
+                  <Td className="text-right tabular-nums">
+                    {s.expectedCash != null ? fmtINR(s.expectedCash) : "—"}
+                  </Td>
+                  <Td className="text-right tabular-nums">
+                    {s.countedCash != null ? fmtINR(s.countedCash) : "—"}
+                  </Td>
+                  <Td
+                    className={[
+                      "text-right tabular-nums font-semibold",
+                      s.variance == null
+                        ? "text-slate-400"
+                        : Math.abs(s.variance) < 0.01
+                          ? "text-emerald-700"
+                          : "text-rose-700",
+                    ].join(" ")}
+                  >
+                    {s.variance != null ? fmtINR(s.variance) : "—"}
+                  </Td>
+                  <Td className="text-right">
+                    <button className={BtnSecondary} onClick={() => printZ(s)} disabled={s.status !== "closed"}>
+                      Print
+                    </button>
+                  </Td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
       </div>
     </div>
   );
 }
 
+function downloadFile(name: string, content: BlobPart, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function GstReturnsPanel() {
+  const { can } = usePermissions();
+  const [month, setMonth] = useState(() => {
+    // Returns are filed for the previous month
+    const d = new Date();
+    d.setDate(1);
+    d.setMonth(d.getMonth() - 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+  });
+  const [data, setData] = useState<GstReturns | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("reports:gstReturns", { month });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load GST returns");
+      setData(res as GstReturns);
+    } catch (e) {
+      setError(String(e));
+      setData(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const totals = useMemo(() => {
+    const rows = data?.rateSummary ?? [];
+    return rows.reduce(
+      (acc, r) => ({
+        txval: acc.txval + r.txval,
+        iamt: acc.iamt + r.iamt,
+        camt: acc.camt + r.camt,
+        samt: acc.samt + r.samt,
+      }),
+      { txval: 0, iamt: 0, camt: 0, samt: 0 },
+    );
+  }, [data]);
+
+  const exportReturn = async (form: "gstr1" | "gstr3b") => {
+    setError(null);
+    try {
+      const res = await window.api?.invoke("reports:exportGst", { month, form });
+      if (!res?.success) throw new Error(res?.error ?? "Export failed");
+      downloadFile(
+        res.fileName,
+        res.data,
+        form === "gstr1" ? "application/json" : "text/csv;charset=utf-8",
+      );
+    } catch (e) {
+      setError(String(e));
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex flex-col gap-3 border-b border-slate-100 p-4 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <div className="text-sm font-semibold text-slate-900">GST returns</div>
+          <div className="mt-0.5 text-xs text-slate-500">
+            Taxable value and tax by rate and HSN for the month
+            {data?.storeGstin ? ` · GSTIN ${data.storeGstin}` : ""}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input className={InputCls} type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+          <button className={BtnSecondary} onClick={load} disabled={loading}>
+            Refresh
+          </button>
+          {can("reports.export") ? (
+            <>
+              <button className={BtnSecondary} onClick={() => exportReturn("gstr3b")} disabled={loading || !data}>
+                GSTR-3B CSV
+              </button>
+              <button className={BtnPrimary} onClick={() => exportReturn("gstr1")} disabled={loading || !data}>
+                GSTR-1 JSON
+              </button>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="m-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">{error}</div>
+      ) : null}
+      {data?.warnings.length ? (
+        <div className="m-4 rounded-xl border border-amber-100 bg-amber-50 p-4 text-sm text-amber-800">
+          {data.warnings.map((w) => (
+            <div key={w}>{w}</div>
+          ))}
+        </div>
+      ) : null}
+
+      {data ? (
+        <div className="px-4 pt-3 text-xs text-slate-500">
+          {data.invoiceCount} invoice(s) · {data.b2bInvoiceCount} B2B · {data.creditNoteCount} credit note(s)
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-4 p-4 lg:grid-cols-2">
+        <div className="overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full min-w-[480px] text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>Rate</Th>
+                <Th className="text-right">Taxable</Th>
+                <Th className="text-right">IGST</Th>
+                <Th className="text-right">CGST</Th>
+                <Th className="text-right">SGST</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="p-6 text-slate-600">Loading…</td>
+                </tr>
+              ) : !data || data.rateSummary.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-6 text-slate-600">No sales this month.</td>
+                </tr>
+              ) : (
+                <>
+                  {data.rateSummary.map((r) => (
+                    <tr key={r.rate}>
+                      <Td className="font-medium text-slate-900">{r.rate}%</Td>
+                      <Td className="text-right tabular-nums">{fmtINR(r.txval)}</Td>
+                      <Td className="text-right tabular-nums">{fmtINR(r.iamt)}</Td>
+                      <Td className="text-right tabular-nums">{fmtINR(r.camt)}</Td>
+                      <Td className="text-right tabular-nums">{fmtINR(r.samt)}</Td>
+                    </tr>
+                  ))}
+                  <tr className="bg-slate-50 font-semibold">
+                    <Td>Total</Td>
+                    <Td className="text-right tabular-nums">{fmtINR(totals.txval)}</Td>
+                    <Td className="text-right tabular-nums">{fmtINR(totals.iamt)}</Td>
+                    <Td className="text-right tabular-nums">{fmtINR(totals.camt)}</Td>
+                    <Td className="text-right tabular-nums">{fmtINR(totals.samt)}</Td>
+                  </tr>
+                </>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="max-h-96 overflow-auto rounded-xl border border-slate-200">
+          <table className="w-full min-w-[560px] text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>HSN</Th>
+                <Th>Rate</Th>
+                <Th className="text-right">Qty</Th>
+                <Th className="text-right">Taxable</Th>
+                <Th className="text-right">Tax</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {!data || data.hsnSummary.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-6 text-slate-600">{loading ? "Loading…" : "No HSN lines."}</td>
+                </tr>
+              ) : (
+                data.hsnSummary.map((h) => (
+                  <tr key={`${h.hsn}|${h.rate}`}>
+                    <Td className="font-mono text-slate-900">
+                      {h.hsn || <span className="text-amber-700">missing</span>}
+                      <div className="text-xs font-sans text-slate-500">{h.desc}</div>
+                    </Td>
+                    <Td>{h.rate}%</Td>
+                    <Td className="text-right tabular-nums">
+                      {h.qty} {h.uqc}
+                    </Td>
+                    <Td className="text-right tabular-nums">{fmtINR(h.txval)}</Td>
+                    <Td className="text-right tabular-nums">{fmtINR(h.iamt + h.camt + h.samt)}</Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function logNetAmount(l: LogRow) {
+  return Number(l.amount || 0) - Number(l.discount || 0) + Number(l.tax || 0);
+}
+
 function Kpi({ title, value }: { title: string; value: string }) {
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
@@ -1,4 +1,33 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  EDITABLE_ROLES,
+  PERMISSIONS,
+  type EditableRole,
+  type Permission,
+  type PermissionMatrix,
+} from "../../electron/permissions";
+import {
+  DEFAULT_STORE_BARCODE_PREFIX,
+  STORE_BARCODE_PREFIX_RE,
+} from "../../electron/barcode";
+import { CODE_PAGES } from "../../electron/escpos";
+import { GSTIN_RE } from "../../electron/gst";
+import {
+  buildReceiptHtml,
+  DEFAULT_RECEIPT_TEMPLATE,
+  receiptTemplateFrom,
+  UPI_ID_RE,
+  type BillPayload,
+  type ReceiptTemplate,
+} from "../../electron/receipt";
+import {
+  buildLabelPreviewHtml,
+  DEFAULT_LABEL_DESIGN,
+  LABEL_SHEETS,
+  labelDesignFrom,
+  type LabelDesign,
+  type LabelItem,
+} from "../../electron/labels";
 
 type Role = "admin" | "staff" | "manager";
 
@@ -17,10 +46,88 @@ type AppUserRow = {
   name: string;
   role: Role;
   active: boolean;
+  hasPin: boolean; // supervisor PIN for till overrides
   createdAt?: string | Date;
 };
 
-type Tab = "store" | "users" | "system";
+type CustomerOption = { id: number; name: string; phone: string };
+
+// storeSettings row; upsert writes it back whole
+type StoreRow = {
+  address: string | null;
+  phone: string | null;
+  gstin: string | null;
+  allowNegativeStock: boolean;
+  defaultGstRate: number | null;
+  defaultReorderLevel: number | null;
+  expiryWarningIn: number | null;
+};
+
+type LoyaltyEntry = {
+  id: number;
+  customerId: number;
+  customerName: string | null;
+  type: "earn" | "redeem" | "reverse" | "refund" | "adjust";
+  receiptId: number | null;
+  invoiceNo: string | null;
+  points: number;
+  value: number;
+  note: string | null;
+  entryDate: string | Date;
+  createdByName: string | null;
+};
+
+type AuditEntry = {
+  id: number;
+  actorName: string | null;
+  action: "create" | "update" | "delete";
+  entity: string;
+  entityId: string | null;
+  before: string | null;
+  after: string | null;
+  createdAt: string | Date;
+};
+
+type AuditCheck = {
+  ok: boolean;
+  checked: number;
+  brokenAt: number | null;
+  reason: string | null;
+};
+
+type BackupStatus = {
+  folder: string;
+  intervalHours: number;
+  keep: number;
+  lastBackupAt: string | Date | null;
+  lastError: string | null;
+};
+
+type BackupFile = {
+  file: string;
+  name: string;
+  size: number;
+  modifiedAt: string | Date;
+};
+
+type BackupSummary = {
+  file: string;
+  size: number;
+  modifiedAt: string | Date;
+  counts: { products: number; receipts: number; customers: number; users: number };
+  lastSaleAt: string | Date | null;
+};
+
+type Tab =
+  | "store"
+  | "users"
+  | "system"
+  | "printer"
+  | "receipt"
+  | "labels"
+  | "loyalty"
+  | "backup"
+  | "audit";
 
 export default function SettingsPage({ user }: SettingsPageProps) {
   const [tab, setTab] = useState<Tab>("store");
@@ -58,6 +165,24 @@ export default function SettingsPage({ user }: SettingsPageProps) {
                 <SideBtn active={tab === "system"} onClick={() => setTab("system")}>
                   System Settings
                 </SideBtn>
+                <SideBtn active={tab === "printer"} onClick={() => setTab("printer")}>
+                  Receipt Printer
+                </SideBtn>
+                <SideBtn active={tab === "receipt"} onClick={() => setTab("receipt")}>
+                  Receipt Template
+                </SideBtn>
+                <SideBtn active={tab === "labels"} onClick={() => setTab("labels")}>
+                  Barcode Labels
+                </SideBtn>
+                <SideBtn active={tab === "loyalty"} onClick={() => setTab("loyalty")}>
+                  Loyalty Points
+                </SideBtn>
+                <SideBtn active={tab === "backup"} onClick={() => setTab("backup")}>
+                  Backup & Restore
+                </SideBtn>
+                <SideBtn active={tab === "audit"} onClick={() => setTab("audit")}>
+                  Audit Log
+                </SideBtn>
               </div>
             </div>
           </div>
@@ -66,6 +191,12 @@ export default function SettingsPage({ user }: SettingsPageProps) {
             {tab === "store" ? <StoreTab currentUser={user} /> : null}
             {tab === "users" ? <UsersTab currentUser={user} /> : null}
             {tab === "system" ? <SystemTab currentUser={user} /> : null}
+            {tab === "printer" ? <PrinterTab currentUser={user} /> : null}
+            {tab === "receipt" ? <ReceiptTemplateTab currentUser={user} /> : null}
+            {tab === "labels" ? <LabelsTab currentUser={user} /> : null}
+            {tab === "loyalty" ? <LoyaltyTab currentUser={user} /> : null}
+            {tab === "backup" ? <BackupTab currentUser={user} /> : null}
+            {tab === "audit" ? <AuditTab /> : null}
           </div>
         </div>
       )}
@@ -213,16 +344,35 @@ function SystemTab({ currentUser }: { currentUser: SettingsUser }) {
   const [lowStockThreshold, setLowStockThreshold] = useState("10");
   const [currency, setCurrency] = useState("INR");
   const [discountPolicy, setDiscountPolicy] = useState("percent");
-
-  const load = async () => {
+  const [expiryWarningIn, setExpiryWarningIn] = useState("30");
+  const [gstin, setGstin] = useState("");
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [invoicePrefix, setInvoicePrefix] = useState("INV");
+  const [barcodePrefix, setBarcodePrefix] = useState(DEFAULT_STORE_BARCODE_PREFIX);
+  const [holdExpiryHours, setHoldExpiryHours] = useState("24");
+  const [storeRow, setStoreRow] = useState<StoreRow | null>(null);
+
+  const load = useCallback(async () => {
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      const res = await window.api?.getSettings();
+      const [res, storeRes] = await Promise.all([
+        window.api?.getSettings(),
+        window.api?.invoke("storeSettings:getOne", { userId: currentUser.id }),
+      ]);
       if (!res?.success) throw new Error(res?.error ?? "Failed to load settings");
 
+      const row: StoreRow | null = storeRes?.success ? storeRes.storeSettings ?? null : null;
+      setStoreRow(row);
+      setExpiryWarningIn(String(row?.expiryWarningIn ?? 30));
+      setGstin(row?.gstin ?? "");
+      setTaxInclusive(res.settings?.taxInclusive === "true");
+      setInvoicePrefix(res.settings?.invoicePrefix ?? "INV");
+      setBarcodePrefix(res.settings?.barcodePrefix ?? DEFAULT_STORE_BARCODE_PREFIX);
+      setHoldExpiryHours(res.settings?.holdExpiryHours ?? "24");
+
       setTaxRate(res.settings?.taxRate ?? "5");
       setLowStockThreshold(res.settings?.lowStockThreshold ?? "10");
       setCurrency(res.settings?.currency ?? "INR");
@@ -232,11 +382,11 @@ function SystemTab({ currentUser }: { currentUser: SettingsUser }) {
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentUser.id]);
 
   useEffect(() => {
     void load();
-  }, []);
+  }, [load]);
 
   const save = async () => {
     setSaving(true);
@@ -249,15 +399,49 @@ function SystemTab({ currentUser }: { currentUser: SettingsUser }) {
       if (Number.isNaN(tr) || tr < 0) throw new Error("Tax rate must be a valid number");
       if (Number.isNaN(ls) || ls < 0) throw new Error("Low stock threshold must be a valid number");
       if (!currency.trim()) throw new Error("Currency is required");
+      const ew = Number(expiryWarningIn);
+      if (Number.isNaN(ew) || ew < 0) throw new Error("Expiry warning must be a valid number of days");
+      const gst = gstin.trim().toUpperCase();
+      if (gst && !GSTIN_RE.test(gst)) {
+        throw new Error("GSTIN must be 15 characters, e.g. 33ABCDE1234F1Z5");
+      }
+      const prefix = invoicePrefix.trim().toUpperCase();
+      if (!/^[A-Z0-9]{1,4}$/.test(prefix)) {
+        throw new Error("Invoice prefix must be 1-4 letters or digits");
+      }
+      if (!STORE_BARCODE_PREFIX_RE.test(barcodePrefix.trim())) {
+        throw new Error("Barcode prefix must be 2-7 digits starting with 2");
+      }
+      const holdHours = Number(holdExpiryHours);
+      if (Number.isNaN(holdHours) || holdHours <= 0) {
+        throw new Error("Held bill expiry must be a positive number of hours");
+      }
 
       const res = await window.api?.setSettingsMany(currentUser.id, {
         taxRate: String(tr),
         lowStockThreshold: String(ls),
         currency: currency.trim(),
         discountPolicy: discountPolicy.trim() || "percent",
+        taxInclusive: taxInclusive ? "true" : "false",
+        invoicePrefix: prefix,
+        barcodePrefix: barcodePrefix.trim(),
+        holdExpiryHours: String(holdHours),
       });
 
       if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+
+      // storeSettings:upsert replaces the whole row, so carry existing fields over
+      const storeRes = await window.api?.invoke("storeSettings:upsert", {
+        userId: currentUser.id,
+        address: storeRow?.address ?? null,
+        phone: storeRow?.phone ?? null,
+        gstin: gst || null,
+        allowNegativeStock: Boolean(storeRow?.allowNegativeStock ?? false),
+        defaultGstRate: storeRow?.defaultGstRate ?? null,
+        defaultReorderLevel: storeRow?.defaultReorderLevel ?? null,
+        expiryWarningIn: Math.floor(ew),
+      });
+      if (!storeRes?.success) throw new Error(storeRes?.error ?? "Failed to save");
       setSuccess("Saved.");
       await load();
     } catch (e) {
@@ -303,6 +487,64 @@ function SystemTab({ currentUser }: { currentUser: SettingsUser }) {
           onChange={setDiscountPolicy}
           disabled={loading || saving}
         />
+        <Field
+          className="col-span-12 sm:col-span-3"
+          label="Expiry warning (days)"
+          value={expiryWarningIn}
+          onChange={setExpiryWarningIn}
+          type="number"
+          disabled={loading || saving}
+        />
+        <Field
+          className="col-span-12 sm:col-span-4"
+          label="Store GSTIN"
+          value={gstin}
+          onChange={setGstin}
+          disabled={loading || saving}
+        />
+        <div className="col-span-12 sm:col-span-5 grid gap-2">
+          <Label>Pricing</Label>
+          <label className="flex items-center gap-2 py-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={taxInclusive}
+              onChange={(e) => setTaxInclusive(e.target.checked)}
+              disabled={loading || saving}
+            />
+            MRP includes GST (tax-inclusive pricing)
+          </label>
+        </div>
+        <div className="col-span-12 sm:col-span-3">
+          <Field
+            label="Invoice prefix"
+            value={invoicePrefix}
+            onChange={setInvoicePrefix}
+            disabled={loading || saving}
+          />
+          <div className="mt-1 text-xs text-slate-500">
+            Bills are numbered {invoicePrefix.trim().toUpperCase() || "INV"}/YY-YY/00001,
+            restarting every April.
+          </div>
+        </div>
+        <div className="col-span-12 sm:col-span-3">
+          <Field
+            label="In-store barcode prefix"
+            value={barcodePrefix}
+            onChange={setBarcodePrefix}
+            disabled={loading || saving}
+          />
+          <div className="mt-1 text-xs text-slate-500">
+            Generated EAN-13s start with these digits (2 is the in-store range).
+          </div>
+        </div>
+        <Field
+          className="col-span-12 sm:col-span-3"
+          label="Held bills expire after (hours)"
+          value={holdExpiryHours}
+          onChange={setHoldExpiryHours}
+          type="number"
+          disabled={loading || saving}
+        />
       </div>
 
       <div className="mt-4 flex justify-end gap-2">
@@ -317,6 +559,270 @@ function SystemTab({ currentUser }: { currentUser: SettingsUser }) {
   );
 }
 
+function LoyaltyTab({ currentUser }: { currentUser: SettingsUser }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [enabled, setEnabled] = useState(false);
+  const [pointsPerRupee, setPointsPerRupee] = useState("0.01");
+  const [redeemValue, setRedeemValue] = useState("1");
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [categories, setCategories] = useState<{ id: number; categoryName: string }[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+
+  const [from, setFrom] = useState(() => {
+    const d = new Date();
+    d.setDate(1);
+    return d.toISOString().slice(0, 10);
+  });
+  const [to, setTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [customerId, setCustomerId] = useState("");
+  const [entries, setEntries] = useState<LoyaltyEntry[]>([]);
+  const [earned, setEarned] = useState(0);
+  const [burned, setBurned] = useState(0);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const [res, catRes, custRes] = await Promise.all([
+        window.api?.getSettings(),
+        window.api?.getCategories(),
+        window.api?.invoke("customers:getAll"),
+      ]);
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load settings");
+
+      const st = res.settings ?? {};
+      setEnabled(st.loyaltyEnabled === "true");
+      setPointsPerRupee(st.loyaltyPointsPerRupee ?? "0.01");
+      setRedeemValue(st.loyaltyRedeemValue ?? "1");
+      setExcluded(
+        new Set(
+          String(st.loyaltyExcludedCategories ?? "")
+            .split(",")
+            .map((x) => Number(x.trim()))
+            .filter((x) => Number.isFinite(x) && x > 0),
+        ),
+      );
+      setCategories(catRes?.success ? catRes.categories ?? [] : []);
+      setCustomers(
+        custRes?.success ? ((custRes.customers ?? []) as CustomerOption[]) : [],
+      );
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLedger = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await window.api?.invoke("loyalty:getLedger", {
+        currentUserId: currentUser.id,
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59.999`).toISOString(),
+        customerId: customerId ? Number(customerId) : null,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load points ledger");
+      setEntries(res.entries ?? []);
+      setEarned(Number(res.earned ?? 0));
+      setBurned(Number(res.burned ?? 0));
+    } catch (e) {
+      setError(String(e));
+    }
+  }, [currentUser.id, from, to, customerId]);
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  useEffect(() => {
+    void loadLedger();
+  }, [loadLedger]);
+
+  const toggleCategory = (id: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const ppr = Number(pointsPerRupee);
+      const rv = Number(redeemValue);
+      if (Number.isNaN(ppr) || ppr < 0) throw new Error("Points per rupee must be a valid number");
+      if (Number.isNaN(rv) || rv < 0) throw new Error("Redemption value must be a valid number");
+
+      const res = await window.api?.setSettingsMany(currentUser.id, {
+        loyaltyEnabled: enabled ? "true" : "false",
+        loyaltyPointsPerRupee: String(ppr),
+        loyaltyRedeemValue: String(rv),
+        loyaltyExcludedCategories: Array.from(excluded).join(","),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+      setSuccess("Saved.");
+      await load();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card title="Loyalty Rules" subtitle="Points earned per rupee spent and their redemption value">
+        {error ? <ErrorBox>{error}</ErrorBox> : null}
+        {success ? <SuccessBox>{success}</SuccessBox> : null}
+
+        <div className="grid grid-cols-12 gap-3">
+          <div className="col-span-12 sm:col-span-4 grid gap-2">
+            <Label>Status</Label>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+                disabled={loading || saving}
+              />
+              Loyalty program enabled
+            </label>
+          </div>
+          <Field
+            className="col-span-12 sm:col-span-4"
+            label="Points per ₹1 spent"
+            value={pointsPerRupee}
+            onChange={setPointsPerRupee}
+            type="number"
+            disabled={loading || saving}
+          />
+          <Field
+            className="col-span-12 sm:col-span-4"
+            label="Value of 1 point (₹)"
+            value={redeemValue}
+            onChange={setRedeemValue}
+            type="number"
+            disabled={loading || saving}
+          />
+        </div>
+
+        <div className="mt-4 grid gap-2">
+          <Label>Excluded categories (no points earned)</Label>
+          <div className="flex flex-wrap gap-2">
+            {categories.length === 0 ? (
+              <div className="text-xs text-slate-500">No categories.</div>
+            ) : (
+              categories.map((c) => (
+                <label
+                  key={c.id}
+                  className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={excluded.has(c.id)}
+                    onChange={() => toggleCategory(c.id)}
+                    disabled={loading || saving}
+                  />
+                  {c.categoryName}
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button className={BtnSecondary} onClick={load} disabled={loading || saving}>
+            Reset
+          </button>
+          <button className={BtnPrimary} onClick={save} disabled={loading || saving}>
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </Card>
+
+      <Card title="Points Ledger" subtitle="Every earn, redemption and reversal">
+        <div className="grid grid-cols-12 gap-3">
+          <Field className="col-span-12 sm:col-span-3" label="From" value={from} onChange={setFrom} type="date" />
+          <Field className="col-span-12 sm:col-span-3" label="To" value={to} onChange={setTo} type="date" />
+          <div className="col-span-12 sm:col-span-6 grid gap-2">
+            <Label>Customer</Label>
+            <select className={InputCls} value={customerId} onChange={(e) => setCustomerId(e.target.value)}>
+              <option value="">All customers</option>
+              {customers.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name} ({c.phone})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-3 flex gap-4 text-sm text-slate-700">
+          <div>
+            Earned: <span className="font-semibold text-emerald-700">{earned}</span>
+          </div>
+          <div>
+            Redeemed / reversed: <span className="font-semibold text-rose-700">{burned}</span>
+          </div>
+        </div>
+
+        <div className="mt-3 overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>Date</Th>
+                <Th>Customer</Th>
+                <Th>Type</Th>
+                <Th>Bill</Th>
+                <Th className="text-right">Points</Th>
+                <Th className="text-right">Value</Th>
+                <Th>Note</Th>
+                <Th>By</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.length === 0 ? (
+                <tr>
+                  <Td className="text-slate-500" colSpan={8}>
+                    No entries in this range.
+                  </Td>
+                </tr>
+              ) : (
+                entries.map((r) => (
+                  <tr key={r.id}>
+                    <Td className="whitespace-nowrap">{new Date(r.entryDate).toLocaleString()}</Td>
+                    <Td>{r.customerName ?? `#${r.customerId}`}</Td>
+                    <Td className="capitalize">{r.type}</Td>
+                    <Td>{r.invoiceNo ?? (r.receiptId ? `#${r.receiptId}` : "—")}</Td>
+                    <Td className={`text-right font-mono ${r.points < 0 ? "text-rose-700" : "text-emerald-700"}`}>
+                      {r.points > 0 ? `+${r.points}` : r.points}
+                    </Td>
+                    <Td className="text-right font-mono">₹{Number(r.value ?? 0).toFixed(2)}</Td>
+                    <Td className="text-slate-500">{r.note ?? ""}</Td>
+                    <Td>{r.createdByName ?? "—"}</Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
 function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -334,17 +840,27 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
     name: "",
     password: "",
     role: "staff" as Role,
+    pin: "",
   });
 
   const [editUser, setEditUser] = useState<AppUserRow | null>(null);
-  const [editDraft, setEditDraft] = useState<{ name: string; role: Role; password: string; active: boolean }>({
+  const [editDraft, setEditDraft] = useState<{
+    name: string;
+    role: Role;
+    password: string;
+    active: boolean;
+    pin: string;
+    clearPin: boolean;
+  }>({
     name: "",
     role: "staff",
     password: "",
     active: true,
+    pin: "",
+    clearPin: false,
   });
 
-  const load = async () => {
+  const load = useCallback(async () => {
     setLoading(true);
     setError(null);
     setSuccess(null);
@@ -353,13 +869,21 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
       const res = await window.api?.invoke("users:getAll", { currentUserId: currentUser.id });
       if (!res?.success) throw new Error(res?.error ?? "Failed to load users");
 
-      const rows = (res.users ?? []) as Array<{ id: number; name: string; role: Role; active?: boolean; createdAt?: any }>;
+      const rows = (res.users ?? []) as Array<{
+        id: number;
+        name: string;
+        role: Role;
+        active?: boolean;
+        hasPin?: boolean;
+        createdAt?: string | Date;
+      }>;
       setUsers(
         rows.map((u) => ({
           id: u.id,
           name: u.name,
           role: u.role,
           active: Boolean(u.active ?? true),
+          hasPin: Boolean(u.hasPin),
           createdAt: u.createdAt,
         }))
       );
@@ -368,11 +892,11 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentUser.id]);
 
   useEffect(() => {
     void load();
-  }, []);
+  }, [load]);
 
   const create = async () => {
     setSaving(true);
@@ -383,17 +907,21 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
       if (!newUser.name.trim() || !newUser.password.trim()) {
         throw new Error("Username and password are required");
       }
+      if (newUser.pin && !/^\d{4,6}$/.test(newUser.pin)) {
+        throw new Error("Supervisor PIN must be 4-6 digits");
+      }
 
       const res = await window.api?.invoke("users:create", {
         currentUserId: currentUser.id,
         name: newUser.name.trim(),
         role: newUser.role,
         password: newUser.password,
+        pin: newUser.pin || null,
       });
 
       if (!res?.success) throw new Error(res?.error ?? "Failed to create user");
 
-      setNewUser({ name: "", password: "", role: "staff" });
+      setNewUser({ name: "", password: "", role: "staff", pin: "" });
       setSuccess("User created.");
       await load();
     } catch (e) {
@@ -405,7 +933,14 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
 
   const openEdit = (u: AppUserRow) => {
     setEditUser(u);
-    setEditDraft({ name: u.name, role: u.role, password: "", active: u.active });
+    setEditDraft({
+      name: u.name,
+      role: u.role,
+      password: "",
+      active: u.active,
+      pin: "",
+      clearPin: false,
+    });
   };
 
   const saveEdit = async () => {
@@ -432,6 +967,13 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
         active: editDraft.active,
       };
       if (editDraft.password.trim()) patch.password = editDraft.password;
+      if (editDraft.clearPin) patch.pin = null;
+      else if (editDraft.pin) {
+        if (!/^\d{4,6}$/.test(editDraft.pin)) {
+          throw new Error("Supervisor PIN must be 4-6 digits");
+        }
+        patch.pin = editDraft.pin;
+      }
 
       const res = await window.api?.invoke("users:update", {
         currentUserId: currentUser.id,
@@ -480,119 +1022,99 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
   };
 
   return (
-    <Card title="Users" subtitle="Add, edit, disable, and delete users">
-      {error ? <ErrorBox>{error}</ErrorBox> : null}
-      {success ? <SuccessBox>{success}</SuccessBox> : null}
-
-      <div className="overflow-x-auto rounded-xl border border-slate-200">
-        <table className="w-full min-w-[760px] text-left text-sm">
-          <thead className="bg-slate-50 text-slate-600">
-            <tr>
-              <Th>Name</Th>
-              <Th>Role</Th>
-              <Th>Status</Th>
-              <Th>Created</Th>
-              <Th className="text-right">Actions</Th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-slate-100">
-            {loading ? (
-              <tr>
-                <td colSpan={5} className="p-6 text-slate-600">Loading…</td>
-              </tr>
-            ) : users.length === 0 ? (
+    <>
+      <Card title="Users" subtitle="Add, edit, disable, and delete users">
+        {error ? <ErrorBox>{error}</ErrorBox> : null}
+        {success ? <SuccessBox>{success}</SuccessBox> : null}
+
+        <div className="overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full min-w-[760px] text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
               <tr>
-                <td colSpan={5} className="p-6 text-slate-600">No users found.</td>
+                <Th>Name</Th>
+                <Th>Role</Th>
+                <Th>Status</Th>
+                <Th>PIN</Th>
+                <Th>Created</Th>
+                <Th className="text-right">Actions</Th>
               </tr>
-            ) : (
-              users.map((u) => (
-                <tr key={u.id} className="hover:bg-slate-50/60">
-                  <Td className="font-medium text-slate-900">{u.name}</Td>
-                  <Td>
-                    <RoleBadge role={u.role} />
-                  </Td>
-                  <Td>
-                    <StatusBadge active={u.active} />
-                  </Td>
-                  <Td className="text-slate-600">
-                    {u.createdAt ? new Date(u.createdAt).toLocaleDateString() : "—"}
-                  </Td>
-                  <Td className="text-right">
-                    <div className="inline-flex gap-2">
-                      <button className={BtnSecondary} onClick={() => openEdit(u)}>
-                        Edit
-                      </button>
-                      <button
-                        className={BtnDanger}
-                        onClick={() => remove(u)}
-                        disabled={saving || (u.role === "admin" && totalAdmins === 1)}
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </Td>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="p-6 text-slate-600">Loading…</td>
                 </tr>
-              ))
-            )}
-          </tbody>
-        </table>
-      </div>
-
-      <div className="mt-5 rounded-xl border border-slate-200 bg-slate-50 p-4">
-        <div className="text-sm font-semibold text-slate-900">Add new user</div>
-        <div className="mt-3 grid grid-cols-12 gap-3">
-          <Field
-            className="col-span-12 sm:col-span-4"
-            label="Username"
-            value={newUser.name}
-            onChange={(v) => setNewUser((p) => ({ ...p, name: v }))}
-            disabled={saving}
-          />
-          <Field
-            className="col-span-12 sm:col-span-4"
-            label="Password"
-            value={newUser.password}
-            onChange={(v) => setNewUser((p) => ({ ...p, password: v }))}
-            type="password"
-            disabled={saving}
-          />
-          <div className="col-span-12 sm:col-span-2 grid gap-2">
-            <Label>Role</Label>
-            <select
-              className={InputCls}
-              value={newUser.role}
-              onChange={(e) => setNewUser((p) => ({ ...p, role: e.target.value as Role }))}
-              disabled={saving}
-            >
-              <option value="staff">staff</option>
-              <option value="manager">manager</option>
-              <option value="admin">admin</option>
-            </select>
-          </div>
-          <div className="col-span-12 sm:col-span-2 flex items-end justify-end">
-            <button className={BtnPrimary} onClick={create} disabled={saving}>
-              Create
-            </button>
-          </div>
+              ) : users.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-6 text-slate-600">No users found.</td>
+                </tr>
+              ) : (
+                users.map((u) => (
+                  <tr key={u.id} className="hover:bg-slate-50/60">
+                    <Td className="font-medium text-slate-900">{u.name}</Td>
+                    <Td>
+                      <RoleBadge role={u.role} />
+                    </Td>
+                    <Td>
+                      <StatusBadge active={u.active} />
+                    </Td>
+                    <Td className="text-slate-600">{u.hasPin ? "Set" : "—"}</Td>
+                    <Td className="text-slate-600">
+                      {u.createdAt ? new Date(u.createdAt).toLocaleDateString() : "—"}
+                    </Td>
+                    <Td className="text-right">
+                      <div className="inline-flex gap-2">
+                        <button className={BtnSecondary} onClick={() => openEdit(u)}>
+                          Edit
+                        </button>
+                        <button
+                          className={BtnDanger}
+                          onClick={() => remove(u)}
+                          disabled={saving || (u.role === "admin" && totalAdmins === 1)}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
         </div>
-      </div>
 
-      {editUser ? (
-        <Modal title={`Edit user: ${editUser.name}`} onClose={() => setEditUser(null)}>
-          <div className="grid grid-cols-12 gap-3">
+        <div className="mt-5 rounded-xl border border-slate-200 bg-slate-50 p-4">
+          <div className="text-sm font-semibold text-slate-900">Add new user</div>
+          <div className="mt-3 grid grid-cols-12 gap-3">
             <Field
-              className="col-span-12 sm:col-span-6"
+              className="col-span-12 sm:col-span-3"
               label="Username"
-              value={editDraft.name}
-              onChange={(v) => setEditDraft((p) => ({ ...p, name: v }))}
+              value={newUser.name}
+              onChange={(v) => setNewUser((p) => ({ ...p, name: v }))}
+              disabled={saving}
+            />
+            <Field
+              className="col-span-12 sm:col-span-3"
+              label="Password"
+              value={newUser.password}
+              onChange={(v) => setNewUser((p) => ({ ...p, password: v }))}
+              type="password"
+              disabled={saving}
+            />
+            <Field
+              className="col-span-12 sm:col-span-2"
+              label="Supervisor PIN"
+              value={newUser.pin}
+              onChange={(v) => setNewUser((p) => ({ ...p, pin: v.replace(/\D/g, "") }))}
+              type="password"
               disabled={saving}
             />
-            <div className="col-span-12 sm:col-span-3 grid gap-2">
+            <div className="col-span-12 sm:col-span-2 grid gap-2">
               <Label>Role</Label>
               <select
                 className={InputCls}
-                value={editDraft.role}
-                onChange={(e) => setEditDraft((p) => ({ ...p, role: e.target.value as Role }))}
+                value={newUser.role}
+                onChange={(e) => setNewUser((p) => ({ ...p, role: e.target.value as Role }))}
                 disabled={saving}
               >
                 <option value="staff">staff</option>
@@ -600,66 +1122,1502 @@ function UsersTab({ currentUser }: { currentUser: SettingsUser }) {
                 <option value="admin">admin</option>
               </select>
             </div>
-            <div className="col-span-12 sm:col-span-3 grid gap-2">
-              <Label>Status</Label>
-              <select
-                className={InputCls}
-                value={editDraft.active ? "active" : "disabled"}
-                onChange={(e) => setEditDraft((p) => ({ ...p, active: e.target.value === "active" }))}
-                disabled={saving}
-              >
-                <option value="active">active</option>
-                <option value="disabled">disabled</option>
-              </select>
+            <div className="col-span-12 sm:col-span-2 flex items-end justify-end">
+              <button className={BtnPrimary} onClick={create} disabled={saving}>
+                Create
+              </button>
             </div>
-
-            <Field
-              className="col-span-12"
-              label="New password (optional)"
-              value={editDraft.password}
-              onChange={(v) => setEditDraft((p) => ({ ...p, password: v }))}
-              type="password"
-              disabled={saving}
-            />
           </div>
+        </div>
 
-          <div className="mt-4 flex justify-end gap-2">
-            <button className={BtnSecondary} onClick={() => setEditUser(null)} disabled={saving}>
-              Cancel
-            </button>
-            <button className={BtnPrimary} onClick={saveEdit} disabled={saving}>
-              {saving ? "Saving…" : "Save"}
-            </button>
-          </div>
-        </Modal>
-      ) : null}
-    </Card>
-  );
-}
+        {editUser ? (
+          <Modal title={`Edit user: ${editUser.name}`} onClose={() => setEditUser(null)}>
+            <div className="grid grid-cols-12 gap-3">
+              <Field
+                className="col-span-12 sm:col-span-6"
+                label="Username"
+                value={editDraft.name}
+                onChange={(v) => setEditDraft((p) => ({ ...p, name: v }))}
+                disabled={saving}
+              />
+              <div className="col-span-12 sm:col-span-3 grid gap-2">
+                <Label>Role</Label>
+                <select
+                  className={InputCls}
+                  value={editDraft.role}
+                  onChange={(e) => setEditDraft((p) => ({ ...p, role: e.target.value as Role }))}
+                  disabled={saving}
+                >
+                  <option value="staff">staff</option>
+                  <option value="manager">manager</option>
+                  <option value="admin">admin</option>
+                </select>
+              </div>
+              <div className="col-span-12 sm:col-span-3 grid gap-2">
+                <Label>Status</Label>
+                <select
+                  className={InputCls}
+                  value={editDraft.active ? "active" : "disabled"}
+                  onChange={(e) => setEditDraft((p) => ({ ...p, active: e.target.value === "active" }))}
+                  disabled={saving}
+                >
+                  <option value="active">active</option>
+                  <option value="disabled">disabled</option>
+                </select>
+              </div>
 
-function RoleBadge({ role }: { role: Role }) {
-  const cls =
-    role === "admin"
-      ? "border-purple-100 bg-purple-50 text-purple-700"
-      : role === "manager"
-        ? "border-blue-100 bg-blue-50 text-blue-700"
-        : "border-slate-200 bg-slate-50 text-slate-700";
+              <Field
+                className="col-span-12 sm:col-span-6"
+                label="New password (optional)"
+                value={editDraft.password}
+                onChange={(v) => setEditDraft((p) => ({ ...p, password: v }))}
+                type="password"
+                disabled={saving}
+              />
+              <Field
+                className="col-span-12 sm:col-span-6"
+                label={editUser.hasPin ? "New supervisor PIN (optional)" : "Supervisor PIN (optional)"}
+                value={editDraft.pin}
+                onChange={(v) => setEditDraft((p) => ({ ...p, pin: v.replace(/\D/g, "") }))}
+                type="password"
+                disabled={saving || editDraft.clearPin}
+              />
+              {editUser.hasPin ? (
+                <label className="col-span-12 flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={editDraft.clearPin}
+                    onChange={(e) => setEditDraft((p) => ({ ...p, clearPin: e.target.checked }))}
+                    disabled={saving}
+                  />
+                  Remove supervisor PIN
+                </label>
+              ) : null}
+            </div>
 
-  return (
-    <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}>
-      {role}
-    </span>
-  );
-}
+            <div className="mt-4 flex justify-end gap-2">
+              <button className={BtnSecondary} onClick={() => setEditUser(null)} disabled={saving}>
+                Cancel
+              </button>
+              <button className={BtnPrimary} onClick={saveEdit} disabled={saving}>
+                {saving ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </Modal>
+        ) : null}
+      </Card>
 
-function StatusBadge({ active }: { active: boolean }) {
-  const cls = active
-    ? "border-emerald-100 bg-emerald-50 text-emerald-700"
-    : "border-rose-100 bg-rose-50 text-rose-700";
-  return (
-    <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}>
-      {active ? "active" : "disabled"}
-    </span>
+      <div className="mt-4">
+        <RolePermissionsCard currentUser={currentUser} />
+      </div>
+    </>
+  );
+}
+
+function RolePermissionsCard({ currentUser }: { currentUser: SettingsUser }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [matrix, setMatrix] = useState<PermissionMatrix>({ manager: [], staff: [] });
+  const [discountLimitPct, setDiscountLimitPct] = useState("10");
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await window.api?.invoke("permissions:getMatrix");
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load permissions");
+      setMatrix(res.matrix);
+      setDiscountLimitPct(String(res.discountLimitPct ?? 10));
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const toggle = (role: EditableRole, key: Permission) =>
+    setMatrix((m) => ({
+      ...m,
+      [role]: m[role].includes(key) ? m[role].filter((k) => k !== key) : [...m[role], key],
+    }));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const pct = Number(discountLimitPct);
+      if (Number.isNaN(pct) || pct < 0 || pct > 100) {
+        throw new Error("Discount limit must be between 0 and 100%");
+      }
+
+      for (const role of EDITABLE_ROLES) {
+        const res = await window.api?.invoke("permissions:setRole", {
+          role,
+          permissions: matrix[role],
+        });
+        if (!res?.success) throw new Error(res?.error ?? `Failed to save ${role}`);
+      }
+
+      const res = await window.api?.setSettingsMany(currentUser.id, {
+        discountLimitPct: String(pct),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+
+      setSuccess("Permissions saved. Menus update for other users when they next sign in.");
+      await load();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card title="Role permissions" subtitle="What managers and staff may do. Admins can always do everything.">
+      {error ? <ErrorBox>{error}</ErrorBox> : null}
+      {success ? <SuccessBox>{success}</SuccessBox> : null}
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200">
+        <table className="w-full min-w-[560px] text-left text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <Th>Action</Th>
+              <Th className="text-center">admin</Th>
+              {EDITABLE_ROLES.map((role) => (
+                <Th key={role} className="text-center">
+                  {role}
+                </Th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {loading ? (
+              <tr>
+                <td colSpan={2 + EDITABLE_ROLES.length} className="p-6 text-slate-600">Loading…</td>
+              </tr>
+            ) : (
+              PERMISSIONS.map((p) => (
+                <tr key={p.key} className="hover:bg-slate-50/60">
+                  <Td className="text-slate-900">{p.label}</Td>
+                  <Td className="text-center">
+                    <input type="checkbox" checked disabled />
+                  </Td>
+                  {EDITABLE_ROLES.map((role) => (
+                    <Td key={role} className="text-center">
+                      <input
+                        type="checkbox"
+                        checked={matrix[role].includes(p.key)}
+                        onChange={() => toggle(role, p.key)}
+                        disabled={saving}
+                      />
+                    </Td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 grid grid-cols-12 gap-3">
+        <Field
+          className="col-span-12 sm:col-span-4"
+          label="Discount limit without permission (%)"
+          type="number"
+          value={discountLimitPct}
+          onChange={setDiscountLimitPct}
+          disabled={saving || loading}
+        />
+        <div className="col-span-12 sm:col-span-8 flex items-end justify-end">
+          <button className={BtnPrimary} onClick={save} disabled={saving || loading}>
+            {saving ? "Saving…" : "Save permissions"}
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+function RoleBadge({ role }: { role: Role }) {
+  const cls =
+    role === "admin"
+      ? "border-purple-100 bg-purple-50 text-purple-700"
+      : role === "manager"
+        ? "border-blue-100 bg-blue-50 text-blue-700"
+        : "border-slate-200 bg-slate-50 text-slate-700";
+
+  return (
+    <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}>
+      {role}
+    </span>
+  );
+}
+
+function StatusBadge({ active }: { active: boolean }) {
+  const cls = active
+    ? "border-emerald-100 bg-emerald-50 text-emerald-700"
+    : "border-rose-100 bg-rose-50 text-rose-700";
+  return (
+    <span className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}>
+      {active ? "active" : "disabled"}
+    </span>
+  );
+}
+
+const PRINTER_CONNECTIONS = [
+  { value: "network", label: "Network (LAN / Wi-Fi)", placeholder: "192.168.1.50 or 192.168.1.50:9100" },
+  { value: "usb", label: "USB", placeholder: "/dev/usb/lp0 or \\\\localhost\\ReceiptPrinter" },
+  { value: "serial", label: "Serial", placeholder: "COM3 or /dev/ttyUSB0" },
+];
+
+const DRAWER_KICK_OPTIONS = [
+  { value: "cash", label: "On bills paid (partly) in cash" },
+  { value: "always", label: "On every saved bill" },
+  { value: "never", label: "Never" },
+];
+
+function PrinterTab({ currentUser }: { currentUser: SettingsUser }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [backend, setBackend] = useState("html");
+  const [connection, setConnection] = useState("network");
+  const [address, setAddress] = useState("");
+  const [codePage, setCodePage] = useState("pc437");
+  const [cut, setCut] = useState(true);
+  const [drawerKick, setDrawerKick] = useState("cash");
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.getSettings();
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load settings");
+      const s = res.settings ?? {};
+      setBackend(s.printerBackend ?? "html");
+      setConnection(s.printerInterface ?? "network");
+      setAddress(s.printerAddress ?? "");
+      setCodePage(s.printerCodePage ?? "pc437");
+      setCut(s.printerCut !== "false");
+      setDrawerKick(s.printerDrawerKick ?? "cash");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      if (backend === "escpos" && !address.trim()) {
+        throw new Error("Enter the printer's address or device path");
+      }
+      const res = await window.api?.setSettingsMany(currentUser.id, {
+        printerBackend: backend,
+        printerInterface: connection,
+        printerAddress: address.trim(),
+        printerCodePage: codePage,
+        printerCut: String(cut),
+        printerDrawerKick: drawerKick,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+      setSuccess("Saved.");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Both act on the saved settings
+  const run = async (channel: "printer:test" | "printer:openDrawer", done: string) => {
+    setTesting(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await window.api?.invoke(channel);
+      if (!res?.success) throw new Error(res?.error ?? "Printer did not respond");
+      setSuccess(done);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const busy = loading || saving || testing;
+  const escpos = backend === "escpos";
+
+  return (
+    <Card
+      title="Receipt Printer"
+      subtitle="Thermal printers print fastest and sharpest in ESC/POS mode"
+    >
+      {error ? <ErrorBox>{error}</ErrorBox> : null}
+      {success ? <SuccessBox>{success}</SuccessBox> : null}
+
+      <div className="grid grid-cols-12 gap-3">
+        <div className="col-span-12 grid gap-2">
+          <Label>Print bills using</Label>
+          <select
+            className={InputCls}
+            value={backend}
+            onChange={(e) => setBackend(e.target.value)}
+            disabled={busy}
+          >
+            <option value="html">System printer (HTML)</option>
+            <option value="escpos">ESC/POS thermal printer</option>
+          </select>
+        </div>
+        <div className="col-span-12 sm:col-span-4 grid gap-2">
+          <Label>Connection</Label>
+          <select
+            className={InputCls}
+            value={connection}
+            onChange={(e) => setConnection(e.target.value)}
+            disabled={busy || !escpos}
+          >
+            {PRINTER_CONNECTIONS.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-12 sm:col-span-8 grid gap-2">
+          <Label>{connection === "network" ? "IP address" : "Device / shared printer"}</Label>
+          <input
+            className={InputCls}
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder={PRINTER_CONNECTIONS.find((c) => c.value === connection)?.placeholder}
+            disabled={busy || !escpos}
+          />
+        </div>
+
+        <div className="col-span-12 sm:col-span-6 grid gap-2">
+          <Label>Code page</Label>
+          <select
+            className={InputCls}
+            value={codePage}
+            onChange={(e) => setCodePage(e.target.value)}
+            disabled={busy || !escpos}
+          >
+            {Object.entries(CODE_PAGES).map(([key, cp]) => (
+              <option key={key} value={key}>
+                {cp.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-12 sm:col-span-6 grid gap-2">
+          <Label>Cash drawer</Label>
+          <select
+            className={InputCls}
+            value={drawerKick}
+            onChange={(e) => setDrawerKick(e.target.value)}
+            disabled={busy || !escpos}
+          >
+            {DRAWER_KICK_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <label className="col-span-12 flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={cut}
+            onChange={(e) => setCut(e.target.checked)}
+            disabled={busy || !escpos}
+          />
+          Cut the paper after each bill
+        </label>
+      </div>
+
+      <div className="mt-3 text-xs text-slate-500">
+        If the thermal printer can't be reached, bills go to the system printer
+        instead. Z-reports always print through the system printer. Paper width
+        and logo are part of the receipt template.
+      </div>
+
+      <div className="mt-4 flex flex-wrap justify-end gap-2">
+        <button
+          className={BtnSecondary}
+          onClick={() => run("printer:openDrawer", "Drawer opened.")}
+          disabled={busy || !escpos}
+        >
+          Open drawer
+        </button>
+        <button
+          className={BtnSecondary}
+          onClick={() => run("printer:test", "Test page sent.")}
+          disabled={busy || !escpos}
+        >
+          Print test page
+        </button>
+        <button className={BtnPrimary} onClick={save} disabled={busy}>
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Card>
+  );
+}
+
+// Sample bill for the template preview (₹625 paid for ₹645 at MRP)
+const PREVIEW_BILL = {
+  billNo: "INV-000123",
+  items: [
+    { name: "Toor Dal 1kg", qty: 2, price: 165, hsn: "0713" },
+    { name: "Sunflower Oil 1L", qty: 1, price: 189, hsn: "1512" },
+    { name: "Bath Soap 100g", qty: 3, price: 42, hsn: "3401" },
+  ],
+  total: 625,
+  paymentMode: "UPI",
+  taxBreakup: [
+    { gstRate: 5, taxableValue: 476.19, cgst: 11.9, sgst: 11.91, igst: 0 },
+    { gstRate: 18, taxableValue: 105.93, cgst: 9.53, sgst: 9.54, igst: 0 },
+  ],
+};
+
+function ReceiptTemplateTab({ currentUser }: { currentUser: SettingsUser }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [template, setTemplate] = useState<ReceiptTemplate>(DEFAULT_RECEIPT_TEMPLATE);
+  const [store, setStore] = useState({ storeName: "", address: "", phone: "", gstin: "" });
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [res, storeRes] = await Promise.all([
+        window.api?.getSettings(),
+        window.api?.invoke("storeSettings:getOne", { userId: currentUser.id }),
+      ]);
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load settings");
+      const s = res.settings ?? {};
+      const row: StoreRow | null = storeRes?.success ? storeRes.storeSettings ?? null : null;
+      setTemplate(receiptTemplateFrom(s));
+      setStore({
+        storeName: s.storeName || "AVM Store",
+        address: s.storeLocation || row?.address || "",
+        phone: s.storePhone || row?.phone || "",
+        gstin: row?.gstin ?? "",
+      });
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const set = <K extends keyof ReceiptTemplate>(key: K, value: ReceiptTemplate[K]) =>
+    setTemplate((t) => ({ ...t, [key]: value }));
+
+  const chooseLogo = async () => {
+    setError(null);
+    const res = await window.api?.invoke("printer:chooseLogo");
+    if (!res?.success) setError(res?.error ?? "Could not read the logo");
+    else if (res.logo) set("logo", res.logo);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      if (template.showUpiQr && !UPI_ID_RE.test(template.upiId.trim())) {
+        throw new Error("Enter the store's UPI ID (like storename@bank) to print a QR code");
+      }
+      const res = await window.api?.setSettingsMany(currentUser.id, {
+        receiptHeader: template.header.trim(),
+        receiptFooter: template.footer.trim(),
+        receiptLogo: template.logo ?? "",
+        receiptShowGstin: String(template.showGstin),
+        receiptShowTaxBreakup: String(template.showTaxBreakup),
+        receiptShowSavings: String(template.showSavings),
+        receiptShowUpiQr: String(template.showUpiQr),
+        receiptUpiId: template.upiId.trim(),
+        printerPaperWidth: String(template.paperWidth),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+      setSuccess("Saved.");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const preview = useMemo(() => {
+    const bill: BillPayload = {
+      ...PREVIEW_BILL,
+      storeName: store.storeName,
+      address: store.address,
+      phone: store.phone,
+      gstin: store.gstin || null,
+      dateTime: new Date().toLocaleString("en-IN"),
+    };
+    return buildReceiptHtml(bill, template);
+  }, [store, template]);
+
+  const busy = loading || saving;
+  const toggles: { key: "showGstin" | "showTaxBreakup" | "showSavings" | "showUpiQr"; label: string }[] = [
+    { key: "showGstin", label: "Print the store's GSTIN" },
+    { key: "showTaxBreakup", label: "Print the GST breakup table" },
+    { key: "showSavings", label: "Print \"You saved ₹…\" against MRP" },
+    { key: "showUpiQr", label: "Print a UPI QR code for the bill amount" },
+  ];
+
+  return (
+    <Card
+      title="Receipt Template"
+      subtitle="What goes on printed bills, on both the system and thermal printers"
+    >
+      {error ? <ErrorBox>{error}</ErrorBox> : null}
+      {success ? <SuccessBox>{success}</SuccessBox> : null}
+
+      <div className="grid grid-cols-12 gap-4">
+        <div className="col-span-12 xl:col-span-7 grid content-start gap-3">
+          <div className="grid gap-2">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-2">
+              {template.logo ? (
+                <img
+                  src={template.logo}
+                  alt="Receipt logo"
+                  className="h-12 max-w-[160px] rounded border border-slate-200 object-contain"
+                />
+              ) : (
+                <div className="text-sm text-slate-500">No logo</div>
+              )}
+              <button className={BtnSecondary} onClick={chooseLogo} disabled={busy}>
+                Browse…
+              </button>
+              {template.logo ? (
+                <button className={BtnSecondary} onClick={() => set("logo", null)} disabled={busy}>
+                  Remove
+                </button>
+              ) : null}
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Header (printed under the store's address and phone)</Label>
+            <textarea
+              className={InputCls}
+              rows={2}
+              value={template.header}
+              onChange={(e) => set("header", e.target.value)}
+              placeholder="e.g. Fresh vegetables every morning"
+              disabled={busy}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Footer</Label>
+            <textarea
+              className={InputCls}
+              rows={2}
+              value={template.footer}
+              onChange={(e) => set("footer", e.target.value)}
+              disabled={busy}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Paper width</Label>
+            <select
+              className={InputCls}
+              value={template.paperWidth}
+              onChange={(e) => set("paperWidth", e.target.value === "58" ? 58 : 80)}
+              disabled={busy}
+            >
+              <option value="80">80 mm (48 characters)</option>
+              <option value="58">58 mm (32 characters)</option>
+            </select>
+          </div>
+
+          <div className="grid gap-2">
+            {toggles.map((t) => (
+              <label key={t.key} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={template[t.key]}
+                  onChange={(e) => set(t.key, e.target.checked)}
+                  disabled={busy}
+                />
+                {t.label}
+              </label>
+            ))}
+          </div>
+
+          {template.showUpiQr ? (
+            <Field
+              label="Store UPI ID"
+              value={template.upiId}
+              onChange={(v) => set("upiId", v)}
+              disabled={busy}
+            />
+          ) : null}
+
+          <div className="text-xs text-slate-500">
+            Store name, address and phone come from Store Information; the GSTIN
+            from System Settings.
+          </div>
+        </div>
+
+        <div className="col-span-12 xl:col-span-5 grid content-start gap-2">
+          <Label>Preview</Label>
+          <iframe
+            title="Receipt preview"
+            srcDoc={preview}
+            sandbox=""
+            className="h-[640px] w-full rounded-xl border border-slate-200 bg-white"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button className={BtnSecondary} onClick={load} disabled={busy}>
+          Reset
+        </button>
+        <button className={BtnPrimary} onClick={save} disabled={busy}>
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Card>
+  );
+}
+
+// Sample product for the label preview: loose, so the unit price line shows
+const PREVIEW_LABEL: LabelItem = {
+  barcode: "8901234567890",
+  name: "Toor Dal Premium Loose",
+  mrp: 165,
+  unit: "kg",
+  copies: 1,
+};
+
+function LabelsTab({ currentUser }: { currentUser: SettingsUser }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [design, setDesign] = useState<LabelDesign>(DEFAULT_LABEL_DESIGN);
+  const [size, setSize] = useState({ width: "50", height: "25", gap: "2" });
+  const [connection, setConnection] = useState("network");
+  const [address, setAddress] = useState("");
+  const [storeName, setStoreName] = useState("AVM Store");
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.getSettings();
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load settings");
+      const s = res.settings ?? {};
+      const d = labelDesignFrom(s);
+      setDesign(d);
+      setSize({ width: String(d.widthMm), height: String(d.heightMm), gap: String(d.gapMm) });
+      setConnection(s.labelPrinterInterface ?? "network");
+      setAddress(s.labelPrinterAddress ?? "");
+      setStoreName(s.storeName || "AVM Store");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const set = <K extends keyof LabelDesign>(key: K, value: LabelDesign[K]) =>
+    setDesign((d) => ({ ...d, [key]: value }));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await window.api?.setSettingsMany(currentUser.id, {
+        labelShowStoreName: String(design.showStoreName),
+        labelShowName: String(design.showName),
+        labelShowMrp: String(design.showMrp),
+        labelShowUnitPrice: String(design.showUnitPrice),
+        labelSheet: design.sheet,
+        labelLanguage: design.language,
+        labelWidthMm: size.width.trim(),
+        labelHeightMm: size.height.trim(),
+        labelGapMm: size.gap.trim(),
+        labelDpi: String(design.dpi),
+        labelPrinterInterface: connection,
+        labelPrinterAddress: address.trim(),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+      setSuccess("Saved.");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Acts on the saved settings
+  const test = async () => {
+    setTesting(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await window.api?.invoke("labels:test");
+      if (!res?.success) throw new Error(res?.error ?? "Printer did not respond");
+      setSuccess("Test label sent.");
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const preview = useMemo(() => {
+    const mm = (v: string, fallback: number) => (Number(v) > 0 ? Number(v) : fallback);
+    return buildLabelPreviewHtml(
+      PREVIEW_LABEL,
+      {
+        ...design,
+        widthMm: mm(size.width, design.widthMm),
+        heightMm: mm(size.height, design.heightMm),
+      },
+      storeName,
+    );
+  }, [design, size, storeName]);
+
+  const busy = loading || saving || testing;
+  const toggles: {
+    key: "showStoreName" | "showName" | "showMrp" | "showUnitPrice";
+    label: string;
+  }[] = [
+    { key: "showStoreName", label: "Store name" },
+    { key: "showName", label: "Product name" },
+    { key: "showMrp", label: "MRP" },
+    { key: "showUnitPrice", label: "Price per kg / litre for loose goods" },
+  ];
+
+  return (
+    <Card
+      title="Barcode Labels"
+      subtitle="Label layout for A4 label sheets and thermal label printers"
+    >
+      {error ? <ErrorBox>{error}</ErrorBox> : null}
+      {success ? <SuccessBox>{success}</SuccessBox> : null}
+
+      <div className="grid grid-cols-12 gap-4">
+        <div className="col-span-12 xl:col-span-7 grid content-start gap-3">
+          <div className="grid gap-2">
+            <Label>Print on each label</Label>
+            {toggles.map((t) => (
+              <label key={t.key} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={design[t.key]}
+                  onChange={(e) => set(t.key, e.target.checked)}
+                  disabled={busy}
+                />
+                {t.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="grid gap-2">
+            <Label>A4 label sheet</Label>
+            <select
+              className={InputCls}
+              value={design.sheet}
+              onChange={(e) => set("sheet", e.target.value as LabelDesign["sheet"])}
+              disabled={busy}
+            >
+              {Object.entries(LABEL_SHEETS).map(([key, sheet]) => (
+                <option key={key} value={key}>
+                  {sheet.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mt-2 text-sm font-semibold text-slate-900">Label printer</div>
+          <div className="grid grid-cols-12 gap-3">
+            <div className="col-span-12 sm:col-span-6 grid gap-2">
+              <Label>Language</Label>
+              <select
+                className={InputCls}
+                value={design.language}
+                onChange={(e) => set("language", e.target.value as LabelDesign["language"])}
+                disabled={busy}
+              >
+                <option value="tspl">TSPL (TSC, Xprinter, Gprinter, TVS)</option>
+                <option value="zpl">ZPL (Zebra)</option>
+              </select>
+            </div>
+            <div className="col-span-12 sm:col-span-6 grid gap-2">
+              <Label>Resolution</Label>
+              <select
+                className={InputCls}
+                value={design.dpi}
+                onChange={(e) => set("dpi", e.target.value === "300" ? 300 : 203)}
+                disabled={busy}
+              >
+                <option value="203">203 dpi</option>
+                <option value="300">300 dpi</option>
+              </select>
+            </div>
+            <div className="col-span-12 sm:col-span-4 grid gap-2">
+              <Label>Connection</Label>
+              <select
+                className={InputCls}
+                value={connection}
+                onChange={(e) => setConnection(e.target.value)}
+                disabled={busy}
+              >
+                {PRINTER_CONNECTIONS.map((c) => (
+                  <option key={c.value} value={c.value}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-12 sm:col-span-8 grid gap-2">
+              <Label>{connection === "network" ? "IP address" : "Device / shared printer"}</Label>
+              <input
+                className={InputCls}
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder={PRINTER_CONNECTIONS.find((c) => c.value === connection)?.placeholder}
+                disabled={busy}
+              />
+            </div>
+            <Field
+              className="col-span-4"
+              label="Label width (mm)"
+              type="number"
+              value={size.width}
+              onChange={(v) => setSize((s) => ({ ...s, width: v }))}
+              disabled={busy}
+            />
+            <Field
+              className="col-span-4"
+              label="Label height (mm)"
+              type="number"
+              value={size.height}
+              onChange={(v) => setSize((s) => ({ ...s, height: v }))}
+              disabled={busy}
+            />
+            <Field
+              className="col-span-4"
+              label="Gap between labels (mm)"
+              type="number"
+              value={size.gap}
+              onChange={(v) => setSize((s) => ({ ...s, gap: v }))}
+              disabled={busy}
+            />
+          </div>
+
+          <div className="text-xs text-slate-500">
+            Valid EAN-13 barcodes print as EAN-13, everything else as Code 128.
+            Labels 30 mm or taller fit two lines of product name.
+          </div>
+        </div>
+
+        <div className="col-span-12 xl:col-span-5 grid content-start gap-2">
+          <Label>Preview (label printer size)</Label>
+          <iframe
+            title="Label preview"
+            srcDoc={preview}
+            sandbox=""
+            className="h-[240px] w-full rounded-xl border border-slate-200 bg-white"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button className={BtnSecondary} onClick={test} disabled={busy || !address.trim()}>
+          Print test label
+        </button>
+        <button className={BtnSecondary} onClick={load} disabled={busy}>
+          Reset
+        </button>
+        <button className={BtnPrimary} onClick={save} disabled={busy}>
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Card>
+  );
+}
+
+const BACKUP_INTERVALS = [
+  { hours: 0, label: "Off (manual only)" },
+  { hours: 6, label: "Every 6 hours" },
+  { hours: 12, label: "Every 12 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 168, label: "Weekly" },
+];
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function BackupTab({ currentUser }: { currentUser: SettingsUser }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [backingUp, setBackingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [status, setStatus] = useState<BackupStatus | null>(null);
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [folder, setFolder] = useState("");
+  const [intervalHours, setIntervalHours] = useState("24");
+  const [keep, setKeep] = useState("14");
+
+  const [restoreFile, setRestoreFile] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("backup:getStatus");
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load backup settings");
+      const st: BackupStatus = res.status;
+      setStatus(st);
+      setBackups(res.backups ?? []);
+      setFolder(st.folder);
+      setIntervalHours(String(st.intervalHours));
+      setKeep(String(st.keep));
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const browseFolder = async () => {
+    const res = await window.api?.invoke("backup:chooseFolder");
+    if (res?.success && res.folder) setFolder(res.folder);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const k = Number(keep);
+      if (!Number.isInteger(k) || k < 1) throw new Error("Keep at least one backup");
+      const res = await window.api?.setSettingsMany(currentUser.id, {
+        backupFolder: folder.trim(),
+        backupIntervalHours: intervalHours,
+        backupKeep: String(k),
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to save");
+      setSuccess("Saved.");
+      await load();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const backupNow = async () => {
+    setBackingUp(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await window.api?.invoke("backup:run");
+      if (!res?.success) throw new Error(res?.error ?? "Backup failed");
+      setSuccess(`Backed up to ${res.file}`);
+      await load();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const chooseRestoreFile = async () => {
+    const res = await window.api?.invoke("backup:chooseFile");
+    if (res?.success && res.file) setRestoreFile(res.file);
+  };
+
+  const busy = loading || saving || backingUp;
+
+  return (
+    <div className="space-y-4">
+      <Card title="Backups" subtitle="Copies of the shop database, taken while the app is running">
+        {error ? <ErrorBox>{error}</ErrorBox> : null}
+        {success ? <SuccessBox>{success}</SuccessBox> : null}
+        {status?.lastError ? <ErrorBox>Last backup failed: {status.lastError}</ErrorBox> : null}
+
+        <div className="grid grid-cols-12 gap-3">
+          <div className="col-span-12 grid gap-2">
+            <Label>Backup folder (USB drive or network path)</Label>
+            <div className="flex gap-2">
+              <input
+                className={`${InputCls} flex-1`}
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                disabled={busy}
+              />
+              <button className={BtnSecondary} onClick={browseFolder} disabled={busy}>
+                Browse…
+              </button>
+            </div>
+          </div>
+          <div className="col-span-12 sm:col-span-6 grid gap-2">
+            <Label>Automatic backup</Label>
+            <select
+              className={InputCls}
+              value={intervalHours}
+              onChange={(e) => setIntervalHours(e.target.value)}
+              disabled={busy}
+            >
+              {BACKUP_INTERVALS.map((i) => (
+                <option key={i.hours} value={String(i.hours)}>
+                  {i.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Field
+            className="col-span-12 sm:col-span-6"
+            label="Backups to keep"
+            value={keep}
+            onChange={setKeep}
+            type="number"
+            disabled={busy}
+          />
+        </div>
+
+        <div className="mt-4 flex items-center justify-between gap-2">
+          <div className="text-xs text-slate-500">
+            Last backup:{" "}
+            {status?.lastBackupAt ? new Date(status.lastBackupAt).toLocaleString() : "never"}
+          </div>
+          <div className="flex gap-2">
+            <button className={BtnSecondary} onClick={backupNow} disabled={busy}>
+              {backingUp ? "Backing up…" : "Backup now"}
+            </button>
+            <button className={BtnPrimary} onClick={save} disabled={busy}>
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+      </Card>
+
+      <Card title="Restore" subtitle="Replace the current data with a backup; the app restarts afterwards">
+        <div className="flex justify-end">
+          <button className={BtnSecondary} onClick={chooseRestoreFile} disabled={busy}>
+            Restore from file…
+          </button>
+        </div>
+
+        <div className="mt-3 overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>Backup</Th>
+                <Th>Taken</Th>
+                <Th className="text-right">Size</Th>
+                <Th className="text-right">Action</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {backups.length === 0 ? (
+                <tr>
+                  <Td className="text-slate-500" colSpan={4}>
+                    No backups in this folder yet.
+                  </Td>
+                </tr>
+              ) : (
+                backups.map((b) => (
+                  <tr key={b.file}>
+                    <Td className="font-mono text-xs">{b.name}</Td>
+                    <Td className="whitespace-nowrap">{new Date(b.modifiedAt).toLocaleString()}</Td>
+                    <Td className="text-right">{formatSize(b.size)}</Td>
+                    <Td className="text-right">
+                      <button
+                        className="text-xs font-medium text-slate-600 hover:text-slate-900"
+                        onClick={() => setRestoreFile(b.file)}
+                        disabled={busy}
+                      >
+                        Restore
+                      </button>
+                    </Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {restoreFile ? (
+        <RestoreWizard file={restoreFile} onClose={() => setRestoreFile(null)} />
+      ) : null}
+    </div>
+  );
+}
+
+// Validate -> review the backup's contents -> confirm -> restore and restart
+function RestoreWizard({ file, onClose }: { file: string; onClose: () => void }) {
+  const [summary, setSummary] = useState<BackupSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [done, setDone] = useState<string | null>(null);
+
+  useEffect(() => {
+    void (async () => {
+      const res = await window.api?.invoke("backup:inspect", { file });
+      if (res?.success) setSummary(res.summary);
+      else setError(res?.error ?? "Could not read this backup");
+    })();
+  }, [file]);
+
+  const restore = async () => {
+    setRestoring(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("backup:restore", { file });
+      if (!res?.success) throw new Error(res?.error ?? "Restore failed");
+      setDone(res.safetyCopy);
+    } catch (e) {
+      setError(String(e));
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Modal title="Restore backup" onClose={restoring ? () => {} : onClose}>
+      <div className="text-xs text-slate-500 break-all">{file}</div>
+
+      {error ? (
+        <div className="mt-3">
+          <ErrorBox>{error}</ErrorBox>
+        </div>
+      ) : null}
+
+      {!summary && !error ? <div className="mt-3 text-sm text-slate-500">Checking backup…</div> : null}
+
+      {summary ? (
+        <div className="mt-3 space-y-3">
+          <div className="rounded-xl border border-emerald-100 bg-emerald-50 p-3 text-sm text-emerald-800">
+            Backup is intact ({formatSize(summary.size)}, taken{" "}
+            {new Date(summary.modifiedAt).toLocaleString()}).
+          </div>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {(
+              [
+                ["Products", summary.counts.products],
+                ["Bills", summary.counts.receipts],
+                ["Customers", summary.counts.customers],
+                ["Users", summary.counts.users],
+              ] as const
+            ).map(([label, n]) => (
+              <div key={label} className="rounded-xl border border-slate-200 p-3">
+                <div className="text-lg font-semibold text-slate-900">{n}</div>
+                <div className="text-xs text-slate-500">{label}</div>
+              </div>
+            ))}
+          </div>
+          <div className="text-sm text-slate-700">
+            Last sale in backup:{" "}
+            {summary.lastSaleAt ? new Date(summary.lastSaleAt).toLocaleString() : "none"}
+          </div>
+
+          {done ? (
+            <SuccessBox>
+              Restored. The app is restarting… Your previous data was saved to {done}.
+            </SuccessBox>
+          ) : (
+            <>
+              <label className="flex items-start gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={confirmed}
+                  onChange={(e) => setConfirmed(e.target.checked)}
+                  disabled={restoring}
+                />
+                Replace all current data with this backup. Sales made since it was taken will be lost
+                (a safety copy of the current data is saved first).
+              </label>
+              <div className="flex justify-end gap-2">
+                <button className={BtnSecondary} onClick={onClose} disabled={restoring}>
+                  Cancel
+                </button>
+                <button className={BtnDanger} onClick={restore} disabled={!confirmed || restoring}>
+                  {restoring ? "Restoring…" : "Restore & restart"}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ) : null}
+    </Modal>
+  );
+}
+
+const AUDIT_ENTITIES = [
+  "product",
+  "category",
+  "supplier",
+  "receipt",
+  "customer",
+  "purchase_order",
+  "goods_received_note",
+  "credit_note",
+  "shift",
+  "supervisor_override",
+  "promotion",
+  "user",
+  "permissions",
+  "settings",
+  "storeSettings",
+  "stock_take",
+  "database",
+];
+
+function AuditTab() {
+  const [from, setFrom] = useState(() => {
+    const d = new Date();
+    d.setDate(1);
+    return d.toISOString().slice(0, 10);
+  });
+  const [to, setTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [action, setAction] = useState("");
+  const [entity, setEntity] = useState("");
+  const [query, setQuery] = useState("");
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [verifying, setVerifying] = useState(false);
+  const [check, setCheck] = useState<AuditCheck | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("audit:getRange", {
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59.999`).toISOString(),
+        action: action || null,
+        entity: entity || null,
+        query: query.trim() || null,
+      });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load audit log");
+      setEntries(res.entries ?? []);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The text search loads on Enter, so typing in it must not refetch
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [from, to, action, entity]);
+
+  const verify = async () => {
+    setVerifying(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("audit:verify");
+      if (!res?.success) throw new Error(res?.error ?? "Integrity check failed to run");
+      setCheck(res.result);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const pretty = (json: string | null) => {
+    if (!json) return "—";
+    try {
+      return JSON.stringify(JSON.parse(json), null, 2);
+    } catch {
+      return json;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card title="Integrity" subtitle="Each entry is chained to the one before it; any edit breaks the chain">
+        {check ? (
+          check.ok ? (
+            <SuccessBox>Chain intact — {check.checked} entries checked.</SuccessBox>
+          ) : (
+            <ErrorBox>
+              Chain broken at entry #{check.brokenAt}: {check.reason}. {check.checked} entries in the log.
+            </ErrorBox>
+          )
+        ) : null}
+        <div className="flex justify-end">
+          <button className={BtnPrimary} onClick={verify} disabled={verifying}>
+            {verifying ? "Verifying…" : "Verify integrity"}
+          </button>
+        </div>
+      </Card>
+
+      <Card title="Audit Log" subtitle="Changes to products, prices, receipts, users and settings">
+        {error ? <ErrorBox>{error}</ErrorBox> : null}
+
+        <div className="grid grid-cols-12 gap-3">
+          <Field className="col-span-12 sm:col-span-3" label="From" value={from} onChange={setFrom} type="date" />
+          <Field className="col-span-12 sm:col-span-3" label="To" value={to} onChange={setTo} type="date" />
+          <div className="col-span-6 sm:col-span-3 grid gap-2">
+            <Label>Action</Label>
+            <select className={InputCls} value={action} onChange={(e) => setAction(e.target.value)}>
+              <option value="">All actions</option>
+              <option value="create">Create</option>
+              <option value="update">Update</option>
+              <option value="delete">Delete</option>
+            </select>
+          </div>
+          <div className="col-span-6 sm:col-span-3 grid gap-2">
+            <Label>Record</Label>
+            <select className={InputCls} value={entity} onChange={(e) => setEntity(e.target.value)}>
+              <option value="">All records</option>
+              {AUDIT_ENTITIES.map((x) => (
+                <option key={x} value={x}>
+                  {x}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-3 flex gap-2">
+          <input
+            className={`${InputCls} flex-1`}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void load();
+            }}
+            placeholder="Search user, record id or changed value"
+          />
+          <button className={BtnSecondary} onClick={load} disabled={loading}>
+            {loading ? "Loading…" : "Search"}
+          </button>
+        </div>
+
+        <div className="mt-3 overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>#</Th>
+                <Th>Time</Th>
+                <Th>User</Th>
+                <Th>Action</Th>
+                <Th>Record</Th>
+                <Th>ID</Th>
+                <Th className="text-right">Changes</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.length === 0 ? (
+                <tr>
+                  <Td className="text-slate-500" colSpan={7}>
+                    No entries in this range.
+                  </Td>
+                </tr>
+              ) : (
+                entries.map((r) => (
+                  <React.Fragment key={r.id}>
+                    <tr>
+                      <Td className="font-mono text-slate-500">{r.id}</Td>
+                      <Td className="whitespace-nowrap">{new Date(r.createdAt).toLocaleString()}</Td>
+                      <Td>{r.actorName ?? "—"}</Td>
+                      <Td className="capitalize">{r.action}</Td>
+                      <Td>{r.entity}</Td>
+                      <Td className="font-mono">{r.entityId ?? "—"}</Td>
+                      <Td className="text-right">
+                        <button
+                          className="text-xs font-medium text-slate-600 hover:text-slate-900"
+                          onClick={() => setExpanded(expanded === r.id ? null : r.id)}
+                        >
+                          {expanded === r.id ? "Hide" : "View"}
+                        </button>
+                      </Td>
+                    </tr>
+                    {expanded === r.id ? (
+                      <tr className="bg-slate-50">
+                        <Td colSpan={7}>
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <Label>Before</Label>
+                              <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-lg border border-slate-200 bg-white p-2 text-xs">
+                                {pretty(r.before)}
+                              </pre>
+                            </div>
+                            <div>
+                              <Label>After</Label>
+                              <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-lg border border-slate-200 bg-white p-2 text-xs">
+                                {pretty(r.after)}
+                              </pre>
+                            </div>
+                          </div>
+                        </Td>
+                      </tr>
+                    ) : null}
+                  </React.Fragment>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
   );
 }
 
@@ -721,8 +2679,16 @@ function Modal({
 function Th({ children, className = "" }: React.PropsWithChildren<{ className?: string }>) {
   return <th className={`px-4 py-3 text-xs font-semibold uppercase tracking-wide ${className}`}>{children}</th>;
 }
-function Td({ children, className = "" }: React.PropsWithChildren<{ className?: string }>) {
-  return <td className={`px-4 py-3 ${className}`}>{children}</td>;
+function Td({
+  children,
+  className = "",
+  colSpan,
+}: React.PropsWithChildren<{ className?: string; colSpan?: number }>) {
+  return (
+    <td className={`px-4 py-3 ${className}`} colSpan={colSpan}>
+      {children}
+    </td>
+  );
 }
 
 function Label({ children }: React.PropsWithChildren) {
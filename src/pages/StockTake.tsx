@@ -0,0 +1,831 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePermissions } from "../lib/Permissions";
+
+type CategoryRow = { id: number; categoryName: string };
+
+type StockTakeStatus = "counting" | "approved" | "cancelled";
+
+type StockTakeRow = {
+  id: number;
+  takeNo: string;
+  scopeLabel: string;
+  status: StockTakeStatus;
+  notes: string | null;
+  createdAt: string | null;
+  createdByName: string | null;
+  closedAt: string | null;
+  items: number;
+  counted: number;
+  varianceValue: number | null; // null without cost.view
+};
+
+type StockTakeDetail = StockTakeRow & { closedByName: string | null };
+
+type StockTakeLine = {
+  id: number;
+  productId: number;
+  productName: string;
+  barcode: string;
+  unit: string;
+  systemQty: number;
+  countedQty: number | null;
+  unitCost: number | null;
+  variance: number | null;
+  varianceValue: number | null;
+};
+
+type ScopeType = "all" | "category" | "warehouse";
+
+type LineFilter = "all" | "uncounted" | "variance";
+
+function fmtINR(n: number) {
+  return `₹${Number(n || 0).toFixed(2)}`;
+}
+
+function fmtDate(v: string | null) {
+  return v ? new Date(v).toLocaleString() : "—";
+}
+
+function fmtQty(n: number) {
+  return Number.isInteger(n) ? String(n) : n.toFixed(3);
+}
+
+export default function StockTakePage() {
+  const { can } = usePermissions();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [takes, setTakes] = useState<StockTakeRow[]>([]);
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [warehouses, setWarehouses] = useState<string[]>([]);
+
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  // New count
+  const [creating, setCreating] = useState(false);
+  const [scopeType, setScopeType] = useState<ScopeType>("category");
+  const [scopeCategoryId, setScopeCategoryId] = useState<number | "">("");
+  const [scopeWarehouse, setScopeWarehouse] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [takeRes, catRes, prodRes] = await Promise.all([
+        window.api?.invoke("stockTake:getAll"),
+        window.api?.getCategories(),
+        window.api?.getProducts(),
+      ]);
+      if (!takeRes?.success)
+        throw new Error(takeRes?.error ?? "Failed to load stock takes");
+
+      setTakes((takeRes.takes ?? []) as StockTakeRow[]);
+      if (catRes?.success) {
+        setCategories((catRes.categories ?? []) as CategoryRow[]);
+      }
+      if (prodRes?.success) {
+        const names = new Map<string, string>();
+        for (const p of prodRes.products ?? []) {
+          const w = String(p.warehouse ?? "").trim();
+          if (w) names.set(w.toLowerCase(), w);
+        }
+        setWarehouses([...names.values()].sort());
+      }
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const startCount = async () => {
+    const scope =
+      scopeType === "category"
+        ? { type: "category", categoryId: Number(scopeCategoryId) }
+        : scopeType === "warehouse"
+          ? { type: "warehouse", warehouse: scopeWarehouse }
+          : { type: "all" };
+    if (scopeType === "category" && !scopeCategoryId) {
+      setError("Choose a category");
+      return;
+    }
+    if (scopeType === "warehouse" && !scopeWarehouse) {
+      setError("Choose a warehouse");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("stockTake:start", { scope, notes });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to start count");
+      setCreating(false);
+      setNotes("");
+      await refresh();
+      setOpenId(res.stockTakeId);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (openId != null) {
+    return (
+      <StockTakeView
+        id={openId}
+        canApprove={can("stock.adjust")}
+        onBack={() => {
+          setOpenId(null);
+          void refresh();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">Stock Take</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Count shelves by category or warehouse and post the differences.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button className={BtnSecondary} onClick={refresh} disabled={loading}>
+            Refresh
+          </button>
+          <button
+            className={BtnPrimary}
+            onClick={() => {
+              setError(null);
+              setCreating(true);
+            }}
+          >
+            New Count
+          </button>
+        </div>
+      </div>
+
+      {error && !creating ? (
+        <div className="mt-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-5 rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[900px] text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>Count #</Th>
+                <Th>Scope</Th>
+                <Th>Started</Th>
+                <Th>Counted</Th>
+                <Th className="text-right">Variance at cost</Th>
+                <Th>Status</Th>
+                <Th className="text-right">Actions</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <Td className="text-slate-500">Loading...</Td>
+                </tr>
+              ) : takes.length === 0 ? (
+                <tr>
+                  <Td className="text-slate-500">No stock takes yet.</Td>
+                </tr>
+              ) : (
+                takes.map((t) => (
+                  <tr key={t.id} className="hover:bg-slate-50">
+                    <Td className="font-medium text-slate-900">{t.takeNo}</Td>
+                    <Td>{t.scopeLabel}</Td>
+                    <Td>
+                      <div>{fmtDate(t.createdAt)}</div>
+                      <div className="text-xs text-slate-500">
+                        {t.createdByName ?? "—"}
+                      </div>
+                    </Td>
+                    <Td>
+                      {t.counted} / {t.items}
+                    </Td>
+                    <Td
+                      className={`text-right ${
+                        (t.varianceValue ?? 0) < 0 ? "text-rose-700" : ""
+                      }`}
+                    >
+                      {t.varianceValue == null ? "—" : fmtINR(t.varianceValue)}
+                    </Td>
+                    <Td>
+                      <StatusBadge status={t.status} />
+                    </Td>
+                    <Td className="text-right">
+                      <button
+                        className={BtnSecondary}
+                        onClick={() => setOpenId(t.id)}
+                      >
+                        {t.status === "counting" ? "Continue" : "View"}
+                      </button>
+                    </Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {creating ? (
+        <Modal title="New stock count" onClose={() => setCreating(false)}>
+          {error ? (
+            <div className="mb-4 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">
+              {error}
+            </div>
+          ) : null}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label>Count</Label>
+              <select
+                className={InputCls}
+                value={scopeType}
+                onChange={(e) => setScopeType(e.target.value as ScopeType)}
+              >
+                <option value="category">One category</option>
+                <option value="warehouse">One warehouse</option>
+                <option value="all">All products</option>
+              </select>
+            </div>
+
+            {scopeType === "category" ? (
+              <div className="grid gap-2">
+                <Label>Category</Label>
+                <select
+                  className={InputCls}
+                  value={scopeCategoryId}
+                  onChange={(e) =>
+                    setScopeCategoryId(
+                      e.target.value ? Number(e.target.value) : "",
+                    )
+                  }
+                >
+                  <option value="">Choose...</option>
+                  {categories.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.categoryName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : scopeType === "warehouse" ? (
+              <div className="grid gap-2">
+                <Label>Warehouse</Label>
+                <select
+                  className={InputCls}
+                  value={scopeWarehouse}
+                  onChange={(e) => setScopeWarehouse(e.target.value)}
+                >
+                  <option value="">Choose...</option>
+                  {warehouses.map((w) => (
+                    <option key={w} value={w}>
+                      {w}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div />
+            )}
+
+            <Field
+              className="sm:col-span-2"
+              label="Notes"
+              value={notes}
+              onChange={setNotes}
+              placeholder="e.g. Monthly count, aisle 3"
+            />
+          </div>
+
+          <div className="mt-3 text-xs text-slate-500">
+            System quantities are captured now. Sales made while counting are
+            not undone when the count is approved.
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              className={BtnSecondary}
+              onClick={() => setCreating(false)}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button className={BtnPrimary} onClick={startCount} disabled={saving}>
+              {saving ? "Starting..." : "Start Count"}
+            </button>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
+
+function StockTakeView({
+  id,
+  canApprove,
+  onBack,
+}: {
+  id: number;
+  canApprove: boolean;
+  onBack: () => void;
+}) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [take, setTake] = useState<StockTakeDetail | null>(null);
+  const [lines, setLines] = useState<StockTakeLine[]>([]);
+
+  const [scan, setScan] = useState("");
+  const [scanQty, setScanQty] = useState("1");
+  const [scanMode, setScanMode] = useState<"add" | "set">("add");
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const [filter, setFilter] = useState<LineFilter>("all");
+  const [q, setQ] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke("stockTake:get", { id });
+      if (!res?.success) throw new Error(res?.error ?? "Failed to load count");
+      setTake(res.take as StockTakeDetail);
+      setLines((res.lines ?? []) as StockTakeLine[]);
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const counting = take?.status === "counting";
+
+  useEffect(() => {
+    if (counting) scanRef.current?.focus();
+  }, [counting]);
+
+  // Applies a recorded count to the sheet without reloading it
+  const applyCount = (productId: number, countedQty: number) => {
+    setLines((prev) =>
+      prev.map((l) => {
+        if (l.productId !== productId) return l;
+        const variance = countedQty - l.systemQty;
+        return {
+          ...l,
+          countedQty,
+          variance,
+          varianceValue: l.unitCost == null ? null : variance * l.unitCost,
+        };
+      }),
+    );
+  };
+
+  const record = async (
+    args: { barcode?: string; productId?: number },
+    qty: number,
+    mode: "add" | "set",
+  ) => {
+    setError(null);
+    const res = await window.api?.invoke("stockTake:count", {
+      stockTakeId: id,
+      ...args,
+      qty,
+      mode,
+    });
+    if (!res?.success) throw new Error(res?.error ?? "Failed to record count");
+    applyCount(res.line.productId, res.line.countedQty);
+    return res.line as { productName: string; countedQty: number };
+  };
+
+  const submitScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const barcode = scan.trim();
+    if (!barcode) return;
+
+    const qty = Number(scanQty || 1);
+    setScan("");
+    try {
+      const line = await record({ barcode }, qty, scanMode);
+      setNotice(`${line.productName}: counted ${fmtQty(line.countedQty)}`);
+    } catch (err) {
+      setNotice(null);
+      setError(String(err));
+    } finally {
+      scanRef.current?.focus();
+    }
+  };
+
+  const setCounted = async (line: StockTakeLine, value: string) => {
+    if (value.trim() === "") return;
+    const qty = Number(value);
+    if (qty === line.countedQty) return;
+    try {
+      await record({ productId: line.productId }, qty, "set");
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const close = async (action: "approve" | "cancel") => {
+    if (!take) return;
+    const prompt =
+      action === "approve"
+        ? `Approve ${take.takeNo}? Stock of every counted product will be adjusted to the count.`
+        : `Cancel ${take.takeNo}? Counts are kept on record but stock is not changed.`;
+    if (!confirm(prompt)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await window.api?.invoke(`stockTake:${action}`, { id });
+      if (!res?.success) throw new Error(res?.error ?? `Failed to ${action}`);
+      setNotice(
+        action === "approve"
+          ? `Approved: ${res.result.adjusted} product(s) adjusted.`
+          : "Count cancelled.",
+      );
+      await load();
+    } catch (e) {
+      setError(String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const summary = useMemo(() => {
+    const counted = lines.filter((l) => l.countedQty != null);
+    const varied = counted.filter((l) => (l.variance ?? 0) !== 0);
+    const costKnown = lines.some((l) => l.unitCost != null);
+    const sum = (pred: (v: number) => boolean) =>
+      varied.reduce(
+        (acc, l) =>
+          pred(l.varianceValue ?? 0) ? acc + (l.varianceValue ?? 0) : acc,
+        0,
+      );
+    return {
+      counted: counted.length,
+      varied: varied.length,
+      costKnown,
+      shortage: sum((v) => v < 0),
+      excess: sum((v) => v > 0),
+    };
+  }, [lines]);
+
+  const visible = useMemo(() => {
+    const query = q.trim().toLowerCase();
+    return lines.filter((l) => {
+      const matchesQ =
+        !query ||
+        l.productName.toLowerCase().includes(query) ||
+        l.barcode.toLowerCase().includes(query);
+      const matchesFilter =
+        filter === "all" ||
+        (filter === "uncounted" && l.countedQty == null) ||
+        (filter === "variance" && (l.variance ?? 0) !== 0);
+      return matchesQ && matchesFilter;
+    });
+  }, [lines, q, filter]);
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900">
+            {take ? take.takeNo : "Stock Take"}
+          </h1>
+          {take ? (
+            <p className="mt-1 text-sm text-slate-500">
+              {take.scopeLabel} · started {fmtDate(take.createdAt)} by{" "}
+              {take.createdByName ?? "—"}
+              {take.closedAt
+                ? ` · ${take.status} ${fmtDate(take.closedAt)} by ${take.closedByName ?? "—"}`
+                : ""}
+            </p>
+          ) : null}
+          {take?.notes ? (
+            <p className="mt-1 text-xs text-slate-500">{take.notes}</p>
+          ) : null}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {take ? <StatusBadge status={take.status} /> : null}
+          <button className={BtnSecondary} onClick={onBack}>
+            Back
+          </button>
+          {counting && canApprove ? (
+            <>
+              <button
+                className={BtnSecondary}
+                onClick={() => close("cancel")}
+                disabled={busy}
+              >
+                Cancel Count
+              </button>
+              <button
+                className={BtnPrimary}
+                onClick={() => close("approve")}
+                disabled={busy || summary.counted === 0}
+              >
+                Approve
+              </button>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-xl border border-rose-100 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+      {notice && !error ? (
+        <div className="mt-4 rounded-xl border border-emerald-100 bg-emerald-50 p-4 text-sm text-emerald-700">
+          {notice}
+        </div>
+      ) : null}
+
+      <div className="mt-5 grid gap-3 sm:grid-cols-4">
+        <SummaryCard label="Counted" value={`${summary.counted} / ${lines.length}`} />
+        <SummaryCard label="With variance" value={String(summary.varied)} />
+        <SummaryCard
+          label="Shortage at cost"
+          value={summary.costKnown ? fmtINR(summary.shortage) : "—"}
+        />
+        <SummaryCard
+          label="Excess at cost"
+          value={summary.costKnown ? fmtINR(summary.excess) : "—"}
+        />
+      </div>
+
+      {counting ? (
+        <form
+          className="mt-5 flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm sm:flex-row sm:items-end"
+          onSubmit={submitScan}
+        >
+          <div className="grid flex-1 gap-2">
+            <Label>Scan or type a barcode</Label>
+            <input
+              ref={scanRef}
+              className={InputCls}
+              value={scan}
+              onChange={(e) => setScan(e.target.value)}
+              placeholder="Barcode"
+            />
+          </div>
+          <div className="grid w-28 gap-2">
+            <Label>Quantity</Label>
+            <input
+              className={InputCls}
+              value={scanQty}
+              onChange={(e) => setScanQty(e.target.value)}
+              type="number"
+              min={0}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Each scan</Label>
+            <select
+              className={InputCls}
+              value={scanMode}
+              onChange={(e) => setScanMode(e.target.value as "add" | "set")}
+            >
+              <option value="add">Adds to the count</option>
+              <option value="set">Replaces the count</option>
+            </select>
+          </div>
+          <button className={BtnPrimary} type="submit">
+            Record
+          </button>
+        </form>
+      ) : null}
+
+      <div className="mt-5 rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="flex flex-col gap-3 border-b border-slate-100 p-4 sm:flex-row sm:items-center">
+          <input
+            className={`${InputCls} sm:w-72`}
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            placeholder="Search product or barcode"
+          />
+          <select
+            className={InputCls}
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as LineFilter)}
+          >
+            <option value="all">All products</option>
+            <option value="uncounted">Not counted yet</option>
+            <option value="variance">With variance</option>
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[900px] text-left text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <Th>Barcode</Th>
+                <Th>Product</Th>
+                <Th className="text-right">System</Th>
+                <Th className="text-right">Counted</Th>
+                <Th className="text-right">Variance</Th>
+                <Th className="text-right">Cost</Th>
+                <Th className="text-right">Variance at cost</Th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <Td className="text-slate-500">Loading...</Td>
+                </tr>
+              ) : visible.length === 0 ? (
+                <tr>
+                  <Td className="text-slate-500">No products.</Td>
+                </tr>
+              ) : (
+                visible.map((l) => (
+                  <tr key={l.id} className="hover:bg-slate-50">
+                    <Td className="font-mono text-xs">{l.barcode}</Td>
+                    <Td>{l.productName}</Td>
+                    <Td className="text-right">
+                      {fmtQty(l.systemQty)} {l.unit}
+                    </Td>
+                    <Td className="text-right">
+                      {counting ? (
+                        <input
+                          key={`${l.id}:${l.countedQty}`}
+                          className={`${InputCls} w-24 text-right`}
+                          type="number"
+                          min={0}
+                          defaultValue={l.countedQty ?? ""}
+                          placeholder="—"
+                          onBlur={(e) => void setCounted(l, e.target.value)}
+                        />
+                      ) : l.countedQty == null ? (
+                        <span className="text-slate-400">Not counted</span>
+                      ) : (
+                        fmtQty(l.countedQty)
+                      )}
+                    </Td>
+                    <Td
+                      className={`text-right font-medium ${
+                        (l.variance ?? 0) < 0
+                          ? "text-rose-700"
+                          : (l.variance ?? 0) > 0
+                            ? "text-emerald-700"
+                            : "text-slate-500"
+                      }`}
+                    >
+                      {l.variance == null
+                        ? "—"
+                        : `${l.variance > 0 ? "+" : ""}${fmtQty(l.variance)}`}
+                    </Td>
+                    <Td className="text-right">
+                      {l.unitCost == null ? "—" : fmtINR(l.unitCost)}
+                    </Td>
+                    <Td className="text-right">
+                      {l.varianceValue == null ? "—" : fmtINR(l.varianceValue)}
+                    </Td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: StockTakeStatus }) {
+  const cls =
+    status === "approved"
+      ? "border-emerald-100 bg-emerald-50 text-emerald-700"
+      : status === "cancelled"
+        ? "border-slate-200 bg-slate-50 text-slate-500"
+        : "border-sky-100 bg-sky-50 text-sky-700";
+
+  return (
+    <span
+      className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-medium ${cls}`}
+    >
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </span>
+  );
+}
+
+function SummaryCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="text-xs font-medium text-slate-500">{label}</div>
+      <div className="mt-1 text-lg font-semibold text-slate-900">{value}</div>
+    </div>
+  );
+}
+
+function Modal({
+  title,
+  children,
+  onClose,
+}: React.PropsWithChildren<{ title: string; onClose: () => void }>) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3 border-b border-slate-100 p-4">
+          <div className="text-sm font-semibold text-slate-900">{title}</div>
+          <button className={BtnSecondary} onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="p-4">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+function Th({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return (
+    <th
+      className={`px-4 py-3 text-xs font-semibold uppercase tracking-wide ${className}`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function Td({
+  children,
+  className = "",
+}: React.PropsWithChildren<{ className?: string }>) {
+  return <td className={`px-4 py-3 ${className}`}>{children}</td>;
+}
+
+function Label({ children }: React.PropsWithChildren) {
+  return <div className="text-xs font-medium text-slate-600">{children}</div>;
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  placeholder,
+  className = "",
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}) {
+  return (
+    <div className={`${className} grid gap-2`}>
+      <Label>{label}</Label>
+      <input
+        className={InputCls}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+}
+
+const InputCls =
+  "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-slate-300";
+const BtnPrimary =
+  "rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:opacity-50";
+const BtnSecondary =
+  "rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50";
@@ -4,7 +4,12 @@ declare global {
   interface Window {
     api?: {
       // Auth
-      checkInit: () => Promise<{ success: boolean; isInit?: boolean; error?: string }>;
+      checkInit: () => Promise<{
+        success: boolean;
+        isInit?: boolean;
+        error?: string;
+        migration?: { version: number; name: string; backup: string | null } | null;
+      }>;
       setupAdmin: (data: { name: string; password: string }) => Promise<{ success: boolean; error?: string }>;
       login: (data: { name: string; password: string }) => Promise<{ success: boolean; user?: any; error?: string }>;
 
@@ -17,13 +22,12 @@ declare global {
       // POS/Receipts
       getReceipts: () => Promise<{ success: boolean; allRec?: any[]; error?: string }>;
       getReceiptsRange: (from: string, to: string) => Promise<{ success: boolean; receipts?: any[]; error?: string }>;
-      createReceipt: (data: any) => Promise<{ success: boolean; receiptId?: number; error?: string }>;
       checkout: (data: any) => Promise<{ success: boolean; receiptId?: number; totalAmount?: number; error?: string }>;
 
       // Logs / Reports
       getLogsRange: (from: string, to: string) => Promise<{ success: boolean; logs?: any[]; error?: string }>;
-      getTodayDashboard: () => Promise<{ success: boolean; metrics?: any; recentReceipts?: any[]; error?: string }>;
-      getSalesRange: (from: string, to: string) => Promise<{ success: boolean; receipts?: any[]; logs?: any[]; products?: any[]; categories?: any[]; error?: string }>;
+      getTodayDashboard: () => Promise<{ success: boolean; metrics?: any; recentReceipts?: any[]; expiringBatches?: unknown[]; error?: string }>;
+      getSalesRange: (from: string, to: string) => Promise<{ success: boolean; receipts?: any[]; returns?: unknown[]; logs?: any[]; products?: any[]; categories?: any[]; error?: string }>;
 
       // Settings
       getSettings: () => Promise<{ success: boolean; settings?: Record<string, string>; error?: string }>;